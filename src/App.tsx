@@ -12,22 +12,31 @@ import { NosotrosPage } from "./pages/NosotrosPage";
 import { LoginPage } from "./pages/LoginPage";
 import { RegistroPage } from "./pages/RegistroPage";
 import { PerfilPage } from "./pages/PerfilPage";
-<<<<<<< HEAD
-=======
+import { SeguimientoPage } from "./pages/SeguimientoPage";
+import { PedidoDetallePage } from "./pages/PedidoDetallePage";
 import { RequireCustomer } from "./routes/RequireCustomer";
 import { RequireAdmin } from "./routes/RequireAdmin";
->>>>>>> master
 import { AdminLoginPage } from "./pages/admin/AdminLoginPage";
 import { AdminLayout } from "./pages/admin/AdminLayout";
 import { AdminHomePage } from "./pages/admin/AdminHomePage";
 import { AdminProductosPage } from "./pages/admin/AdminProductosPage";
+import { AdminCuponesPage } from "./pages/admin/AdminCuponesPage";
+import { AdminEnviosPage } from "./pages/admin/AdminEnviosPage";
 import { AdminUsuariosPage } from "./pages/admin/AdminUsuariosPage";
 import { AdminUsuariosNuevoPage } from "./pages/admin/AdminUsuariosNuevoPage";
 import { AdminPedidosPage } from "./pages/admin/AdminPedidosPage";
+import { AdminReposicionPage } from "./pages/admin/AdminReposicionPage";
+import { AdminIngredientesPage } from "./pages/admin/AdminIngredientesPage";
+import { AdminConteoPage } from "./pages/admin/AdminConteoPage";
+import { AdminAnaliticaPage } from "./pages/admin/AdminAnaliticaPage";
 import { VendedorLayout } from "./pages/vendor/VendedorLayout";
 import { VendedorHomePage } from "./pages/vendor/VendedorHomePage";
 import { VendedorInventarioPage } from "./pages/vendor/VendedorInventarioPage";
 import { VendedorPedidosPage } from "./pages/vendor/VendedorPedidosPage";
+import { VendedorProduccionPage } from "./pages/vendor/VendedorProduccionPage";
+import { VendedorReposicionPage } from "./pages/vendor/VendedorReposicionPage";
+import { VendedorIngredientesPage } from "./pages/vendor/VendedorIngredientesPage";
+import { VendedorConteoPage } from "./pages/vendor/VendedorConteoPage";
 
 function App() {
   return (
@@ -46,11 +55,7 @@ function App() {
             <Route path="blog/:slug" element={<BlogDetallePage />} />
             <Route path="login" element={<LoginPage />} />
             <Route path="registro" element={<RegistroPage />} />
-<<<<<<< HEAD
-            <Route path="perfil" element={<PerfilPage />} />
-            <Route path="admin/login" element={<AdminLoginPage />} />
-            <Route path="admin" element={<AdminLayout />}>
-=======
+            <Route path="seguimiento" element={<SeguimientoPage />} />
             <Route
               path="perfil"
               element={(
@@ -59,6 +64,14 @@ function App() {
                 </RequireCustomer>
               )}
             />
+            <Route
+              path="perfil/pedidos/:orderId"
+              element={(
+                <RequireCustomer>
+                  <PedidoDetallePage />
+                </RequireCustomer>
+              )}
+            />
             <Route path="admin/login" element={<AdminLoginPage />} />
             <Route
               path="admin"
@@ -68,17 +81,19 @@ function App() {
                 </RequireAdmin>
               )}
             >
->>>>>>> master
               <Route index element={<AdminHomePage />} />
               <Route path="productos" element={<AdminProductosPage />} />
               <Route path="producto-nuevo" element={<Navigate to="/admin/productos" replace />} />
+              <Route path="cupones" element={<AdminCuponesPage />} />
+              <Route path="envios" element={<AdminEnviosPage />} />
               <Route path="usuarios" element={<AdminUsuariosPage />} />
               <Route path="usuario-nuevo" element={<AdminUsuariosNuevoPage />} />
               <Route path="pedidos" element={<AdminPedidosPage />} />
+              <Route path="reposicion" element={<AdminReposicionPage />} />
+              <Route path="ingredientes" element={<AdminIngredientesPage />} />
+              <Route path="conteo" element={<AdminConteoPage />} />
+              <Route path="analitica" element={<AdminAnaliticaPage />} />
             </Route>
-<<<<<<< HEAD
-            <Route path="vendedor" element={<VendedorLayout />}>
-=======
             <Route
               path="vendedor"
               element={(
@@ -87,10 +102,13 @@ function App() {
                 </RequireAdmin>
               )}
             >
->>>>>>> master
               <Route index element={<VendedorHomePage />} />
               <Route path="inventario" element={<VendedorInventarioPage />} />
               <Route path="pedidos" element={<VendedorPedidosPage />} />
+              <Route path="produccion" element={<VendedorProduccionPage />} />
+              <Route path="reposicion" element={<VendedorReposicionPage />} />
+              <Route path="ingredientes" element={<VendedorIngredientesPage />} />
+              <Route path="conteo" element={<VendedorConteoPage />} />
             </Route>
             <Route
               path="*"
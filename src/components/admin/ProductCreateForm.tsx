@@ -1,27 +1,8 @@
-<<<<<<< HEAD
-import { useState } from "react";
-import type { FormEvent } from "react";
-import { useAppContext } from "../../context/AppContext";
-import type { Product } from "../../types";
-import { BASE_CATEGORIES } from "../../data/products";
-=======
 import { useMemo, useState } from "react";
 import type { FormEvent } from "react";
 import { useAppContext } from "../../context/AppContext";
 import type { Product } from "../../types";
->>>>>>> master
-
-const INITIAL_FORM = {
-  id: "",
-  nombre: "",
-  categoria: "",
-  attr: "",
-  precio: "",
-  stock: "",
-  stockCritico: "",
-  img: "",
-  descripcion: ""
-};
+import { EMPTY_PRODUCT_FORM, productFromForm, validateProductForm } from "../../utils/productForm";
 
 type ProductCreateFormProps = {
   onCreated?: (product: Product) => void;
@@ -30,10 +11,8 @@ type ProductCreateFormProps = {
 
 export function ProductCreateForm({ onCreated, onClose }: ProductCreateFormProps) {
   const { products, upsertProduct, showNotification } = useAppContext();
-  const [form, setForm] = useState(INITIAL_FORM);
+  const [form, setForm] = useState(EMPTY_PRODUCT_FORM);
   const [errors, setErrors] = useState<Record<string, string>>({});
-<<<<<<< HEAD
-=======
   const [submitting, setSubmitting] = useState(false);
 
   const categories = useMemo(
@@ -43,71 +22,25 @@ export function ProductCreateForm({ onCreated, onClose }: ProductCreateFormProps
       ),
     [products]
   );
->>>>>>> master
 
   const resetForm = () => {
-    setForm(INITIAL_FORM);
+    setForm(EMPTY_PRODUCT_FORM);
     setErrors({});
   };
 
-<<<<<<< HEAD
-  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
-=======
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
->>>>>>> master
     event.preventDefault();
-    const nextErrors: Record<string, string> = {};
-
-    if (!form.id.trim()) {
-      nextErrors.id = "Código requerido";
-    } else if (products.some((product) => product.id.toLowerCase() === form.id.trim().toLowerCase())) {
-      nextErrors.id = "El código ya existe";
-    }
-    if (!form.nombre.trim()) {
-      nextErrors.nombre = "Nombre requerido";
-    }
-    if (!form.categoria.trim()) {
-      nextErrors.categoria = "Categoría requerida";
-    }
-
-    const precio = Number(form.precio);
-    const MIN_PRICE = 1000; // precio mínimo razonable
-    if (!Number.isFinite(precio) || precio < MIN_PRICE) {
-      nextErrors.precio = `Precio inválido (mínimo ${MIN_PRICE})`;
-    }
-
-    const stock = Number(form.stock);
-    if (!Number.isFinite(stock) || stock < 0) {
-      nextErrors.stock = "Stock inválido";
-    }
-
-    const stockCritico = Number(form.stockCritico);
-    if (!Number.isFinite(stockCritico) || stockCritico < 0) {
-      nextErrors.stockCritico = "Stock crítico inválido";
-    }
-
+    const nextErrors = validateProductForm(form, {
+      existingIds: products.map((product) => product.id),
+      isNew: true
+    });
     if (Object.keys(nextErrors).length) {
       setErrors(nextErrors);
       return;
     }
 
-    const payload: Product = {
-      id: form.id.trim().toUpperCase(),
-      nombre: form.nombre.trim(),
-      categoria: form.categoria.trim(),
-      attr: form.attr.trim(),
-      precio: Math.round(precio),
-      stock: Math.round(stock),
-      stockCritico: Math.round(stockCritico),
-      img: form.img.trim().startsWith("/")
-        ? form.img.trim()
-        : form.img.trim() ? `/${form.img.trim()}` : "/img/placeholder.png",
-      descripcion: form.descripcion.trim()
-    };
+    const payload: Product = productFromForm(form);
 
-<<<<<<< HEAD
-    upsertProduct(payload);
-=======
     setSubmitting(true);
     const result = await upsertProduct(payload, { isNew: true });
     setSubmitting(false);
@@ -120,7 +53,6 @@ export function ProductCreateForm({ onCreated, onClose }: ProductCreateFormProps
       return;
     }
 
->>>>>>> master
     showNotification({
       message: "Producto creado correctamente",
       kind: "success",
@@ -166,21 +98,6 @@ export function ProductCreateForm({ onCreated, onClose }: ProductCreateFormProps
       <div className="form-row">
         <div className="form-group">
           <label htmlFor="newCategoria">Categoría</label>
-<<<<<<< HEAD
-          <select
-            id="newCategoria"
-            value={form.categoria}
-            onChange={(event) => setForm((prev) => ({ ...prev, categoria: event.target.value }))}
-            required
-          >
-            <option value="">Seleccione</option>
-            {BASE_CATEGORIES.map((cat) => (
-              <option key={cat} value={cat}>
-                {cat}
-              </option>
-            ))}
-          </select>
-=======
           <input
             id="newCategoria"
             type="text"
@@ -194,7 +111,6 @@ export function ProductCreateForm({ onCreated, onClose }: ProductCreateFormProps
               <option key={cat} value={cat} />
             ))}
           </datalist>
->>>>>>> master
           <small className="help">{errors.categoria}</small>
         </div>
         <div className="form-group">
@@ -246,6 +162,18 @@ export function ProductCreateForm({ onCreated, onClose }: ProductCreateFormProps
           />
           <small className="help">{errors.stockCritico}</small>
         </div>
+        <div className="form-group">
+          <label htmlFor="newLeadTime">Anticipación (horas)</label>
+          <input
+            id="newLeadTime"
+            type="number"
+            placeholder="24"
+            value={form.leadTimeHours}
+            onChange={(event) => setForm((prev) => ({ ...prev, leadTimeHours: event.target.value }))}
+            min={0}
+          />
+          <small className="help">{errors.leadTimeHours}</small>
+        </div>
       </div>
 
       <div className="form-group">
@@ -273,13 +201,8 @@ export function ProductCreateForm({ onCreated, onClose }: ProductCreateFormProps
       </div>
 
       <div className="form-actions">
-<<<<<<< HEAD
-        <button className="btn btn--principal" type="submit">
-          Guardar producto
-=======
         <button className="btn btn--principal" type="submit" disabled={submitting}>
           {submitting ? "Guardando…" : "Guardar producto"}
->>>>>>> master
         </button>
         <button
           className="btn"
@@ -0,0 +1,205 @@
+import { useState } from "react";
+import type { ChangeEvent } from "react";
+import { useAppContext } from "../../context/AppContext";
+import { formatMoney } from "../../utils/format";
+import { CATALOG_COLUMNS, planProductImport, readCatalogFile } from "../../utils/productImport";
+import type { ProductImportPlan } from "../../utils/productImport";
+
+type ProductImportProps = {
+  onClose?: () => void;
+};
+
+const columnLabel = (key: string) => CATALOG_COLUMNS.find((column) => column.key === key)?.header ?? key;
+
+export function ProductImport({ onClose }: ProductImportProps) {
+  const { products, importProducts, showNotification } = useAppContext();
+  const [fileName, setFileName] = useState("");
+  const [plan, setPlan] = useState<ProductImportPlan | null>(null);
+  const [reading, setReading] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    setFileName(file.name);
+    setPlan(null);
+    setReading(true);
+    try {
+      const rows = await readCatalogFile(file);
+      setPlan(planProductImport(rows, products));
+    } catch (error) {
+      console.error("No se pudo leer el archivo", error);
+      showNotification({ message: "No pudimos leer el archivo. Usa CSV o XLSX exportado desde aquí.", kind: "error" });
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!plan) return;
+    setApplying(true);
+    const result = await importProducts({
+      nuevos: plan.nuevos,
+      actualizados: plan.actualizados.map((entry) => entry.after)
+    });
+    setApplying(false);
+    if (result.message) {
+      showNotification({ message: result.message, kind: "error" });
+      return;
+    }
+    const resumen = `${result.created} producto(s) creados y ${result.updated} actualizados.`;
+    if (result.failed.length) {
+      showNotification({
+        message: `${resumen} Fallaron: ${result.failed.map((entry) => `${entry.id} (${entry.message})`).join(", ")}`,
+        kind: "error",
+        mode: "dialog",
+        actionLabel: "Aceptar"
+      });
+    } else {
+      showNotification({ message: resumen, kind: "success" });
+    }
+    setPlan(null);
+    setFileName("");
+  };
+
+  const pendientes = plan ? plan.nuevos.length + plan.actualizados.length : 0;
+
+  return (
+    <div className="admin-form" style={{ marginBottom: "24px" }}>
+      <h2 style={{ marginBottom: "8px" }}>Importar productos</h2>
+      <small className="help">
+        Usa los mismos encabezados de la exportación ({CATALOG_COLUMNS.map((column) => column.header).join(", ")}).
+        El stock solo se toma en productos nuevos; el de los existentes se ajusta con movimientos.
+      </small>
+      <div className="form-row" style={{ marginTop: "12px" }}>
+        <div className="form-group">
+          <label htmlFor="productImportFile">Archivo CSV o XLSX</label>
+          <input
+            id="productImportFile"
+            type="file"
+            accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            onChange={(event) => void handleFile(event)}
+            disabled={reading || applying}
+          />
+        </div>
+      </div>
+      {reading && <p className="muted small">Leyendo {fileName}…</p>}
+
+      {plan && plan.columnasFaltantes.length > 0 && (
+        <p className="error">Faltan columnas obligatorias: {plan.columnasFaltantes.join(", ")}.</p>
+      )}
+
+      {plan && !plan.columnasFaltantes.length && (
+        <>
+          <p>
+            <strong>{fileName}</strong>: {plan.nuevos.length} nuevo(s), {plan.actualizados.length} con cambios,{" "}
+            {plan.sinCambios} sin cambios y {plan.invalidos.length} con errores.
+          </p>
+
+          {plan.nuevos.length > 0 && (
+            <>
+              <h3>Nuevos</h3>
+              <div className="admin-table-wrap">
+                <table className="admin-table">
+                  <thead>
+                    <tr>
+                      <th>Código</th>
+                      <th>Producto</th>
+                      <th>Categoría</th>
+                      <th>Precio</th>
+                      <th>Stock</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {plan.nuevos.map((product) => (
+                      <tr key={product.id}>
+                        <td>{product.id}</td>
+                        <td>{product.nombre}</td>
+                        <td>{product.categoria}</td>
+                        <td>{formatMoney(product.precio)}</td>
+                        <td>{product.stock}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+
+          {plan.actualizados.length > 0 && (
+            <>
+              <h3>Actualizados</h3>
+              <div className="admin-table-wrap">
+                <table className="admin-table">
+                  <thead>
+                    <tr>
+                      <th>Código</th>
+                      <th>Producto</th>
+                      <th>Campos modificados</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {plan.actualizados.map((entry) => (
+                      <tr key={entry.after.id}>
+                        <td>{entry.after.id}</td>
+                        <td>{entry.after.nombre}</td>
+                        <td>{entry.cambios.join(", ")}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+
+          {plan.invalidos.length > 0 && (
+            <>
+              <h3>Filas con errores (no se importan)</h3>
+              <div className="admin-table-wrap">
+                <table className="admin-table">
+                  <thead>
+                    <tr>
+                      <th>Línea</th>
+                      <th>Código</th>
+                      <th>Errores</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {plan.invalidos.map((entry) => (
+                      <tr key={entry.line}>
+                        <td>{entry.line}</td>
+                        <td>{entry.id || "—"}</td>
+                        <td>
+                          {Object.entries(entry.errors)
+                            .map(([key, message]) => `${columnLabel(key)}: ${message}`)
+                            .join(" · ")}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </>
+      )}
+
+      <div className="form-actions" style={{ marginTop: "16px" }}>
+        <button
+          className="btn btn--principal"
+          type="button"
+          onClick={() => void handleApply()}
+          disabled={!pendientes || applying}
+        >
+          {applying ? "Aplicando…" : `Aplicar cambios${pendientes ? ` (${pendientes})` : ""}`}
+        </button>
+        {onClose && (
+          <button className="btn" type="button" onClick={onClose} disabled={applying}>
+            Cerrar
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import type { RankingRow } from "../../utils/salesAnalytics";
+
+type Props = {
+  title: string;
+  rows: RankingRow[];
+  format: (value: number) => string;
+};
+
+const WIDTH = 420;
+const ROW_HEIGHT = 28;
+const LABEL_WIDTH = 150;
+const VALUE_WIDTH = 90;
+
+/** Barras horizontales por ventas; el ancho es relativo al primero del ranking. */
+export function RankingBars({ title, rows, format }: Props) {
+  if (!rows.length) return <p className="muted small">Sin ventas en el período.</p>;
+  const max = Math.max(1, ...rows.map((row) => row.ingresos));
+  const barSpace = WIDTH - LABEL_WIDTH - VALUE_WIDTH;
+
+  return (
+    <figure className="sales-chart">
+      <svg viewBox={`0 0 ${WIDTH} ${rows.length * ROW_HEIGHT}`} role="img" aria-label={title}>
+        <title>{title}</title>
+        {rows.map((row, index) => {
+          const top = index * ROW_HEIGHT;
+          return (
+            <g key={row.key}>
+              <text className="sales-chart__axis" x={0} y={top + 18}>
+                {row.label.length > 22 ? `${row.label.slice(0, 21)}…` : row.label}
+              </text>
+              <rect
+                className="sales-chart__bar"
+                x={LABEL_WIDTH}
+                y={top + 6}
+                width={Math.max(2, (row.ingresos / max) * barSpace)}
+                height={ROW_HEIGHT - 12}
+                rx={3}
+              >
+                <title>
+                  {row.label}: {format(row.ingresos)} · {row.unidades} u.
+                </title>
+              </rect>
+              <text className="sales-chart__axis" x={WIDTH} y={top + 18} textAnchor="end">
+                {format(row.ingresos)}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+      <figcaption className="muted small">{title}</figcaption>
+    </figure>
+  );
+}
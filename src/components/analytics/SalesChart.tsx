@@ -0,0 +1,74 @@
+import type { SeriesPoint } from "../../utils/salesAnalytics";
+
+type Props = {
+  title: string;
+  current: SeriesPoint[];
+  /** Período anterior alineado por posición; se dibuja punteado. */
+  previous?: SeriesPoint[];
+  metric: "ingresos" | "pedidos";
+  format: (value: number) => string;
+};
+
+const WIDTH = 640;
+const HEIGHT = 220;
+const PAD = { top: 12, right: 12, bottom: 28, left: 72 };
+const MAX_X_LABELS = 7;
+
+export function SalesChart({ title, current, previous, metric, format }: Props) {
+  const values = [...current, ...(previous ?? [])].map((point) => point[metric]);
+  const max = Math.max(1, ...values);
+  const plotWidth = WIDTH - PAD.left - PAD.right;
+  const plotHeight = HEIGHT - PAD.top - PAD.bottom;
+  const x = (index: number) => PAD.left + (current.length > 1 ? (index / (current.length - 1)) * plotWidth : plotWidth / 2);
+  const y = (value: number) => PAD.top + plotHeight - (value / max) * plotHeight;
+  const path = (points: SeriesPoint[]) =>
+    points
+      .slice(0, current.length)
+      .map((point, index) => `${x(index).toFixed(1)},${y(point[metric]).toFixed(1)}`)
+      .join(" ");
+  const labelEvery = Math.max(1, Math.ceil(current.length / MAX_X_LABELS));
+
+  return (
+    <figure className="sales-chart">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} role="img" aria-label={title}>
+        <title>{title}</title>
+        {[0, 0.5, 1].map((ratio) => (
+          <g key={ratio}>
+            <line
+              className="sales-chart__grid"
+              x1={PAD.left}
+              x2={WIDTH - PAD.right}
+              y1={y(max * ratio)}
+              y2={y(max * ratio)}
+            />
+            <text className="sales-chart__axis" x={PAD.left - 8} y={y(max * ratio) + 4} textAnchor="end">
+              {format(max * ratio)}
+            </text>
+          </g>
+        ))}
+        {current.map((point, index) =>
+          index % labelEvery === 0 ? (
+            <text key={point.from} className="sales-chart__axis" x={x(index)} y={HEIGHT - 8} textAnchor="middle">
+              {point.label}
+            </text>
+          ) : null
+        )}
+        {previous && previous.length > 0 && (
+          <polyline className="sales-chart__line sales-chart__line--previous" points={path(previous)} />
+        )}
+        <polyline className="sales-chart__line" points={path(current)} />
+        {current.map((point, index) => (
+          <circle key={point.from} className="sales-chart__dot" cx={x(index)} cy={y(point[metric])} r={3}>
+            <title>
+              {point.label}: {format(point[metric])}
+            </title>
+          </circle>
+        ))}
+      </svg>
+      <figcaption className="muted small">
+        {title}
+        {previous ? " · línea punteada: período anterior" : ""}
+      </figcaption>
+    </figure>
+  );
+}
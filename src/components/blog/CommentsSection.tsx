@@ -4,21 +4,13 @@ import { useAppContext } from "../../context/AppContext";
 import { timeAgo } from "../../utils/timeAgo";
 
 interface Props {
-<<<<<<< HEAD
-  postId: string;
-=======
   postSlug: string;
->>>>>>> master
   title?: string;
   emptyMessage?: string;
   placeholder?: string;
 }
 
-<<<<<<< HEAD
-export function CommentsSection({ postId, title, emptyMessage, placeholder }: Props) {
-=======
 export function CommentsSection({ postSlug, title, emptyMessage, placeholder }: Props) {
->>>>>>> master
   const {
     comments,
     customerSession,
@@ -26,11 +18,7 @@ export function CommentsSection({ postSlug, title, emptyMessage, placeholder }:
     editComment,
     deleteComment
   } = useAppContext();
-<<<<<<< HEAD
-  const list = comments[postId] || [];
-=======
   const list = comments[postSlug] || [];
->>>>>>> master
   const sectionTitle = title || "Comentarios";
   const emptyLabel = emptyMessage || "Aún no hay comentarios. ¡Sé el primero!";
   const inputPlaceholder = placeholder || "¿Qué te pareció este artículo?";
@@ -40,22 +28,14 @@ export function CommentsSection({ postSlug, title, emptyMessage, placeholder }:
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editDraft, setEditDraft] = useState("");
 
-<<<<<<< HEAD
-  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
-=======
   const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
->>>>>>> master
     event.preventDefault();
     const text = draft.trim();
     if (!text) {
       setError("Escribe algo.");
       return;
     }
-<<<<<<< HEAD
-    const result = addComment(postId, text);
-=======
     const result = await addComment(postSlug, text);
->>>>>>> master
     if (!result.ok) {
       setError(result.message || "No pudimos publicar tu comentario.");
       return;
@@ -72,11 +52,7 @@ export function CommentsSection({ postSlug, title, emptyMessage, placeholder }:
   const saveEdit = (id: string) => {
     const text = editDraft.trim();
     if (!text) return;
-<<<<<<< HEAD
-    editComment(postId, id, text);
-=======
     editComment(postSlug, id, text);
->>>>>>> master
     setEditingId(null);
     setEditDraft("");
   };
@@ -144,11 +120,7 @@ export function CommentsSection({ postSlug, title, emptyMessage, placeholder }:
                       <button
                         className="btn btn--ghost btn-sm"
                         type="button"
-<<<<<<< HEAD
-                        onClick={() => deleteComment(postId, comment.id)}
-=======
                         onClick={() => deleteComment(postSlug, comment.id)}
->>>>>>> master
                       >
                         Eliminar
                       </button>
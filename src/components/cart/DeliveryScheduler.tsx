@@ -0,0 +1,88 @@
+import { useMemo } from "react";
+import type { DeliverySchedule } from "../../types";
+import { deliveryDays, formatDeliveryDate } from "../../utils/delivery";
+
+export type DeliverySelection = { date: string; slotId: string };
+
+type Props = {
+  schedule: DeliverySchedule;
+  leadHours: number;
+  loading: boolean;
+  error: string | null;
+  value: DeliverySelection | null;
+  onChange: (value: DeliverySelection | null) => void;
+  label?: string;
+};
+
+export function DeliveryScheduler({
+  schedule,
+  leadHours,
+  loading,
+  error,
+  value,
+  onChange,
+  label = "Fecha de entrega"
+}: Props) {
+  const days = useMemo(() => deliveryDays(schedule, leadHours), [schedule, leadHours]);
+  const selectedDay = days.find((day) => day.date === value?.date);
+
+  if (loading) {
+    return <div className="muted small">Cargando horarios de entrega…</div>;
+  }
+  if (error) {
+    return <div className="error small">{error}</div>;
+  }
+  if (!schedule.slots.length) {
+    return <div className="muted small">No hay horarios de entrega configurados.</div>;
+  }
+
+  return (
+    <div className="delivery-scheduler">
+      <p className="muted small">
+        Tu pedido requiere al menos {leadHours} h de anticipación.
+      </p>
+      <div className="delivery-scheduler__days" role="listbox" aria-label={label}>
+        {days.map((day) => {
+          const bookable = !day.holiday && day.slots.some((option) => option.available);
+          const selected = day.date === value?.date;
+          return (
+            <button
+              key={day.date}
+              type="button"
+              role="option"
+              aria-selected={selected}
+              className={`delivery-scheduler__day${selected ? " delivery-scheduler__day--active" : ""}`}
+              disabled={!bookable}
+              title={day.holiday ? "Feriado: sin entregas" : undefined}
+              onClick={() => onChange({ date: day.date, slotId: "" })}
+            >
+              {formatDeliveryDate(day.date)}
+            </button>
+          );
+        })}
+      </div>
+      {selectedDay && (
+        <fieldset className="delivery-scheduler__slots">
+          <legend className="small">Horario</legend>
+          {selectedDay.slots.map(({ slot, remaining, available }) => (
+            <label key={slot.id} className={available ? undefined : "muted"}>
+              <input
+                type="radio"
+                name="deliverySlot"
+                value={slot.id}
+                checked={value?.slotId === slot.id}
+                disabled={!available}
+                onChange={() => onChange({ date: selectedDay.date, slotId: slot.id })}
+              />{" "}
+              {slot.label}
+              <span className="small muted">
+                {" "}
+                {remaining === 0 ? "(completo)" : available ? `(quedan ${remaining})` : "(no disponible)"}
+              </span>
+            </label>
+          ))}
+        </fieldset>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { useEffect, useMemo, useState } from "react";
+import { useAppContext } from "../../context/AppContext";
+import type { StockMovement } from "../../types";
+import { addDays, toIsoDate } from "../../utils/delivery";
+import { formatMoney } from "../../utils/format";
+import { buildExpiredWasteReport } from "../../utils/lots";
+
+const PERIOD_OPTIONS = [7, 30, 90];
+
+export function ExpiredWasteReport() {
+  const { products, stockLots, fetchWasteReport } = useAppContext();
+  const [days, setDays] = useState(30);
+  const [movements, setMovements] = useState<StockMovement[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Se recarga cuando cambian los lotes para incluir las bajas recién registradas.
+  useEffect(() => {
+    let active = true;
+    const today = new Date();
+    void fetchWasteReport(toIsoDate(addDays(today, -(days - 1))), toIsoDate(today)).then((result) => {
+      if (!active) return;
+      setError(result.ok ? null : result.message ?? "No se pudo cargar el reporte");
+      setMovements(result.movements ?? []);
+    });
+    return () => {
+      active = false;
+    };
+  }, [fetchWasteReport, days, stockLots]);
+
+  const rows = useMemo(() => buildExpiredWasteReport(movements ?? [], products), [movements, products]);
+  const total = rows.reduce((acc, row) => acc + row.valor, 0);
+
+  return (
+    <section>
+      <div className="actions-top">
+        <div className="form-group">
+          <label htmlFor="wastePeriod">Mermas por vencimiento de los últimos</label>
+          <select id="wastePeriod" value={days} onChange={(event) => setDays(Number(event.target.value))}>
+            {PERIOD_OPTIONS.map((value) => (
+              <option key={value} value={value}>
+                {value} días
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && <div className="muted small">{error}</div>}
+      {!error && !movements && <div className="muted small">Cargando mermas…</div>}
+      {!error && movements && (
+        <div className="admin-table-wrap">
+          <table className="admin-table">
+            <thead>
+              <tr>
+                <th>Producto</th>
+                <th>Unidades</th>
+                <th>Bajas</th>
+                <th>Valor a precio de venta</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.product.id}>
+                  <td>{row.product.nombre}</td>
+                  <td>{row.unidades}</td>
+                  <td>{row.registros}</td>
+                  <td>{formatMoney(row.valor)}</td>
+                </tr>
+              ))}
+              {rows.length > 0 ? (
+                <tr>
+                  <td colSpan={3}>
+                    <strong>Total</strong>
+                  </td>
+                  <td>
+                    <strong>{formatMoney(total)}</strong>
+                  </td>
+                </tr>
+              ) : (
+                <tr>
+                  <td colSpan={4} style={{ textAlign: "center", padding: "24px" }}>
+                    Sin mermas por vencimiento en el período.
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
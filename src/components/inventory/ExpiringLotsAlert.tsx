@@ -0,0 +1,67 @@
+import { useState } from "react";
+import { useAppContext } from "../../context/AppContext";
+import type { StockLot } from "../../types";
+import { EXPIRED_WASTE_REASON, lotStatus, lotsNeedingAttention, type LotAttention } from "../../utils/lots";
+
+/** Aviso de lotes que vencen hoy o ya vencieron, con baja directa como merma. */
+export function ExpiringLotsAlert() {
+  const { products, orders, stockLots, recordStockMovement, showNotification } = useAppContext();
+  const [discarding, setDiscarding] = useState<string | null>(null);
+
+  const lots = lotsNeedingAttention(stockLots, orders);
+  if (!lots.length) return null;
+
+  const describe = (lot: StockLot) => {
+    const product = products.find((entry) => entry.id === lot.productId);
+    const variant = product?.variants?.find((entry) => entry.id === lot.variantId);
+    return `${product?.nombre ?? lot.productId}${variant ? ` (${variant.label})` : ""}`;
+  };
+
+  // Solo se da de baja lo que no está vendido en pedidos por despachar.
+  const discard = async ({ lot, libre }: LotAttention) => {
+    setDiscarding(lot.id);
+    const result = await recordStockMovement({
+      productId: lot.productId,
+      variantId: lot.variantId,
+      tipo: "merma",
+      cantidad: libre,
+      motivo: EXPIRED_WASTE_REASON,
+      lotId: lot.id
+    });
+    setDiscarding(null);
+    showNotification(
+      result.ok
+        ? { message: `Lote ${lot.codigo} dado de baja (${libre} u.).`, kind: "success" }
+        : { message: result.message ?? "No se pudo dar de baja el lote", kind: "error" }
+    );
+  };
+
+  return (
+    <div className="admin-form lots-alert" role="alert" style={{ marginBottom: "24px" }}>
+      <h3>Lotes por vencer</h3>
+      <ul>
+        {lots.map((entry) => (
+          <li key={entry.lot.id}>
+            <span>
+              <strong>{describe(entry.lot)}</strong> · lote {entry.lot.codigo} · {entry.libre} u. ·{" "}
+              {lotStatus(entry.lot) === "venceHoy" ? "vence hoy" : `vencido el ${entry.lot.venceEl}`}
+              {entry.reservado > 0 && (
+                <span className="muted small"> · {entry.reservado} u. vendidas en pedidos por despachar</span>
+              )}
+            </span>
+            {lotStatus(entry.lot) === "vencido" && entry.libre > 0 && (
+              <button
+                className="btn-delete"
+                type="button"
+                disabled={discarding === entry.lot.id}
+                onClick={() => void discard(entry)}
+              >
+                Dar de baja
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
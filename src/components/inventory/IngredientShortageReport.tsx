@@ -0,0 +1,68 @@
+import { useMemo } from "react";
+import { useAppContext } from "../../context/AppContext";
+import { buildShortageReport, formatQuantity } from "../../utils/recipes";
+
+export function IngredientShortageReport() {
+  const { orders, products, recipes, ingredients } = useAppContext();
+
+  const report = useMemo(() => buildShortageReport(orders, recipes, ingredients), [orders, recipes, ingredients]);
+  const nombre = (codigo: string) => products.find((product) => product.id === codigo)?.nombre ?? codigo;
+
+  return (
+    <section>
+      <div className="admin-widgets" style={{ marginBottom: "24px" }}>
+        <article className="widget">
+          <h3>Faltantes proyectados</h3>
+          <p>
+            <strong>{report.rows.filter((row) => row.faltante > 0).length}</strong> ingredientes no alcanzan para los{" "}
+            {report.pedidos} pedidos pendientes.
+            <br />
+            {report.rows.filter((row) => row.faltante === 0).length} más quedarán bajo su mínimo.
+          </p>
+        </article>
+      </div>
+
+      {report.sinReceta.length > 0 && (
+        <p className="muted small">
+          Sin receta (no se proyectan): {report.sinReceta.map(nombre).join(", ")}.
+        </p>
+      )}
+
+      <div className="admin-table-wrap">
+        <table className="admin-table">
+          <thead>
+            <tr>
+              <th>Ingrediente</th>
+              <th>Disponible</th>
+              <th>Pedidos pendientes</th>
+              <th>Quedará</th>
+              <th>Faltante</th>
+              <th>Productos</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.rows.map((row) => (
+              <tr key={row.ingredient.id} className={row.faltante > 0 ? "stock-row--critical" : undefined}>
+                <td>{row.ingredient.nombre}</td>
+                <td>{formatQuantity(row.ingredient.disponible, row.ingredient.unidad)}</td>
+                <td>{formatQuantity(row.requerido, row.ingredient.unidad)}</td>
+                <td>{formatQuantity(row.restante, row.ingredient.unidad)}</td>
+                <td>
+                  <strong>{row.faltante > 0 ? formatQuantity(row.faltante, row.ingredient.unidad) : "—"}</strong>
+                </td>
+                <td>{row.productos.map(nombre).join(", ") || "—"}</td>
+              </tr>
+            ))}
+            {!report.rows.length && (
+              <tr>
+                <td colSpan={6} style={{ textAlign: "center", padding: "24px" }}>
+                  Los ingredientes alcanzan para los pedidos pendientes.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,174 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { useAppContext } from "../../context/AppContext";
+import type { Ingredient, IngredientUnit } from "../../types";
+import { INGREDIENT_UNIT_LABEL, formatQuantity } from "../../utils/recipes";
+
+type IngredientDraft = {
+  id: string;
+  nombre: string;
+  unidad: IngredientUnit;
+  disponible: string;
+  minimo: string;
+};
+
+const EMPTY_DRAFT: IngredientDraft = { id: "", nombre: "", unidad: "g", disponible: "0", minimo: "0" };
+
+const toDraft = (ingredient: Ingredient): IngredientDraft => ({
+  id: ingredient.id,
+  nombre: ingredient.nombre,
+  unidad: ingredient.unidad,
+  disponible: String(ingredient.disponible),
+  minimo: String(ingredient.minimo)
+});
+
+export function IngredientsManager() {
+  const { ingredients, saveIngredient, showNotification } = useAppContext();
+  const [draft, setDraft] = useState<IngredientDraft | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  const open = (next: IngredientDraft) => {
+    setDraft(next);
+    setErrors({});
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!draft) return;
+    const nextErrors: Record<string, string> = {};
+    const disponible = Number(draft.disponible);
+    const minimo = Number(draft.minimo);
+    if (!draft.nombre.trim()) nextErrors.nombre = "Nombre requerido";
+    if (!Number.isFinite(disponible) || disponible < 0) nextErrors.disponible = "Cantidad inválida";
+    if (!Number.isFinite(minimo) || minimo < 0) nextErrors.minimo = "Mínimo inválido";
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length) return;
+
+    setSaving(true);
+    const result = await saveIngredient(
+      { id: draft.id, nombre: draft.nombre, unidad: draft.unidad, disponible, minimo },
+      { isNew: !draft.id }
+    );
+    setSaving(false);
+    if (!result.ok) {
+      showNotification({ message: result.message ?? "No se pudo guardar el ingrediente", kind: "error" });
+      return;
+    }
+    showNotification({ message: `${draft.nombre.trim()} guardado.`, kind: "success" });
+    setDraft(null);
+  };
+
+  return (
+    <section>
+      <div className="actions-top">
+        <button className="btn btn--principal" type="button" onClick={() => open(EMPTY_DRAFT)}>
+          Nuevo ingrediente
+        </button>
+      </div>
+
+      {draft && (
+        <form className="admin-form" onSubmit={(event) => void handleSubmit(event)} style={{ marginBottom: "24px" }}>
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor="ingredientName">Nombre</label>
+              <input
+                id="ingredientName"
+                value={draft.nombre}
+                onChange={(event) => setDraft({ ...draft, nombre: event.target.value })}
+              />
+              <small className="help">{errors.nombre}</small>
+            </div>
+            <div className="form-group">
+              <label htmlFor="ingredientUnit">Unidad</label>
+              <select
+                id="ingredientUnit"
+                value={draft.unidad}
+                onChange={(event) => setDraft({ ...draft, unidad: event.target.value as IngredientUnit })}
+              >
+                {(Object.keys(INGREDIENT_UNIT_LABEL) as IngredientUnit[]).map((unidad) => (
+                  <option key={unidad} value={unidad}>
+                    {INGREDIENT_UNIT_LABEL[unidad]}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor="ingredientOnHand">Disponible</label>
+              <input
+                id="ingredientOnHand"
+                type="number"
+                min={0}
+                step="any"
+                value={draft.disponible}
+                onChange={(event) => setDraft({ ...draft, disponible: event.target.value })}
+              />
+              <small className="help">{errors.disponible}</small>
+            </div>
+            <div className="form-group">
+              <label htmlFor="ingredientMinimum">Mínimo</label>
+              <input
+                id="ingredientMinimum"
+                type="number"
+                min={0}
+                step="any"
+                value={draft.minimo}
+                onChange={(event) => setDraft({ ...draft, minimo: event.target.value })}
+              />
+              <small className="help">{errors.minimo}</small>
+            </div>
+          </div>
+          <div className="form-actions">
+            <button className="btn btn--principal" type="submit" disabled={saving}>
+              {saving ? "Guardando…" : "Guardar"}
+            </button>
+            <button className="btn" type="button" onClick={() => setDraft(null)} disabled={saving}>
+              Cancelar
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="admin-table-wrap">
+        <table className="admin-table">
+          <thead>
+            <tr>
+              <th>Ingrediente</th>
+              <th>Disponible</th>
+              <th>Mínimo</th>
+              <th>Acciones</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ingredients.map((ingredient) => (
+              <tr
+                key={ingredient.id}
+                className={ingredient.disponible <= ingredient.minimo ? "stock-row--critical" : undefined}
+              >
+                <td>{ingredient.nombre}</td>
+                <td>{formatQuantity(ingredient.disponible, ingredient.unidad)}</td>
+                <td>{formatQuantity(ingredient.minimo, ingredient.unidad)}</td>
+                <td>
+                  <div className="table-actions">
+                    <button className="btn-edit" type="button" onClick={() => open(toDraft(ingredient))}>
+                      Editar
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+            {!ingredients.length && (
+              <tr>
+                <td colSpan={4} style={{ textAlign: "center", padding: "24px" }}>
+                  Aún no hay ingredientes registrados.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
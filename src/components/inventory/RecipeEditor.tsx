@@ -0,0 +1,122 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { useAppContext } from "../../context/AppContext";
+import { INGREDIENT_UNIT_LABEL, validateRecipe } from "../../utils/recipes";
+import type { RecipeDraftLine } from "../../utils/recipes";
+
+/** Receta (lista de materiales) por unidad de cada producto del catálogo. */
+export function RecipeEditor() {
+  const { products, ingredients, recipes, saveRecipe, showNotification } = useAppContext();
+  const [productId, setProductId] = useState("");
+  const [lines, setLines] = useState<RecipeDraftLine[]>([]);
+  const [errors, setErrors] = useState<Record<number, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  const selectProduct = (id: string) => {
+    setProductId(id);
+    setErrors({});
+    const recipe = recipes.find((entry) => entry.productId === id);
+    setLines(recipe?.lineas.map((line) => ({ ingredientId: line.ingredientId, cantidad: String(line.cantidad) })) ?? []);
+  };
+
+  const updateLine = (index: number, changes: Partial<RecipeDraftLine>) => {
+    setLines((prev) => prev.map((line, position) => (position === index ? { ...line, ...changes } : line)));
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const nextErrors = validateRecipe(lines);
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length) return;
+    setSaving(true);
+    const result = await saveRecipe({
+      productId,
+      lineas: lines.map((line) => ({ ingredientId: line.ingredientId, cantidad: Number(line.cantidad) }))
+    });
+    setSaving(false);
+    showNotification(
+      result.ok
+        ? { message: "Receta guardada.", kind: "success" }
+        : { message: result.message ?? "No se pudo guardar la receta", kind: "error" }
+    );
+  };
+
+  return (
+    <form className="admin-form" onSubmit={(event) => void handleSubmit(event)}>
+      <div className="form-group">
+        <label htmlFor="recipeProduct">Producto</label>
+        <select id="recipeProduct" value={productId} onChange={(event) => selectProduct(event.target.value)}>
+          <option value="">Selecciona un producto</option>
+          {products.map((product) => (
+            <option key={product.id} value={product.id}>
+              {product.nombre}
+              {recipes.some((recipe) => recipe.productId === product.id) ? "" : " (sin receta)"}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {productId && (
+        <>
+          <small className="help">Cantidades para una unidad del producto, en la unidad de cada ingrediente.</small>
+          {lines.map((line, index) => {
+            const ingredient = ingredients.find((entry) => entry.id === line.ingredientId);
+            return (
+              <div className="form-row" key={index}>
+                <div className="form-group">
+                  <label htmlFor={`recipeIngredient-${index}`}>Ingrediente</label>
+                  <select
+                    id={`recipeIngredient-${index}`}
+                    value={line.ingredientId}
+                    onChange={(event) => updateLine(index, { ingredientId: event.target.value })}
+                  >
+                    <option value="">Selecciona</option>
+                    {ingredients.map((entry) => (
+                      <option key={entry.id} value={entry.id}>
+                        {entry.nombre}
+                      </option>
+                    ))}
+                  </select>
+                  <small className="help">{errors[index]}</small>
+                </div>
+                <div className="form-group">
+                  <label htmlFor={`recipeQty-${index}`}>
+                    Cantidad{ingredient ? ` (${INGREDIENT_UNIT_LABEL[ingredient.unidad]})` : ""}
+                  </label>
+                  <input
+                    id={`recipeQty-${index}`}
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={line.cantidad}
+                    onChange={(event) => updateLine(index, { cantidad: event.target.value })}
+                  />
+                </div>
+                <button
+                  className="btn-delete"
+                  type="button"
+                  onClick={() => setLines((prev) => prev.filter((_, position) => position !== index))}
+                >
+                  Quitar
+                </button>
+              </div>
+            );
+          })}
+          <div className="form-actions">
+            <button
+              className="btn"
+              type="button"
+              onClick={() => setLines((prev) => [...prev, { ingredientId: "", cantidad: "" }])}
+              disabled={!ingredients.length}
+            >
+              Agregar ingrediente
+            </button>
+            <button className="btn btn--principal" type="submit" disabled={saving}>
+              {saving ? "Guardando…" : "Guardar receta"}
+            </button>
+          </div>
+        </>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,132 @@
+import { Fragment, useMemo, useState } from "react";
+import { useAppContext } from "../../context/AppContext";
+import { DEMAND_WINDOW_DAYS, TARGET_COVER_DAYS, buildReplenishmentPlan } from "../../utils/replenishment";
+import { StockMovementForm } from "./StockMovementForm";
+
+const WINDOW_OPTIONS = [7, DEMAND_WINDOW_DAYS, 30];
+const TARGET_OPTIONS = [3, TARGET_COVER_DAYS, 14];
+
+const formatDays = (value: number | null) =>
+  value === null ? "Sin ventas" : `${value.toLocaleString("es-CL", { maximumFractionDigits: 1 })} días`;
+
+export function ReplenishmentDashboard() {
+  const { products, orders } = useAppContext();
+  const [windowDays, setWindowDays] = useState(DEMAND_WINDOW_DAYS);
+  const [targetDays, setTargetDays] = useState(TARGET_COVER_DAYS);
+  const [producing, setProducing] = useState<string | null>(null);
+
+  const rows = useMemo(
+    () => buildReplenishmentPlan(products, orders, { windowDays, targetDays }),
+    [products, orders, windowDays, targetDays]
+  );
+  const criticos = rows.filter((row) => row.critico).length;
+
+  return (
+    <section>
+      <div className="admin-widgets" style={{ marginBottom: "24px" }}>
+        <article className="widget">
+          <h3>Stock crítico</h3>
+          <p>
+            <strong>{criticos}</strong> productos en o bajo su stock crítico.<br />
+            {rows.length - criticos} más no alcanzan {targetDays} días de venta.
+          </p>
+        </article>
+      </div>
+
+      <div className="actions-top">
+        <div className="form-group">
+          <label htmlFor="replenishmentWindow">Demanda según pedidos de los últimos</label>
+          <select
+            id="replenishmentWindow"
+            value={windowDays}
+            onChange={(event) => setWindowDays(Number(event.target.value))}
+          >
+            {WINDOW_OPTIONS.map((days) => (
+              <option key={days} value={days}>
+                {days} días
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="form-group">
+          <label htmlFor="replenishmentTarget">Cubrir</label>
+          <select
+            id="replenishmentTarget"
+            value={targetDays}
+            onChange={(event) => setTargetDays(Number(event.target.value))}
+          >
+            {TARGET_OPTIONS.map((days) => (
+              <option key={days} value={days}>
+                {days} días de venta
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="admin-table-wrap">
+        <table className="admin-table">
+          <thead>
+            <tr>
+              <th>Producto</th>
+              <th>Stock</th>
+              <th>Crítico</th>
+              <th>Venta diaria</th>
+              <th>Cobertura</th>
+              <th>Producir</th>
+              <th>Acciones</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <Fragment key={row.product.id}>
+                <tr className={row.critico ? "stock-row--critical" : undefined}>
+                  <td>
+                    {row.product.nombre}
+                    <div className="muted small">{row.product.id}</div>
+                  </td>
+                  <td>{row.product.stock}</td>
+                  <td>{row.product.stockCritico}</td>
+                  <td>{row.demandaDiaria.toLocaleString("es-CL", { maximumFractionDigits: 1 })}</td>
+                  <td>{formatDays(row.diasCobertura)}</td>
+                  <td>
+                    <strong>{row.sugerido}</strong>
+                  </td>
+                  <td>
+                    <div className="table-actions">
+                      <button
+                        className="btn-edit"
+                        type="button"
+                        onClick={() => setProducing((prev) => (prev === row.product.id ? null : row.product.id))}
+                      >
+                        Registrar producción
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+                {producing === row.product.id && (
+                  <tr>
+                    <td colSpan={7}>
+                      <StockMovementForm
+                        product={row.product}
+                        initialQty={row.sugerido}
+                        onClose={() => setProducing(null)}
+                      />
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            ))}
+            {!rows.length && (
+              <tr>
+                <td colSpan={7} style={{ textAlign: "center", padding: "24px" }}>
+                  Ningún producto necesita reposición.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,64 @@
+import { useAppContext } from "../../context/AppContext";
+import type { StockCount } from "../../types";
+import { formatMoney } from "../../utils/format";
+import { countDiscrepancies } from "../../utils/stockCount";
+
+type Props = {
+  count: Pick<StockCount, "lineas">;
+};
+
+/** Diferencias entre lo contado y el stock del sistema, valorizadas a precio de venta. */
+export function StockCountDiscrepancies({ count }: Props) {
+  const { products } = useAppContext();
+  const { rows, summary } = countDiscrepancies(count, products);
+
+  return (
+    <>
+      <div className="admin-widgets" style={{ marginBottom: "16px" }}>
+        <article className="widget">
+          <h3>Diferencias</h3>
+          <p>
+            <strong>{summary.conDiferencia}</strong> de {summary.contados} productos contados no cuadran.
+            <br />
+            Faltan {summary.faltantes} u. y sobran {summary.sobrantes} u. · neto {formatMoney(summary.valorNeto)}
+          </p>
+        </article>
+      </div>
+      <div className="admin-table-wrap">
+        <table className="admin-table">
+          <thead>
+            <tr>
+              <th>Producto</th>
+              <th>Sistema</th>
+              <th>Contado</th>
+              <th>Diferencia</th>
+              <th>Valor</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key} className={row.diferencia ? "stock-row--critical" : undefined}>
+                <td>
+                  {row.product.nombre}
+                  {row.variant ? ` (${row.variant.label})` : ""}
+                  <div className="muted small">{row.product.id}</div>
+                </td>
+                <td>{row.esperado}</td>
+                <td>{row.contado}</td>
+                <td>{row.diferencia > 0 ? `+${row.diferencia}` : row.diferencia}</td>
+                <td>{formatMoney(row.valor)}</td>
+              </tr>
+            ))}
+            {!rows.length && (
+              <tr>
+                <td colSpan={5} style={{ textAlign: "center", padding: "24px" }}>
+                  Aún no hay productos contados.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,234 @@
+import { useMemo, useState } from "react";
+import type { FormEvent } from "react";
+import { useAppContext } from "../../context/AppContext";
+import type { StockCount, StockCountLine } from "../../types";
+import { stockFor } from "../../utils/variants";
+import { addCount, countKey, countTargets, resolveScan, setCount } from "../../utils/stockCount";
+import { StockCountDiscrepancies } from "./StockCountDiscrepancies";
+
+type Props = {
+  count: StockCount;
+  /** Se llama con el documento actualizado al guardar, aprobar o anular. */
+  onUpdated: (count: StockCount) => void;
+};
+
+export function StockCountSession({ count, onUpdated }: Props) {
+  const { products, saveStockCount, approveStockCount, cancelStockCount, showNotification } = useAppContext();
+  const [lines, setLines] = useState<StockCountLine[]>(count.lineas);
+  const [dirty, setDirty] = useState(false);
+  const [scan, setScan] = useState("");
+  const [scanMessage, setScanMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const [filter, setFilter] = useState("");
+  const [reviewing, setReviewing] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const targets = useMemo(() => countTargets(products), [products]);
+  const counted = useMemo(
+    () => new Map(lines.map((line) => [countKey(line.productId, line.variantId), line.contado])),
+    [lines]
+  );
+  const visible = targets.filter((target) => {
+    const text = filter.trim().toLowerCase();
+    return !text || target.codigo.toLowerCase().includes(text) || target.product.nombre.toLowerCase().includes(text);
+  });
+
+  const updateLines = (next: StockCountLine[]) => {
+    setLines(next);
+    setDirty(true);
+  };
+
+  const handleScan = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!scan.trim()) return;
+    const result = resolveScan(scan, products);
+    if (!result.ok) {
+      setScanMessage({ text: result.message, error: true });
+      return;
+    }
+    const { target, qty } = result;
+    const next = addCount(lines, target.product.id, target.variant?.id, qty);
+    updateLines(next);
+    const total = next.find((line) => countKey(line.productId, line.variantId) === target.key)?.contado ?? 0;
+    setScanMessage({
+      text: `${target.product.nombre}${target.variant ? ` (${target.variant.label})` : ""}: ${total} contadas`,
+      error: false
+    });
+    setScan("");
+  };
+
+  const persist = async () => {
+    if (!dirty) return true;
+    const result = await saveStockCount(count.id, lines);
+    if (!result.ok || !result.count) {
+      showNotification({ message: result.message ?? "No se pudo guardar el conteo", kind: "error" });
+      return false;
+    }
+    setDirty(false);
+    onUpdated(result.count);
+    return true;
+  };
+
+  const handleSave = async () => {
+    setBusy(true);
+    if (await persist()) showNotification({ message: "Avance del conteo guardado.", kind: "success" });
+    setBusy(false);
+  };
+
+  const handleApprove = () => {
+    showNotification({
+      message: `¿Aprobar el conteo ${count.codigo}? El stock de los ${lines.length} productos contados quedará igual a lo contado.`,
+      kind: "info",
+      mode: "dialog",
+      actionLabel: "Aprobar",
+      cancelLabel: "Volver",
+      onAction: () => {
+        void (async () => {
+          setBusy(true);
+          if (!(await persist())) {
+            setBusy(false);
+            return;
+          }
+          const result = await approveStockCount(count.id);
+          setBusy(false);
+          if (!result.ok || !result.count) {
+            showNotification({ message: result.message ?? "No se pudo aprobar el conteo", kind: "error" });
+            return;
+          }
+          showNotification({ message: `Conteo ${count.codigo} aprobado y stock ajustado.`, kind: "success" });
+          onUpdated(result.count);
+        })();
+      }
+    });
+  };
+
+  const handleCancel = () => {
+    showNotification({
+      message: `¿Anular el conteo ${count.codigo}? No se ajustará el stock.`,
+      kind: "info",
+      mode: "dialog",
+      actionLabel: "Anular",
+      cancelLabel: "Volver",
+      onAction: () => {
+        void (async () => {
+          setBusy(true);
+          const result = await cancelStockCount(count.id);
+          setBusy(false);
+          if (!result.ok || !result.count) {
+            showNotification({ message: result.message ?? "No se pudo anular el conteo", kind: "error" });
+            return;
+          }
+          onUpdated(result.count);
+        })();
+      }
+    });
+  };
+
+  return (
+    <section>
+      <p className="muted small">
+        Conteo {count.codigo} · iniciado {new Date(count.iniciadoEn).toLocaleString("es-CL")}
+        {count.iniciadoPor ? ` por ${count.iniciadoPor}` : ""} · {lines.length} de {targets.length} contados
+        {dirty ? " · cambios sin guardar" : ""}
+      </p>
+
+      <form className="admin-form" onSubmit={handleScan} style={{ marginBottom: "16px" }}>
+        <div className="form-group">
+          <label htmlFor="countScan">Código (lector o teclado)</label>
+          <input
+            id="countScan"
+            value={scan}
+            autoFocus
+            autoComplete="off"
+            placeholder="TC001 o TC001*6"
+            onChange={(event) => setScan(event.target.value)}
+          />
+          <small className="help" style={scanMessage?.error ? { color: "#b00020" } : undefined}>
+            {scanMessage?.text ?? "Cada lectura suma una unidad; usa *N para sumar varias (negativo descuenta)."}
+          </small>
+        </div>
+      </form>
+
+      <div className="actions-top">
+        <input
+          type="search"
+          placeholder="Buscar productos"
+          value={filter}
+          onChange={(event) => setFilter(event.target.value)}
+          style={{ padding: "10px 14px", borderRadius: "8px", border: "1px solid #ccc", minWidth: "240px" }}
+        />
+        <button className="btn" type="button" onClick={() => setReviewing((prev) => !prev)}>
+          {reviewing ? "Volver al conteo" : "Revisar diferencias"}
+        </button>
+      </div>
+
+      {reviewing ? (
+        <StockCountDiscrepancies count={{ lineas: lines }} />
+      ) : (
+        <div className="admin-table-wrap">
+          <table className="admin-table">
+            <thead>
+              <tr>
+                <th>Código</th>
+                <th>Producto</th>
+                <th>Sistema</th>
+                <th>Contado</th>
+                <th>Diferencia</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map((target) => {
+                const value = counted.get(target.key);
+                const sistema = stockFor(target.product, target.variant);
+                const diferencia = value === undefined ? null : value - sistema;
+                return (
+                  <tr key={target.key} className={diferencia ? "stock-row--critical" : undefined}>
+                    <td>{target.codigo}</td>
+                    <td>
+                      {target.product.nombre}
+                      {target.variant ? ` (${target.variant.label})` : ""}
+                    </td>
+                    <td>{sistema}</td>
+                    <td>
+                      <input
+                        className="inventory-input"
+                        type="number"
+                        min={0}
+                        step={1}
+                        aria-label={`Contado de ${target.product.nombre}`}
+                        value={value ?? ""}
+                        placeholder="—"
+                        onChange={(event) =>
+                          updateLines(
+                            setCount(
+                              lines,
+                              target.product.id,
+                              target.variant?.id,
+                              event.target.value === "" ? null : Math.max(0, Math.round(Number(event.target.value)))
+                            )
+                          )
+                        }
+                      />
+                    </td>
+                    <td>{diferencia === null ? "—" : diferencia > 0 ? `+${diferencia}` : diferencia}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="form-actions" style={{ marginTop: "16px" }}>
+        <button className="btn" type="button" disabled={busy || !dirty} onClick={() => void handleSave()}>
+          Guardar avance
+        </button>
+        <button className="btn btn--principal" type="button" disabled={busy || !lines.length} onClick={handleApprove}>
+          Aprobar y ajustar stock
+        </button>
+        <button className="btn-delete" type="button" disabled={busy} onClick={handleCancel}>
+          Anular conteo
+        </button>
+      </div>
+    </section>
+  );
+}
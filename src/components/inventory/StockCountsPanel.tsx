@@ -0,0 +1,143 @@
+import { Fragment, useEffect, useState } from "react";
+import { useAppContext } from "../../context/AppContext";
+import type { StockCount, StockCountStatus } from "../../types";
+import { StockCountDiscrepancies } from "./StockCountDiscrepancies";
+import { StockCountSession } from "./StockCountSession";
+
+const STATUS_LABEL: Record<StockCountStatus, string> = {
+  abierto: "En curso",
+  aprobado: "Aprobado",
+  anulado: "Anulado"
+};
+
+/** Conteo en curso (o inicio de uno nuevo) y el historial de conteos cerrados. */
+export function StockCountsPanel() {
+  const { fetchStockCounts, startStockCount, showNotification } = useAppContext();
+  const [counts, setCounts] = useState<StockCount[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notas, setNotas] = useState("");
+  const [starting, setStarting] = useState(false);
+  const [open, setOpen] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    void fetchStockCounts().then((result) => {
+      if (!active) return;
+      setError(result.ok ? null : result.message ?? "No se pudieron cargar los conteos");
+      setCounts(result.counts ?? []);
+    });
+    return () => {
+      active = false;
+    };
+  }, [fetchStockCounts]);
+
+  const replaceCount = (updated: StockCount) =>
+    setCounts((prev) => [updated, ...(prev ?? []).filter((entry) => entry.id !== updated.id)]);
+
+  const handleStart = async () => {
+    setStarting(true);
+    const result = await startStockCount(notas);
+    setStarting(false);
+    if (!result.ok || !result.count) {
+      showNotification({ message: result.message ?? "No se pudo iniciar el conteo", kind: "error" });
+      return;
+    }
+    setNotas("");
+    replaceCount(result.count);
+  };
+
+  if (error) return <div className="muted small">{error}</div>;
+  if (!counts) return <div className="muted small">Cargando conteos…</div>;
+
+  const current = counts.find((entry) => entry.estado === "abierto");
+  const closed = counts.filter((entry) => entry.estado !== "abierto");
+
+  return (
+    <section>
+      {current ? (
+        <StockCountSession key={current.id} count={current} onUpdated={replaceCount} />
+      ) : (
+        <div className="admin-form" style={{ marginBottom: "24px" }}>
+          <div className="form-group">
+            <label htmlFor="countNotes">Notas del conteo</label>
+            <input
+              id="countNotes"
+              value={notas}
+              maxLength={250}
+              placeholder="Ej: conteo semanal sala de ventas"
+              onChange={(event) => setNotas(event.target.value)}
+            />
+          </div>
+          <div className="form-actions">
+            <button className="btn btn--principal" type="button" disabled={starting} onClick={() => void handleStart()}>
+              {starting ? "Iniciando…" : "Iniciar conteo"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <h2 style={{ margin: "32px 0 16px" }}>Conteos anteriores</h2>
+      <div className="admin-table-wrap">
+        <table className="admin-table">
+          <thead>
+            <tr>
+              <th>Conteo</th>
+              <th>Estado</th>
+              <th>Iniciado</th>
+              <th>Cerrado</th>
+              <th>Productos</th>
+              <th>Acciones</th>
+            </tr>
+          </thead>
+          <tbody>
+            {closed.map((count) => (
+              <Fragment key={count.id}>
+                <tr>
+                  <td>
+                    {count.codigo}
+                    {count.notas && <div className="muted small">{count.notas}</div>}
+                  </td>
+                  <td>{STATUS_LABEL[count.estado]}</td>
+                  <td>
+                    {new Date(count.iniciadoEn).toLocaleString("es-CL")}
+                    {count.iniciadoPor && <div className="muted small">{count.iniciadoPor}</div>}
+                  </td>
+                  <td>
+                    {count.cerradoEn ? new Date(count.cerradoEn).toLocaleString("es-CL") : "—"}
+                    {count.cerradoPor && <div className="muted small">{count.cerradoPor}</div>}
+                  </td>
+                  <td>{count.lineas.length}</td>
+                  <td>
+                    <div className="table-actions">
+                      <button
+                        className="btn-edit"
+                        type="button"
+                        onClick={() => setOpen((prev) => (prev === count.id ? null : count.id))}
+                      >
+                        {open === count.id ? "Ocultar" : "Ver detalle"}
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+                {open === count.id && (
+                  <tr>
+                    <td colSpan={6}>
+                      <StockCountDiscrepancies count={count} />
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            ))}
+            {!closed.length && (
+              <tr>
+                <td colSpan={6} style={{ textAlign: "center", padding: "24px" }}>
+                  Aún no hay conteos cerrados.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,53 @@
+import { useAppContext } from "../../context/AppContext";
+import type { Product } from "../../types";
+import { lotStatus, sortFefo } from "../../utils/lots";
+
+type Props = {
+  product: Product;
+};
+
+const STATUS_LABEL = { vencido: "Vencido", venceHoy: "Vence hoy", vigente: "Vigente" };
+
+/** Lotes disponibles del producto en el orden en que saldrán (FEFO). */
+export function StockLotList({ product }: Props) {
+  const { stockLots } = useAppContext();
+  const lots = sortFefo(stockLots.filter((lot) => lot.productId === product.id));
+
+  if (!lots.length) return <div className="muted small">Sin lotes con unidades disponibles.</div>;
+
+  const variantLabel = (variantId?: string) =>
+    product.variants?.find((variant) => variant.id === variantId)?.label ?? "";
+
+  return (
+    <table className="admin-table">
+      <thead>
+        <tr>
+          <th>Lote</th>
+          <th>Producido</th>
+          <th>Vence</th>
+          <th>Disponible</th>
+          <th>Estado</th>
+        </tr>
+      </thead>
+      <tbody>
+        {lots.map((lot) => {
+          const status = lotStatus(lot);
+          return (
+            <tr key={lot.id} className={status === "vigente" ? undefined : "stock-row--critical"}>
+              <td>
+                {lot.codigo}
+                {lot.variantId ? ` · ${variantLabel(lot.variantId)}` : ""}
+              </td>
+              <td>{new Date(lot.producidoEn).toLocaleString("es-CL")}</td>
+              <td>{lot.venceEl ?? "—"}</td>
+              <td>
+                {lot.disponible} de {lot.cantidadInicial}
+              </td>
+              <td>{STATUS_LABEL[status]}</td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,163 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { useAppContext } from "../../context/AppContext";
+import type { Product, StockMovementType } from "../../types";
+import { MANUAL_MOVEMENT_TYPES, STOCK_MOVEMENT_LABEL, movementDelta, validateStockMovement } from "../../utils/stock";
+import { findVariant, stockFor } from "../../utils/variants";
+import { addDays, formatDeliveryDate, toIsoDate } from "../../utils/delivery";
+import { DEFAULT_SHELF_LIFE_DAYS, sortFefo } from "../../utils/lots";
+
+type Props = {
+  product: Product;
+  onClose: () => void;
+  /** Cantidad sugerida para producir, p. ej. desde la reposición. */
+  initialQty?: number;
+};
+
+export function StockMovementForm({ product, onClose, initialQty }: Props) {
+  const { stockLots, recordStockMovement, showNotification } = useAppContext();
+  const [tipo, setTipo] = useState<StockMovementType>("produccion");
+  const [variantId, setVariantId] = useState(product.variants?.[0]?.id ?? "");
+  const [cantidad, setCantidad] = useState(initialQty ? String(initialQty) : "");
+  const [motivo, setMotivo] = useState("");
+  const [venceEl, setVenceEl] = useState(() => toIsoDate(addDays(new Date(), DEFAULT_SHELF_LIFE_DAYS)));
+  const [lotId, setLotId] = useState("");
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  const variant = findVariant(product, variantId);
+  const disponible = stockFor(product, variant);
+  const lots = sortFefo(
+    stockLots.filter((lot) => lot.productId === product.id && (lot.variantId ?? "") === (variant?.id ?? ""))
+  );
+  const lot = lots.find((entry) => entry.id === lotId);
+  const draft = {
+    tipo,
+    cantidad: Number(cantidad),
+    motivo,
+    venceEl: tipo === "produccion" ? venceEl : undefined,
+    lotId: tipo === "merma" ? lot?.id : undefined
+  };
+  const resultante = Number.isFinite(draft.cantidad) ? disponible + movementDelta(tipo, draft.cantidad) : disponible;
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const next = validateStockMovement(draft, disponible, { lot });
+    setErrors(next);
+    if (Object.keys(next).length) return;
+
+    setSaving(true);
+    const result = await recordStockMovement({ ...draft, productId: product.id, variantId: variant?.id });
+    setSaving(false);
+    if (!result.ok) {
+      setErrors({ form: result.message ?? "No se pudo registrar el movimiento" });
+      return;
+    }
+    showNotification({ message: `${STOCK_MOVEMENT_LABEL[tipo]} registrada para ${product.nombre}.`, kind: "success" });
+    onClose();
+  };
+
+  return (
+    <form className="admin-form" onSubmit={handleSubmit} noValidate>
+      <h4>Registrar movimiento · {product.nombre}</h4>
+      <div className="form-row">
+        <div className="form-group">
+          <label htmlFor={`movType-${product.id}`}>Tipo</label>
+          <select
+            id={`movType-${product.id}`}
+            value={tipo}
+            onChange={(event) => setTipo(event.target.value as StockMovementType)}
+          >
+            {MANUAL_MOVEMENT_TYPES.map((value) => (
+              <option key={value} value={value}>
+                {STOCK_MOVEMENT_LABEL[value]}
+              </option>
+            ))}
+          </select>
+        </div>
+        {product.variants?.length ? (
+          <div className="form-group">
+            <label htmlFor={`movVariant-${product.id}`}>Versión</label>
+            <select
+              id={`movVariant-${product.id}`}
+              value={variantId}
+              onChange={(event) => {
+                setVariantId(event.target.value);
+                setLotId("");
+              }}
+            >
+              {product.variants.map((entry) => (
+                <option key={entry.id} value={entry.id}>
+                  {entry.label} ({entry.stock})
+                </option>
+              ))}
+            </select>
+          </div>
+        ) : null}
+        <div className="form-group">
+          <label htmlFor={`movQty-${product.id}`}>Cantidad</label>
+          <input
+            id={`movQty-${product.id}`}
+            type="number"
+            step={1}
+            value={cantidad}
+            onChange={(event) => setCantidad(event.target.value)}
+          />
+          <small className="help">
+            {errors.cantidad ??
+              (tipo === "ajuste"
+                ? "Usa negativos para descontar."
+                : `Stock resultante: ${Math.max(0, resultante)}`)}
+          </small>
+        </div>
+        {tipo === "produccion" && (
+          <div className="form-group">
+            <label htmlFor={`movExpiry-${product.id}`}>Vence el</label>
+            <input
+              id={`movExpiry-${product.id}`}
+              type="date"
+              value={venceEl}
+              min={toIsoDate(new Date())}
+              onChange={(event) => setVenceEl(event.target.value)}
+            />
+            <small className="help">{errors.venceEl ?? "Déjalo vacío si el producto no vence."}</small>
+          </div>
+        )}
+        {tipo === "merma" && lots.length > 0 && (
+          <div className="form-group">
+            <label htmlFor={`movLot-${product.id}`}>Lote</label>
+            <select id={`movLot-${product.id}`} value={lotId} onChange={(event) => setLotId(event.target.value)}>
+              <option value="">El que vence primero</option>
+              {lots.map((entry) => (
+                <option key={entry.id} value={entry.id}>
+                  {entry.codigo} · {entry.disponible} u.
+                  {entry.venceEl ? ` · vence ${formatDeliveryDate(entry.venceEl)}` : ""}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        <div className="form-group">
+          <label htmlFor={`movReason-${product.id}`}>Motivo</label>
+          <input
+            id={`movReason-${product.id}`}
+            value={motivo}
+            maxLength={250}
+            placeholder={tipo === "produccion" ? "Opcional" : "Ej: producto vencido"}
+            onChange={(event) => setMotivo(event.target.value)}
+          />
+          {errors.motivo && <small className="help">{errors.motivo}</small>}
+        </div>
+      </div>
+      {errors.form && <small className="help">{errors.form}</small>}
+      <div className="form-actions">
+        <button className="btn btn--principal" type="submit" disabled={saving}>
+          {saving ? "Guardando…" : "Registrar"}
+        </button>
+        <button className="btn" type="button" onClick={onClose}>
+          Cancelar
+        </button>
+      </div>
+    </form>
+  );
+}
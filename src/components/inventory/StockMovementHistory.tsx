@@ -0,0 +1,64 @@
+import { useEffect, useState } from "react";
+import { useAppContext } from "../../context/AppContext";
+import type { Product, StockMovement } from "../../types";
+import { STOCK_MOVEMENT_LABEL } from "../../utils/stock";
+
+type Props = {
+  product: Product;
+};
+
+export function StockMovementHistory({ product }: Props) {
+  const { fetchStockHistory } = useAppContext();
+  const [movements, setMovements] = useState<StockMovement[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Se recarga cuando cambia el stock para incluir el movimiento recién registrado.
+  useEffect(() => {
+    let active = true;
+    void fetchStockHistory(product.id).then((result) => {
+      if (!active) return;
+      setError(result.ok ? null : result.message ?? "No se pudo cargar el historial");
+      setMovements(result.movements ?? []);
+    });
+    return () => {
+      active = false;
+    };
+  }, [fetchStockHistory, product.id, product.stock]);
+
+  if (error) return <div className="muted small">{error}</div>;
+  if (!movements) return <div className="muted small">Cargando historial…</div>;
+  if (!movements.length) return <div className="muted small">Sin movimientos registrados.</div>;
+
+  const variantLabel = (variantId?: string) =>
+    product.variants?.find((variant) => variant.id === variantId)?.label ?? "";
+
+  return (
+    <table className="admin-table">
+      <thead>
+        <tr>
+          <th>Fecha</th>
+          <th>Tipo</th>
+          <th>Cantidad</th>
+          <th>Stock</th>
+          <th>Motivo</th>
+          <th>Usuario</th>
+        </tr>
+      </thead>
+      <tbody>
+        {movements.map((movement) => (
+          <tr key={movement.id}>
+            <td>{new Date(movement.createdAt).toLocaleString("es-CL")}</td>
+            <td>
+              {STOCK_MOVEMENT_LABEL[movement.tipo]}
+              {movement.variantId ? ` · ${variantLabel(movement.variantId)}` : ""}
+            </td>
+            <td>{movement.cantidad > 0 ? `+${movement.cantidad}` : movement.cantidad}</td>
+            <td>{movement.stockResultante}</td>
+            <td style={{ whiteSpace: "normal" }}>{movement.motivo ?? "—"}</td>
+            <td>{movement.actor ?? "—"}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -30,6 +30,7 @@ export function Footer() {
             <Link className="link" to="/productos">Sin Azúcar</Link>
             <Link className="link" to="/productos">Veganas</Link>
             <Link className="link" to="/productos">Sin Gluten</Link>
+            <Link className="link" to="/seguimiento">Seguimiento de pedido</Link>
           </nav>
           <div className="pay" aria-label="Medios de pago">
             <span aria-label="Visa">💳</span>
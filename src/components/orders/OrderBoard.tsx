@@ -0,0 +1,124 @@
+import { useState } from "react";
+import type { DragEvent } from "react";
+import type { Order } from "../../types";
+import { ORDER_STATES, allowedTransitions } from "../../utils/orderStatus";
+import { orderDueAt } from "../../utils/delivery";
+
+type Props = {
+  orders: Order[];
+  rol: string | null | undefined;
+  busy: Record<string, boolean>;
+  onMove: (orderId: string, estado: string) => void;
+  onOpen?: (orderId: string) => void;
+  now?: Date;
+};
+
+const DRAG_TYPE = "text/plain";
+
+const summarizeItems = (order: Order) =>
+  order.items.map((item) => `${item.qty}× ${item.nombre}${item.variantLabel ? ` (${item.variantLabel})` : ""}`).join(", ");
+
+const formatDue = (due: Date) =>
+  due.toLocaleString("es-CL", { weekday: "short", day: "numeric", month: "short", hour: "2-digit", minute: "2-digit" });
+
+const dueTime = (order: Order) => orderDueAt(order)?.getTime() ?? Number.POSITIVE_INFINITY;
+
+export function OrderBoard({ orders, rol, busy, onMove, onOpen, now = new Date() }: Props) {
+  const [dragging, setDragging] = useState<Order | null>(null);
+  const [overColumn, setOverColumn] = useState<string | null>(null);
+
+  const canDrop = (estado: string) =>
+    Boolean(dragging && allowedTransitions(dragging.estado, rol).some((transition) => transition.to === estado));
+
+  const handleDragStart = (event: DragEvent<HTMLElement>, order: Order) => {
+    event.dataTransfer.setData(DRAG_TYPE, order.id);
+    event.dataTransfer.effectAllowed = "move";
+    setDragging(order);
+  };
+
+  const handleDragEnd = () => {
+    setDragging(null);
+    setOverColumn(null);
+  };
+
+  const handleDrop = (event: DragEvent<HTMLElement>, estado: string) => {
+    event.preventDefault();
+    const orderId = event.dataTransfer.getData(DRAG_TYPE) || dragging?.id;
+    const allowed = canDrop(estado);
+    handleDragEnd();
+    if (orderId && allowed) onMove(orderId, estado);
+  };
+
+  return (
+    <div className="order-board">
+      {ORDER_STATES.map((estado) => {
+        const cards = orders
+          .filter((order) => order.estado === estado)
+          .sort((a, b) => dueTime(a) - dueTime(b) || a.createdAt - b.createdAt);
+        const droppable = canDrop(estado);
+        return (
+          <section
+            key={estado}
+            className={`order-board__column${droppable && overColumn === estado ? " order-board__column--over" : ""}`}
+            aria-label={`${estado} (${cards.length})`}
+            onDragOver={(event) => {
+              if (!droppable) return;
+              event.preventDefault();
+              setOverColumn(estado);
+            }}
+            onDragLeave={() => setOverColumn((prev) => (prev === estado ? null : prev))}
+            onDrop={(event) => handleDrop(event, estado)}
+          >
+            <h3 className="order-board__title">
+              {estado} <span className="muted small">{cards.length}</span>
+            </h3>
+            {cards.map((order) => {
+              const due = orderDueAt(order);
+              const late = Boolean(due && due.getTime() < now.getTime() && estado !== "Entregado" && estado !== "Cancelado");
+              const moves = allowedTransitions(order.estado, rol);
+              return (
+                <article
+                  key={order.id}
+                  className={`order-card${late ? " order-card--late" : ""}`}
+                  draggable={moves.length > 0 && !busy[order.id]}
+                  onDragStart={(event) => handleDragStart(event, order)}
+                  onDragEnd={handleDragEnd}
+                >
+                  <header className="order-card__header">
+                    <strong>{order.id}</strong>
+                    <span className="small">{order.fulfillment === "pickup" ? "Retiro" : "Despacho"}</span>
+                  </header>
+                  <div className="small">{order.cliente}</div>
+                  <div className={`small${late ? " error" : " muted"}`}>
+                    {due ? `${late ? "Atrasado · " : ""}${formatDue(due)}` : "Sin agendar"}
+                  </div>
+                  <p className="order-card__items small">{summarizeItems(order)}</p>
+                  <div className="order-card__actions">
+                    {onOpen && (
+                      <button className="btn-edit" type="button" onClick={() => onOpen(order.id)}>
+                        Detalle
+                      </button>
+                    )}
+                    {moves.map((transition) => (
+                      <button
+                        key={transition.to}
+                        className={transition.to === "Cancelado" ? "btn-delete" : "btn-edit"}
+                        type="button"
+                        disabled={Boolean(busy[order.id])}
+                        aria-label={`Mover ${order.id} a ${transition.to}`}
+                        onClick={() => onMove(order.id, transition.to)}
+                      >
+                        {transition.to === "Cancelado" ? "Cancelar" : `→ ${transition.to}`}
+                      </button>
+                    ))}
+                  </div>
+                </article>
+              );
+            })}
+            {!cards.length && <p className="muted small">Sin pedidos.</p>}
+          </section>
+        );
+      })}
+    </div>
+  );
+}
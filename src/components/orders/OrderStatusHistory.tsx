@@ -0,0 +1,38 @@
+import type { OrderStatusChange } from "../../types";
+
+type Props = {
+  history?: OrderStatusChange[];
+};
+
+const formatChangeDate = (value: number) =>
+  new Date(value).toLocaleString("es-CL", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit"
+  });
+
+export function OrderStatusHistory({ history }: Props) {
+  if (!history?.length) {
+    return <div className="muted small">Sin cambios de estado registrados.</div>;
+  }
+  const entries = history.slice().sort((a, b) => a.at - b.at);
+  return (
+    <ol className="order-history">
+      {entries.map((entry) => (
+        <li key={`${entry.estado}-${entry.at}`} className="order-history__entry">
+          <div>
+            {entry.desde ? `${entry.desde} → ` : ""}
+            <strong>{entry.estado}</strong>
+          </div>
+          <div className="muted small">
+            {formatChangeDate(entry.at)}
+            {entry.actor ? ` · ${entry.actor}` : ""}
+          </div>
+          {entry.nota && <div className="small">Motivo: {entry.nota}</div>}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,33 @@
+import type { Order } from "../../types";
+import { buildStatusTimeline } from "../../utils/orderTracking";
+
+type Props = {
+  order: Pick<Order, "estado" | "createdAt" | "statusHistory">;
+};
+
+const formatStepDate = (value: number) =>
+  new Date(value).toLocaleString("es-CL", {
+    day: "2-digit",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit"
+  });
+
+export function OrderTimeline({ order }: Props) {
+  return (
+    <ol className="order-timeline">
+      {buildStatusTimeline(order).map((step) => (
+        <li
+          key={step.estado}
+          className={`order-timeline__step${step.done ? " order-timeline__step--done" : ""}${
+            step.current ? " order-timeline__step--current" : ""
+          }`}
+          aria-current={step.current ? "step" : undefined}
+        >
+          <strong>{step.estado}</strong>
+          {step.at ? <span className="muted small">{formatStepDate(step.at)}</span> : null}
+        </li>
+      ))}
+    </ol>
+  );
+}
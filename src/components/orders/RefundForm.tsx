@@ -0,0 +1,159 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import type { Order, OrderRefundItem } from "../../types";
+import { formatMoney } from "../../utils/format";
+import { refundableAmount, returnableQty } from "../../utils/orderStatus";
+
+type RefundDraft = { monto: number; motivo: string; items: OrderRefundItem[]; reponerStock: boolean };
+
+type Props = {
+  order: Order;
+  onSubmit: (refund: RefundDraft) => Promise<{ ok: boolean; message?: string }>;
+  onClose: () => void;
+};
+
+const itemKey = (codigo: string, variantId?: string) => `${codigo}|${variantId ?? ""}`;
+
+export function RefundForm({ order, onSubmit, onClose }: Props) {
+  const maximo = refundableAmount(order);
+  const [monto, setMonto] = useState(String(maximo));
+  const [motivo, setMotivo] = useState("");
+  const [cantidades, setCantidades] = useState<Record<string, number>>({});
+  const [reponerStock, setReponerStock] = useState(true);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  const montoItems = order.items.reduce(
+    (acc, item) => acc + item.unitPrice * (cantidades[itemKey(item.codigo, item.variantId)] ?? 0),
+    0
+  );
+
+  const reembolsoTotal = () => {
+    setMonto(String(maximo));
+    setCantidades(
+      Object.fromEntries(
+        order.items.map((item) => [itemKey(item.codigo, item.variantId), returnableQty(order, item.codigo, item.variantId)])
+      )
+    );
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const next: Record<string, string> = {};
+    const value = Number(monto);
+    if (!Number.isFinite(value) || value <= 0) next.monto = "Monto inválido";
+    else if (value > maximo) next.monto = `Máximo ${formatMoney(maximo)}`;
+    if (!motivo.trim()) next.motivo = "Indica el motivo";
+    setErrors(next);
+    if (Object.keys(next).length) return;
+
+    setSaving(true);
+    const result = await onSubmit({
+      monto: value,
+      motivo,
+      reponerStock,
+      items: order.items.map((item) => ({
+        codigo: item.codigo,
+        variantId: item.variantId,
+        qty: cantidades[itemKey(item.codigo, item.variantId)] ?? 0
+      }))
+    });
+    setSaving(false);
+    if (!result.ok) {
+      setErrors({ form: result.message ?? "No se pudo registrar el reembolso" });
+      return;
+    }
+    onClose();
+  };
+
+  return (
+    <form className="admin-form" style={{ marginTop: "12px" }} onSubmit={handleSubmit} noValidate>
+      <h4>Registrar reembolso · disponible {formatMoney(maximo)}</h4>
+      <table className="admin-table">
+        <thead>
+          <tr>
+            <th>Producto</th>
+            <th>Vendidas</th>
+            <th>Devolver</th>
+          </tr>
+        </thead>
+        <tbody>
+          {order.items.map((item) => {
+            const key = itemKey(item.codigo, item.variantId);
+            const disponible = returnableQty(order, item.codigo, item.variantId);
+            return (
+              <tr key={key}>
+                <td>
+                  {item.nombre}
+                  {item.variantLabel ? ` (${item.variantLabel})` : ""}
+                </td>
+                <td>{item.qty}</td>
+                <td>
+                  <input
+                    type="number"
+                    min={0}
+                    max={disponible}
+                    aria-label={`Unidades a devolver de ${item.nombre}`}
+                    value={cantidades[key] ?? 0}
+                    disabled={!disponible}
+                    onChange={(event) =>
+                      setCantidades((prev) => ({
+                        ...prev,
+                        [key]: Math.min(disponible, Math.max(0, Math.floor(Number(event.target.value) || 0)))
+                      }))
+                    }
+                  />
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <div className="form-row">
+        <div className="form-group">
+          <label htmlFor={`refundAmount-${order.id}`}>Monto (CLP)</label>
+          <input
+            id={`refundAmount-${order.id}`}
+            type="number"
+            min={1}
+            max={maximo}
+            value={monto}
+            onChange={(event) => setMonto(event.target.value)}
+          />
+          {montoItems > 0 && (
+            <button className="btn-edit" type="button" onClick={() => setMonto(String(Math.min(maximo, montoItems)))}>
+              Usar monto de ítems ({formatMoney(montoItems)})
+            </button>
+          )}
+          {errors.monto && <small className="help">{errors.monto}</small>}
+        </div>
+        <div className="form-group">
+          <label htmlFor={`refundReason-${order.id}`}>Motivo</label>
+          <input
+            id={`refundReason-${order.id}`}
+            value={motivo}
+            maxLength={250}
+            onChange={(event) => setMotivo(event.target.value)}
+          />
+          {errors.motivo && <small className="help">{errors.motivo}</small>}
+        </div>
+      </div>
+      <label style={{ display: "flex", gap: "8px", alignItems: "center" }}>
+        <input type="checkbox" checked={reponerStock} onChange={(event) => setReponerStock(event.target.checked)} />
+        Devolver las unidades al stock
+      </label>
+      {errors.form && <small className="help">{errors.form}</small>}
+      <div className="form-actions">
+        <button className="btn btn--principal" type="submit" disabled={saving}>
+          {saving ? "Guardando…" : "Registrar reembolso"}
+        </button>
+        <button className="btn" type="button" onClick={reembolsoTotal}>
+          Reembolso total
+        </button>
+        <button className="btn" type="button" onClick={onClose}>
+          Cancelar
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,166 @@
+import { useEffect, useRef } from "react";
+import type { CakeCustomization, CakeOption, CakeOptionGroup } from "../../types";
+import { CAKE_GROUP_LABEL, optionsByGroup } from "../../utils/cakeBuilder";
+import { formatMoney } from "../../utils/format";
+
+type Props = {
+  image: string;
+  options: CakeOption[];
+  value: CakeCustomization;
+  message: string;
+  onChange: (next: CakeCustomization) => void;
+  onMessageChange: (message: string) => void;
+};
+
+const PREVIEW_SIZE = 320;
+const MESSAGE_MAX_LENGTH = 120;
+
+function wrapLines(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let current = "";
+  for (const word of words) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (ctx.measureText(candidate).width > maxWidth && current) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) lines.push(current);
+  return lines.slice(0, 3);
+}
+
+function CakePreview({ image, message }: { image: string; message: string }) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    let cancelled = false;
+
+    const drawMessage = () => {
+      const text = message.trim();
+      if (!text) return;
+      ctx.font = "28px Pacifico, cursive";
+      ctx.textAlign = "center";
+      ctx.textBaseline = "middle";
+      const lines = wrapLines(ctx, text, PREVIEW_SIZE * 0.8);
+      const lineHeight = 34;
+      const startY = PREVIEW_SIZE / 2 - ((lines.length - 1) * lineHeight) / 2;
+      lines.forEach((line, index) => {
+        const y = startY + index * lineHeight;
+        ctx.lineWidth = 4;
+        ctx.strokeStyle = "rgba(255,255,255,.85)";
+        ctx.strokeText(line, PREVIEW_SIZE / 2, y);
+        ctx.fillStyle = "#8c4b27";
+        ctx.fillText(line, PREVIEW_SIZE / 2, y);
+      });
+    };
+
+    const img = new Image();
+    img.onload = () => {
+      if (cancelled) return;
+      ctx.clearRect(0, 0, PREVIEW_SIZE, PREVIEW_SIZE);
+      ctx.drawImage(img, 0, 0, PREVIEW_SIZE, PREVIEW_SIZE);
+      drawMessage();
+    };
+    img.onerror = () => {
+      if (cancelled) return;
+      ctx.fillStyle = "#faf7f2";
+      ctx.fillRect(0, 0, PREVIEW_SIZE, PREVIEW_SIZE);
+      drawMessage();
+    };
+    img.src = image || "/img/placeholder.png";
+
+    return () => {
+      cancelled = true;
+    };
+  }, [image, message]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="cake-builder__preview"
+      width={PREVIEW_SIZE}
+      height={PREVIEW_SIZE}
+      aria-label="Vista previa del mensaje sobre la torta"
+    />
+  );
+}
+
+export function CakeBuilder({ image, options, value, message, onChange, onMessageChange }: Props) {
+  const singleGroups: Array<Exclude<CakeOptionGroup, "decoracion">> = ["base", "relleno", "cobertura"];
+  const decorations = optionsByGroup(options, "decoracion");
+
+  const toggleDecoration = (id: string) => {
+    const selected = value.decoraciones.includes(id)
+      ? value.decoraciones.filter((entry) => entry !== id)
+      : [...value.decoraciones, id];
+    onChange({ ...value, decoraciones: selected });
+  };
+
+  const priceLabel = (option: CakeOption) => (option.precio > 0 ? ` (+${formatMoney(option.precio)})` : "");
+
+  return (
+    <div id="customBox" className="pdp__custom cake-builder">
+      <div className="cake-builder__options">
+        {singleGroups.map((group) => {
+          const groupOptions = optionsByGroup(options, group);
+          if (!groupOptions.length) return null;
+          return (
+            <div className="form-group" key={group}>
+              <label htmlFor={`cake-${group}`}>{CAKE_GROUP_LABEL[group]}</label>
+              <select
+                id={`cake-${group}`}
+                className="input"
+                value={value[group] ?? ""}
+                onChange={(event) => onChange({ ...value, [group]: event.target.value })}
+              >
+                {groupOptions.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.label}
+                    {priceLabel(option)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          );
+        })}
+
+        {decorations.length > 0 && (
+          <fieldset className="cake-builder__decorations">
+            <legend>{CAKE_GROUP_LABEL.decoracion}</legend>
+            {decorations.map((option) => (
+              <label key={option.id} className="chk">
+                <input
+                  type="checkbox"
+                  checked={value.decoraciones.includes(option.id)}
+                  onChange={() => toggleDecoration(option.id)}
+                />
+                {option.label}
+                {priceLabel(option)}
+              </label>
+            ))}
+          </fieldset>
+        )}
+
+        <div className="form-group">
+          <label htmlFor="customMsg">Mensaje para la torta</label>
+          <textarea
+            id="customMsg"
+            rows={3}
+            maxLength={MESSAGE_MAX_LENGTH}
+            placeholder="Ej: ¡Feliz cumpleaños, Nico!"
+            value={message}
+            onChange={(event) => onMessageChange(event.target.value)}
+          />
+        </div>
+      </div>
+
+      <CakePreview image={image} message={message} />
+    </div>
+  );
+}
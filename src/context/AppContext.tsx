@@ -1,70 +1,86 @@
-<<<<<<< HEAD
-import {
-  createContext,
-  useCallback,
-  useContext,
-  useEffect,
-  useMemo,
-  useRef,
-  useState,
-  type ReactNode
-} from "react";
-=======
 import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, type ReactNode } from "react";
->>>>>>> master
 import type {
   AccountStatus,
   AdminSession,
   AdminUser,
   BlogComment,
+  CakeCustomization,
+  CakeOption,
   CartItem,
   CartTotals,
-<<<<<<< HEAD
-=======
   CouponInfo,
->>>>>>> master
   CustomerSession,
   CustomerUser,
+  Ingredient,
   Order,
   OrderItem,
+  OrderPage,
+  OrderSummary,
+  OrderRefundItem,
+  PickupLocation,
   Product,
   ProductPricing,
+  Recipe,
+  ShippingZone,
+  StockCount,
+  StockCountLine,
+  StockLot,
+  StockMovement,
   UserBenefits,
   UserAddress,
   UserPreferences
 } from "../types";
-<<<<<<< HEAD
-import { BASE_PRODUCTS } from "../data/products";
-import { COUPONS } from "../data/coupons";
-import { BASE_ADMIN_USERS } from "../data/adminUsers";
-import { BASE_ORDERS } from "../data/orders";
-import { computeAge, isBirthdayToday } from "../utils/dates";
-import { readJSON, removeKey, writeJSON } from "../utils/storage";
-import { cleanRun, isRunValid, isEmailAllowed } from "../utils/validators";
-import { buildReceiptHTML } from "../utils/receipt";
-
-const USERS_KEY = "USERS_V1";
-const CURRENT_USER_KEY = "CURRENT_USER_V1";
-const CART_KEY = "cart"; // legacy guest cart
-const SHIP_KEY = "shipCost";
-const COUPON_KEY = "couponCode_v1";
-const ADMIN_PRODUCTS_KEY = "ADMIN_PRODUCTS_V1";
-const ADMIN_USERS_KEY = "ADMIN_USERS_V1";
-const ADMIN_SESSION_KEY = "session";
-const BLOG_COMMENTS_KEY = "BLOG_COMMENTS_V1";
-const ORDERS_KEY = "ORDERS_V1";
-
-const EMAIL_DUOC_REGEX = /@duoc\.cl$/i;
-=======
-import { computeAge, isBirthdayToday } from "../utils/dates";
 import { buildReceiptHTML } from "../utils/receipt";
+import { addDays, describeDelivery, toIsoDate } from "../utils/delivery";
+import { ORDER_STATES, canCustomerCancel, findTransition, isFinalStatus, refundableAmount } from "../utils/orderStatus";
+import { RECENT_ORDERS_DAYS, type OrderFilters } from "../utils/orderFilters";
+import { defaultVariant, findVariant, resolveCartLine, stockFor, unitPriceFor } from "../utils/variants";
+import { isSameCartLine } from "../utils/cart";
+import { crossedCriticalStock } from "../utils/replenishment";
+import { FULFILLMENT_STATES, consumeFefo } from "../utils/lots";
+import { CONSUMES_INGREDIENTS_STATUS, findShortages, formatQuantity, ingredientRequirements } from "../utils/recipes";
+import {
+  applyStockAdjustments,
+  applyStockLevel,
+  movementDelta,
+  validateStockAdjustment,
+  validateStockMovement,
+  type StockAdjustment,
+  type StockMovementDraft
+} from "../utils/stock";
+import { customizationPrice, describeCustomization } from "../utils/cakeBuilder";
+import { couponUses } from "../utils/coupons";
+import {
+  BIRTHDAY_CAKE_ID,
+  DEFAULT_PROMOTION_RULES,
+  birthdayStatus,
+  computeBenefits,
+  customerDiscountPercent,
+  evaluateCouponCode,
+  priceItem,
+  type CouponEval,
+  type PromotionContext
+} from "../utils/promotions";
 import {
   fetchProducts,
   createProduct as apiCreateProduct,
   updateProduct as apiUpdateProduct,
   deleteProduct as apiDeleteProduct
 } from "../services/products";
-import { fetchCoupons } from "../services/coupons";
+import {
+  fetchCoupons,
+  fetchAdminCoupons,
+  createCoupon as apiCreateCoupon,
+  updateCoupon as apiUpdateCoupon
+} from "../services/coupons";
+import { fetchCakeOptions } from "../services/cakeOptions";
+import {
+  fetchShippingZones,
+  createShippingZone as apiCreateShippingZone,
+  updateShippingZone as apiUpdateShippingZone,
+  deleteShippingZone as apiDeleteShippingZone
+} from "../services/shippingZones";
+import { fetchPickupLocations } from "../services/pickup";
 import { login, refreshAuth } from "../services/auth";
 import {
   registerCustomer as apiRegisterCustomer,
@@ -82,12 +98,19 @@ import {
 import {
   createOrder as apiCreateOrder,
   fetchMyOrders,
-  fetchAllOrders,
   updateOrderStatus as apiUpdateOrderStatus,
+  markOrderPickedUp as apiMarkOrderPickedUp,
+  trackOrder as apiTrackOrder,
+  searchOrders as apiSearchOrders,
+  searchAllOrders,
+  fetchOrderSummary as apiFetchOrderSummary,
+  cancelMyOrder as apiCancelMyOrder,
+  createRefund as apiCreateRefund,
   type CreateOrderRequestDto,
   type OrderResponseDto,
   type OrderStatusDto,
-  type OrderItemResponseDto
+  type OrderItemResponseDto,
+  type OrderSearchQueryDto
 } from "../services/orders";
 import {
   fetchStaff,
@@ -98,6 +121,28 @@ import {
   type StaffRequestDto,
   type StaffUpdateRequestDto
 } from "../services/staff";
+import { openRealtimeChannel, type RealtimeMode } from "../services/realtime";
+import {
+  createStockMovement as apiCreateStockMovement,
+  fetchStockLots,
+  fetchStockMovements,
+  fetchWasteMovements,
+  STOCK_MOVEMENT_TYPE_TO_DTO
+} from "../services/inventory";
+import {
+  createIngredient as apiCreateIngredient,
+  fetchIngredients,
+  fetchRecipes,
+  saveRecipe as apiSaveRecipe,
+  updateIngredient as apiUpdateIngredient
+} from "../services/ingredients";
+import {
+  approveStockCount as apiApproveStockCount,
+  cancelStockCount as apiCancelStockCount,
+  createStockCount as apiCreateStockCount,
+  fetchStockCounts as apiFetchStockCounts,
+  saveStockCountLines as apiSaveStockCountLines
+} from "../services/stockCounts";
 import {
   createBlogComment as apiCreateBlogComment,
   updateBlogComment as apiUpdateBlogComment,
@@ -105,269 +150,8 @@ import {
 } from "../services/blog";
 
 const AUTH_STORAGE_KEY = "pagpasteleria::auth_v1";
->>>>>>> master
-const FELICES_CODE = "FELICES50";
-const BDAY_CAKE_ID = "BDAY001";
-const SENIOR_DISCOUNT = 0.5;
-const PROMO_DISCOUNT = 0.1;
-const DEFAULT_SHIPPING_COST = 3000;
-<<<<<<< HEAD
-const ADDRESS_LIMIT = 5;
-const SHIPPING_VALUES = [3000, 6000];
-
-const generateAddressId = () => `addr_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 7)}`;
-
-const sanitizeIncomingAddresses = (
-  incoming: Array<Partial<UserAddress>>,
-  existing: UserAddress[] | undefined,
-  now: number
-): UserAddress[] => {
-  const map = new Map<string, UserAddress>();
-  incoming.forEach((entry) => {
-    if (!entry) return;
-    const direccion = entry.direccion?.trim();
-    const region = entry.region?.trim();
-    const comuna = entry.comuna?.trim();
-    if (!direccion || !region || !comuna) return;
-    const trimmedId = typeof entry.id === "string" ? entry.id.trim() : "";
-    const id = trimmedId || generateAddressId();
-    const previous = existing?.find((addr) => addr.id === trimmedId);
-    map.set(id, {
-      id,
-      alias: entry.alias?.trim() || undefined,
-      direccion,
-      region,
-      comuna,
-      referencia: entry.referencia?.trim() || undefined,
-      createdAt: previous?.createdAt ?? entry.createdAt ?? now,
-      updatedAt: now
-    });
-  });
-  return Array.from(map.values()).slice(0, ADDRESS_LIMIT);
-};
-
-const normalizeShipCost = (value?: number) =>
-  typeof value === "number" && SHIPPING_VALUES.includes(value) ? value : DEFAULT_SHIPPING_COST;
-
-function normalizeProduct(entry: any): Product | null {
-  if (!entry) return null;
-  const id = String(
-    entry.id || entry.codigo || entry.code || entry.nombre || entry.name || ""
-  ).trim();
-  if (!id) return null;
-  const baseImg = entry.img || entry.imagen || entry.image || entry.picture || "";
-  const isDataUrl = typeof baseImg === "string" && (baseImg.startsWith("data:") || baseImg.startsWith("/data:"));
-  const cleanedDataUrl = isDataUrl ? baseImg.replace(/^\//, "") : baseImg;
-  const img = isDataUrl
-    ? cleanedDataUrl
-    : cleanedDataUrl.startsWith("/")
-      ? cleanedDataUrl
-      : cleanedDataUrl
-        ? `/${cleanedDataUrl}`
-        : "";
-  return {
-    id,
-    nombre: entry.nombre || entry.name || entry.title || "",
-    precio: Number(entry.precio ?? entry.price ?? 0),
-    categoria: entry.categoria || entry.category || entry.categoryName || "",
-    attr: entry.attr || entry.atributo || entry.attributes || "",
-    img,
-    stock: Number(entry.stock ?? 0),
-    stockCritico: Number(entry.stockCritico ?? 0),
-    descripcion: entry.descripcion || entry.longDesc || ""
-  };
-}
-
-function toAdminRecord(product: Product) {
-  const image = product.img.startsWith("/data:")
-    ? product.img.slice(1)
-    : product.img.startsWith("/")
-      ? product.img.slice(1)
-      : product.img;
-  return {
-    codigo: product.id,
-    nombre: product.nombre,
-    precio: product.id === BDAY_CAKE_ID ? 0 : product.precio,
-    categoria: product.categoria,
-    attr: product.attr,
-    imagen: image,
-    stock: product.stock,
-    stockCritico: product.stockCritico,
-    descripcion: product.descripcion ?? ""
-  };
-}
-
-function loadProducts(): Product[] {
-  const storedRaw = readJSON<any[]>(ADMIN_PRODUCTS_KEY, []);
-  if (!storedRaw.length) {
-    writeJSON(ADMIN_PRODUCTS_KEY, BASE_PRODUCTS.map(toAdminRecord));
-    return BASE_PRODUCTS.map((product) =>
-      product.id === BDAY_CAKE_ID ? { ...product, precio: 0 } : product
-    );
-  }
-  const baseMap = new Map(BASE_PRODUCTS.map((p) => [p.id, { ...p }]));
-  storedRaw
-    .map(normalizeProduct)
-    .filter((p): p is Product => Boolean(p))
-    .forEach((p) => {
-      const existing = baseMap.get(p.id) || {};
-      const merged = { ...existing, ...p };
-      baseMap.set(p.id, merged.id === BDAY_CAKE_ID ? { ...merged, precio: 0 } : merged);
-    });
-  return Array.from(baseMap.values());
-}
-
-function normalizeStatus(status?: AccountStatus): AccountStatus {
-  return status === "inactive" ? "inactive" : "active";
-}
-
-function loadCustomers(): CustomerUser[] {
-  const stored = readJSON<CustomerUser[] | null>(USERS_KEY, []);
-  if (!Array.isArray(stored)) return [];
-  return stored.map((user) => ({
-    ...user,
-    status: normalizeStatus(user?.status)
-  }));
-}
-
-function loadCustomerSession(): CustomerSession | null {
-  return readJSON<CustomerSession | null>(CURRENT_USER_KEY, null);
-}
-
-function loadAdminUsers(): AdminUser[] {
-  const stored = readJSON<AdminUser[]>(ADMIN_USERS_KEY, []);
-  if (!stored.length) {
-    writeJSON(ADMIN_USERS_KEY, BASE_ADMIN_USERS);
-    return BASE_ADMIN_USERS;
-  }
-  const map = new Map(
-    BASE_ADMIN_USERS.map((u) => [u.run.toUpperCase(), { ...u }])
-  );
-  stored.forEach((user) => {
-    map.set((user.run || "").toUpperCase(), { ...map.get(user.run.toUpperCase()), ...user });
-  });
-  return Array.from(map.values());
-}
-
-function loadAdminSession(): AdminSession | null {
-  return readJSON<AdminSession | null>(ADMIN_SESSION_KEY, null);
-}
-
-const normalizeBenefitList = (value: unknown): string[] | undefined => {
-  if (!Array.isArray(value)) return undefined;
-  const filtered = value
-    .map((entry) => (typeof entry === "string" ? entry.trim() : ""))
-    .filter(Boolean);
-  return filtered.length ? filtered : undefined;
-};
-
-const normalizeOrderItem = (entry: any): OrderItem => {
-  const qtyRaw = Number(entry?.qty ?? 0);
-  const qty = Number.isFinite(qtyRaw) && qtyRaw > 0 ? Math.floor(qtyRaw) : 1;
-  const originalUnit = Number(entry?.originalUnitPrice ?? entry?.price ?? entry?.unitPrice ?? 0);
-  const unit = Number(entry?.unitPrice ?? entry?.price ?? originalUnit);
-  const discountPerUnit = Number(entry?.discountPerUnit ?? Math.max(0, originalUnit - unit));
-  const originalSubtotal = Number(entry?.originalSubtotal ?? originalUnit * qty);
-  const subtotal = Number(entry?.subtotal ?? unit * qty);
-  const benefitLabels = normalizeBenefitList(entry?.benefitLabels);
-  return {
-    codigo: String(entry?.codigo || entry?.id || "").trim() || "SIN-COD",
-    nombre: String(entry?.nombre || entry?.name || "Producto").trim() || "Producto",
-    qty,
-    unitPrice: Math.max(0, unit),
-    originalUnitPrice: Math.max(0, originalUnit),
-    discountPerUnit: Math.max(0, discountPerUnit),
-    subtotal: Math.max(0, subtotal),
-    originalSubtotal: Math.max(0, originalSubtotal),
-    benefitLabels
-  } satisfies OrderItem;
-};
-
-function normalizeOrder(entry: any): Order {
-  const items: OrderItem[] = Array.isArray(entry?.items) ? entry.items.map(normalizeOrderItem) : [];
-  const subtotal = Number(entry?.subtotal ?? items.reduce((sum: number, item: OrderItem) => sum + item.originalSubtotal, 0));
-  const shippingCost = Number(entry?.shippingCost ?? 0);
-  const total = Number(entry?.total ?? Math.max(0, subtotal - (entry?.discountTotal ?? 0) + shippingCost));
-  const discountFromItems = items.reduce(
-    (sum: number, item: OrderItem) => sum + Math.max(0, item.originalSubtotal - item.subtotal),
-    0
-  );
-  const discountTotal = Number(entry?.discountTotal ?? discountFromItems);
-  const createdAtRaw = Number(entry?.createdAt ?? entry?.fecha ?? entry?.date ?? Date.now());
-  const createdAt = Number.isFinite(createdAtRaw) && createdAtRaw > 0 ? createdAtRaw : Date.now();
-  const customerEmailValue =
-    typeof entry?.customerEmail === "string" && entry.customerEmail.trim()
-      ? entry.customerEmail.trim()
-      : typeof entry?.contactEmail === "string" && entry.contactEmail.trim()
-        ? entry.contactEmail.trim()
-        : typeof entry?.email === "string" && entry.email.trim()
-          ? entry.email.trim()
-          : undefined;
-  const couponLabelValue = typeof entry?.couponLabel === "string" && entry.couponLabel.trim() ? entry.couponLabel.trim() : undefined;
-  return {
-    id: String(entry?.id || `PED${Date.now()}`).trim(),
-    cliente: String(entry?.cliente || "Cliente").trim(),
-    total: Math.max(0, total),
-    estado: typeof entry?.estado === "string" && entry.estado.trim() ? entry.estado : "Pendiente",
-    items,
-    subtotal: Math.max(0, subtotal),
-    discountTotal: Math.max(0, discountTotal),
-    shippingCost: Math.max(0, shippingCost),
-    createdAt,
-    customerEmail: customerEmailValue,
-    benefitsApplied: normalizeBenefitList(entry?.benefitsApplied),
-    couponCode: typeof entry?.couponCode === "string" && entry.couponCode.trim() ? entry.couponCode.trim() : undefined,
-    couponLabel: couponLabelValue
-  } satisfies Order;
-}
-
-function loadOrders(): Order[] {
-  const stored = readJSON<any[]>(ORDERS_KEY, []);
-  if (!stored.length) {
-    writeJSON(ORDERS_KEY, BASE_ORDERS);
-    return BASE_ORDERS;
-  }
-  return stored.map(normalizeOrder);
-}
-
-function loadComments(): Record<string, BlogComment[]> {
-  const raw = readJSON<Record<string, any[]>>(BLOG_COMMENTS_KEY, {});
-  const ensure = (list?: any[]) =>
-    Array.isArray(list)
-      ? list.map((c) => {
-          const comment = c as any;
-          const owner = (comment.ownerId || comment.authorEmail || comment.email || "").toLowerCase();
-          return {
-            id:
-              comment.id || `c_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
-            ownerId: owner,
-            authorEmail: owner,
-            authorName: comment.authorName || comment.name || comment.author || "",
-            text: comment.text || "",
-            ts: Number(comment.ts || Date.now()),
-            editedAt: comment.editedAt ?? null
-          } satisfies BlogComment;
-        })
-      : [];
-  const result: Record<string, BlogComment[]> = {};
-  for (const key of Object.keys(raw)) {
-    result[key] = ensure(raw[key]);
-  }
-  writeJSON(BLOG_COMMENTS_KEY, result);
-  return result;
-}
-=======
-const SHIPPING_VALUES = [3000, 6000];
-const EMAIL_DUOC_REGEX = /@duoc\.cl$/i;
->>>>>>> master
-
-type CouponEval = {
-  valid: boolean;
-  discount: number;
-  shipAfter: number;
-  label?: string;
-  code?: string;
-};
+/** Roles del personal que reciben el aviso de stock crítico. */
+const STOCK_ALERT_ROLES = ["administrador", "inventario"];
 
 type NotificationKind = "info" | "success" | "error";
 type NotificationMode = "toast" | "dialog";
@@ -409,9 +193,6 @@ type AppNotification = {
   input?: DialogInputConfig;
 };
 
-<<<<<<< HEAD
-export type { AppNotification, NotificationPayload, DialogInputConfig };
-=======
 type AuthRole = "CUSTOMER" | "ADMIN";
 
 type AuthState = {
@@ -448,10 +229,11 @@ const ORDER_LABEL_TO_STATUS: Record<string, OrderStatusDto> = {
   Cancelado: "CANCELADO"
 };
 
-const SHIPPING_OPTION_LOOKUP = new Set(SHIPPING_VALUES);
-
-const normalizeShipCost = (value?: number) =>
-  typeof value === "number" && SHIPPING_OPTION_LOOKUP.has(value) ? value : DEFAULT_SHIPPING_COST;
+const ORDER_SORT_FIELD: Record<OrderFilters["orden"], OrderSearchQueryDto["sort"]> = {
+  fecha: "createdAt",
+  total: "total",
+  cliente: "customerName"
+};
 
 const normalizeAccountStatus = (status?: string | null): AccountStatus =>
   status && status.toLowerCase() === "inactive" ? "inactive" : "active";
@@ -482,13 +264,11 @@ const mapCustomerProfile = (dto: CustomerProfileDto): CustomerUser => {
     ? {
         addresses,
         primaryAddressId: primaryAddress?.id,
-        defaultShip: dto.defaultShippingCost ?? DEFAULT_SHIPPING_COST,
         newsletter: dto.newsletter,
         saveAddress: dto.saveAddress
       }
-    : dto.defaultShippingCost || dto.newsletter || dto.saveAddress
+    : dto.newsletter || dto.saveAddress
       ? {
-          defaultShip: dto.defaultShippingCost ?? DEFAULT_SHIPPING_COST,
           newsletter: dto.newsletter,
           saveAddress: dto.saveAddress
         }
@@ -533,7 +313,6 @@ const mapCustomerSummary = (dto: CustomerSummaryDto): CustomerUser => ({
   felices50: dto.felices50,
   bdayRedeemedYear: dto.birthdayRedeemedYear ?? undefined,
   prefs: {
-    defaultShip: dto.defaultShippingCost ?? DEFAULT_SHIPPING_COST,
     newsletter: dto.newsletter,
     saveAddress: true
   },
@@ -557,13 +336,16 @@ const mapStaff = (dto: StaffResponseDto): AdminUser => ({
 const mapOrderItem = (dto: OrderItemResponseDto): OrderItem => ({
   codigo: dto.codigo,
   nombre: dto.nombre,
+  variantId: dto.variantId ?? undefined,
+  variantLabel: dto.variantLabel ?? undefined,
   qty: dto.quantity,
   unitPrice: dto.unitPrice,
   originalUnitPrice: dto.originalUnitPrice,
   discountPerUnit: dto.discountPerUnit,
   subtotal: dto.subtotal,
   originalSubtotal: dto.originalSubtotal,
-  benefitLabels: dto.benefitLabels ?? undefined
+  benefitLabels: dto.benefitLabels ?? undefined,
+  note: dto.note ?? undefined
 });
 
 const mapOrder = (dto: OrderResponseDto): Order => ({
@@ -581,9 +363,62 @@ const mapOrder = (dto: OrderResponseDto): Order => ({
   customerEmail: dto.customerEmail ?? undefined,
   benefitsApplied: dto.benefitsApplied ?? undefined,
   couponCode: dto.couponCode ?? undefined,
-  couponLabel: dto.couponLabel ?? undefined
+  couponLabel: dto.couponLabel ?? undefined,
+  deliveryDate: dto.deliveryDate ?? undefined,
+  deliverySlot: dto.deliverySlotLabel ?? undefined,
+  fulfillment: dto.fulfillment === "PICKUP" ? "pickup" : "delivery",
+  pickupLocation: dto.pickupLocationName ?? undefined,
+  pickupCode: dto.pickupCode ?? undefined,
+  pickedUpAt: dto.pickedUpAt ?? undefined,
+  statusHistory: dto.statusHistory?.map((entry) => ({
+    estado: ORDER_STATUS_LABEL[entry.status] ?? entry.status,
+    at: entry.changedAt,
+    desde: entry.previousStatus ? ORDER_STATUS_LABEL[entry.previousStatus] ?? entry.previousStatus : undefined,
+    actor: entry.changedBy ?? undefined,
+    nota: entry.notes ?? undefined
+  })),
+  refunds: dto.refunds?.map((refund) => ({
+    id: refund.id,
+    monto: refund.amount,
+    motivo: refund.reason,
+    items: refund.items.map((item) => ({
+      codigo: item.productId,
+      variantId: item.variantId ?? undefined,
+      qty: item.quantity
+    })),
+    repuesto: refund.restocked,
+    createdAt: refund.createdAt,
+    actor: refund.createdBy ?? undefined
+  }))
 });
 
+const OPEN_ORDER_STATUSES = ORDER_STATES.filter((estado) => !isFinalStatus(estado)).map(
+  (estado) => ORDER_LABEL_TO_STATUS[estado]
+);
+
+/**
+ * Pedidos que el panel precarga: los creados en los últimos RECENT_ORDERS_DAYS días
+ * más los que siguen abiertos, que es lo que usan el tablero, producción e inventario.
+ */
+async function fetchAdminOrders(token: string): Promise<Order[]> {
+  const sort = { sort: "createdAt", direction: "desc" } as const;
+  const from = toIsoDate(addDays(new Date(), -RECENT_ORDERS_DAYS));
+  const batches = await Promise.all([
+    searchAllOrders({ ...sort, from }, token),
+    ...OPEN_ORDER_STATUSES.map((status) => searchAllOrders({ ...sort, status }, token))
+  ]);
+  const byId = new Map<string, Order>();
+  batches.flat().forEach((dto) => {
+    const order = mapOrder(dto);
+    byId.set(order.id, order);
+  });
+  return [...byId.values()].sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/** La torta de cumpleaños se regala como beneficio, así que se guarda siempre con precio 0. */
+const normalizeProductPrice = (product: Product): Product =>
+  product.id === BIRTHDAY_CAKE_ID ? { ...product, precio: 0 } : product;
+
 const extractErrorMessage = (error: unknown, fallback: string): string => {
   if (error && typeof error === "object") {
     const payload = (error as Record<string, unknown>).payload;
@@ -600,34 +435,67 @@ const extractErrorMessage = (error: unknown, fallback: string): string => {
   }
   return fallback;
 };
->>>>>>> master
 
 type ContextValue = {
   products: Product[];
   storefrontProducts: Product[];
-<<<<<<< HEAD
-  refreshProducts: () => void;
-  upsertProduct: (product: Product) => void;
-  removeProduct: (id: string) => void;
-=======
   refreshProducts: () => Promise<void>;
   upsertProduct: (product: Product, options?: { isNew?: boolean }) => Promise<{ ok: boolean; message?: string }>;
   removeProduct: (id: string) => Promise<{ ok: boolean; message?: string }>;
->>>>>>> master
+  importProducts: (changes: {
+    nuevos: Product[];
+    actualizados: Product[];
+  }) => Promise<{ ok: boolean; created: number; updated: number; failed: Array<{ id: string; message: string }>; message?: string }>;
+  recordStockMovement: (
+    movement: StockMovementDraft & { productId: string; variantId?: string }
+  ) => Promise<{ ok: boolean; movement?: StockMovement; message?: string }>;
+  fetchStockHistory: (productId: string) => Promise<{ ok: boolean; movements?: StockMovement[]; message?: string }>;
+  adjustStock: (
+    adjustments: StockAdjustment[]
+  ) => Promise<{ ok: boolean; failed: Array<{ productId: string; message: string }>; message?: string }>;
+  fetchStockCounts: () => Promise<{ ok: boolean; counts?: StockCount[]; message?: string }>;
+  startStockCount: (notas: string) => Promise<{ ok: boolean; count?: StockCount; message?: string }>;
+  saveStockCount: (id: string, lineas: StockCountLine[]) => Promise<{ ok: boolean; count?: StockCount; message?: string }>;
+  approveStockCount: (id: string) => Promise<{ ok: boolean; count?: StockCount; message?: string }>;
+  cancelStockCount: (id: string) => Promise<{ ok: boolean; count?: StockCount; message?: string }>;
+  stockLots: StockLot[];
+  refreshStockLots: () => Promise<void>;
+  fetchWasteReport: (from: string, to: string) => Promise<{ ok: boolean; movements?: StockMovement[]; message?: string }>;
+  ingredients: Ingredient[];
+  recipes: Recipe[];
+  refreshIngredients: () => Promise<void>;
+  saveIngredient: (ingredient: Ingredient, options?: { isNew?: boolean }) => Promise<{ ok: boolean; message?: string }>;
+  saveRecipe: (recipe: Recipe) => Promise<{ ok: boolean; message?: string }>;
   cart: CartItem[];
-  addToCart: (id: string, qty?: number, msg?: string) => void;
-  setCartQty: (id: string, qty: number, msg?: string) => void;
-  removeFromCart: (id: string, msg?: string) => void;
+  addToCart: (
+    id: string,
+    qty?: number,
+    msg?: string,
+    variantId?: string,
+    custom?: CakeCustomization,
+    /** `silent` omite el aviso de producto agregado; quien llama informa el resultado. */
+    options?: { silent?: boolean }
+  ) => number;
+  setCartQty: (id: string, qty: number, msg?: string, variantId?: string, custom?: CakeCustomization) => void;
+  removeFromCart: (id: string, msg?: string, variantId?: string, custom?: CakeCustomization) => void;
   clearCart: () => void;
   cartTotals: CartTotals;
-  shippingCost: number;
-  setShippingCost: (value: number) => void;
+  shippingZones: ShippingZone[];
+  refreshShippingZones: () => Promise<void>;
+  saveShippingZone: (zone: ShippingZone, options?: { isNew?: boolean }) => Promise<{ ok: boolean; message?: string }>;
+  removeShippingZone: (zoneId: string) => Promise<{ ok: boolean; message?: string }>;
+  pickupLocations: PickupLocation[];
   coupon: string;
   setCoupon: (code: string) => void;
-  evaluateCoupon: (subTotal: number, shipCost: number) => CouponEval;
+  evaluateCoupon: (subTotal: number, shipCost: number, items?: CartTotals["items"]) => CouponEval;
+  adminCoupons: CouponInfo[];
+  refreshAdminCoupons: () => Promise<void>;
+  saveCoupon: (coupon: CouponInfo, options?: { isNew?: boolean }) => Promise<{ ok: boolean; message?: string }>;
+  setCouponActive: (code: string, active: boolean) => Promise<{ ok: boolean; message?: string }>;
   benefitsForCart: (items: CartTotals["items"], subTotal: number) => UserBenefits;
   userDiscountPercent: number;
-  getProductPricing: (product: Product, qty?: number) => ProductPricing;
+  getProductPricing: (product: Product, qty?: number, variantId?: string, extraUnitPrice?: number) => ProductPricing;
+  cakeOptions: CakeOption[];
   notifications: AppNotification[];
   showNotification: (payload: NotificationPayload) => void;
   dismissNotification: (id: string) => void;
@@ -637,66 +505,6 @@ type ContextValue = {
   birthdayRewardEligible: boolean;
   birthdayRewardAvailable: boolean;
   registerCustomer: (
-<<<<<<< HEAD
-    payload: Omit<CustomerUser, "createdAt" | "bdayRedeemedYear"> & {
-      createdAt?: number;
-      bdayRedeemedYear?: number | null;
-    }
-  ) => { ok: boolean; message?: string };
-  loginCustomer: (email: string, password: string) => { ok: boolean; message?: string };
-  logoutCustomer: () => void;
-  updateCustomer: (updates: Partial<CustomerUser>) => void;
-  upsertCustomer: (user: CustomerUser) => void;
-  removeCustomer: (email: string) => void;
-  setCustomerStatus: (email: string, status: AccountStatus) => void;
-  adminUsers: AdminUser[];
-  upsertAdminUser: (user: AdminUser) => void;
-  removeAdminUser: (run: string) => void;
-  adminSession: AdminSession | null;
-  adminLogin: (email: string, password: string) => { ok: boolean; message?: string };
-  adminLogout: () => void;
-  orders: Order[];
-  updateOrders: (orders: Order[]) => void;
-  comments: Record<string, BlogComment[]>;
-  addComment: (postId: string, text: string) => { ok: boolean; message?: string };
-  editComment: (postId: string, id: string, text: string) => void;
-  deleteComment: (postId: string, id: string) => void;
-  openReceiptWindow: (payload: {
-    items: CartTotals["items"];
-    subTotal: number;
-    effectiveSubtotal: number;
-    benefits: UserBenefits;
-    coupon: CouponEval;
-    shipCost: number;
-    total: number;
-    contactEmail?: string | null;
-  }) => void;
-};
-
-const AppContext = createContext<ContextValue | undefined>(undefined);
-
-export function AppProvider({ children }: { children: ReactNode }) {
-  const [products, setProducts] = useState<Product[]>(() => loadProducts());
-  const [customers, setCustomers] = useState<CustomerUser[]>(() => loadCustomers());
-  const [customerSession, setCustomerSession] = useState<CustomerSession | null>(() => loadCustomerSession());
-  // Make cart unique per customer (if logged) otherwise use guest key
-  const cartStorageKey = customerSession?.email ? `${CART_KEY}_${customerSession.email.toLowerCase()}` : CART_KEY;
-  const [cart, setCart] = useState<CartItem[]>(() => readJSON<CartItem[]>(cartStorageKey, []));
-  const [shippingCost, setShippingCostState] = useState<number>(() => readJSON<number>(SHIP_KEY, 0));
-  const [coupon, setCouponState] = useState<string>(() => readJSON<string>(COUPON_KEY, ""));
-  const [adminUsers, setAdminUsers] = useState<AdminUser[]>(() => loadAdminUsers());
-  const [adminSession, setAdminSession] = useState<AdminSession | null>(() => loadAdminSession());
-  const [orders, setOrders] = useState<Order[]>(() => loadOrders());
-  const [comments, setComments] = useState<Record<string, BlogComment[]>>(() => loadComments());
-  const [notifications, setNotifications] = useState<AppNotification[]>([]);
-  const notificationTimers = useRef<Record<string, number>>({});
-
-  const currentCustomer = useMemo(() => {
-    if (!customerSession) return null;
-    const email = customerSession.email.toLowerCase();
-    return customers.find((user) => user.email.toLowerCase() === email) || null;
-  }, [customerSession, customers]);
-=======
     payload: Omit<CustomerUser, "createdAt" | "bdayRedeemedYear" | "id" | "status" | "prefs"> & {
       prefs?: UserPreferences;
       createdAt?: number;
@@ -717,7 +525,24 @@ export function AppProvider({ children }: { children: ReactNode }) {
   adminLogout: () => Promise<void>;
   orders: Order[];
   refreshOrders: () => Promise<void>;
-  changeOrderStatus: (orderId: string, nextStatusLabel: string) => Promise<{ ok: boolean; message?: string }>;
+  /** Cómo llegan los cambios de pedidos y stock del panel: stream, consulta periódica o sin canal. */
+  realtimeMode: RealtimeMode;
+  changeOrderStatus: (
+    orderId: string,
+    nextStatusLabel: string,
+    notes?: string
+  ) => Promise<{ ok: boolean; message?: string }>;
+  markOrderPickedUp: (orderId: string, pickupCode: string) => Promise<{ ok: boolean; message?: string }>;
+  trackOrder: (orderCode: string, email: string) => Promise<{ ok: boolean; order?: Order; message?: string }>;
+  searchOrders: (filters: OrderFilters) => Promise<{ ok: boolean; page?: OrderPage; message?: string }>;
+  fetchOrderSummary: () => Promise<{ ok: boolean; summary?: OrderSummary; message?: string }>;
+  /** Todos los pedidos creados desde `desde` (YYYY-MM-DD), más allá de los que el panel precarga. */
+  fetchOrdersSince: (desde: string) => Promise<{ ok: boolean; orders?: Order[]; message?: string }>;
+  cancelMyOrder: (orderId: string, reason?: string) => Promise<{ ok: boolean; message?: string }>;
+  refundOrder: (
+    orderId: string,
+    refund: { monto: number; motivo: string; items: OrderRefundItem[]; reponerStock: boolean }
+  ) => Promise<{ ok: boolean; message?: string }>;
   comments: Record<string, BlogComment[]>;
   addComment: (postSlug: string, text: string) => Promise<{ ok: boolean; message?: string }>;
   hydrateComments: (postSlug: string, list: BlogComment[]) => void;
@@ -776,8 +601,13 @@ export function AppProvider({ children }: { children: ReactNode }) {
   const [auth, setAuth] = useState<AuthState>(() => loadAuthFromSession());
   const [products, setProducts] = useState<Product[]>([]);
   const [couponDefinitions, setCouponDefinitions] = useState<Record<string, CouponInfo>>({});
+  const [adminCoupons, setAdminCoupons] = useState<CouponInfo[]>([]);
+  const [cakeOptions, setCakeOptions] = useState<CakeOption[]>([]);
   const [cart, setCart] = useState<CartItem[]>([]);
-  const [shippingCost, setShippingCostState] = useState<number>(DEFAULT_SHIPPING_COST);
+  // Carrito con lo agregado en llamadas aún no renderizadas (p. ej. "Volver a comprar" agrega varias líneas seguidas).
+  const cartRef = useRef<CartItem[]>([]);
+  const [shippingZones, setShippingZones] = useState<ShippingZone[]>([]);
+  const [pickupLocations, setPickupLocations] = useState<PickupLocation[]>([]);
   const [coupon, setCouponState] = useState<string>("");
   const [notifications, setNotifications] = useState<AppNotification[]>([]);
   const notificationTimers = useRef<Record<string, number>>({});
@@ -787,6 +617,10 @@ export function AppProvider({ children }: { children: ReactNode }) {
   const [adminUsers, setAdminUsers] = useState<AdminUser[]>([]);
   const [adminSession, setAdminSession] = useState<AdminSession | null>(null);
   const [orders, setOrders] = useState<Order[]>([]);
+  const [realtimeMode, setRealtimeMode] = useState<RealtimeMode>("closed");
+  const [stockLots, setStockLots] = useState<StockLot[]>([]);
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
   const [comments, setComments] = useState<Record<string, BlogComment[]>>({});
   const [initialHydrated, setInitialHydrated] = useState(false);
 
@@ -806,193 +640,90 @@ export function AppProvider({ children }: { children: ReactNode }) {
   }, [customerProfile]);
 
   const currentCustomer = customerProfile;
->>>>>>> master
 
-  const birthdayRewardEligible = useMemo(() => {
-    if (!customerSession) return false;
-    if (!EMAIL_DUOC_REGEX.test(customerSession.email || "")) return false;
-    return isBirthdayToday(customerSession.fnac);
-  }, [customerSession]);
+  const promotionContext = useMemo<PromotionContext>(() => ({ customer: customerSession }), [customerSession]);
 
-  const birthdayRewardAvailable = useMemo(() => {
-    if (!birthdayRewardEligible) return false;
-    const thisYear = new Date().getFullYear();
-    return (customerSession?.bdayRedeemedYear ?? null) !== thisYear;
-  }, [birthdayRewardEligible, customerSession]);
+  const { eligible: birthdayRewardEligible, available: birthdayRewardAvailable } = useMemo(
+    () => birthdayStatus(DEFAULT_PROMOTION_RULES, promotionContext),
+    [promotionContext]
+  );
 
   const storefrontProducts = useMemo(() => {
     if (birthdayRewardEligible) return products;
-    return products.filter((product) => product.id !== BDAY_CAKE_ID);
+    return products.filter((product) => product.id !== BIRTHDAY_CAKE_ID);
   }, [products, birthdayRewardEligible]);
 
-  const userDiscountPercent = useMemo(() => {
-<<<<<<< HEAD
-    if (!customerSession) return 0;
-    const age = computeAge(customerSession.fnac ?? "");
-    if (typeof age === "number" && age > 50) return SENIOR_DISCOUNT;
-    if (customerSession.promoCode === FELICES_CODE || customerSession.felices50) {
-      return PROMO_DISCOUNT;
-    }
-    return 0;
-  }, [customerSession]);
-=======
-    if (!customerProfile) return 0;
-    const age = computeAge(customerProfile.fnac ?? "");
-    if (typeof age === "number" && age > 50) return SENIOR_DISCOUNT;
-    if (customerProfile.promoCode?.toUpperCase() === FELICES_CODE || customerProfile.felices50) {
-      return PROMO_DISCOUNT;
-    }
-    return 0;
-  }, [customerProfile]);
->>>>>>> master
+  const userDiscountPercent = useMemo(
+    () => customerDiscountPercent(DEFAULT_PROMOTION_RULES, promotionContext),
+    [promotionContext]
+  );
 
   const getProductPricing = useCallback(
-    (product: Product, qty = 1): ProductPricing => {
-      const quantity = Number.isFinite(qty) ? Math.max(1, Math.floor(qty)) : 1;
-      if (product.id === BDAY_CAKE_ID && birthdayRewardAvailable) {
-        const originalUnitPrice = product.precio;
-        const discountPerUnit = originalUnitPrice;
-        const discountTotal = discountPerUnit * quantity;
-        return {
-          originalUnitPrice,
-          unitPrice: 0,
-          discountPercent: 1,
-          discountPerUnit,
-          originalTotal: originalUnitPrice * quantity,
-          discountTotal,
-          total: 0
-        };
-      }
-      const originalUnitPrice = product.precio;
-      const discountPercent = userDiscountPercent;
-      const unitPrice = discountPercent > 0
-        ? Math.max(0, Math.round(originalUnitPrice * (1 - discountPercent)))
-        : originalUnitPrice;
-      const discountPerUnit = Math.max(0, originalUnitPrice - unitPrice);
-      const originalTotal = originalUnitPrice * quantity;
-      const total = unitPrice * quantity;
-      const discountTotal = discountPerUnit * quantity;
-      return {
-        originalUnitPrice,
-        unitPrice,
-        discountPercent,
-        discountPerUnit,
-        originalTotal,
-        discountTotal,
-        total
-      };
+    (product: Product, qty = 1, variantId?: string, extraUnitPrice = 0): ProductPricing => {
+      const variant = findVariant(product, variantId) ?? defaultVariant(product);
+      const originalUnitPrice = unitPriceFor(product, variant) + Math.max(0, extraUnitPrice);
+      return priceItem(product.id, originalUnitPrice, qty, DEFAULT_PROMOTION_RULES, promotionContext);
     },
-    [userDiscountPercent, birthdayRewardAvailable]
+    [promotionContext]
   );
 
-<<<<<<< HEAD
-  useEffect(() => {
-    // Persist cart to a per-user key when possible
-    writeJSON(cartStorageKey, cart);
-  }, [cart, cartStorageKey]);
-
-  useEffect(() => {
-    // When the storage key changes (login/logout), load the matching cart
-    setCart(readJSON<CartItem[]>(cartStorageKey, []));
-  }, [cartStorageKey]);
-
-  useEffect(() => {
-    writeJSON(SHIP_KEY, shippingCost);
-  }, [shippingCost]);
-
-  useEffect(() => {
-    writeJSON(COUPON_KEY, coupon.trim().toUpperCase());
-  }, [coupon]);
-
-  const preferredShipping = currentCustomer?.prefs?.defaultShip ?? customerSession?.prefs?.defaultShip;
-  useEffect(() => {
-    const normalized = normalizeShipCost(preferredShipping);
-    setShippingCostState((prev) => (prev === normalized ? prev : normalized));
-  }, [preferredShipping]);
-
-  useEffect(() => {
-    writeJSON(USERS_KEY, customers);
-  }, [customers]);
-
-  useEffect(() => {
-    customerSession
-      ? writeJSON(CURRENT_USER_KEY, customerSession)
-      : removeKey(CURRENT_USER_KEY);
-  }, [customerSession]);
-
-  useEffect(() => {
-    writeJSON(ADMIN_USERS_KEY, adminUsers);
-  }, [adminUsers]);
-
-  useEffect(() => {
-    adminSession
-      ? writeJSON(ADMIN_SESSION_KEY, adminSession)
-      : removeKey(ADMIN_SESSION_KEY);
-  }, [adminSession]);
-
-  useEffect(() => {
-    writeJSON(ORDERS_KEY, orders);
-  }, [orders]);
-
-  useEffect(() => {
-    writeJSON(BLOG_COMMENTS_KEY, comments);
-  }, [comments]);
+  const cartTotals = useMemo<CartTotals>(() => {
+    const items = cart
+      .map((item) => {
+        const product = products.find((p) => p.id === item.id);
+        if (!product) return null;
+        const line = resolveCartLine(product, item.variantId);
+        if (!line) return null;
+        const { variant, stock } = line;
+        const isBirthdayCake = product.id === BIRTHDAY_CAKE_ID;
+        const available = Math.max(1, isBirthdayCake ? Math.min(1, stock) : stock);
+        const qty = Math.min(available, Math.max(1, Math.floor(Number.isFinite(item.qty) ? item.qty : 1)));
+        const pricing = getProductPricing(product, qty, variant?.id, customizationPrice(item.custom, cakeOptions));
+        return {
+          product,
+          variant,
+          qty,
+          msg: item.msg,
+          custom: item.custom,
+          customSummary: item.custom ? describeCustomization(item.custom, cakeOptions) : undefined,
+          subtotal: pricing.originalTotal,
+          pricing
+        };
+      })
+      .filter((entry): entry is NonNullable<typeof entry> => Boolean(entry));
+    const subTotal = items.reduce((sum, entry) => sum + entry.subtotal, 0);
+    const effectiveSubtotal = items.reduce((sum, entry) => sum + entry.pricing.total, 0);
+    const discountTotal = items.reduce((sum, entry) => sum + entry.pricing.discountTotal, 0);
+    const totalQty = items.reduce((sum, entry) => sum + entry.qty, 0);
+    return { items, subTotal, effectiveSubtotal, discountTotal, totalQty };
+  }, [cart, products, getProductPricing, cakeOptions]);
 
-  useEffect(() => () => {
-    const timers = notificationTimers.current;
-    for (const id of Object.keys(timers)) {
-      window.clearTimeout(timers[id]);
-    }
+  const setCoupon = useCallback((code: string) => {
+    setCouponState(code.trim().toUpperCase());
   }, []);
 
-  useEffect(() => {
-    const handler = (event: StorageEvent) => {
-      if (event.key === ADMIN_PRODUCTS_KEY) {
-        setProducts(loadProducts());
-      }
-      if (event.key === USERS_KEY) {
-        setCustomers(loadCustomers());
-      }
-      if (event.key === CURRENT_USER_KEY) {
-        setCustomerSession(loadCustomerSession());
-      }
-      if (event.key === ADMIN_USERS_KEY) {
-        setAdminUsers(loadAdminUsers());
-      }
-      if (event.key === ADMIN_SESSION_KEY) {
-        setAdminSession(loadAdminSession());
-      }
-      if (event.key === BLOG_COMMENTS_KEY) {
-        setComments(loadComments());
-      }
-      if (event.key === ORDERS_KEY) {
-        setOrders(loadOrders());
-      }
-      // React to cart changes for other tabs (guest or user-specific)
-      if (event.key && event.key.startsWith(CART_KEY)) {
-        // if it's the current user's cart key, reload
-        const myKey = customerSession?.email ? `${CART_KEY}_${customerSession.email.toLowerCase()}` : CART_KEY;
-        if (event.key === myKey) {
-          setCart(readJSON<CartItem[]>(myKey, []));
-        }
-      }
-    };
-    window.addEventListener("storage", handler);
-    return () => window.removeEventListener("storage", handler);
-  }, []);
+  const couponUsesByCustomer = useMemo(
+    () => (customerSession?.email ? couponUses(orders, customerSession.email) : {}),
+    [orders, customerSession?.email]
+  );
 
-  // Prune cart items when products change (evita huérfanos)
-  useEffect(() => {
-    const ids = new Set(products.map((p) => p.id));
-    setCart((prev) => {
-      const filtered = prev.filter((item) => ids.has(item.id));
-      return filtered.length === prev.length ? prev : filtered;
-    });
-  }, [products]);
+  const evaluateCoupon = useCallback(
+    (subTotal: number, shipCost: number, items?: CartTotals["items"]): CouponEval =>
+      evaluateCouponCode(
+        coupon,
+        couponDefinitions,
+        { subTotal, shipCost, items, customerUses: couponUsesByCustomer[coupon] ?? 0 },
+        DEFAULT_PROMOTION_RULES,
+        promotionContext
+      ),
+    [coupon, couponDefinitions, couponUsesByCustomer, promotionContext]
+  );
 
-  const refreshProducts = useCallback(() => {
-    setProducts(loadProducts());
-  }, []);
+  const benefitsForCart = useCallback(
+    (items: CartTotals["items"], subTotal: number): UserBenefits =>
+      computeBenefits(items, subTotal, DEFAULT_PROMOTION_RULES, promotionContext),
+    [promotionContext]
+  );
 
   const dismissNotification = useCallback((id: string) => {
     setNotifications((prev) => prev.filter((entry) => entry.id !== id));
@@ -1029,858 +760,83 @@ export function AppProvider({ children }: { children: ReactNode }) {
     [dismissNotification]
   );
 
-  const upsertProduct = useCallback(
-    (product: Product) => {
-      setProducts((prev) => {
-        const map = new Map(prev.map((p) => [p.id, p]));
-        const nextProduct = product.id === BDAY_CAKE_ID ? { ...product, precio: 0 } : product;
-        map.set(product.id, nextProduct);
-        const next = Array.from(map.values()).map((entry) =>
-          entry.id === BDAY_CAKE_ID ? { ...entry, precio: 0 } : entry
+  const hydrateForAuth = useCallback(async (state: AuthState) => {
+    if (!state.token || !state.role) {
+      setCustomerProfile(null);
+      setCustomers([]);
+      setAdminUsers([]);
+      setAdminSession(null);
+      setOrders([]);
+      return;
+    }
+
+    if (state.role === "CUSTOMER") {
+      try {
+        const [profileDto, ordersDto] = await Promise.all([
+          fetchCurrentCustomer(state.token),
+          fetchMyOrders(state.token)
+        ]);
+        const profile = mapCustomerProfile(profileDto);
+        setCustomerProfile(profile);
+        setCustomers([]);
+        setAdminUsers([]);
+        setAdminSession(null);
+        setOrders(ordersDto.map(mapOrder));
+      } catch (error) {
+        console.error("No se pudo obtener el perfil del cliente", error);
+        showNotification({ message: extractErrorMessage(error, "No se pudo cargar tu perfil"), kind: "error" });
+        setAuth(EMPTY_AUTH);
+        saveAuthToSession(EMPTY_AUTH);
+      }
+    } else {
+      try {
+        const [staffDto, customersDto, adminOrders] = await Promise.all([
+          fetchStaff(state.token),
+          fetchAdminCustomers(state.token),
+          fetchAdminOrders(state.token)
+        ]);
+        const staff = staffDto.map(mapStaff);
+        setAdminUsers(staff);
+        const staffDtoMatch = staffDto.find((s) => s.id === state.userId);
+        // Normalize email beforehand to avoid calling toLowerCase on undefined when no match exists.
+        const dtoEmail = staffDtoMatch?.email?.toLowerCase() ?? "";
+        const currentStaff = staff.find((entry) => entry.id === state.userId || (entry.correo?.toLowerCase() ?? "") === dtoEmail);
+        setAdminSession(
+          currentStaff
+            ? { correo: currentStaff.correo, nombre: `${currentStaff.nombre} ${currentStaff.apellidos}`.trim(), rol: currentStaff.rol }
+            : { correo: "admin", nombre: "Administrador", rol: "Administrador" }
         );
-        writeJSON(ADMIN_PRODUCTS_KEY, next.map(toAdminRecord));
-        return next;
-      });
+        setCustomerProfile(null);
+        setCustomers(customersDto.map(mapCustomerSummary));
+        setOrders(adminOrders);
+      } catch (error) {
+        console.error("No se pudieron cargar los datos administrativos", error);
+        showNotification({ message: extractErrorMessage(error, "No se pudo cargar el panel"), kind: "error" });
+        setAuth(EMPTY_AUTH);
+        saveAuthToSession(EMPTY_AUTH);
+      }
+    }
+  }, [showNotification]);
+
+  const applyAuthState = useCallback(
+    async (state: AuthState, options?: { hydrate?: boolean }) => {
+      setAuth(state);
+      saveAuthToSession(state);
+      if (options?.hydrate ?? true) {
+        await hydrateForAuth(state);
+      }
     },
-    []
+    [hydrateForAuth]
   );
 
-  const removeProduct = useCallback((id: string) => {
-    setProducts((prev) => {
-      const next = prev.filter((p) => p.id !== id);
-      writeJSON(ADMIN_PRODUCTS_KEY, next.map(toAdminRecord));
-      return next;
-    });
-  }, []);
-
-  const addToCart = useCallback(
-    (id: string, qty = 1, msg = "") => {
-      const product = products.find((p) => p.id === id);
-      if (!product) {
-        showNotification({
-          message: "Este producto ya no está disponible.",
-          kind: "error"
-        });
-        return;
-      }
-      if (customerSession?.status === "inactive") {
-        showNotification({
-          message: "Tu cuenta está desactivada. Contáctanos para reactivarla.",
-          kind: "error",
-          mode: "dialog",
-          actionLabel: "Entendido"
-        });
-        return;
-      }
-      if (product.stock <= 0) {
-        showNotification({
-          message: "Sin stock disponible.",
-          kind: "error"
-        });
-        return;
-      }
-      const isBirthdayCake = product.id === BDAY_CAKE_ID;
-      if (isBirthdayCake && !birthdayRewardAvailable) {
-        showNotification({
-          message: "Ya reclamaste esta torta por tu cumpleaños.",
-          kind: "info",
-          mode: "dialog"
-        });
-        return;
-      }
-      const desired = Math.max(1, Number(qty));
-      let outcome: { addedQty: number; status: "none" | "added" | "partial" | "noStock" } = {
-        addedQty: 0,
-        status: "none"
-      };
-      setCart((prev) => {
-        const idx = prev.findIndex((item) => item.id === id && (item.msg || "") === msg);
-        const currentQty = idx >= 0 ? prev[idx].qty : 0;
-        const limit = isBirthdayCake ? Math.min(1, product.stock) : product.stock;
-        const remaining = Math.max(0, limit - currentQty);
-        if (remaining <= 0) {
-          outcome = { addedQty: 0, status: "noStock" };
-          return prev;
-        }
-        const toAdd = Math.min(desired, remaining);
-        if (toAdd <= 0) {
-          outcome = { addedQty: 0, status: "noStock" };
-          return prev;
-        }
-        outcome = {
-          addedQty: toAdd,
-          status: toAdd < desired ? "partial" : "added"
-        };
-        if (idx >= 0) {
-          const next = [...prev];
-          next[idx] = { ...next[idx], qty: next[idx].qty + toAdd };
-          return next;
-        }
-        return [...prev, { id, qty: toAdd, msg }];
-      });
-      if (outcome.status === "noStock") {
-        showNotification({
-          message: "Sin stock disponible.",
-          kind: "error"
-        });
-        return;
-      }
-      if (outcome.addedQty > 0) {
-        const message =
-          outcome.status === "partial"
-            ? `Solo pudimos agregar ${outcome.addedQty} unidad(es). Stock disponible: ${product.stock}.`
-            : `${product.nombre} añadido al carrito.`;
-        showNotification({
-          message,
-          kind: "success",
-          mode: "dialog",
-          actionLabel: "OK"
-        });
-      }
-    },
-    [products, showNotification, birthdayRewardAvailable, customerSession?.status]
-  );
-
-  const setCartQty = useCallback(
-    (id: string, qty: number, msg = "") => {
-      const product = products.find((p) => p.id === id);
-      if (!product) return;
-      if (customerSession?.status === "inactive") {
-        showNotification({
-          message: "Tu cuenta está desactivada. No puedes modificar el carrito.",
-          kind: "error",
-          mode: "dialog",
-          actionLabel: "Entendido"
-        });
-        return;
-      }
-      const isBirthdayCake = product.id === BDAY_CAKE_ID;
-      const desiredRaw = Math.floor(Number.isFinite(qty) ? qty : 0);
-      const desired = product.stock > 0 ? Math.max(1, desiredRaw) : 0;
-      const max = isBirthdayCake ? Math.min(1, product.stock) : product.stock;
-      const nextQty = Math.min(desired, max);
-      if (desired > max) {
-        showNotification({
-          message: `Stock disponible: ${max}`,
-          kind: "info"
-        });
-      }
-      setCart((prev) => {
-        const idx = prev.findIndex((item) => item.id === id && (item.msg || "") === msg);
-        if (idx === -1) return prev;
-        const next = [...prev];
-        if (nextQty === 0 || (isBirthdayCake && !birthdayRewardAvailable)) {
-          next.splice(idx, 1);
-        } else {
-          next[idx] = { ...next[idx], qty: nextQty };
-        }
-        return next;
-      });
-    },
-    [products, showNotification, birthdayRewardAvailable, customerSession?.status]
-  );
-
-  const removeFromCart = useCallback((id: string, msg = "") => {
-    setCart((prev) => prev.filter((item) => !(item.id === id && (item.msg || "") === msg)));
-  }, []);
-
-  const clearCart = useCallback(() => setCart([]), []);
-
-=======
->>>>>>> master
-  const cartTotals = useMemo<CartTotals>(() => {
-    const items = cart
-      .map((item) => {
-        const product = products.find((p) => p.id === item.id);
-        if (!product) return null;
-        const isBirthdayCake = product.id === BDAY_CAKE_ID;
-        const available = Math.max(1, isBirthdayCake ? Math.min(1, product.stock) : product.stock);
-        const qty = Math.min(available, Math.max(1, Math.floor(Number.isFinite(item.qty) ? item.qty : 1)));
-        const pricing = getProductPricing(product, qty);
-        return {
-          product,
-          qty,
-          msg: item.msg,
-          subtotal: pricing.originalTotal,
-          pricing
-        };
-      })
-      .filter((entry): entry is NonNullable<typeof entry> => Boolean(entry));
-    const subTotal = items.reduce((sum, entry) => sum + entry.subtotal, 0);
-    const effectiveSubtotal = items.reduce((sum, entry) => sum + entry.pricing.total, 0);
-    const discountTotal = items.reduce((sum, entry) => sum + entry.pricing.discountTotal, 0);
-    const totalQty = items.reduce((sum, entry) => sum + entry.qty, 0);
-    return { items, subTotal, effectiveSubtotal, discountTotal, totalQty };
-  }, [cart, products, getProductPricing]);
-
-  const setShippingCost = useCallback((value: number) => {
-    setShippingCostState(Math.max(0, Number(value) || 0));
-  }, []);
-
-  const setCoupon = useCallback((code: string) => {
-    setCouponState(code.trim().toUpperCase());
-  }, []);
-
-  const evaluateCoupon = useCallback(
-    (subTotal: number, shipCost: number): CouponEval => {
-      const code = coupon.trim().toUpperCase();
-      if (!code || code === FELICES_CODE) {
-        return { valid: false, discount: 0, shipAfter: shipCost };
-      }
-<<<<<<< HEAD
-      const definition = COUPONS[code];
-=======
-      const definition = couponDefinitions[code];
->>>>>>> master
-      if (!definition) {
-        return { valid: false, discount: 0, shipAfter: shipCost };
-      }
-      if (definition.type === "amount") {
-        const discount = Math.max(0, Math.min(subTotal, definition.value));
-        return { valid: true, discount, shipAfter: shipCost, label: definition.label, code };
-      }
-      if (definition.type === "ship") {
-        return { valid: true, discount: 0, shipAfter: 0, label: definition.label, code };
-      }
-      return { valid: false, discount: 0, shipAfter: shipCost };
-    },
-<<<<<<< HEAD
-    [coupon]
-=======
-    [coupon, couponDefinitions]
->>>>>>> master
-  );
-
-  const benefitsForCart = useCallback(
-    (items: CartTotals["items"], subTotal: number): UserBenefits => {
-      if (!customerSession) {
-        return {
-          userDisc: 0,
-          userLabel: "",
-          bdayDisc: 0,
-          bdayLabel: "",
-          bdayEligible: false,
-          bdayApplied: false,
-          freeShipping: false,
-          shippingLabel: ""
-        };
-      }
-
-      const eligibleToday = birthdayRewardEligible;
-      const rewardAvailable = birthdayRewardAvailable;
-
-      const cake = items.find((item) => item.product.id === BDAY_CAKE_ID);
-
-      let bdayDisc = 0;
-      let bdayLabel = "";
-      let bdayApplied = false;
-      let freeShipping = false;
-      let shippingLabel = "";
-      if (rewardAvailable && cake && cake.qty > 0) {
-        const cakeDiscount = cake.pricing?.discountTotal ?? cake.product.precio * cake.qty;
-        bdayDisc = cakeDiscount;
-        bdayLabel = "Beneficio DUOC: Torta de Cumpleaños gratis";
-        bdayApplied = cakeDiscount > 0;
-        const onlyCakeInCart = items.length === 1 && cake.product.id === BDAY_CAKE_ID;
-        if (onlyCakeInCart) {
-          freeShipping = true;
-          shippingLabel = "Envío gratis por tu cumpleaños DUOC";
-        }
-      }
-
-      const percent = userDiscountPercent;
-      const base = Math.max(0, subTotal - bdayDisc);
-      const discountFromItems = items.reduce((sum, entry) => sum + (entry.pricing?.discountTotal ?? 0), 0);
-      const userDisc = percent > 0 ? Math.min(base, discountFromItems) : 0;
-      let userLabel = "";
-      if (percent > 0) {
-        const age = computeAge(customerSession?.fnac ?? "");
-        const percentLabel = `${Math.round(percent * 100)}% OFF`;
-        if (typeof age === "number" && age >= 50 && Math.round(percent * 100) >= 50) {
-          userLabel = `Beneficio Adulto Mayor (${percentLabel})`;
-        } else if (customerSession?.felices50) {
-          userLabel = `Beneficio FELICES50 (${percentLabel})`;
-        } else {
-          userLabel = `Beneficio de usuario (${percentLabel})`;
-        }
-      }
-
-      return {
-        userDisc,
-        userLabel,
-        bdayDisc,
-        bdayLabel,
-        bdayEligible: eligibleToday,
-        bdayApplied,
-        freeShipping,
-        shippingLabel
-      };
-    },
-    [birthdayRewardEligible, birthdayRewardAvailable, userDiscountPercent, customerSession?.fnac, customerSession?.felices50]
-  );
-
-<<<<<<< HEAD
-  const registerCustomer = useCallback<ContextValue["registerCustomer"]>(
-    (payload) => {
-      const email = payload.email.trim().toLowerCase();
-      if (!isEmailAllowed(email)) {
-        return { ok: false, message: "Correo no permitido." };
-      }
-      if (!isRunValid(payload.run)) {
-        return { ok: false, message: "RUN inválido." };
-      }
-      if (customers.some((u) => u.email.toLowerCase() === email)) {
-        return { ok: false, message: "Este correo ya está registrado." };
-      }
-      const now = Date.now();
-      const defaultShip = normalizeShipCost(payload.prefs?.defaultShip);
-      const trimmedDireccion = payload.direccion?.trim() || "";
-      const trimmedRegion = payload.region?.trim() || "";
-      const trimmedComuna = payload.comuna?.trim() || "";
-
-      const baseAddress: UserAddress | null =
-        trimmedDireccion && trimmedRegion && trimmedComuna
-          ? {
-              id: generateAddressId(),
-              alias: payload.prefs?.addresses?.[0]?.alias?.trim() || "Dirección principal",
-              direccion: trimmedDireccion,
-              region: trimmedRegion,
-              comuna: trimmedComuna,
-              referencia: payload.prefs?.addresses?.[0]?.referencia?.trim() || undefined,
-              createdAt: now,
-              updatedAt: now
-            }
-          : null;
-
-      let normalizedPrefs: UserPreferences | undefined;
-      const incomingAddresses = payload.prefs?.addresses;
-      const sanitizedAddresses = incomingAddresses?.length
-        ? sanitizeIncomingAddresses(incomingAddresses, undefined, now)
-        : baseAddress
-          ? [baseAddress]
-          : [];
-
-      if (payload.prefs || sanitizedAddresses.length || defaultShip !== DEFAULT_SHIPPING_COST) {
-        const basePrefs = { ...payload.prefs } satisfies UserPreferences;
-        basePrefs.defaultShip = defaultShip;
-        if (sanitizedAddresses.length) {
-          basePrefs.addresses = sanitizedAddresses;
-          const preferredId = basePrefs.primaryAddressId;
-          basePrefs.primaryAddressId = preferredId && sanitizedAddresses.some((addr) => addr.id === preferredId)
-            ? preferredId
-            : sanitizedAddresses[0]?.id;
-        } else {
-          delete basePrefs.addresses;
-          delete basePrefs.primaryAddressId;
-        }
-        normalizedPrefs = basePrefs;
-      }
-
-      const nuevo: CustomerUser = {
-        run: cleanRun(payload.run),
-        tipo: payload.tipo,
-        nombre: payload.nombre,
-        apellidos: payload.apellidos,
-        email,
-        fnac: payload.fnac,
-        region: trimmedRegion,
-        comuna: trimmedComuna,
-        direccion: trimmedDireccion,
-        phone: payload.phone?.trim() || undefined,
-        pass: payload.pass,
-        promoCode: payload.promoCode?.toUpperCase() || "",
-        // FELICES50 is only applied at registration
-        felices50: payload.promoCode?.toUpperCase() === FELICES_CODE,
-        createdAt: payload.createdAt ?? now,
-        bdayRedeemedYear: payload.bdayRedeemedYear ?? null,
-        prefs: normalizedPrefs,
-        status: "active"
-      };
-      setCustomers((prev) => [...prev, nuevo]);
-      setCustomerSession({
-        email: nuevo.email,
-        nombre: nuevo.nombre,
-        fnac: nuevo.fnac,
-        promoCode: nuevo.promoCode,
-        felices50: nuevo.felices50,
-        bdayRedeemedYear: nuevo.bdayRedeemedYear,
-        prefs: nuevo.prefs,
-        status: nuevo.status
-      });
-      return { ok: true };
-    },
-    [customers]
-  );
-
-  const loginCustomer = useCallback<ContextValue["loginCustomer"]>(
-    (email, password) => {
-      const normalized = email.trim().toLowerCase();
-      const user = customers.find(
-        (u) => u.email.toLowerCase() === normalized && u.pass === password
-      );
-      if (!user) {
-        return { ok: false, message: "Credenciales inválidas." };
-      }
-      // Merge guest cart into user cart on login
-      try {
-        const guest = readJSON<CartItem[]>(CART_KEY, []);
-        const userKey = `${CART_KEY}_${normalized}`;
-        const existing = readJSON<CartItem[]>(userKey, []);
-
-        if (!existing.length && guest.length) {
-          const map = new Map<string, CartItem>();
-          guest.forEach((item) => {
-            const key = `${item.id}::${item.msg || ""}`;
-            const prev = map.get(key);
-            if (prev) {
-              map.set(key, { ...prev, qty: prev.qty + item.qty });
-            } else {
-              map.set(key, { ...item });
-            }
-          });
-          const migrated = Array.from(map.values());
-          writeJSON(userKey, migrated);
-          removeKey(CART_KEY);
-          setCart(migrated);
-        } else {
-          setCart(existing);
-          if (!existing.length && guest.length === 0) {
-            removeKey(CART_KEY);
-          }
-        }
-      } catch (err) {
-        // ignore merge errors
-        console.warn("Cart merge failed:", err);
-      }
-
-      setCustomerSession({
-        email: user.email,
-        nombre: user.nombre,
-        fnac: user.fnac,
-        promoCode: user.promoCode,
-        felices50: user.felices50,
-        bdayRedeemedYear: user.bdayRedeemedYear,
-        prefs: user.prefs,
-        status: normalizeStatus(user.status)
-      });
-      return { ok: true };
-    },
-    [customers]
-  );
-
-  const logoutCustomer = useCallback(() => {
-    setCustomerSession(null);
-    setCart([]);
-  }, []);
-
-  const updateCustomer = useCallback(
-    (updates: Partial<CustomerUser>) => {
-      if (!customerSession) return;
-      setCustomers((prev) => {
-        const idx = prev.findIndex((u) => u.email.toLowerCase() === customerSession.email.toLowerCase());
-        if (idx === -1) return prev;
-        const current = prev[idx];
-        const now = Date.now();
-        const safeUpdates: Partial<CustomerUser> = { ...updates };
-
-        if (
-          typeof safeUpdates.promoCode === "string" &&
-          safeUpdates.promoCode.toUpperCase() === FELICES_CODE &&
-          !current.felices50
-        ) {
-          delete safeUpdates.promoCode;
-        }
-
-        if (typeof safeUpdates.nombre === "string") {
-          safeUpdates.nombre = safeUpdates.nombre.trim();
-        }
-        if (typeof safeUpdates.apellidos === "string") {
-          safeUpdates.apellidos = safeUpdates.apellidos.trim();
-        }
-        if (typeof safeUpdates.direccion === "string") {
-          safeUpdates.direccion = safeUpdates.direccion.trim();
-        }
-        if (typeof safeUpdates.phone === "string") {
-          safeUpdates.phone = safeUpdates.phone.trim() || undefined;
-        }
-
-        let nextPrefs: UserPreferences | undefined = current.prefs ? { ...current.prefs } : undefined;
-        if (safeUpdates.prefs) {
-          nextPrefs = { ...nextPrefs, ...safeUpdates.prefs };
-          nextPrefs.defaultShip = normalizeShipCost(nextPrefs.defaultShip);
-
-          if (safeUpdates.prefs.addresses) {
-            const sanitized = sanitizeIncomingAddresses(
-              safeUpdates.prefs.addresses,
-              current.prefs?.addresses,
-              now
-            );
-            nextPrefs.addresses = sanitized.length ? sanitized : undefined;
-          }
-
-          let candidatePrimary = safeUpdates.prefs.primaryAddressId ?? nextPrefs?.primaryAddressId ?? current.prefs?.primaryAddressId;
-          const addressList = nextPrefs?.addresses ?? current.prefs?.addresses ?? [];
-          if (addressList.length) {
-            if (!candidatePrimary || !addressList.some((addr) => addr.id === candidatePrimary)) {
-              candidatePrimary = addressList[0].id;
-            }
-            nextPrefs = {
-              ...nextPrefs,
-              addresses: addressList,
-              primaryAddressId: candidatePrimary
-            };
-            if (candidatePrimary) {
-              const primary = addressList.find((addr) => addr.id === candidatePrimary);
-              if (primary) {
-                if (!safeUpdates.direccion) safeUpdates.direccion = primary.direccion;
-                if (!safeUpdates.region) safeUpdates.region = primary.region;
-                if (!safeUpdates.comuna) safeUpdates.comuna = primary.comuna;
-              }
-            }
-          } else if (nextPrefs) {
-            delete nextPrefs.primaryAddressId;
-          }
-
-          safeUpdates.prefs = nextPrefs;
-        }
-
-        const merged: CustomerUser = {
-          ...current,
-          ...safeUpdates,
-          prefs: safeUpdates.prefs ?? nextPrefs ?? current.prefs
-        };
-        merged.felices50 = !!current.felices50;
-
-        const next = [...prev];
-        next[idx] = merged;
-        setCustomerSession({
-          email: merged.email,
-          nombre: merged.nombre,
-          fnac: merged.fnac,
-          promoCode: merged.promoCode,
-          felices50: merged.felices50,
-          bdayRedeemedYear: merged.bdayRedeemedYear,
-          prefs: merged.prefs,
-          status: normalizeStatus(merged.status)
-        });
-        return next;
-      });
-    },
-    [customerSession]
-  );
-
-  // Admin helpers to manage customers (edit/delete from admin)
-  const upsertCustomer = useCallback((user: CustomerUser) => {
-    setCustomers((prev) => {
-      const idx = prev.findIndex((u) => u.email.toLowerCase() === user.email.toLowerCase());
-      if (idx >= 0) {
-        const next = [...prev];
-        next[idx] = {
-          ...next[idx],
-          ...user,
-          status: normalizeStatus(user.status ?? next[idx].status)
-        };
-        return next;
-      }
-      return [...prev, { ...user, status: normalizeStatus(user.status) }];
-    });
-  }, []);
-
-  const removeCustomer = useCallback((email: string) => {
-    setCustomers((prev) => prev.filter((u) => u.email.toLowerCase() !== email.toLowerCase()));
-  }, []);
-
-  const setCustomerStatus = useCallback(
-    (email: string, status: AccountStatus) => {
-      const normalized = normalizeStatus(status);
-      setCustomers((prev) =>
-        prev.map((user) =>
-          user.email.toLowerCase() === email.toLowerCase()
-            ? { ...user, status: normalized }
-            : user
-        )
-      );
-      setCustomerSession((prev) => {
-        if (!prev || prev.email.toLowerCase() !== email.toLowerCase()) return prev;
-        return { ...prev, status: normalized };
-      });
-    },
-    []
-  );
-
-  const upsertAdminUser = useCallback(
-    (user: AdminUser) => {
-      setAdminUsers((prev) => {
-        const idx = prev.findIndex((u) => u.run.toUpperCase() === user.run.toUpperCase());
-        if (idx >= 0) {
-          const next = [...prev];
-          next[idx] = { ...next[idx], ...user };
-          return next;
-        }
-        return [...prev, user];
-      });
-    },
-    []
-  );
-
-  const removeAdminUser = useCallback(
-    (run: string) => {
-      setAdminUsers((prev) => prev.filter((u) => u.run.toUpperCase() !== run.toUpperCase()));
-    },
-    []
-  );
-
-  const adminLogin = useCallback<ContextValue["adminLogin"]>(
-    (email, _password) => {
-      const normalized = email.trim().toLowerCase();
-      const user = adminUsers.find((u) => (u.correo || "").toLowerCase() === normalized);
-      if (!user) {
-        return { ok: false, message: "Usuario no encontrado." };
-      }
-      const session: AdminSession = {
-        correo: user.correo,
-        nombre: user.nombre,
-        rol: user.rol
-      };
-      setAdminSession(session);
-      return { ok: true };
-    },
-    [adminUsers]
-  );
-
-  const adminLogout = useCallback(() => setAdminSession(null), []);
-
-  const updateOrders = useCallback((nextOrders: Order[]) => {
-    setOrders(nextOrders);
-  }, []);
-
-  const addComment = useCallback<ContextValue["addComment"]>(
-    (postId, text) => {
-      const session = customerSession;
-      if (!session) {
-        return { ok: false, message: "Debes iniciar sesión para comentar." };
-      }
-      const body = text.trim();
-      if (!body) {
-        return { ok: false, message: "Escribe algo." };
-      }
-      if (body.length > 300) {
-        return { ok: false, message: "Máximo 300 caracteres." };
-      }
-      const ownerId = session.email.toLowerCase();
-      const comment: BlogComment = {
-        id: `c_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
-        ownerId,
-        authorEmail: ownerId,
-        authorName: session.nombre?.trim() || session.email.split("@")[0],
-        text: body,
-        ts: Date.now(),
-        editedAt: null
-      };
-      setComments((prev) => ({
-        ...prev,
-        [postId]: [...(prev[postId] || []), comment]
-      }));
-      return { ok: true };
-    },
-    [customerSession]
-  );
-
-  const editComment = useCallback(
-    (postId: string, id: string, text: string) => {
-      const session = customerSession;
-      if (!session) return;
-      const normalized = session.email.toLowerCase();
-      setComments((prev) => {
-        const list = prev[postId] || [];
-        const updated = list.map((comment) =>
-          comment.id === id && comment.ownerId === normalized
-            ? { ...comment, text: text.trim(), editedAt: Date.now() }
-            : comment
-        );
-        return { ...prev, [postId]: updated };
-      });
-    },
-    [customerSession]
-  );
-
-  const deleteComment = useCallback(
-    (postId: string, id: string) => {
-      const session = customerSession;
-      if (!session) return;
-      const normalized = session.email.toLowerCase();
-      setComments((prev) => {
-        const list = prev[postId] || [];
-        const filtered = list.filter((comment) => !(comment.id === id && comment.ownerId === normalized));
-        return { ...prev, [postId]: filtered };
-      });
-    },
-    [customerSession]
-  );
-
-  const openReceiptWindow = useCallback<ContextValue["openReceiptWindow"]>(
-    ({ items, subTotal, effectiveSubtotal, benefits, coupon, shipCost, total, contactEmail }) => {
-      const normalizedEmail =
-        typeof contactEmail === "string" && contactEmail.trim()
-          ? contactEmail.trim()
-          : customerSession?.email || null;
-      const html = buildReceiptHTML({
-        items: items.map((entry) => ({
-          product: entry.product,
-          qty: entry.qty,
-          msg: entry.msg,
-          subtotal: entry.pricing.total,
-          originalSubtotal: entry.subtotal,
-          unitPrice: entry.pricing.unitPrice,
-          originalUnitPrice: entry.pricing.originalUnitPrice
-        })),
-        subTotal,
-        effectiveSubtotal,
-        benefits,
-        coupon,
-        shipCost,
-        total,
-        currentEmail: normalizedEmail
-      });
-      const win = window.open("", "_blank");
-      if (!win) {
-        showNotification({
-          message: "Permite las ventanas emergentes para ver el detalle.",
-          kind: "info",
-          mode: "dialog",
-          actionLabel: "Aceptar"
-        });
-        return;
-      }
-      win.document.open();
-      win.document.write(html);
-      win.document.close();
-    },
-    [customerSession, showNotification]
-  );
-
-  const value = useMemo<ContextValue>(
-=======
-  const dismissNotification = useCallback((id: string) => {
-    setNotifications((prev) => prev.filter((entry) => entry.id !== id));
-    const timer = notificationTimers.current[id];
-    if (timer) {
-      window.clearTimeout(timer);
-      delete notificationTimers.current[id];
-    }
-  }, []);
-
-  const showNotification = useCallback(
-    (payload: NotificationPayload) => {
-      const id = `nt_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`;
-      const entry: AppNotification = {
-        id,
-        message: payload.message,
-        kind: payload.kind ?? "info",
-        mode: payload.mode ?? "toast",
-        actionLabel: payload.actionLabel,
-        cancelLabel: payload.cancelLabel,
-        onAction: payload.onAction,
-        onCancel: payload.onCancel,
-        durationMs: payload.durationMs,
-        input: payload.input
-      };
-      setNotifications((prev) => [...prev, entry]);
-      if (entry.mode !== "dialog") {
-        const timeout = window.setTimeout(() => {
-          dismissNotification(id);
-        }, entry.durationMs ?? 4000);
-        notificationTimers.current[id] = timeout;
-      }
-    },
-    [dismissNotification]
-  );
-
-  const mapPreferencesFromProfile = useCallback((profile: CustomerUser | null) => {
-    if (!profile?.prefs) return;
-    if (profile.prefs.defaultShip) {
-      setShippingCostState(normalizeShipCost(profile.prefs.defaultShip));
-    }
-  }, []);
-
-  const hydrateForAuth = useCallback(async (state: AuthState) => {
-    if (!state.token || !state.role) {
-      setCustomerProfile(null);
-      setCustomers([]);
-      setAdminUsers([]);
-      setAdminSession(null);
-      setOrders([]);
-      return;
-    }
-
-    if (state.role === "CUSTOMER") {
-      try {
-        const [profileDto, ordersDto] = await Promise.all([
-          fetchCurrentCustomer(state.token),
-          fetchMyOrders(state.token)
-        ]);
-        const profile = mapCustomerProfile(profileDto);
-        setCustomerProfile(profile);
-        setCustomers([]);
-        setAdminUsers([]);
-        setAdminSession(null);
-        setOrders(ordersDto.map(mapOrder));
-        mapPreferencesFromProfile(profile);
-      } catch (error) {
-        console.error("No se pudo obtener el perfil del cliente", error);
-        showNotification({ message: extractErrorMessage(error, "No se pudo cargar tu perfil"), kind: "error" });
-        setAuth(EMPTY_AUTH);
-        saveAuthToSession(EMPTY_AUTH);
-      }
-    } else {
-      try {
-        const [staffDto, customersDto, ordersDto] = await Promise.all([
-          fetchStaff(state.token),
-          fetchAdminCustomers(state.token),
-          fetchAllOrders(state.token)
-        ]);
-        const staff = staffDto.map(mapStaff);
-        setAdminUsers(staff);
-        const staffDtoMatch = staffDto.find((s) => s.id === state.userId);
-        // Normalize email beforehand to avoid calling toLowerCase on undefined when no match exists.
-        const dtoEmail = staffDtoMatch?.email?.toLowerCase() ?? "";
-        const currentStaff = staff.find((entry) => entry.id === state.userId || (entry.correo?.toLowerCase() ?? "") === dtoEmail);
-        setAdminSession(
-          currentStaff
-            ? { correo: currentStaff.correo, nombre: `${currentStaff.nombre} ${currentStaff.apellidos}`.trim(), rol: currentStaff.rol }
-            : { correo: "admin", nombre: "Administrador", rol: "Administrador" }
-        );
-        setCustomerProfile(null);
-        setCustomers(customersDto.map(mapCustomerSummary));
-        setOrders(ordersDto.map(mapOrder));
-      } catch (error) {
-        console.error("No se pudieron cargar los datos administrativos", error);
-        showNotification({ message: extractErrorMessage(error, "No se pudo cargar el panel"), kind: "error" });
-        setAuth(EMPTY_AUTH);
-        saveAuthToSession(EMPTY_AUTH);
-      }
-    }
-  }, [mapPreferencesFromProfile, showNotification]);
-
-  const applyAuthState = useCallback(
-    async (state: AuthState, options?: { hydrate?: boolean }) => {
-      setAuth(state);
-      saveAuthToSession(state);
-      if (options?.hydrate ?? true) {
-        await hydrateForAuth(state);
-      }
-    },
-    [hydrateForAuth]
-  );
-
-  useEffect(() => () => {
-    const timers = notificationTimers.current;
-    for (const id of Object.keys(timers)) {
-      window.clearTimeout(timers[id]);
-    }
-    if (refreshTimerRef.current) {
-      window.clearTimeout(refreshTimerRef.current);
-    }
+  useEffect(() => () => {
+    const timers = notificationTimers.current;
+    for (const id of Object.keys(timers)) {
+      window.clearTimeout(timers[id]);
+    }
+    if (refreshTimerRef.current) {
+      window.clearTimeout(refreshTimerRef.current);
+    }
   }, []);
 
   const clearRefreshTimer = useCallback(() => {
@@ -1976,13 +932,130 @@ export function AppProvider({ children }: { children: ReactNode }) {
     void refreshCoupons();
   }, [refreshCoupons]);
 
+  const refreshAdminCoupons = useCallback<ContextValue["refreshAdminCoupons"]>(async () => {
+    if (!auth.token || auth.role !== "ADMIN") return;
+    try {
+      const list = await fetchAdminCoupons(auth.token);
+      setAdminCoupons(list.sort((a, b) => a.code.localeCompare(b.code)));
+    } catch (error) {
+      showNotification({ message: extractErrorMessage(error, "No se pudieron cargar los cupones"), kind: "error" });
+    }
+  }, [auth.token, auth.role, showNotification]);
+
+  const saveCoupon = useCallback<ContextValue["saveCoupon"]>(
+    async (coupon, options) => {
+      if (!auth.token || auth.role !== "ADMIN") {
+        return { ok: false, message: "Inicia sesión como administrador" };
+      }
+      try {
+        const isNew = options?.isNew || !adminCoupons.some((entry) => entry.code === coupon.code);
+        if (isNew) {
+          await apiCreateCoupon(coupon, auth.token);
+        } else {
+          await apiUpdateCoupon(coupon, auth.token);
+        }
+        await Promise.all([refreshAdminCoupons(), refreshCoupons()]);
+        return { ok: true };
+      } catch (error) {
+        return { ok: false, message: extractErrorMessage(error, "No se pudo guardar el cupón") };
+      }
+    },
+    [auth.token, auth.role, adminCoupons, refreshAdminCoupons, refreshCoupons]
+  );
+
+  const setCouponActive = useCallback<ContextValue["setCouponActive"]>(
+    async (code, active) => {
+      const current = adminCoupons.find((entry) => entry.code === code);
+      if (!current) {
+        return { ok: false, message: "Cupón no encontrado" };
+      }
+      return saveCoupon({ ...current, active });
+    },
+    [adminCoupons, saveCoupon]
+  );
+
+  const refreshShippingZones = useCallback(async () => {
+    try {
+      const remote = await fetchShippingZones();
+      setShippingZones(remote);
+    } catch (error) {
+      console.error("No se pudieron cargar las zonas de despacho", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refreshShippingZones();
+  }, [refreshShippingZones]);
+
+  useEffect(() => {
+    fetchPickupLocations()
+      .then(setPickupLocations)
+      .catch((error) => console.error("No se pudieron cargar las tiendas de retiro", error));
+  }, []);
+
+  const saveShippingZone = useCallback<ContextValue["saveShippingZone"]>(
+    async (zone, options) => {
+      if (!auth.token || auth.role !== "ADMIN") {
+        return { ok: false, message: "Inicia sesión como administrador" };
+      }
+      try {
+        if (options?.isNew || !shippingZones.some((entry) => entry.id === zone.id)) {
+          await apiCreateShippingZone(zone, auth.token);
+        } else {
+          await apiUpdateShippingZone(zone, auth.token);
+        }
+        await refreshShippingZones();
+        return { ok: true };
+      } catch (error) {
+        return { ok: false, message: extractErrorMessage(error, "No se pudo guardar la zona de despacho") };
+      }
+    },
+    [auth.token, auth.role, shippingZones, refreshShippingZones]
+  );
+
+  const removeShippingZone = useCallback<ContextValue["removeShippingZone"]>(
+    async (zoneId) => {
+      if (!auth.token || auth.role !== "ADMIN") {
+        return { ok: false, message: "Inicia sesión como administrador" };
+      }
+      try {
+        await apiDeleteShippingZone(zoneId, auth.token);
+        setShippingZones((prev) => prev.filter((zone) => zone.id !== zoneId));
+        return { ok: true };
+      } catch (error) {
+        return { ok: false, message: extractErrorMessage(error, "No se pudo eliminar la zona de despacho") };
+      }
+    },
+    [auth.token, auth.role]
+  );
+
+  const refreshCakeOptions = useCallback(async () => {
+    try {
+      const remote = await fetchCakeOptions();
+      setCakeOptions(remote);
+    } catch (error) {
+      console.error("No se pudieron cargar las opciones de tortas personalizadas", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refreshCakeOptions();
+  }, [refreshCakeOptions]);
+
   const addToCart = useCallback(
-    (id: string, qty = 1, msg = "") => {
+    (id: string, qty = 1, msg = "", variantId = "", custom?: CakeCustomization, options?: { silent?: boolean }) => {
       const product = products.find((p) => p.id === id);
       if (!product) {
         showNotification({ message: "Este producto ya no está disponible.", kind: "error" });
-        return;
+        return 0;
       }
+      const line = resolveCartLine(product, variantId);
+      if (!line) {
+        showNotification({ message: "Esta versión del producto ya no está disponible.", kind: "error" });
+        return 0;
+      }
+      const { variant, stock } = line;
+      const lineVariantId = variant?.id ?? "";
       if (customerProfile?.status === "inactive") {
         showNotification({
           message: "Tu cuenta está desactivada. Contáctanos para reactivarla.",
@@ -1990,70 +1063,62 @@ export function AppProvider({ children }: { children: ReactNode }) {
           mode: "dialog",
           actionLabel: "Entendido"
         });
-        return;
+        return 0;
       }
-      if (product.stock <= 0) {
+      if (stock <= 0) {
         showNotification({ message: "Sin stock disponible.", kind: "error" });
-        return;
+        return 0;
       }
-      const isBirthdayCake = product.id === BDAY_CAKE_ID;
+      const isBirthdayCake = product.id === BIRTHDAY_CAKE_ID;
       if (isBirthdayCake && !birthdayRewardAvailable) {
         showNotification({
           message: "Ya reclamaste esta torta por tu cumpleaños.",
           kind: "info",
           mode: "dialog"
         });
-        return;
+        return 0;
       }
       const desired = Math.max(1, Number(qty));
-      let outcome: { addedQty: number; status: "none" | "added" | "partial" | "noStock" } = {
-        addedQty: 0,
-        status: "none"
-      };
-      setCart((prev) => {
-        const idx = prev.findIndex((item) => item.id === id && (item.msg || "") === msg);
-        const currentQty = idx >= 0 ? prev[idx].qty : 0;
-        const limit = isBirthdayCake ? Math.min(1, product.stock) : product.stock;
-        const remaining = Math.max(0, limit - currentQty);
-        if (remaining <= 0) {
-          outcome = { addedQty: 0, status: "noStock" };
-          return prev;
-        }
-        const toAdd = Math.min(desired, remaining);
-        if (toAdd <= 0) {
-          outcome = { addedQty: 0, status: "noStock" };
-          return prev;
-        }
-        outcome = {
-          addedQty: toAdd,
-          status: toAdd < desired ? "partial" : "added"
-        };
-        if (idx >= 0) {
+      const current = cartRef.current;
+      const idx = current.findIndex((item) => isSameCartLine(item, id, msg, lineVariantId, custom));
+      const limit = isBirthdayCake ? Math.min(1, stock) : stock;
+      const remaining = Math.max(0, limit - (idx >= 0 ? current[idx].qty : 0));
+      const toAdd = Math.min(desired, remaining);
+      const outcome: { addedQty: number; status: "added" | "partial" | "noStock" } =
+        toAdd > 0 ? { addedQty: toAdd, status: toAdd < desired ? "partial" : "added" } : { addedQty: 0, status: "noStock" };
+      if (toAdd > 0) {
+        const addTo = (prev: CartItem[]) => {
+          const at = prev.findIndex((item) => isSameCartLine(item, id, msg, lineVariantId, custom));
+          if (at < 0) return [...prev, { id, qty: toAdd, msg, variantId: variant?.id, custom }];
           const next = [...prev];
-          next[idx] = { ...next[idx], qty: next[idx].qty + toAdd };
+          next[at] = { ...next[at], qty: Math.min(limit, next[at].qty + toAdd) };
           return next;
-        }
-        return [...prev, { id, qty: toAdd, msg }];
-      });
+        };
+        cartRef.current = addTo(current);
+        setCart(addTo);
+      }
       if (outcome.status === "noStock") {
         showNotification({ message: "Sin stock disponible.", kind: "error" });
-        return;
+        return 0;
       }
-      if (outcome.addedQty > 0) {
+      if (outcome.addedQty > 0 && !options?.silent) {
         const message =
           outcome.status === "partial"
-            ? `Solo pudimos agregar ${outcome.addedQty} unidad(es). Stock disponible: ${product.stock}.`
-            : `${product.nombre} añadido al carrito.`;
+            ? `Solo pudimos agregar ${outcome.addedQty} unidad(es). Stock disponible: ${stock}.`
+            : `${product.nombre}${variant ? ` (${variant.label})` : ""} añadido al carrito.`;
         showNotification({ message, kind: "success", mode: "dialog", actionLabel: "OK" });
       }
+      return outcome.addedQty;
     },
     [products, showNotification, birthdayRewardAvailable, customerProfile?.status]
   );
 
   const setCartQty = useCallback(
-    (id: string, qty: number, msg = "") => {
+    (id: string, qty: number, msg = "", variantId = "", custom?: CakeCustomization) => {
       const product = products.find((p) => p.id === id);
-      if (!product) return;
+      const line = product ? resolveCartLine(product, variantId) : null;
+      if (!product || !line) return;
+      const { stock } = line;
       if (customerProfile?.status === "inactive") {
         showNotification({
           message: "Tu cuenta está desactivada. No puedes modificar el carrito.",
@@ -2063,16 +1128,16 @@ export function AppProvider({ children }: { children: ReactNode }) {
         });
         return;
       }
-      const isBirthdayCake = product.id === BDAY_CAKE_ID;
+      const isBirthdayCake = product.id === BIRTHDAY_CAKE_ID;
       const desiredRaw = Math.floor(Number.isFinite(qty) ? qty : 0);
-      const desired = product.stock > 0 ? Math.max(1, desiredRaw) : 0;
-      const max = isBirthdayCake ? Math.min(1, product.stock) : product.stock;
+      const desired = stock > 0 ? Math.max(1, desiredRaw) : 0;
+      const max = isBirthdayCake ? Math.min(1, stock) : stock;
       const nextQty = Math.min(desired, max);
       if (desired > max) {
         showNotification({ message: `Stock disponible: ${max}`, kind: "info" });
       }
       setCart((prev) => {
-        const idx = prev.findIndex((item) => item.id === id && (item.msg || "") === msg);
+        const idx = prev.findIndex((item) => isSameCartLine(item, id, msg, variantId, custom));
         if (idx === -1) return prev;
         const next = [...prev];
         if (nextQty === 0 || (isBirthdayCake && !birthdayRewardAvailable)) {
@@ -2086,12 +1151,16 @@ export function AppProvider({ children }: { children: ReactNode }) {
     [products, showNotification, birthdayRewardAvailable, customerProfile?.status]
   );
 
-  const removeFromCart = useCallback((id: string, msg = "") => {
-    setCart((prev) => prev.filter((item) => !(item.id === id && (item.msg || "") === msg)));
+  const removeFromCart = useCallback((id: string, msg = "", variantId = "", custom?: CakeCustomization) => {
+    setCart((prev) => prev.filter((item) => !isSameCartLine(item, id, msg, variantId, custom)));
   }, []);
 
   const clearCart = useCallback(() => setCart([]), []);
 
+  useEffect(() => {
+    cartRef.current = cart;
+  }, [cart]);
+
   useEffect(() => {
     if (initialHydrated) return;
     setInitialHydrated(true);
@@ -2116,7 +1185,6 @@ export function AppProvider({ children }: { children: ReactNode }) {
           address: payload.direccion || null,
           phone: payload.phone || null,
           promoCode: payload.promoCode || null,
-          defaultShippingCost: payload.prefs?.defaultShip ?? DEFAULT_SHIPPING_COST,
           newsletter: payload.prefs?.newsletter ?? false,
           saveAddress: payload.prefs?.saveAddress ?? false,
           birthdayRedeemedYear: payload.bdayRedeemedYear ?? null,
@@ -2145,121 +1213,428 @@ export function AppProvider({ children }: { children: ReactNode }) {
           ];
         }
 
-        await apiRegisterCustomer(request);
+        await apiRegisterCustomer(request);
+
+        const loginResult = await login({ email: payload.email, password: payload.pass ?? "" });
+        if (loginResult.role !== "CUSTOMER") {
+          return { ok: false, message: "El usuario creado no tiene perfil de cliente" };
+        }
+
+        await applyAuthState({
+          token: loginResult.token,
+          refreshToken: loginResult.refreshToken,
+          role: loginResult.role as AuthRole,
+          userId: loginResult.userId,
+          expiresAt: loginResult.expiresAt,
+          refreshExpiresAt: loginResult.refreshExpiresAt
+        });
+
+        return { ok: true };
+      } catch (error) {
+        return { ok: false, message: extractErrorMessage(error, "No pudimos registrar la cuenta") };
+      }
+    },
+    [applyAuthState]
+  );
+
+  const loginCustomer = useCallback<ContextValue["loginCustomer"]>(
+    async (email, password) => {
+      try {
+        const response = await login({ email, password });
+        if (response.role !== "CUSTOMER") {
+          return { ok: false, message: "Estas credenciales no pertenecen a un cliente" };
+        }
+        await applyAuthState({
+          token: response.token,
+          refreshToken: response.refreshToken,
+          role: "CUSTOMER",
+          userId: response.userId,
+          expiresAt: response.expiresAt,
+          refreshExpiresAt: response.refreshExpiresAt
+        });
+        return { ok: true };
+      } catch (error) {
+        return { ok: false, message: extractErrorMessage(error, "Credenciales inválidas") };
+      }
+    },
+    [applyAuthState]
+  );
+
+  const adminLogin = useCallback<ContextValue["adminLogin"]>(
+    async (email, password) => {
+      try {
+        const response = await login({ email, password });
+        if (response.role !== "ADMIN") {
+          return { ok: false, message: "No tienes permisos administrativos" };
+        }
+        await applyAuthState({
+          token: response.token,
+          refreshToken: response.refreshToken,
+          role: "ADMIN",
+          userId: response.userId,
+          expiresAt: response.expiresAt,
+          refreshExpiresAt: response.refreshExpiresAt
+        });
+        return { ok: true };
+      } catch (error) {
+        return { ok: false, message: extractErrorMessage(error, "Credenciales inválidas") };
+      }
+    },
+    [applyAuthState]
+  );
+
+  const logoutCustomer = useCallback(async () => {
+    setCart([]);
+    await applyAuthState(EMPTY_AUTH);
+  }, [applyAuthState]);
+
+  const adminLogout = useCallback(async () => {
+    await applyAuthState(EMPTY_AUTH);
+  }, [applyAuthState]);
+
+  const upsertProduct = useCallback<ContextValue["upsertProduct"]>(
+    async (product, options) => {
+      if (!auth.token || auth.role !== "ADMIN") {
+        return { ok: false, message: "Inicia sesión como administrador" };
+      }
+      try {
+        const normalized = normalizeProductPrice(product);
+        if (options?.isNew || !products.some((item) => item.id === product.id)) {
+          await apiCreateProduct(normalized, auth.token);
+        } else {
+          await apiUpdateProduct(normalized, auth.token);
+        }
+        await refreshProducts();
+        return { ok: true };
+      } catch (error) {
+        return { ok: false, message: extractErrorMessage(error, "No se pudo guardar el producto") };
+      }
+    },
+    [auth.token, auth.role, products, refreshProducts]
+  );
+
+  const removeProduct = useCallback<ContextValue["removeProduct"]>(
+    async (id) => {
+      if (!auth.token || auth.role !== "ADMIN") {
+        return { ok: false, message: "Inicia sesión como administrador" };
+      }
+      try {
+        await apiDeleteProduct(id, auth.token);
+        await refreshProducts();
+        return { ok: true };
+      } catch (error) {
+        return { ok: false, message: extractErrorMessage(error, "No se pudo eliminar el producto") };
+      }
+    },
+    [auth.token, auth.role, refreshProducts]
+  );
+
+  const importProducts = useCallback<ContextValue["importProducts"]>(
+    async ({ nuevos, actualizados }) => {
+      if (!auth.token || auth.role !== "ADMIN") {
+        return { ok: false, created: 0, updated: 0, failed: [], message: "Inicia sesión como administrador" };
+      }
+      const failed: Array<{ id: string; message: string }> = [];
+      let created = 0;
+      let updated = 0;
+      // Secuencial para no saturar el backend y poder informar cada fila que falle.
+      for (const product of nuevos) {
+        try {
+          await apiCreateProduct(normalizeProductPrice(product), auth.token);
+          created += 1;
+        } catch (error) {
+          failed.push({ id: product.id, message: extractErrorMessage(error, "No se pudo crear el producto") });
+        }
+      }
+      for (const product of actualizados) {
+        try {
+          await apiUpdateProduct(normalizeProductPrice(product), auth.token);
+          updated += 1;
+        } catch (error) {
+          failed.push({ id: product.id, message: extractErrorMessage(error, "No se pudo actualizar el producto") });
+        }
+      }
+      await refreshProducts();
+      return { ok: failed.length === 0, created, updated, failed };
+    },
+    [auth.token, auth.role, refreshProducts]
+  );
+
+  const refreshStockLots = useCallback<ContextValue["refreshStockLots"]>(async () => {
+    if (!auth.token || auth.role !== "ADMIN") return;
+    try {
+      setStockLots(await fetchStockLots(auth.token));
+    } catch (error) {
+      console.error("No se pudieron cargar los lotes", error);
+    }
+  }, [auth.token, auth.role]);
+
+  useEffect(() => {
+    void refreshStockLots();
+  }, [refreshStockLots]);
+
+  // El backend descuenta por FEFO al entregar: se refleja de inmediato y luego se sincroniza.
+  const consumeOrderLots = useCallback(
+    (order: Order | undefined) => {
+      if (order) setStockLots((prev) => consumeFefo(prev, order.items));
+      void refreshStockLots();
+    },
+    [refreshStockLots]
+  );
+
+  const recordStockMovement = useCallback<ContextValue["recordStockMovement"]>(
+    async (movement) => {
+      if (!auth.token || auth.role !== "ADMIN") {
+        return { ok: false, message: "No tienes permisos" };
+      }
+      const product = products.find((item) => item.id === movement.productId);
+      if (!product) {
+        return { ok: false, message: "Producto no encontrado" };
+      }
+      const variant = findVariant(product, movement.variantId);
+      if (product.variants?.length && !variant) {
+        return { ok: false, message: "Selecciona la versión del producto" };
+      }
+      const lot = movement.lotId ? stockLots.find((entry) => entry.id === movement.lotId) : undefined;
+      if (movement.lotId && !lot) {
+        return { ok: false, message: "El lote ya no tiene unidades" };
+      }
+      const errors = validateStockMovement(movement, stockFor(product, variant), { lot });
+      const firstError = Object.values(errors)[0];
+      if (firstError) {
+        return { ok: false, message: firstError };
+      }
+      try {
+        const created = await apiCreateStockMovement(
+          {
+            productId: product.id,
+            variantId: variant?.id ?? null,
+            type: STOCK_MOVEMENT_TYPE_TO_DTO[movement.tipo],
+            quantity: movementDelta(movement.tipo, movement.cantidad),
+            reason: movement.motivo.trim() || null,
+            expiresOn: movement.tipo === "produccion" ? movement.venceEl || null : null,
+            lotId: movement.tipo === "merma" ? movement.lotId ?? null : null
+          },
+          auth.token
+        );
+        await Promise.all([refreshProducts(), refreshStockLots()]);
+        return { ok: true, movement: created };
+      } catch (error) {
+        return { ok: false, message: extractErrorMessage(error, "No se pudo registrar el movimiento") };
+      }
+    },
+    [auth.token, auth.role, products, stockLots, refreshProducts, refreshStockLots]
+  );
+
+  const adjustStock = useCallback<ContextValue["adjustStock"]>(
+    async (adjustments) => {
+      if (!auth.token || auth.role !== "ADMIN") {
+        return { ok: false, failed: [], message: "No tienes permisos" };
+      }
+      const failed: Array<{ productId: string; message: string }> = [];
+      const pending: Array<{ adjustment: StockAdjustment; product: Product }> = [];
+      for (const adjustment of adjustments) {
+        const product = products.find((item) => item.id === adjustment.productId);
+        const firstError = product ? Object.values(validateStockAdjustment(adjustment, product))[0] : "Producto no encontrado";
+        if (firstError || !product) {
+          failed.push({ productId: adjustment.productId, message: firstError ?? "Producto no encontrado" });
+        } else {
+          pending.push({ adjustment, product });
+        }
+      }
+      // Optimista: la tabla muestra los valores nuevos de inmediato y se revierte lo que falle.
+      setProducts((prev) => applyStockAdjustments(prev, pending.map((entry) => entry.adjustment)));
+      for (const { adjustment, product } of pending) {
+        try {
+          if (adjustment.stockCritico !== undefined && adjustment.stockCritico !== product.stockCritico) {
+            await apiUpdateProduct({ ...product, stockCritico: adjustment.stockCritico }, auth.token);
+          }
+          // El stock pasa por el libro de movimientos para que el ajuste quede con su motivo.
+          const delta = adjustment.stock !== undefined ? adjustment.stock - product.stock : 0;
+          if (delta) {
+            await apiCreateStockMovement(
+              {
+                productId: product.id,
+                variantId: null,
+                type: "ADJUSTMENT",
+                quantity: delta,
+                reason: adjustment.motivo.trim(),
+                expiresOn: null,
+                lotId: null
+              },
+              auth.token
+            );
+          }
+        } catch (error) {
+          failed.push({ productId: product.id, message: extractErrorMessage(error, "No se pudo ajustar el stock") });
+          setProducts((prev) =>
+            prev.map((item) =>
+              item.id === product.id ? { ...item, stock: product.stock, stockCritico: product.stockCritico } : item
+            )
+          );
+        }
+      }
+      await refreshProducts();
+      return { ok: failed.length === 0, failed };
+    },
+    [auth.token, auth.role, products, refreshProducts]
+  );
+
+  const fetchStockHistory = useCallback<ContextValue["fetchStockHistory"]>(
+    async (productId) => {
+      if (!auth.token || auth.role !== "ADMIN") {
+        return { ok: false, message: "No tienes permisos" };
+      }
+      try {
+        const movements = await fetchStockMovements(productId, auth.token);
+        return { ok: true, movements: movements.sort((a, b) => b.createdAt - a.createdAt) };
+      } catch (error) {
+        return { ok: false, message: extractErrorMessage(error, "No se pudo cargar el historial de stock") };
+      }
+    },
+    [auth.token, auth.role]
+  );
 
-        const loginResult = await login({ email: payload.email, password: payload.pass ?? "" });
-        if (loginResult.role !== "CUSTOMER") {
-          return { ok: false, message: "El usuario creado no tiene perfil de cliente" };
-        }
+  const fetchStockCounts = useCallback<ContextValue["fetchStockCounts"]>(async () => {
+    if (!auth.token || auth.role !== "ADMIN") {
+      return { ok: false, message: "No tienes permisos" };
+    }
+    try {
+      const counts = await apiFetchStockCounts(auth.token);
+      return { ok: true, counts: counts.sort((a, b) => b.iniciadoEn - a.iniciadoEn) };
+    } catch (error) {
+      return { ok: false, message: extractErrorMessage(error, "No se pudieron cargar los conteos") };
+    }
+  }, [auth.token, auth.role]);
 
-        await applyAuthState({
-          token: loginResult.token,
-          refreshToken: loginResult.refreshToken,
-          role: loginResult.role as AuthRole,
-          userId: loginResult.userId,
-          expiresAt: loginResult.expiresAt,
-          refreshExpiresAt: loginResult.refreshExpiresAt
-        });
+  const startStockCount = useCallback<ContextValue["startStockCount"]>(
+    async (notas) => {
+      if (!auth.token || auth.role !== "ADMIN") {
+        return { ok: false, message: "No tienes permisos" };
+      }
+      try {
+        return { ok: true, count: await apiCreateStockCount(notas.trim() || null, auth.token) };
+      } catch (error) {
+        return { ok: false, message: extractErrorMessage(error, "No se pudo iniciar el conteo") };
+      }
+    },
+    [auth.token, auth.role]
+  );
 
-        return { ok: true };
+  const saveStockCount = useCallback<ContextValue["saveStockCount"]>(
+    async (id, lineas) => {
+      if (!auth.token || auth.role !== "ADMIN") {
+        return { ok: false, message: "No tienes permisos" };
+      }
+      if (lineas.some((line) => !Number.isInteger(line.contado) || line.contado < 0)) {
+        return { ok: false, message: "Las cantidades contadas deben ser enteros positivos" };
+      }
+      try {
+        return { ok: true, count: await apiSaveStockCountLines(id, lineas, auth.token) };
       } catch (error) {
-        return { ok: false, message: extractErrorMessage(error, "No pudimos registrar la cuenta") };
+        return { ok: false, message: extractErrorMessage(error, "No se pudo guardar el conteo") };
       }
     },
-    [applyAuthState]
+    [auth.token, auth.role]
   );
 
-  const loginCustomer = useCallback<ContextValue["loginCustomer"]>(
-    async (email, password) => {
+  const approveStockCount = useCallback<ContextValue["approveStockCount"]>(
+    async (id) => {
+      if (!auth.token || auth.role !== "ADMIN") {
+        return { ok: false, message: "No tienes permisos" };
+      }
       try {
-        const response = await login({ email, password });
-        if (response.role !== "CUSTOMER") {
-          return { ok: false, message: "Estas credenciales no pertenecen a un cliente" };
-        }
-        await applyAuthState({
-          token: response.token,
-          refreshToken: response.refreshToken,
-          role: "CUSTOMER",
-          userId: response.userId,
-          expiresAt: response.expiresAt,
-          refreshExpiresAt: response.refreshExpiresAt
-        });
-        return { ok: true };
+        const count = await apiApproveStockCount(id, auth.token);
+        // Los ajustes del conteo cambian el stock y descuentan o suman lotes.
+        await Promise.all([refreshProducts(), refreshStockLots()]);
+        return { ok: true, count };
       } catch (error) {
-        return { ok: false, message: extractErrorMessage(error, "Credenciales inválidas") };
+        return { ok: false, message: extractErrorMessage(error, "No se pudo aprobar el conteo") };
       }
     },
-    [applyAuthState]
+    [auth.token, auth.role, refreshProducts, refreshStockLots]
   );
 
-  const adminLogin = useCallback<ContextValue["adminLogin"]>(
-    async (email, password) => {
+  const cancelStockCount = useCallback<ContextValue["cancelStockCount"]>(
+    async (id) => {
+      if (!auth.token || auth.role !== "ADMIN") {
+        return { ok: false, message: "No tienes permisos" };
+      }
       try {
-        const response = await login({ email, password });
-        if (response.role !== "ADMIN") {
-          return { ok: false, message: "No tienes permisos administrativos" };
-        }
-        await applyAuthState({
-          token: response.token,
-          refreshToken: response.refreshToken,
-          role: "ADMIN",
-          userId: response.userId,
-          expiresAt: response.expiresAt,
-          refreshExpiresAt: response.refreshExpiresAt
-        });
-        return { ok: true };
+        return { ok: true, count: await apiCancelStockCount(id, auth.token) };
       } catch (error) {
-        return { ok: false, message: extractErrorMessage(error, "Credenciales inválidas") };
+        return { ok: false, message: extractErrorMessage(error, "No se pudo anular el conteo") };
       }
     },
-    [applyAuthState]
+    [auth.token, auth.role]
   );
 
-  const logoutCustomer = useCallback(async () => {
-    setCart([]);
-    await applyAuthState(EMPTY_AUTH);
-  }, [applyAuthState]);
+  const fetchWasteReport = useCallback<ContextValue["fetchWasteReport"]>(
+    async (from, to) => {
+      if (!auth.token || auth.role !== "ADMIN") {
+        return { ok: false, message: "No tienes permisos" };
+      }
+      try {
+        return { ok: true, movements: await fetchWasteMovements(from, to, auth.token) };
+      } catch (error) {
+        return { ok: false, message: extractErrorMessage(error, "No se pudo cargar el reporte de mermas") };
+      }
+    },
+    [auth.token, auth.role]
+  );
 
-  const adminLogout = useCallback(async () => {
-    await applyAuthState(EMPTY_AUTH);
-  }, [applyAuthState]);
+  const refreshIngredients = useCallback<ContextValue["refreshIngredients"]>(async () => {
+    if (!auth.token || auth.role !== "ADMIN") return;
+    try {
+      const [ingredientList, recipeList] = await Promise.all([fetchIngredients(auth.token), fetchRecipes(auth.token)]);
+      setIngredients(ingredientList.sort((a, b) => a.nombre.localeCompare(b.nombre, "es")));
+      setRecipes(recipeList);
+    } catch (error) {
+      console.error("No se pudieron cargar los ingredientes", error);
+    }
+  }, [auth.token, auth.role]);
 
-  const upsertProduct = useCallback<ContextValue["upsertProduct"]>(
-    async (product, options) => {
+  useEffect(() => {
+    void refreshIngredients();
+  }, [refreshIngredients]);
+
+  const saveIngredient = useCallback<ContextValue["saveIngredient"]>(
+    async (ingredient, options) => {
       if (!auth.token || auth.role !== "ADMIN") {
-        return { ok: false, message: "Inicia sesión como administrador" };
+        return { ok: false, message: "No tienes permisos" };
       }
       try {
-        const normalized: Product =
-          product.id === BDAY_CAKE_ID ? { ...product, precio: 0 } : product;
-        if (options?.isNew || !products.some((item) => item.id === product.id)) {
-          await apiCreateProduct(normalized, auth.token);
+        if (options?.isNew || !ingredients.some((entry) => entry.id === ingredient.id)) {
+          await apiCreateIngredient(ingredient, auth.token);
         } else {
-          await apiUpdateProduct(normalized, auth.token);
+          await apiUpdateIngredient(ingredient, auth.token);
         }
-        await refreshProducts();
+        await refreshIngredients();
         return { ok: true };
       } catch (error) {
-        return { ok: false, message: extractErrorMessage(error, "No se pudo guardar el producto") };
+        return { ok: false, message: extractErrorMessage(error, "No se pudo guardar el ingrediente") };
       }
     },
-    [auth.token, auth.role, products, refreshProducts]
+    [auth.token, auth.role, ingredients, refreshIngredients]
   );
 
-  const removeProduct = useCallback<ContextValue["removeProduct"]>(
-    async (id) => {
+  const saveRecipe = useCallback<ContextValue["saveRecipe"]>(
+    async (recipe) => {
       if (!auth.token || auth.role !== "ADMIN") {
-        return { ok: false, message: "Inicia sesión como administrador" };
+        return { ok: false, message: "No tienes permisos" };
       }
       try {
-        await apiDeleteProduct(id, auth.token);
-        await refreshProducts();
+        const saved = await apiSaveRecipe(recipe, auth.token);
+        setRecipes((prev) => [
+          ...prev.filter((entry) => entry.productId !== saved.productId),
+          ...(saved.lineas.length ? [saved] : [])
+        ]);
         return { ok: true };
       } catch (error) {
-        return { ok: false, message: extractErrorMessage(error, "No se pudo eliminar el producto") };
+        return { ok: false, message: extractErrorMessage(error, "No se pudo guardar la receta") };
       }
     },
-    [auth.token, auth.role, refreshProducts]
+    [auth.token, auth.role]
   );
 
   const updateCustomer = useCallback<ContextValue["updateCustomer"]>(
@@ -2280,7 +1655,6 @@ export function AppProvider({ children }: { children: ReactNode }) {
         if (updates.tipo !== undefined) request.customerType = updates.tipo;
         if (updates.fnac !== undefined) request.birthDate = updates.fnac || null;
         if (updates.bdayRedeemedYear !== undefined) request.birthdayRedeemedYear = updates.bdayRedeemedYear ?? null;
-        if (updates.prefs?.defaultShip !== undefined) request.defaultShippingCost = updates.prefs?.defaultShip ?? DEFAULT_SHIPPING_COST;
         if (updates.prefs?.newsletter !== undefined) request.newsletter = updates.prefs.newsletter;
         if (updates.prefs?.saveAddress !== undefined) request.saveAddress = updates.prefs.saveAddress;
         if (updates.felices50 !== undefined) request.felices50 = updates.felices50;
@@ -2300,13 +1674,12 @@ export function AppProvider({ children }: { children: ReactNode }) {
         const profileDto = await updateCurrentCustomer(request, auth.token);
         const mapped = mapCustomerProfile(profileDto);
         setCustomerProfile(mapped);
-        mapPreferencesFromProfile(mapped);
         return { ok: true };
       } catch (error) {
         return { ok: false, message: extractErrorMessage(error, "No pudimos actualizar tu perfil") };
       }
     },
-    [auth.token, auth.role, mapPreferencesFromProfile]
+    [auth.token, auth.role]
   );
 
   const upsertCustomer = useCallback<ContextValue["upsertCustomer"]>(
@@ -2330,7 +1703,6 @@ export function AppProvider({ children }: { children: ReactNode }) {
           customerType: user.tipo ?? "Cliente",
           birthDate: user.fnac || null,
           birthdayRedeemedYear: user.bdayRedeemedYear ?? null,
-          defaultShippingCost: user.prefs?.defaultShip ?? DEFAULT_SHIPPING_COST,
           newsletter: user.prefs?.newsletter ?? false,
           saveAddress: user.prefs?.saveAddress ?? false
         };
@@ -2465,8 +1837,7 @@ export function AppProvider({ children }: { children: ReactNode }) {
           const ordersDto = await fetchMyOrders(auth.token);
           setOrders(ordersDto.map(mapOrder));
         } else {
-          const ordersDto = await fetchAllOrders(auth.token);
-          setOrders(ordersDto.map(mapOrder));
+          setOrders(await fetchAdminOrders(auth.token));
         }
       } catch (error) {
         showNotification({ message: extractErrorMessage(error, "No se pudieron cargar las órdenes"), kind: "error" });
@@ -2475,8 +1846,62 @@ export function AppProvider({ children }: { children: ReactNode }) {
     [auth.token, auth.role, showNotification]
   );
 
+  const replaceOrder = useCallback((updated: OrderResponseDto) => {
+    setOrders((prev) => {
+      const others = prev.filter((order) => order.id !== updated.orderCode && order.id !== updated.id);
+      return [mapOrder(updated), ...others].sort((a, b) => b.createdAt - a.createdAt);
+    });
+  }, []);
+
+  // Avisa al personal de inventario cuando un producto cae a stock crítico (p. ej. tras un pedido).
+  const previousProductsRef = useRef<Product[]>([]);
+  useEffect(() => {
+    const previous = previousProductsRef.current;
+    previousProductsRef.current = products;
+    if (!STOCK_ALERT_ROLES.includes(adminSession?.rol.trim().toLowerCase() ?? "")) return;
+    for (const product of crossedCriticalStock(previous, products)) {
+      showNotification({
+        message: `${product.nombre} quedó en stock crítico (${product.stock} de ${product.stockCritico}).`,
+        kind: "error"
+      });
+    }
+  }, [products, adminSession?.rol, showNotification]);
+
+  // Canal en vivo del panel: pedidos nuevos, cambios de estado de otros usuarios y stock.
+  useEffect(() => {
+    if (!auth.token || auth.role !== "ADMIN") return;
+    const me = [adminSession?.correo, adminSession?.nombre]
+      .filter((value): value is string => Boolean(value))
+      .map((value) => value.toLowerCase());
+    return openRealtimeChannel({
+      token: auth.token,
+      onModeChange: setRealtimeMode,
+      onEvent: (event) => {
+        if (event.type === "STOCK_CHANGED") {
+          const level = {
+            productId: event.stock.productId,
+            stock: event.stock.stock,
+            variants: event.stock.variants ?? undefined
+          };
+          setProducts((prev) => applyStockLevel(prev, level));
+          return;
+        }
+        replaceOrder(event.order);
+        const order = mapOrder(event.order);
+        if (event.type === "ORDER_CREATED") {
+          showNotification({ message: `Nuevo pedido ${order.id} de ${order.cliente}`, kind: "info" });
+          return;
+        }
+        const actor = order.statusHistory?.[order.statusHistory.length - 1]?.actor;
+        if (actor && !me.includes(actor.toLowerCase())) {
+          showNotification({ message: `${actor} cambió el pedido ${order.id} a ${order.estado}`, kind: "info" });
+        }
+      }
+    });
+  }, [auth.token, auth.role, adminSession?.correo, adminSession?.nombre, replaceOrder, showNotification]);
+
   const changeOrderStatus = useCallback<ContextValue["changeOrderStatus"]>(
-    async (orderId, nextStatusLabel) => {
+    async (orderId, nextStatusLabel, notes) => {
       if (!auth.token || auth.role !== "ADMIN") {
         return { ok: false, message: "No tienes permisos" };
       }
@@ -2484,20 +1909,261 @@ export function AppProvider({ children }: { children: ReactNode }) {
       if (!status) {
         return { ok: false, message: "Estado inválido" };
       }
+      const current = orders.find((order) => order.id === orderId);
+      if (current) {
+        const transition = findTransition(current.estado, ORDER_STATUS_LABEL[status], adminSession?.rol);
+        if (!transition) {
+          return {
+            ok: false,
+            message: `No puedes cambiar un pedido ${current.estado.toLowerCase()} a ${ORDER_STATUS_LABEL[status].toLowerCase()}`
+          };
+        }
+        if (transition.requiresNote && !notes?.trim()) {
+          return { ok: false, message: "Indica el motivo del cambio de estado" };
+        }
+      }
+      const shortages =
+        current && ORDER_STATUS_LABEL[status] === CONSUMES_INGREDIENTS_STATUS
+          ? findShortages(ingredientRequirements(current.items, recipes), ingredients)
+          : [];
+      if (shortages.length) {
+        // Igual que los cambios que piden motivo: con faltantes se confirma antes de enviar el cambio.
+        const confirmed = await new Promise<boolean>((resolve) =>
+          showNotification({
+            message: `Faltan ingredientes para el pedido ${orderId}: ${shortages
+              .map((entry) => `${entry.ingredient.nombre} (faltan ${formatQuantity(entry.faltante, entry.ingredient.unidad)})`)
+              .join(", ")}. ¿Pasarlo a preparación de todos modos?`,
+            kind: "error",
+            mode: "dialog",
+            actionLabel: "Preparar igual",
+            cancelLabel: "Volver",
+            onAction: () => resolve(true),
+            onCancel: () => resolve(false)
+          })
+        );
+        if (!confirmed) {
+          return { ok: false, message: `El pedido ${orderId} sigue ${current?.estado.toLowerCase()}: faltan ingredientes.` };
+        }
+      }
       try {
-        const updated = await apiUpdateOrderStatus(orderId, { status }, auth.token);
-        setOrders((prev) => {
-          const others = prev.filter((order) => order.id !== updated.orderCode && order.id !== updated.id);
-          return [mapOrder(updated), ...others].sort((a, b) => b.createdAt - a.createdAt);
-        });
+        const updated = await apiUpdateOrderStatus(
+          orderId,
+          {
+            status,
+            notes: notes?.trim() || null,
+            expectedStatus: current ? ORDER_LABEL_TO_STATUS[current.estado] ?? null : null
+          },
+          auth.token
+        );
+        replaceOrder(updated);
+        if (status === "CANCELADO") {
+          // El backend devuelve al stock los ítems del pedido cancelado.
+          await refreshProducts();
+        }
+        if (ORDER_STATUS_LABEL[status] === CONSUMES_INGREDIENTS_STATUS || status === "CANCELADO") {
+          // Ver CONSUMES_INGREDIENTS_STATUS: el descuento lo hace el backend en la misma transacción.
+          await refreshIngredients();
+        }
+        if (
+          current &&
+          FULFILLMENT_STATES.includes(ORDER_STATUS_LABEL[status]) &&
+          !FULFILLMENT_STATES.includes(current.estado)
+        ) {
+          consumeOrderLots(current);
+        }
         return { ok: true };
       } catch (error) {
+        if ((error as { status?: number }).status === 409) {
+          // Otro usuario movió el pedido antes: se recarga para mostrar su estado real.
+          await refreshOrders();
+          return { ok: false, message: "Otro usuario ya actualizó este pedido. Revisa su estado actual." };
+        }
         return { ok: false, message: extractErrorMessage(error, "No se pudo actualizar el estado") };
       }
     },
+    [
+      auth.token,
+      auth.role,
+      orders,
+      adminSession,
+      recipes,
+      ingredients,
+      replaceOrder,
+      refreshProducts,
+      refreshOrders,
+      refreshIngredients,
+      consumeOrderLots,
+      showNotification
+    ]
+  );
+
+  const markOrderPickedUp = useCallback<ContextValue["markOrderPickedUp"]>(
+    async (orderId, pickupCode) => {
+      if (!auth.token || auth.role !== "ADMIN") {
+        return { ok: false, message: "No tienes permisos" };
+      }
+      const code = pickupCode.trim().toUpperCase();
+      if (!code) {
+        return { ok: false, message: "Ingresa el código de retiro" };
+      }
+      try {
+        const updated = await apiMarkOrderPickedUp(orderId, code, auth.token);
+        const current = orders.find((order) => order.id === orderId);
+        replaceOrder(updated);
+        if (!current || !FULFILLMENT_STATES.includes(current.estado)) consumeOrderLots(current);
+        return { ok: true };
+      } catch (error) {
+        return { ok: false, message: extractErrorMessage(error, "No se pudo registrar el retiro") };
+      }
+    },
+    [auth.token, auth.role, orders, replaceOrder, consumeOrderLots]
+  );
+
+  const searchOrders = useCallback<ContextValue["searchOrders"]>(
+    async (filters) => {
+      if (!auth.token || auth.role !== "ADMIN") {
+        return { ok: false, message: "No tienes permisos" };
+      }
+      const amount = (value: string) => {
+        const parsed = Number(value);
+        return value.trim() === "" || !Number.isFinite(parsed) ? undefined : parsed;
+      };
+      try {
+        const response = await apiSearchOrders(
+          {
+            status: ORDER_LABEL_TO_STATUS[filters.estado],
+            from: filters.desde || undefined,
+            to: filters.hasta || undefined,
+            customer: filters.cliente || undefined,
+            couponCode: filters.cupon ? filters.cupon.toUpperCase() : undefined,
+            minTotal: amount(filters.min),
+            maxTotal: amount(filters.max),
+            sort: ORDER_SORT_FIELD[filters.orden],
+            direction: filters.dir,
+            page: filters.pagina - 1,
+            size: filters.porPagina
+          },
+          auth.token
+        );
+        return {
+          ok: true,
+          page: {
+            items: response.content.map(mapOrder),
+            page: response.page + 1,
+            pageSize: response.size,
+            totalItems: response.totalElements,
+            totalPages: response.totalPages
+          }
+        };
+      } catch (error) {
+        return { ok: false, message: extractErrorMessage(error, "No se pudieron buscar los pedidos") };
+      }
+    },
+    [auth.token, auth.role]
+  );
+
+  const fetchOrderSummary = useCallback<ContextValue["fetchOrderSummary"]>(async () => {
+    if (!auth.token || auth.role !== "ADMIN") {
+      return { ok: false, message: "No tienes permisos" };
+    }
+    try {
+      const response = await apiFetchOrderSummary(auth.token);
+      const porEstado: Record<string, number> = {};
+      (Object.keys(response.byStatus) as OrderStatusDto[]).forEach((status) => {
+        const label = ORDER_STATUS_LABEL[status] ?? status;
+        porEstado[label] = (porEstado[label] ?? 0) + (response.byStatus[status] ?? 0);
+      });
+      return { ok: true, summary: { total: response.total, porEstado } };
+    } catch (error) {
+      return { ok: false, message: extractErrorMessage(error, "No se pudo cargar el resumen de pedidos") };
+    }
+  }, [auth.token, auth.role]);
+
+  const fetchOrdersSince = useCallback<ContextValue["fetchOrdersSince"]>(
+    async (desde) => {
+      if (!auth.token || auth.role !== "ADMIN") {
+        return { ok: false, message: "No tienes permisos" };
+      }
+      try {
+        const response = await searchAllOrders({ from: desde, sort: "createdAt", direction: "desc" }, auth.token);
+        return { ok: true, orders: response.map(mapOrder) };
+      } catch (error) {
+        return { ok: false, message: extractErrorMessage(error, "No se pudieron cargar los pedidos") };
+      }
+    },
     [auth.token, auth.role]
   );
 
+  const cancelMyOrder = useCallback<ContextValue["cancelMyOrder"]>(
+    async (orderId, reason) => {
+      if (!auth.token || auth.role !== "CUSTOMER") {
+        return { ok: false, message: "Debes iniciar sesión como cliente." };
+      }
+      const order = orders.find((item) => item.id === orderId);
+      if (order && !canCustomerCancel(order)) {
+        return { ok: false, message: "Este pedido ya no se puede cancelar. Contáctanos para ayudarte." };
+      }
+      try {
+        const updated = await apiCancelMyOrder(orderId, reason?.trim() || null, auth.token);
+        replaceOrder(updated);
+        await refreshProducts();
+        return { ok: true };
+      } catch (error) {
+        return { ok: false, message: extractErrorMessage(error, "No se pudo cancelar el pedido") };
+      }
+    },
+    [auth.token, auth.role, orders, replaceOrder, refreshProducts]
+  );
+
+  const refundOrder = useCallback<ContextValue["refundOrder"]>(
+    async (orderId, refund) => {
+      if (!auth.token || auth.role !== "ADMIN") {
+        return { ok: false, message: "No tienes permisos" };
+      }
+      const order = orders.find((item) => item.id === orderId);
+      if (order && refund.monto > refundableAmount(order)) {
+        return { ok: false, message: "El monto supera lo que queda por reembolsar" };
+      }
+      if (!refund.motivo.trim()) {
+        return { ok: false, message: "Indica el motivo del reembolso" };
+      }
+      try {
+        const updated = await apiCreateRefund(
+          orderId,
+          {
+            amount: Math.round(refund.monto),
+            reason: refund.motivo.trim(),
+            items: refund.items
+              .filter((item) => item.qty > 0)
+              .map((item) => ({ productId: item.codigo, variantId: item.variantId ?? null, quantity: item.qty })),
+            restock: refund.reponerStock
+          },
+          auth.token
+        );
+        replaceOrder(updated);
+        if (refund.reponerStock && refund.items.some((item) => item.qty > 0)) {
+          await refreshProducts();
+        }
+        return { ok: true };
+      } catch (error) {
+        return { ok: false, message: extractErrorMessage(error, "No se pudo registrar el reembolso") };
+      }
+    },
+    [auth.token, auth.role, orders, replaceOrder, refreshProducts]
+  );
+
+  const trackOrder = useCallback<ContextValue["trackOrder"]>(async (orderCode, email) => {
+    try {
+      const response = await apiTrackOrder(orderCode.trim().toUpperCase(), email.trim().toLowerCase());
+      return { ok: true, order: mapOrder(response) };
+    } catch (error) {
+      return {
+        ok: false,
+        message: extractErrorMessage(error, "No encontramos un pedido con ese código y correo")
+      };
+    }
+  }, []);
+
   const addComment = useCallback<ContextValue["addComment"]>(
     async (postSlug, text) => {
       if (!auth.token || auth.role === null) {
@@ -2584,8 +2250,10 @@ export function AppProvider({ children }: { children: ReactNode }) {
           stock: 0,
           stockCritico: 0
         },
+        variantLabel: item.variantLabel,
         qty: item.qty,
         msg: undefined,
+        note: item.note,
         subtotal: item.subtotal,
         originalSubtotal: item.originalSubtotal,
         unitPrice: item.unitPrice,
@@ -2606,7 +2274,13 @@ export function AppProvider({ children }: { children: ReactNode }) {
       coupon: { valid: Boolean(order.couponCode), discount: order.discountTotal, shipAfter: order.shippingCost, code: order.couponCode, label: order.couponLabel },
       shipCost: order.shippingCost,
       total: order.total,
-      currentEmail: order.customerEmail ?? customerProfile?.email ?? null
+      currentEmail: order.customerEmail ?? customerProfile?.email ?? null,
+      orderCode: order.orderCode ?? order.id,
+      delivery: order.deliveryDate ? describeDelivery(order.deliveryDate, order.deliverySlot) : undefined,
+      pickup:
+        order.fulfillment === "pickup"
+          ? { location: order.pickupLocation ?? "Tienda Mil Sabores", code: order.pickupCode }
+          : undefined
     });
     const win = window.open("", "_blank");
     if (!win) {
@@ -2645,27 +2319,51 @@ export function AppProvider({ children }: { children: ReactNode }) {
   }, [placeOrder, refreshOrders]);
 
   const contextValue = useMemo<ContextValue>(
->>>>>>> master
     () => ({
       products,
       storefrontProducts,
       refreshProducts,
       upsertProduct,
       removeProduct,
+      importProducts,
+      recordStockMovement,
+      fetchStockHistory,
+      adjustStock,
+      fetchStockCounts,
+      startStockCount,
+      saveStockCount,
+      approveStockCount,
+      cancelStockCount,
+      stockLots,
+      refreshStockLots,
+      fetchWasteReport,
+      ingredients,
+      recipes,
+      refreshIngredients,
+      saveIngredient,
+      saveRecipe,
       cart,
       addToCart,
       setCartQty,
       removeFromCart,
       clearCart,
       cartTotals,
-      shippingCost,
-      setShippingCost,
+      shippingZones,
+      refreshShippingZones,
+      saveShippingZone,
+      removeShippingZone,
+      pickupLocations,
       coupon,
       setCoupon,
       evaluateCoupon,
+      adminCoupons,
+      refreshAdminCoupons,
+      saveCoupon,
+      setCouponActive,
       benefitsForCart,
       userDiscountPercent,
       getProductPricing,
+      cakeOptions,
       notifications,
       showNotification,
       dismissNotification,
@@ -2688,16 +2386,16 @@ export function AppProvider({ children }: { children: ReactNode }) {
       adminLogin,
       adminLogout,
       orders,
-<<<<<<< HEAD
-      updateOrders,
-      comments,
-      addComment,
-      editComment,
-      deleteComment,
-      openReceiptWindow
-=======
       refreshOrders,
+      realtimeMode,
       changeOrderStatus,
+      markOrderPickedUp,
+      trackOrder,
+      searchOrders,
+      fetchOrderSummary,
+      fetchOrdersSince,
+      cancelMyOrder,
+      refundOrder,
       comments,
       addComment,
       hydrateComments,
@@ -2705,7 +2403,6 @@ export function AppProvider({ children }: { children: ReactNode }) {
       deleteComment,
       openReceiptWindow,
       placeOrder: placeOrderAndRefresh
->>>>>>> master
     }),
     [
       products,
@@ -2713,20 +2410,45 @@ export function AppProvider({ children }: { children: ReactNode }) {
       refreshProducts,
       upsertProduct,
       removeProduct,
+      importProducts,
+      recordStockMovement,
+      fetchStockHistory,
+      adjustStock,
+      fetchStockCounts,
+      startStockCount,
+      saveStockCount,
+      approveStockCount,
+      cancelStockCount,
+      stockLots,
+      refreshStockLots,
+      fetchWasteReport,
+      ingredients,
+      recipes,
+      refreshIngredients,
+      saveIngredient,
+      saveRecipe,
       cart,
       addToCart,
       setCartQty,
       removeFromCart,
       clearCart,
       cartTotals,
-      shippingCost,
-      setShippingCost,
+      shippingZones,
+      refreshShippingZones,
+      saveShippingZone,
+      removeShippingZone,
+      pickupLocations,
       coupon,
       setCoupon,
       evaluateCoupon,
+      adminCoupons,
+      refreshAdminCoupons,
+      saveCoupon,
+      setCouponActive,
       benefitsForCart,
       userDiscountPercent,
       getProductPricing,
+      cakeOptions,
       notifications,
       showNotification,
       dismissNotification,
@@ -2742,10 +2464,6 @@ export function AppProvider({ children }: { children: ReactNode }) {
       upsertCustomer,
       removeCustomer,
       setCustomerStatus,
-<<<<<<< HEAD
-      setCustomerStatus,
-=======
->>>>>>> master
       adminUsers,
       upsertAdminUser,
       removeAdminUser,
@@ -2753,20 +2471,16 @@ export function AppProvider({ children }: { children: ReactNode }) {
       adminLogin,
       adminLogout,
       orders,
-<<<<<<< HEAD
-      updateOrders,
-      comments,
-      addComment,
-      editComment,
-      deleteComment,
-      openReceiptWindow
-    ]
-  );
-
-  return <AppContext.Provider value={value}>{children}</AppContext.Provider>;
-=======
       refreshOrders,
+      realtimeMode,
       changeOrderStatus,
+      markOrderPickedUp,
+      trackOrder,
+      searchOrders,
+      fetchOrderSummary,
+      fetchOrdersSince,
+      cancelMyOrder,
+      refundOrder,
       comments,
       addComment,
       hydrateComments,
@@ -2778,17 +2492,12 @@ export function AppProvider({ children }: { children: ReactNode }) {
   );
 
   return <AppContext.Provider value={contextValue}>{children}</AppContext.Provider>;
->>>>>>> master
 }
 
 export function useAppContext(): ContextValue {
   const ctx = useContext(AppContext);
-<<<<<<< HEAD
-  if (!ctx) throw new Error("useAppContext must be used within AppProvider");
-=======
   if (!ctx) {
     throw new Error("useAppContext must be used within AppProvider");
   }
->>>>>>> master
   return ctx;
 }
@@ -0,0 +1,38 @@
+import { useEffect, useState } from "react";
+import type { DeliverySchedule } from "../types";
+import { fetchDeliveryAvailability } from "../services/delivery";
+import { addDays, DELIVERY_WINDOW_DAYS, toIsoDate } from "../utils/delivery";
+
+const EMPTY_SCHEDULE: DeliverySchedule = { slots: [], holidays: [], booked: {} };
+
+export function useDeliverySchedule(days = DELIVERY_WINDOW_DAYS) {
+  const [schedule, setSchedule] = useState<DeliverySchedule>(EMPTY_SCHEDULE);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+    const today = new Date();
+    setLoading(true);
+    fetchDeliveryAvailability(toIsoDate(today), toIsoDate(addDays(today, days)))
+      .then((data) => {
+        if (!isMounted) return;
+        setSchedule(data);
+        setError(null);
+      })
+      .catch(() => {
+        if (!isMounted) return;
+        setError("No pudimos cargar los horarios de entrega.");
+      })
+      .finally(() => {
+        if (isMounted) {
+          setLoading(false);
+        }
+      });
+    return () => {
+      isMounted = false;
+    };
+  }, [days]);
+
+  return { schedule, loading, error };
+}
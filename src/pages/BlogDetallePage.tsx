@@ -1,16 +1,9 @@
-<<<<<<< HEAD
-import { Link, useParams } from "react-router-dom";
-import { BLOG_POSTS } from "../data/blogPosts";
-import type { BlogPost } from "../types";
-import { CommentsSection } from "../components/blog/CommentsSection";
-=======
 import { useEffect, useState } from "react";
 import { Link, useParams } from "react-router-dom";
 import { CommentsSection } from "../components/blog/CommentsSection";
 import { useAppContext } from "../context/AppContext";
 import { fetchBlogPost } from "../services/blog";
 import type { BlogPost } from "../types";
->>>>>>> master
 
 function renderBlock(block: BlogPost["body"][number], index: number) {
   if (block.type === "p") {
@@ -41,11 +34,6 @@ function renderBlock(block: BlogPost["body"][number], index: number) {
 
 export function BlogDetallePage() {
   const { slug } = useParams();
-<<<<<<< HEAD
-  const post = BLOG_POSTS.find((entry) => entry.slug === slug);
-
-  if (!post) {
-=======
   const { hydrateComments } = useAppContext();
   const [post, setPost] = useState<BlogPost | null>(null);
   const [loading, setLoading] = useState(true);
@@ -91,16 +79,11 @@ export function BlogDetallePage() {
   }
 
   if (error || !post) {
->>>>>>> master
     return (
       <div className="container" style={{ padding: "48px 0" }}>
         <div className="card" style={{ padding: "32px", textAlign: "center" }}>
           <h1 className="font-brand">Artículo no encontrado</h1>
-<<<<<<< HEAD
-          <p className="muted">Es posible que el artículo haya sido movido o eliminado.</p>
-=======
           <p className="muted">{error}</p>
->>>>>>> master
           <Link className="btn btn--principal" to="/blog">
             Volver al blog
           </Link>
@@ -130,11 +113,7 @@ export function BlogDetallePage() {
         {post.body.map((block, index) => renderBlock(block, index))}
       </div>
 
-<<<<<<< HEAD
-      <CommentsSection postId={post.id} />
-=======
       <CommentsSection postSlug={post.slug} />
->>>>>>> master
     </article>
   );
 }
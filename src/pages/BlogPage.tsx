@@ -1,13 +1,3 @@
-<<<<<<< HEAD
-import { Link } from "react-router-dom";
-import { BLOG_POSTS } from "../data/blogPosts";
-
-export function BlogPage() {
-  return (
-    <div className="container contenedor-blog" style={{ padding: "32px 0" }}>
-      <h1 className="titulo-principal-blog">Nuestro Blog de Noticias</h1>
-      {BLOG_POSTS.map((post, index) => (
-=======
 import { useEffect, useState } from "react";
 import { Link } from "react-router-dom";
 import type { BlogPost } from "../types";
@@ -51,7 +41,6 @@ export function BlogPage() {
         <p className="muted">Aún no hay artículos publicados.</p>
       )}
       {posts.map((post, index) => (
->>>>>>> master
         <section key={post.id} className={`articulo-blog articulo-blog--${index + 1}`}>
           <div className="contenido-blog">
             <h2 className="titulo-articulo font-brand">CASO CURIOSO #{index + 1}</h2>
@@ -2,22 +2,15 @@ import { useEffect, useMemo, useState } from "react";
 import { Link } from "react-router-dom";
 import { useAppContext } from "../context/AppContext";
 import { formatMoney } from "../utils/format";
-<<<<<<< HEAD
-import type { Order, OrderItem } from "../types";
-=======
+import { buildItemNote } from "../utils/cakeBuilder";
+import { summarizeCheckout } from "../utils/promotions";
+import { isSlotAvailable, requiredLeadTime } from "../utils/delivery";
+import { quoteShipping } from "../utils/shipping";
+import { useDeliverySchedule } from "../hooks/useDeliverySchedule";
+import { DeliveryScheduler, type DeliverySelection } from "../components/cart/DeliveryScheduler";
 import type { CreateOrderItemRequestDto, CreateOrderRequestDto } from "../services/orders";
->>>>>>> master
+import type { FulfillmentMethod } from "../types";
 
-const SHIPPING_OPTIONS = [
-  { value: 3000, label: "Envío urbano ($3.000)" },
-  { value: 6000, label: "Envío regional ($6.000)" }
-];
-
-<<<<<<< HEAD
-const SIMPLE_EMAIL_REGEX = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
-
-=======
->>>>>>> master
 type AddressOption = {
   id: string;
   label: string;
@@ -27,19 +20,16 @@ type AddressOption = {
   referencia?: string;
 };
 
-<<<<<<< HEAD
-=======
 const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
 
->>>>>>> master
 export function CarritoPage() {
   const {
     cartTotals,
     removeFromCart,
     setCartQty,
     clearCart,
-    shippingCost,
-    setShippingCost,
+    shippingZones,
+    pickupLocations,
     coupon,
     setCoupon,
     evaluateCoupon,
@@ -48,25 +38,12 @@ export function CarritoPage() {
     currentCustomer,
     updateCustomer,
     openReceiptWindow,
-<<<<<<< HEAD
-    products,
-    upsertProduct,
-    orders,
-    updateOrders,
-    showNotification
-=======
     showNotification,
     placeOrder
->>>>>>> master
   } = useAppContext();
 
   const { items, subTotal, effectiveSubtotal } = cartTotals;
   const isCartEmpty = items.length === 0;
-<<<<<<< HEAD
-  const [guestInfo, setGuestInfo] = useState({ nombre: "", email: "" });
-  const [guestErrors, setGuestErrors] = useState<{ nombre?: string; email?: string }>({});
-=======
->>>>>>> master
 
   const addressOptions = useMemo<AddressOption[]>(() => {
     if (!currentCustomer) return [];
@@ -114,45 +91,48 @@ export function CarritoPage() {
     [addressOptions, selectedAddressId]
   );
 
-  const benefits = useMemo(() => benefitsForCart(items, subTotal), [benefitsForCart, items, subTotal]);
-  const baseAfterBenefits = Math.max(0, subTotal - benefits.bdayDisc - benefits.userDisc);
-  const shipBeforeCoupons = benefits.freeShipping ? 0 : shippingCost;
-  const couponInfo = evaluateCoupon(baseAfterBenefits, shipBeforeCoupons);
-  const effectiveShip = benefits.freeShipping
-    ? 0
-    : couponInfo.valid
-      ? couponInfo.shipAfter
-      : shipBeforeCoupons;
-  const total = Math.max(0, baseAfterBenefits - (couponInfo.valid ? couponInfo.discount : 0) + effectiveShip);
+  const { schedule, loading: scheduleLoading, error: scheduleError } = useDeliverySchedule();
+  const [delivery, setDelivery] = useState<DeliverySelection | null>(null);
+  const leadHours = requiredLeadTime(items);
+  const deliverySlot = schedule.slots.find((slot) => slot.id === delivery?.slotId);
+  const deliveryReady = Boolean(
+    delivery && deliverySlot && isSlotAvailable(schedule, delivery.date, deliverySlot, leadHours)
+  );
 
-  const handleShipChange = (value: number) => {
-    if (benefits.freeShipping) return;
-    setShippingCost(value);
-    if (currentCustomer && currentCustomer.prefs?.defaultShip !== value) {
-<<<<<<< HEAD
-      updateCustomer({ prefs: { defaultShip: value } });
-=======
-      void updateCustomer({ prefs: { defaultShip: value } });
->>>>>>> master
-    }
-  };
+  const [fulfillment, setFulfillment] = useState<FulfillmentMethod>("delivery");
+  const [pickupLocationId, setPickupLocationId] = useState("");
+  const isPickup = fulfillment === "pickup";
+  const pickupLocation = pickupLocations.find((location) => location.id === pickupLocationId) ?? null;
+
+  const shippingQuote = useMemo(
+    () => quoteShipping(shippingZones, selectedAddress, effectiveSubtotal),
+    [shippingZones, selectedAddress, effectiveSubtotal]
+  );
+  // El retiro en tienda no paga despacho ni depende de la cobertura de la dirección.
+  const canFulfill = isPickup ? Boolean(pickupLocation) : Boolean(selectedAddress) && shippingQuote.deliverable;
+
+  const benefits = useMemo(() => benefitsForCart(items, subTotal), [benefitsForCart, items, subTotal]);
+  const {
+    coupon: couponInfo,
+    shipping: effectiveShip,
+    total,
+    benefitLabels
+  } = summarizeCheckout(subTotal, isPickup ? 0 : shippingQuote.cost, benefits, (base, ship) =>
+    evaluateCoupon(base, ship, items)
+  );
+  const zoneFreeShippingLabel =
+    !isPickup && shippingQuote.freeByThreshold && shippingQuote.zone?.envioGratisDesde
+      ? `Envío gratis por compras sobre ${formatMoney(shippingQuote.zone.envioGratisDesde)}`
+      : null;
 
   const handleAddressChange = (id: string) => {
     setSelectedAddressId(id);
     if (!currentCustomer) return;
-<<<<<<< HEAD
-    updateCustomer({
-=======
     void updateCustomer({
->>>>>>> master
       prefs: { primaryAddressId: id }
     });
   };
 
-<<<<<<< HEAD
-  const handleCheckout = () => {
-    if (!items.length) return;
-=======
   const handleCheckout = async () => {
     if (!items.length) return;
     if (!customerSession) {
@@ -167,7 +147,16 @@ export function CarritoPage() {
       });
       return;
     }
-    if (!selectedAddressId) {
+    if (isPickup && !pickupLocation) {
+      showNotification({
+        message: "Selecciona la tienda donde retirarás tu pedido.",
+        kind: "error",
+        mode: "dialog",
+        actionLabel: "Entendido"
+      });
+      return;
+    }
+    if (!isPickup && !selectedAddressId) {
       showNotification({
         message: "Selecciona una dirección de envío desde tu perfil.",
         kind: "error",
@@ -176,7 +165,26 @@ export function CarritoPage() {
       });
       return;
     }
->>>>>>> master
+    if (!isPickup && !shippingQuote.deliverable) {
+      showNotification({
+        message: shippingQuote.reason ?? "No despachamos a la dirección seleccionada.",
+        kind: "error",
+        mode: "dialog",
+        actionLabel: "Entendido"
+      });
+      return;
+    }
+    if (!deliveryReady || !delivery) {
+      showNotification({
+        message: isPickup
+          ? "Selecciona la fecha y el horario de retiro."
+          : "Selecciona la fecha y el horario de entrega.",
+        kind: "error",
+        mode: "dialog",
+        actionLabel: "Entendido"
+      });
+      return;
+    }
     const accountStatus = currentCustomer?.status || customerSession?.status;
     if (accountStatus === "inactive") {
       showNotification({
@@ -187,141 +195,35 @@ export function CarritoPage() {
       });
       return;
     }
-<<<<<<< HEAD
-    if (!customerSession) {
-      const nextErrors: typeof guestErrors = {};
-      if (!guestInfo.nombre.trim()) {
-        nextErrors.nombre = "Ingresa tu nombre.";
-      }
-      const emailValue = guestInfo.email.trim();
-  if (!emailValue || !SIMPLE_EMAIL_REGEX.test(emailValue)) {
-        nextErrors.email = "Ingresa un correo válido.";
-      }
-      if (Object.keys(nextErrors).length) {
-        setGuestErrors(nextErrors);
-        return;
-      }
-      setGuestErrors({});
-    }
-    const contactEmail = customerSession ? customerSession.email : guestInfo.email.trim();
-    openReceiptWindow({
-      items,
-      subTotal,
-      effectiveSubtotal,
-      benefits,
-      coupon: couponInfo,
-      shipCost: effectiveShip,
-      total,
-      contactEmail
-    });
-    // Decrement stock for each item and persist as product updates
-    items.forEach((entry) => {
-      const p = products.find((x) => x.id === entry.product.id);
-      if (!p) return;
-      const nextStock = Math.max(0, p.stock - entry.qty);
-      upsertProduct({ ...p, stock: nextStock });
-    });
-=======
->>>>>>> master
-
-    const benefitList: string[] = [];
-    if (benefits.userDisc > 0 && benefits.userLabel) {
-      benefitList.push(benefits.userLabel);
-    }
-    if (benefits.bdayDisc > 0 && benefits.bdayLabel) {
-      benefitList.push(benefits.bdayLabel);
-    }
-    if (benefits.freeShipping && benefits.shippingLabel) {
-      benefitList.push(benefits.shippingLabel);
-    }
-    if (couponInfo.valid) {
-      benefitList.push(couponInfo.label || `Cupón ${couponInfo.code}`);
-    }
 
-<<<<<<< HEAD
-    const perItemDiscount = items.reduce((sum, entry) => sum + Math.max(0, entry.subtotal - entry.pricing.total), 0);
-    const shippingDiscount = Math.max(0, shipBeforeCoupons - effectiveShip);
-    const couponDiscount = couponInfo.valid ? couponInfo.discount : 0;
-    const discountTotal = perItemDiscount + shippingDiscount + couponDiscount;
-    const timestamp = Date.now();
-
-    try {
-      const orderId = `PED${timestamp}`;
-      const newOrder: Order = {
-        id: orderId,
-        cliente: customerSession ? customerSession.nombre || customerSession.email : guestInfo.nombre,
-        total,
-        estado: "Pendiente",
-        createdAt: timestamp,
-        customerEmail: contactEmail || undefined,
-        items: items.map((it): OrderItem => {
-          const labels: string[] = [];
-          if (it.pricing.discountPerUnit > 0 && benefits.userLabel) {
-            labels.push(benefits.userLabel);
-          }
-          if (it.product.id === "BDAY001" && benefits.bdayApplied && benefits.bdayLabel) {
-            labels.push(benefits.bdayLabel);
-          }
-          return {
-            codigo: it.product.id,
-            nombre: it.product.nombre,
-            qty: it.qty,
-            unitPrice: it.pricing.unitPrice,
-            originalUnitPrice: it.pricing.originalUnitPrice,
-            discountPerUnit: it.pricing.discountPerUnit,
-            subtotal: it.pricing.total,
-            originalSubtotal: it.subtotal,
-            benefitLabels: labels.length ? Array.from(new Set(labels)) : undefined
-          } satisfies OrderItem;
-        }),
-        subtotal: subTotal,
-        discountTotal,
-        shippingCost: effectiveShip,
-        benefitsApplied: benefitList.length ? Array.from(new Set(benefitList)) : undefined,
-        couponCode: couponInfo.valid ? couponInfo.code : undefined,
-        couponLabel: couponInfo.valid ? couponInfo.label || undefined : undefined
-      } satisfies Order;
-      updateOrders([...(orders || []), newOrder]);
-    } catch (err) {
-      console.error("No se pudo guardar el pedido:", err);
-    }
-    if (benefits.bdayApplied && customerSession) {
-      const currentYear = new Date().getFullYear();
-      updateCustomer({ bdayRedeemedYear: currentYear });
-    }
-    if (!customerSession) {
-      setGuestInfo({ nombre: "", email: "" });
-    }
-    // Clear cart after purchase
-    clearCart();
-=======
     const orderItems: CreateOrderItemRequestDto[] = items.map((entry) => {
-      const labels: string[] = [];
-      if (entry.pricing.discountPerUnit > 0 && benefits.userLabel) {
-        labels.push(benefits.userLabel);
-      }
-      if (entry.product.id === "BDAY001" && benefits.bdayApplied && benefits.bdayLabel) {
-        labels.push(benefits.bdayLabel);
-      }
+      const labels = entry.pricing.labels ?? [];
       return {
         productId: entry.product.id,
+        variantId: entry.variant?.id ?? null,
         quantity: entry.qty,
         unitPrice: entry.pricing.unitPrice,
         originalUnitPrice: entry.pricing.originalUnitPrice,
         discountPerUnit: entry.pricing.discountPerUnit,
         benefitLabels: labels.length ? Array.from(new Set(labels)) : null,
-        note: entry.msg ? entry.msg : null
+        note: buildItemNote(entry.customSummary, entry.msg)
       } satisfies CreateOrderItemRequestDto;
     });
 
     const request: CreateOrderRequestDto = {
       items: orderItems,
       shippingCost: effectiveShip,
-      benefitsApplied: benefitList.length ? Array.from(new Set(benefitList)) : null,
+      benefitsApplied: zoneFreeShippingLabel
+        ? [...benefitLabels, zoneFreeShippingLabel]
+        : benefitLabels.length ? benefitLabels : null,
       couponCode: couponInfo.valid ? couponInfo.code ?? null : undefined,
       couponLabel: couponInfo.valid ? couponInfo.label ?? null : undefined,
       notes: null,
-      shippingAddressId: UUID_PATTERN.test(selectedAddressId) ? selectedAddressId : null
+      shippingAddressId: !isPickup && UUID_PATTERN.test(selectedAddressId) ? selectedAddressId : null,
+      deliveryDate: delivery.date,
+      deliverySlotId: delivery.slotId,
+      fulfillment: isPickup ? "PICKUP" : "DELIVERY",
+      pickupLocationId: isPickup ? pickupLocation?.id ?? null : null
     };
 
     const result = await placeOrder(request);
@@ -339,8 +241,8 @@ export function CarritoPage() {
 
     clearCart();
     setCoupon("");
+    setDelivery(null);
     showNotification({ message: "Pedido registrado con éxito", kind: "success" });
->>>>>>> master
   };
 
   return (
@@ -373,15 +275,17 @@ export function CarritoPage() {
                 const originalUnit = item.pricing.originalUnitPrice;
                 const originalSubtotal = item.subtotal;
                 const finalSubtotal = item.pricing.total;
-                const maxPerItem = Math.max(1, item.product.stock);
+                const maxPerItem = Math.max(1, item.variant ? item.variant.stock : item.product.stock);
+                const detail = item.variant?.label || item.product.attr;
                 return (
-                  <tr key={`${item.product.id}-${item.msg || ""}`}>
+                  <tr key={`${item.product.id}-${item.variant?.id || ""}-${item.customSummary || ""}-${item.msg || ""}`}>
                   <td>
                     <div className="cart-prodname">{item.product.nombre}</div>
                     <small className="muted">
                       {item.product.categoria}
-                      {item.product.attr ? ` • ${item.product.attr}` : ""}
+                      {detail ? ` • ${detail}` : ""}
                     </small>
+                    {item.customSummary && <div className="small muted">🎨 {item.customSummary}</div>}
                     {item.msg && <div className="small muted">🎂 Mensaje: {item.msg}</div>}
                   </td>
                   <td className="ta-right">
@@ -408,7 +312,7 @@ export function CarritoPage() {
                           if (Number.isNaN(parsed)) return 1;
                           return Math.min(Math.max(1, parsed), maxPerItem);
                         })();
-                        setCartQty(item.product.id, clamped, item.msg);
+                        setCartQty(item.product.id, clamped, item.msg, item.variant?.id, item.custom);
                       }}
                     />
                   </td>
@@ -426,7 +330,7 @@ export function CarritoPage() {
                     <button
                       className="btn btn--ghost btn-sm"
                       type="button"
-                      onClick={() => removeFromCart(item.product.id, item.msg)}
+                      onClick={() => removeFromCart(item.product.id, item.msg, item.variant?.id, item.custom)}
                     >
                       Eliminar
                     </button>
@@ -458,38 +362,6 @@ export function CarritoPage() {
           )}
           {!customerSession && (
             <div className="guest-checkout">
-<<<<<<< HEAD
-              <h4 className="guest-checkout__title">Compra como invitado</h4>
-              <label className="guest-checkout__label" htmlFor="guestName">
-                Nombre completo
-              </label>
-              <input
-                id="guestName"
-                className="input"
-                type="text"
-                value={guestInfo.nombre}
-                onChange={(event) => setGuestInfo((prev) => ({ ...prev, nombre: event.target.value }))}
-                placeholder="Ej: Camila Fuentes"
-                maxLength={80}
-              />
-              <small className="help">{guestErrors.nombre}</small>
-
-              <label className="guest-checkout__label" htmlFor="guestEmail">
-                Correo electrónico
-              </label>
-              <input
-                id="guestEmail"
-                className="input"
-                type="email"
-                value={guestInfo.email}
-                onChange={(event) => setGuestInfo((prev) => ({ ...prev, email: event.target.value }))}
-                placeholder="tucorreo@ejemplo.com"
-                maxLength={100}
-              />
-              <small className="help">{guestErrors.email}</small>
-            </div>
-          )}
-=======
               <h4 className="guest-checkout__title">Inicia sesión para comprar</h4>
               <p className="muted small">
                 Necesitas una cuenta para finalizar tu pedido. {" "}
@@ -502,7 +374,6 @@ export function CarritoPage() {
             </div>
           )}
 
->>>>>>> master
           <div className="sum-row">
             <span>Subtotal</span>
             <div style={{ marginLeft: "auto", textAlign: "right" }}>
@@ -530,81 +401,142 @@ export function CarritoPage() {
           )}
 
           <div className="sum-row">
-            <label htmlFor="shipping">Envío</label>
-            {benefits.freeShipping ? (
+            <span>Envío</span>
+            {isPickup ? (
+              <>
+                <span id="shipping" className="muted small">
+                  Retiro en tienda
+                </span>
+                <strong style={{ marginLeft: "auto" }}>{formatMoney(0)}</strong>
+              </>
+            ) : benefits.freeShipping ? (
               <>
                 <span className="muted small">
                   {benefits.shippingLabel || "Beneficio aplicado"}
                 </span>
                 <strong style={{ marginLeft: "auto" }}>{formatMoney(0)}</strong>
               </>
-            ) : (
+            ) : shippingQuote.deliverable ? (
               <>
-                <select
-                  id="shipping"
-                  className="input"
-                  value={shippingCost}
-                  onChange={(event) => handleShipChange(Number(event.target.value))}
-                  disabled={couponInfo.valid && couponInfo.code === "ENVIOGRATIS"}
-                >
-                  {SHIPPING_OPTIONS.map((option) => (
-                    <option key={option.value} value={option.value}>
-                      {option.label}
-                    </option>
-                  ))}
-                </select>
+                <span id="shipping" className="muted small">
+                  {zoneFreeShippingLabel ?? shippingQuote.zone?.nombre}
+                </span>
                 <strong style={{ marginLeft: "auto" }}>{formatMoney(effectiveShip)}</strong>
               </>
+            ) : (
+              <span id="shipping" className="error small" style={{ marginLeft: "auto" }}>
+                {shippingQuote.reason}
+              </span>
             )}
           </div>
+          {!isPickup && !benefits.freeShipping && shippingQuote.missingForFree && shippingQuote.missingForFree > 0 ? (
+            <p className="muted small">
+              Te faltan {formatMoney(shippingQuote.missingForFree)} para envío gratis.
+            </p>
+          ) : null}
+
+          <fieldset className="fulfillment-options">
+            <legend className="small">¿Cómo recibes tu pedido?</legend>
+            <label>
+              <input
+                type="radio"
+                name="fulfillment"
+                value="delivery"
+                checked={!isPickup}
+                onChange={() => setFulfillment("delivery")}
+              />{" "}
+              Despacho a domicilio
+            </label>
+            <label>
+              <input
+                type="radio"
+                name="fulfillment"
+                value="pickup"
+                checked={isPickup}
+                disabled={!pickupLocations.length}
+                onChange={() => setFulfillment("pickup")}
+              />{" "}
+              Retiro en tienda <span className="muted small">(sin costo)</span>
+            </label>
+          </fieldset>
 
-          <div className="address-summary">
-            <div className="address-summary__header">
-              <span>Dirección de entrega</span>
-              {currentCustomer && addressOptions.length > 1 && (
-                <span className="muted small">{addressOptions.length} guardadas</span>
+          {isPickup ? (
+            <div className="address-summary">
+              <div className="address-summary__header">
+                <span>Tienda de retiro</span>
+              </div>
+              <select
+                className="input"
+                aria-label="Tienda de retiro"
+                value={pickupLocationId}
+                onChange={(event) => setPickupLocationId(event.target.value)}
+              >
+                <option value="">Selecciona una tienda</option>
+                {pickupLocations.map((location) => (
+                  <option key={location.id} value={location.id}>
+                    {location.nombre}
+                  </option>
+                ))}
+              </select>
+              {pickupLocation && (
+                <div className="address-summary__body">
+                  <div>{pickupLocation.direccion}</div>
+                  <div className="muted small">{pickupLocation.comuna}</div>
+                  {pickupLocation.horario && (
+                    <div className="muted small">Horario: {pickupLocation.horario}</div>
+                  )}
+                </div>
               )}
             </div>
-            {currentCustomer ? (
-              <>
-                {addressOptions.length > 1 && (
-                  <select
-                    className="input"
-                    value={selectedAddressId}
-                    onChange={(event) => handleAddressChange(event.target.value)}
-                  >
-                    {addressOptions.map((option) => (
-                      <option key={option.id} value={option.id}>
-                        {option.label}
-                      </option>
-                    ))}
-                  </select>
+          ) : (
+            <div className="address-summary">
+              <div className="address-summary__header">
+                <span>Dirección de entrega</span>
+                {currentCustomer && addressOptions.length > 1 && (
+                  <span className="muted small">{addressOptions.length} guardadas</span>
                 )}
-                <div className="address-summary__body">
-                  {selectedAddress ? (
-                    <>
-                      <div>{selectedAddress.direccion}</div>
-                      <div className="muted small">
-                        {selectedAddress.comuna}, {selectedAddress.region}
-                      </div>
-                      {selectedAddress.referencia && (
-                        <div className="muted small">Referencia: {selectedAddress.referencia}</div>
-                      )}
-                    </>
-                  ) : (
-                    <div className="muted small">Agrega direcciones desde tu perfil.</div>
+              </div>
+              {currentCustomer ? (
+                <>
+                  {addressOptions.length > 1 && (
+                    <select
+                      className="input"
+                      value={selectedAddressId}
+                      onChange={(event) => handleAddressChange(event.target.value)}
+                    >
+                      {addressOptions.map((option) => (
+                        <option key={option.id} value={option.id}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
                   )}
+                  <div className="address-summary__body">
+                    {selectedAddress ? (
+                      <>
+                        <div>{selectedAddress.direccion}</div>
+                        <div className="muted small">
+                          {selectedAddress.comuna}, {selectedAddress.region}
+                        </div>
+                        {selectedAddress.referencia && (
+                          <div className="muted small">Referencia: {selectedAddress.referencia}</div>
+                        )}
+                      </>
+                    ) : (
+                      <div className="muted small">Agrega direcciones desde tu perfil.</div>
+                    )}
+                  </div>
+                  <Link className="address-summary__link" to="/perfil">
+                    Administrar direcciones
+                  </Link>
+                </>
+              ) : (
+                <div className="address-summary__body muted small">
+                  Inicia sesión para guardar y reutilizar tus direcciones.
                 </div>
-                <Link className="address-summary__link" to="/perfil">
-                  Administrar direcciones
-                </Link>
-              </>
-            ) : (
-              <div className="address-summary__body muted small">
-                Inicia sesión para guardar y reutilizar tus direcciones.
-              </div>
-            )}
-          </div>
+              )}
+            </div>
+          )}
 
           <div className="coupon-box">
             <label className="coupon-label" htmlFor="couponInput">
@@ -633,26 +565,39 @@ export function CarritoPage() {
                 </button>
               )}
             </div>
-            <small id="couponMsg" className="muted">
-              {couponInfo.valid ? "Cupón aplicado" : "Puedes usar ENVIOGRATIS o 5000OFF"}
+            <small id="couponMsg" className={couponInfo.reason ? "error" : "muted"} role={couponInfo.reason ? "alert" : undefined}>
+              {couponInfo.valid
+                ? "Cupón aplicado"
+                : couponInfo.reason ?? "Puedes usar ENVIOGRATIS o 5000OFF"}
             </small>
           </div>
 
+          <div className="address-summary">
+            <div className="address-summary__header">
+              <span>{isPickup ? "Fecha de retiro" : "Fecha de entrega"}</span>
+            </div>
+            <DeliveryScheduler
+              label={isPickup ? "Fecha de retiro" : "Fecha de entrega"}
+              schedule={schedule}
+              leadHours={leadHours}
+              loading={scheduleLoading}
+              error={scheduleError}
+              value={delivery}
+              onChange={setDelivery}
+            />
+          </div>
+
           <div className="sum-row total">
             <span>Total</span>
             <strong id="sum-total">{formatMoney(total)}</strong>
           </div>
 
-<<<<<<< HEAD
-          <button className="btn btn--primary btn-block" type="button" onClick={handleCheckout} disabled={isCartEmpty}>
-=======
           <button
             className="btn btn--primary btn-block"
             type="button"
             onClick={handleCheckout}
-            disabled={isCartEmpty || !customerSession || !selectedAddress}
+            disabled={isCartEmpty || !customerSession || !canFulfill || !deliveryReady}
           >
->>>>>>> master
             Finalizar compra
           </button>
           <p className="muted small">* No procesa pago real.</p>
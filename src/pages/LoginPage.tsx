@@ -25,11 +25,7 @@ export function LoginPage() {
     }
   }, [customerSession, navigate]);
 
-<<<<<<< HEAD
-  const handleCustomerSubmit = (event: FormEvent<HTMLFormElement>) => {
-=======
   const handleCustomerSubmit = async (event: FormEvent<HTMLFormElement>) => {
->>>>>>> master
     event.preventDefault();
     const nextErrors: typeof errors = {};
 
@@ -51,11 +47,7 @@ export function LoginPage() {
       return;
     }
 
-<<<<<<< HEAD
-    const result = loginCustomer(trimmed, password.trim());
-=======
     const result = await loginCustomer(trimmed, password.trim());
->>>>>>> master
     if (!result.ok) {
       setErrors({ form: result.message || "Credenciales inválidas." });
       return;
@@ -70,11 +62,7 @@ export function LoginPage() {
     });
   };
 
-<<<<<<< HEAD
-  const handleAdminSubmit = (event: FormEvent<HTMLFormElement>) => {
-=======
   const handleAdminSubmit = async (event: FormEvent<HTMLFormElement>) => {
->>>>>>> master
     event.preventDefault();
     const nextErrors: typeof adminErrors = {};
 
@@ -94,11 +82,7 @@ export function LoginPage() {
       return;
     }
 
-<<<<<<< HEAD
-    const result = adminLogin(trimmedEmail, adminPassword.trim());
-=======
     const result = await adminLogin(trimmedEmail, adminPassword.trim());
->>>>>>> master
     if (!result.ok) {
       setAdminErrors({ form: result.message || "Acceso denegado." });
       return;
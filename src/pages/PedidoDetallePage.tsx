@@ -0,0 +1,171 @@
+import { useMemo, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { useAppContext } from "../context/AppContext";
+import { describeBenefitLabel, formatMoney } from "../utils/format";
+import { describeFulfillment } from "../utils/delivery";
+import { refundedAmount } from "../utils/orderStatus";
+import { planReorder, type ReorderIssue } from "../utils/reorder";
+import { OrderTimeline } from "../components/orders/OrderTimeline";
+
+type ReorderReport = {
+  added: number;
+  issues: ReorderIssue[];
+};
+
+export function PedidoDetallePage() {
+  const { orderId } = useParams<{ orderId: string }>();
+  const { orders, products, cart, cakeOptions, addToCart, openReceiptWindow } = useAppContext();
+  const [report, setReport] = useState<ReorderReport | null>(null);
+
+  const order = useMemo(
+    () => orders.find((entry) => entry.id === orderId || entry.orderCode === orderId),
+    [orders, orderId]
+  );
+
+  if (!order) {
+    return (
+      <main className="contenedor relleno">
+        <section className="contact-card">
+          <h1 className="contact-card__header">Pedido no encontrado</h1>
+          <p className="muted small">No encontramos este pedido en tu historial.</p>
+          <Link className="btn" to="/perfil">
+            Volver a mi perfil
+          </Link>
+        </section>
+      </main>
+    );
+  }
+
+  const handleReorder = () => {
+    const plan = planReorder(order, products, cart, cakeOptions);
+    const added = plan.lines.reduce(
+      (acc, line) => acc + addToCart(line.productId, line.qty, line.msg, line.variantId, line.custom, { silent: true }),
+      0
+    );
+    setReport({ added, issues: plan.issues });
+  };
+
+  const reembolsado = refundedAmount(order);
+
+  return (
+    <main className="contenedor relleno">
+      <section className="contact-card order-tracking" aria-labelledby="orderDetailTitle">
+        <p className="small">
+          <Link to="/perfil">← Mis pedidos</Link>
+        </p>
+        <h1 id="orderDetailTitle" className="contact-card__header">
+          Pedido {order.orderCode ?? order.id} · {order.estado}
+        </h1>
+        <p className="muted small">
+          Realizado el{" "}
+          {new Date(order.createdAt).toLocaleString("es-CL", {
+            day: "2-digit",
+            month: "long",
+            year: "numeric",
+            hour: "2-digit",
+            minute: "2-digit"
+          })}
+        </p>
+
+        <OrderTimeline order={order} />
+
+        <h2 className="profile-card__title">Entrega</h2>
+        <p>{describeFulfillment(order)}</p>
+        {order.fulfillment === "pickup" && order.pickupCode && (
+          <p className="muted small">Código de retiro: {order.pickupCode}</p>
+        )}
+
+        <h2 className="profile-card__title">Productos</h2>
+        <ul className="order-tracking__items">
+          {order.items.map((item) => (
+            <li key={`${item.codigo}-${item.variantId ?? ""}-${item.note ?? ""}`}>
+              <span>
+                {item.nombre}
+                {item.variantLabel ? ` (${item.variantLabel})` : ""} × {item.qty}
+                {item.note && <span className="muted small"> · {item.note}</span>}
+              </span>
+              <strong>{formatMoney(item.subtotal)}</strong>
+            </li>
+          ))}
+        </ul>
+
+        {(order.benefitsApplied?.length || order.couponCode) ? (
+          <>
+            <h2 className="profile-card__title">Beneficios aplicados</h2>
+            <ul className="muted small" style={{ paddingLeft: "18px" }}>
+              {order.benefitsApplied?.map((label) => {
+                const detail = describeBenefitLabel(label);
+                return (
+                  <li key={label}>
+                    {detail.title}
+                    {detail.detail ? ` — ${detail.detail}` : ""}
+                  </li>
+                );
+              })}
+              {order.couponCode && (
+                <li>
+                  Cupón {order.couponCode}
+                  {order.couponLabel ? ` — ${order.couponLabel}` : ""}
+                </li>
+              )}
+            </ul>
+          </>
+        ) : null}
+
+        <div className="sum-row">
+          <span>Subtotal</span>
+          <span>{formatMoney(order.subtotal)}</span>
+        </div>
+        {order.discountTotal > 0 && (
+          <div className="sum-row">
+            <span>Descuentos</span>
+            <span>-{formatMoney(order.discountTotal)}</span>
+          </div>
+        )}
+        <div className="sum-row">
+          <span>{order.fulfillment === "pickup" ? "Retiro" : "Envío"}</span>
+          <span>{order.shippingCost ? formatMoney(order.shippingCost) : "Gratis"}</span>
+        </div>
+        <div className="sum-row total">
+          <span>Total</span>
+          <strong>{formatMoney(order.total)}</strong>
+        </div>
+        {reembolsado > 0 && (
+          <div className="sum-row">
+            <span>Reembolsado</span>
+            <span>{formatMoney(reembolsado)}</span>
+          </div>
+        )}
+
+        <div className="form-actions">
+          <button className="btn btn--primary" type="button" onClick={handleReorder}>
+            Volver a comprar
+          </button>
+          <button className="btn" type="button" onClick={() => openReceiptWindow(order)}>
+            Ver comprobante
+          </button>
+        </div>
+
+        {report && (
+          <div className="order-reorder" role="status">
+            <p>
+              {report.added > 0
+                ? `Agregamos ${report.added} unidad(es) a tu carrito.`
+                : "No pudimos agregar productos de este pedido."}{" "}
+              {report.added > 0 && <Link to="/carrito">Ir al carrito</Link>}
+            </p>
+            {report.issues.length > 0 && (
+              <ul>
+                {report.issues.map((issue) => (
+                  <li key={`${issue.item.codigo}-${issue.item.variantId ?? ""}-${issue.kind}`}>
+                    <strong>{issue.item.nombre}</strong>: {issue.detail}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </section>
+    </main>
+  );
+}
@@ -2,19 +2,15 @@ import { useCallback, useEffect, useMemo, useState } from "react";
 import type { FormEvent } from "react";
 import { Link, Navigate, useNavigate } from "react-router-dom";
 import { useAppContext } from "../context/AppContext";
-<<<<<<< HEAD
-import { REGIONS } from "../data/regions";
-=======
 import { useRegions } from "../hooks/useRegions";
->>>>>>> master
 import { computeAge } from "../utils/dates";
 import { describeBenefitLabel, formatMoney } from "../utils/format";
 import { formatRun } from "../utils/validators";
+import { resolveShippingZone } from "../utils/shipping";
+import { OrderStatusHistory } from "../components/orders/OrderStatusHistory";
+import { canCustomerCancel, cancellationWindowHours, refundedAmount } from "../utils/orderStatus";
+import type { Order } from "../types";
 
-const SHIPPING_OPTIONS = [
-  { value: 3000, label: "Envío urbano ($3.000)" },
-  { value: 6000, label: "Envío regional ($6.000)" }
-];
 
 const ADDRESS_LIMIT = 5;
 const createAddressId = () => `addr_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 7)}`;
@@ -36,11 +32,17 @@ const normalizeNameInput = (value: string) =>
 
 export function PerfilPage() {
   const navigate = useNavigate();
-  const { customerSession, currentCustomer, updateCustomer, logoutCustomer, showNotification, orders } = useAppContext();
-<<<<<<< HEAD
-=======
+  const {
+    customerSession,
+    currentCustomer,
+    updateCustomer,
+    logoutCustomer,
+    showNotification,
+    orders,
+    shippingZones,
+    cancelMyOrder
+  } = useAppContext();
   const { regions: regionsMap, loading: regionsLoading, error: regionsError } = useRegions();
->>>>>>> master
 
   const currentUser = currentCustomer;
   const accountStatus = currentUser?.status === "inactive" ? "Desactivada" : "Activada";
@@ -57,7 +59,6 @@ export function PerfilPage() {
     comuna: "",
     phone: "",
     promoCode: "",
-    defaultShip: SHIPPING_OPTIONS[0].value,
     newsletter: false,
     saveAddress: false,
     addressAlias: "Dirección principal",
@@ -125,7 +126,6 @@ export function PerfilPage() {
       comuna: primaryDraft.comuna,
       phone: currentUser.phone || "",
       promoCode: currentUser.promoCode || "",
-      defaultShip: currentUser.prefs?.defaultShip ?? SHIPPING_OPTIONS[0].value,
       newsletter: Boolean(currentUser.prefs?.newsletter),
       saveAddress: Boolean(currentUser.prefs?.saveAddress),
       addressAlias: primaryDraft.alias || "Dirección principal",
@@ -142,13 +142,6 @@ export function PerfilPage() {
     resetProfileForm();
   }, [resetProfileForm]);
 
-<<<<<<< HEAD
-  const regionOptions = useMemo(() => Object.keys(REGIONS).sort((a, b) => a.localeCompare(b, "es")), []);
-  const comunaOptions = useMemo(() => {
-    const list = REGIONS[form.region] || [];
-    return list.slice().sort((a, b) => a.localeCompare(b, "es"));
-  }, [form.region]);
-=======
   const regionOptions = useMemo(
     () => Object.keys(regionsMap).sort((a, b) => a.localeCompare(b, "es")),
     [regionsMap]
@@ -189,7 +182,6 @@ export function PerfilPage() {
       setExtraAddresses(sanitized);
     }
   }, [extraAddresses, regionsLoading, regionsMap]);
->>>>>>> master
 
   const handleExtraChange = (id: string, field: "alias" | "direccion" | "region" | "comuna" | "referencia", value: string) => {
     setExtraAddresses((prev) =>
@@ -285,11 +277,6 @@ export function PerfilPage() {
     ]);
   };
 
-  const defaultShipLabel = useMemo(() => {
-    const value = currentUser?.prefs?.defaultShip ?? SHIPPING_OPTIONS[0].value;
-    return SHIPPING_OPTIONS.find((option) => option.value === value)?.label || SHIPPING_OPTIONS[0].label;
-  }, [currentUser]);
-
   const customerOrders = useMemo(() => {
     if (!customerSession) return [];
     const email = customerSession.email.toLowerCase();
@@ -312,6 +299,28 @@ export function PerfilPage() {
       .sort((a, b) => (b.createdAt || 0) - (a.createdAt || 0));
   }, [customerSession, orders]);
 
+  const handleCancelOrder = (order: Order) => {
+    showNotification({
+      message: `¿Cancelar el pedido ${order.id}? Puedes hacerlo hasta ${cancellationWindowHours()} h después de comprar y mientras esté pendiente.`,
+      kind: "info",
+      mode: "dialog",
+      actionLabel: "Cancelar pedido",
+      cancelLabel: "Volver",
+      input: { label: "Motivo (opcional)", maxLength: 250 },
+      onAction: (reason) => {
+        void (async () => {
+          const result = await cancelMyOrder(order.id, reason);
+          showNotification({
+            message: result.ok
+              ? "Pedido cancelado. El reembolso se procesará a la brevedad."
+              : result.message ?? "No pudimos cancelar el pedido.",
+            kind: result.ok ? "success" : "error"
+          });
+        })();
+      }
+    });
+  };
+
   if (!customerSession) {
     return <Navigate to="/login" replace />;
   }
@@ -320,11 +329,7 @@ export function PerfilPage() {
     return (
       <main className="container" style={{ padding: "48px 0" }}>
         <div className="card" style={{ padding: "32px", textAlign: "center" }}>
-<<<<<<< HEAD
-          <p className="muted">Cargando información de tu cuenta…</p>
-=======
           <p className="muted">Cargando información de tu cuenta...</p>
->>>>>>> master
         </div>
       </main>
     );
@@ -345,6 +350,16 @@ export function PerfilPage() {
     ? [primaryAddress.direccion, primaryAddress.comuna, primaryAddress.region].filter(Boolean).join(", ")
     : [currentUser.direccion, currentUser.comuna, currentUser.region].filter(Boolean).join(", ") || "Sin dirección registrada";
   const addressCount = currentUser.prefs?.addresses?.length ?? (addressLine !== "Sin dirección registrada" ? 1 : 0);
+  const shippingZone = resolveShippingZone(
+    shippingZones,
+    primaryAddress?.region ?? currentUser.region,
+    primaryAddress?.comuna ?? currentUser.comuna
+  );
+  const shippingLabel = !shippingZone || shippingZone.sinCobertura
+    ? "Sin cobertura de despacho"
+    : `${shippingZone.nombre} · ${formatMoney(shippingZone.costo)}${
+        shippingZone.envioGratisDesde ? ` (gratis sobre ${formatMoney(shippingZone.envioGratisDesde)})` : ""
+      }`;
   const extraAddressLabel = addressCount > 1 ? ` · ${addressCount - 1} adicionales` : "";
   const phoneLabel = currentUser.phone || "Sin teléfono registrado";
   const newsletterLabel = currentUser.prefs?.newsletter ? "Sí" : "No";
@@ -368,11 +383,7 @@ export function PerfilPage() {
     });
   };
 
-<<<<<<< HEAD
-  const handleProfileSubmit = (event: FormEvent<HTMLFormElement>) => {
-=======
   const handleProfileSubmit = async (event: FormEvent<HTMLFormElement>) => {
->>>>>>> master
     event.preventDefault();
     const nextErrors: Record<string, string> = {};
 
@@ -461,9 +472,6 @@ export function PerfilPage() {
     setExtraErrors({});
 
     const promoCode = form.promoCode.trim().toUpperCase();
-    const shipValue = SHIPPING_OPTIONS.some((option) => option.value === form.defaultShip)
-      ? form.defaultShip
-      : SHIPPING_OPTIONS[0].value;
     const now = Date.now();
     const primaryId = form.primaryAddressId || createAddressId();
     const primaryAddress = {
@@ -492,11 +500,7 @@ export function PerfilPage() {
     });
     const addressesPayload = [primaryAddress, ...extrasPayload].slice(0, ADDRESS_LIMIT);
 
-<<<<<<< HEAD
-    updateCustomer({
-=======
     const result = await updateCustomer({
->>>>>>> master
       nombre: normalizedNombre,
       apellidos: normalizedApellidos,
       direccion: primaryAddress.direccion,
@@ -505,29 +509,21 @@ export function PerfilPage() {
       phone: form.phone.trim() || undefined,
       promoCode,
       prefs: {
-        defaultShip: shipValue,
         newsletter: form.newsletter,
         saveAddress: form.saveAddress,
         addresses: addressesPayload,
         primaryAddressId: primaryAddress.id
       }
     });
-<<<<<<< HEAD
-=======
     if (!result.ok) {
       showNotification({ message: result.message ?? "No pudimos actualizar tus datos", kind: "error" });
       return;
     }
->>>>>>> master
     showNotification({ message: "Datos actualizados correctamente.", kind: "success" });
     setIsEditing(false);
   };
 
-<<<<<<< HEAD
-  const handlePasswordSubmit = (event: FormEvent<HTMLFormElement>) => {
-=======
   const handlePasswordSubmit = async (event: FormEvent<HTMLFormElement>) => {
->>>>>>> master
     event.preventDefault();
     const next: Record<string, string> = {};
 
@@ -553,28 +549,18 @@ export function PerfilPage() {
     }
 
     setPassErrors({});
-<<<<<<< HEAD
-    updateCustomer({ pass: passwordForm.next });
-=======
     const result = await updateCustomer({ pass: passwordForm.next });
     if (!result.ok) {
       showNotification({ message: result.message ?? "No pudimos actualizar tu contraseña", kind: "error" });
       return;
     }
->>>>>>> master
     setPasswordForm({ current: "", next: "", confirm: "" });
     showNotification({ message: "Contraseña actualizada.", kind: "success" });
   };
 
-<<<<<<< HEAD
-  const handleLogout = () => {
-    setIsEditing(false);
-    logoutCustomer();
-=======
   const handleLogout = async () => {
     setIsEditing(false);
     await logoutCustomer();
->>>>>>> master
     navigate("/", { replace: true });
   };
 
@@ -638,8 +624,8 @@ export function PerfilPage() {
                   <span>{phoneLabel}</span>
                 </li>
                 <li>
-                  <strong>Envío preferido</strong>
-                  <span>{defaultShipLabel}</span>
+                  <strong>Envío a tu dirección</strong>
+                  <span>{shippingLabel}</span>
                 </li>
                 <li>
                   <strong>Novedades</strong>
@@ -770,31 +756,21 @@ export function PerfilPage() {
                           comuna: value === prev.region ? prev.comuna : ""
                         }));
                       }}
-<<<<<<< HEAD
-                      aria-invalid={Boolean(errors.region)}
-                    >
-                      <option value="">Seleccione</option>
-=======
                       disabled={regionsLoading}
                       aria-invalid={Boolean(errors.region || regionsError)}
                     >
                       <option value="" disabled={regionsLoading}>
                         {regionsLoading ? "Cargando regiones..." : "Seleccione"}
                       </option>
->>>>>>> master
                       {regionOptions.map((region) => (
                         <option key={region} value={region}>
                           {region}
                         </option>
                       ))}
                     </select>
-<<<<<<< HEAD
-                    <small className={`help${errors.region ? " help--error" : ""}`}>{errors.region}</small>
-=======
                     <small className={`help${errors.region || regionsError ? " help--error" : ""}`}>
                       {errors.region || regionsError || ""}
                     </small>
->>>>>>> master
                   </div>
                   <div className="profile-field">
                     <label htmlFor="profileComuna">Comuna</label>
@@ -803,19 +779,12 @@ export function PerfilPage() {
                       className={`form-control${errors.comuna ? " form-control--error" : ""}`}
                       value={form.comuna}
                       onChange={(event) => setForm((prev) => ({ ...prev, comuna: event.target.value }))}
-<<<<<<< HEAD
-                      disabled={!form.region}
-                      aria-invalid={Boolean(errors.comuna)}
-                    >
-                      <option value="">Seleccione</option>
-=======
                       disabled={regionsLoading || !form.region}
                       aria-invalid={Boolean(errors.comuna)}
                     >
                       <option value="">
                         {regionsLoading ? "Cargando comunas..." : "Seleccione"}
                       </option>
->>>>>>> master
                       {comunaOptions.map((comuna) => (
                         <option key={comuna} value={comuna}>
                           {comuna}
@@ -836,11 +805,7 @@ export function PerfilPage() {
                     <p className="muted small">No tienes direcciones adicionales guardadas.</p>
                   ) : (
                     extraAddresses.map((address, index) => {
-<<<<<<< HEAD
-                      const communes = (REGIONS[address.region] || []).slice().sort((a, b) => a.localeCompare(b, "es"));
-=======
                       const communes = (regionsMap[address.region] || []).slice().sort((a, b) => a.localeCompare(b, "es"));
->>>>>>> master
                       return (
                         <div className="profile-address-card" key={address.id}>
                           <div className="profile-address-card__head">
@@ -901,16 +866,11 @@ export function PerfilPage() {
                                 className="form-control"
                                 value={address.region}
                                 onChange={(event) => handleExtraChange(address.id, "region", event.target.value)}
-<<<<<<< HEAD
-                              >
-                                <option value="">Seleccione</option>
-=======
                                 disabled={regionsLoading}
                               >
                                 <option value="" disabled={regionsLoading}>
                                   {regionsLoading ? "Cargando regiones..." : "Seleccione"}
                                 </option>
->>>>>>> master
                                 {regionOptions.map((region) => (
                                   <option key={region} value={region}>
                                     {region}
@@ -924,17 +884,11 @@ export function PerfilPage() {
                                 className="form-control"
                                 value={address.comuna}
                                 onChange={(event) => handleExtraChange(address.id, "comuna", event.target.value)}
-<<<<<<< HEAD
-                                disabled={!address.region}
-                              >
-                                <option value="">Seleccione</option>
-=======
                                 disabled={regionsLoading || !address.region}
                               >
                                 <option value="">
                                   {regionsLoading ? "Cargando comunas..." : "Seleccione"}
                                 </option>
->>>>>>> master
                                 {communes.map((comuna) => (
                                   <option key={comuna} value={comuna}>
                                     {comuna}
@@ -953,11 +907,7 @@ export function PerfilPage() {
                     className="btn btn--ghost btn-sm"
                     type="button"
                     onClick={addExtraAddress}
-<<<<<<< HEAD
-                    disabled={extraAddresses.length >= ADDRESS_LIMIT - 1}
-=======
                     disabled={regionsLoading || extraAddresses.length >= ADDRESS_LIMIT - 1}
->>>>>>> master
                   >
                     Añadir dirección
                   </button>
@@ -991,24 +941,6 @@ export function PerfilPage() {
                   </div>
                 </div>
 
-                <div className="profile-field-row">
-                  <div className="profile-field">
-                    <label htmlFor="profileShip">Envío por defecto</label>
-                    <select
-                      id="profileShip"
-                      className="form-control"
-                      value={form.defaultShip}
-                      onChange={(event) => setForm((prev) => ({ ...prev, defaultShip: Number(event.target.value) }))}
-                    >
-                      {SHIPPING_OPTIONS.map((option) => (
-                        <option key={option.value} value={option.value}>
-                          {option.label}
-                        </option>
-                      ))}
-                    </select>
-                  </div>
-                </div>
-
                 <div className="profile-field-row">
                   <div className="chk">
                     <input
@@ -1084,7 +1016,9 @@ export function PerfilPage() {
                         return (
                           <tr key={order.id}>
                             <td style={{ padding: "10px 12px", borderBottom: "1px solid #f7f7f7" }}>
-                              <strong>{order.id}</strong>
+                              <Link to={`/perfil/pedidos/${encodeURIComponent(order.id)}`}>
+                                <strong>{order.id}</strong>
+                              </Link>
                             </td>
                             <td style={{ padding: "10px 12px", borderBottom: "1px solid #f7f7f7" }}>
                               {dateLabel}
@@ -1103,9 +1037,23 @@ export function PerfilPage() {
                             </td>
                             <td style={{ padding: "10px 12px", borderBottom: "1px solid #f7f7f7", textAlign: "right" }}>
                               {formatMoney(order.total)}
+                              {refundedAmount(order) > 0 && (
+                                <div className="muted small">Reembolsado: {formatMoney(refundedAmount(order))}</div>
+                              )}
                             </td>
                             <td style={{ padding: "10px 12px", borderBottom: "1px solid #f7f7f7" }}>
                               {order.estado}
+                              {order.statusHistory?.length ? (
+                                <details className="small">
+                                  <summary>Ver historial</summary>
+                                  <OrderStatusHistory history={order.statusHistory} />
+                                </details>
+                              ) : null}
+                              {canCustomerCancel(order) && (
+                                <button className="btn-delete" type="button" onClick={() => handleCancelOrder(order)}>
+                                  Cancelar pedido
+                                </button>
+                              )}
                             </td>
                           </tr>
                         );
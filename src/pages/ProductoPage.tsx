@@ -3,8 +3,11 @@ import { Link, useNavigate, useParams } from "react-router-dom";
 import { useAppContext } from "../context/AppContext";
 import { formatMoney } from "../utils/format";
 import { CommentsSection } from "../components/blog/CommentsSection";
-
-const BDAY_CAKE_ID = "BDAY001";
+import { defaultVariant, findVariant, stockFor } from "../utils/variants";
+import { CUSTOM_CAKE_CATEGORY, customizationPrice, defaultCustomization } from "../utils/cakeBuilder";
+import { CakeBuilder } from "../components/products/CakeBuilder";
+import { BIRTHDAY_CAKE_ID } from "../utils/promotions";
+import type { CakeCustomization } from "../types";
 
 export function ProductoPage() {
   const navigate = useNavigate();
@@ -14,11 +17,14 @@ export function ProductoPage() {
     addToCart,
     getProductPricing,
     birthdayRewardAvailable,
-    birthdayRewardEligible
+    birthdayRewardEligible,
+    cakeOptions
   } = useAppContext();
   const product = storefrontProducts.find((p) => p.id === productId);
 
   const [qty, setQty] = useState<number>(1);
+  const [variantId, setVariantId] = useState<string>("");
+  const [customDraft, setCustomDraft] = useState<CakeCustomization | null>(null);
   const [customMessage, setCustomMessage] = useState<string>("");
   const [shareMsg, setShareMsg] = useState<string>("");
 
@@ -38,13 +44,21 @@ export function ProductoPage() {
   }
 
   const isCake = /torta/i.test(product.nombre);
-  const isBirthdayProduct = product.id === BDAY_CAKE_ID;
-  const maxQty = Math.max(0, isBirthdayProduct ? Math.min(1, product.stock) : product.stock);
+  const isBirthdayProduct = product.id === BIRTHDAY_CAKE_ID;
+  const selectedVariant = findVariant(product, variantId) ?? defaultVariant(product);
+  const variantStock = stockFor(product, selectedVariant);
+  const maxQty = Math.max(0, isBirthdayProduct ? Math.min(1, variantStock) : variantStock);
 
   const usesBirthdayCake = isBirthdayProduct && birthdayRewardAvailable;
-  const allowsCustomMessage = isCake && product.id !== BDAY_CAKE_ID;
+  const allowsCustomMessage = isCake && product.id !== BIRTHDAY_CAKE_ID;
+  const usesCakeBuilder = allowsCustomMessage && product.categoria === CUSTOM_CAKE_CATEGORY && cakeOptions.length > 0;
+  const customization = customDraft ?? defaultCustomization(cakeOptions);
+  const customExtra = usesCakeBuilder ? customizationPrice(customization, cakeOptions) : 0;
 
-  const unitPricing = useMemo(() => getProductPricing(product, 1), [getProductPricing, product]);
+  const unitPricing = useMemo(
+    () => getProductPricing(product, 1, selectedVariant?.id, customExtra),
+    [getProductPricing, product, selectedVariant?.id, customExtra]
+  );
   const hasUserDiscount = unitPricing.discountPerUnit > 0;
   const discountedPrice = usesBirthdayCake ? 0 : unitPricing.unitPrice;
   const displayPrice = discountedPrice === 0 ? "Gratis" : formatMoney(discountedPrice);
@@ -57,7 +71,7 @@ export function ProductoPage() {
     if (maxQty <= 0) return;
     const safeQty = Math.min(qty, Math.max(1, maxQty));
     const message = allowsCustomMessage ? customMessage.trim() : "";
-    addToCart(product.id, safeQty, message);
+    addToCart(product.id, safeQty, message, selectedVariant?.id, usesCakeBuilder ? customization : undefined);
   };
 
   const finalUrl = useMemo(() => {
@@ -124,11 +138,11 @@ export function ProductoPage() {
 
         <div className="pdp__info">
           <h1>{product.nombre}</h1>
-          {product.attr && <p className="muted">• {product.attr}</p>}
+          {product.attr && !product.variants?.length && <p className="muted">• {product.attr}</p>}
           <div className="pdp__price">
             {hasUserDiscount && !usesBirthdayCake ? (
               <>
-                <s className="muted">{formatMoney(product.precio)}</s>
+                <s className="muted">{formatMoney(unitPricing.originalUnitPrice)}</s>
                 <strong>{displayPrice}</strong>
               </>
             ) : (
@@ -151,6 +165,34 @@ export function ProductoPage() {
             {maxQty > 0 ? `Stock disponible: ${maxQty}` : "Sin stock"}
           </p>
 
+          {product.variants && product.variants.length > 0 && (
+            <fieldset className="pdp__variants">
+              <legend className="muted">Tamaño</legend>
+              {product.variants.map((variant) => (
+                <label
+                  key={variant.id}
+                  className={`pdp__variant${variant.id === selectedVariant?.id ? " pdp__variant--active" : ""}`}
+                >
+                  <input
+                    type="radio"
+                    name="variant"
+                    value={variant.id}
+                    checked={variant.id === selectedVariant?.id}
+                    disabled={variant.stock <= 0}
+                    onChange={() => {
+                      setVariantId(variant.id);
+                      setQty((prev) => Math.min(prev, Math.max(1, variant.stock)));
+                    }}
+                  />
+                  <span>{variant.label}</span>
+                  <small className="muted">
+                    {variant.stock > 0 ? formatMoney(getProductPricing(product, 1, variant.id).unitPrice) : "Sin stock"}
+                  </small>
+                </label>
+              ))}
+            </fieldset>
+          )}
+
           <div className="pdp__actions">
             <label className="muted" htmlFor="qty">
               Cantidad
@@ -180,7 +222,18 @@ export function ProductoPage() {
             />
           </div>
 
-          {allowsCustomMessage && (
+          {usesCakeBuilder && (
+            <CakeBuilder
+              image={product.img}
+              options={cakeOptions}
+              value={customization}
+              message={customMessage}
+              onChange={setCustomDraft}
+              onMessageChange={setCustomMessage}
+            />
+          )}
+
+          {allowsCustomMessage && !usesCakeBuilder && (
             <div id="customBox" className="pdp__custom">
               <label htmlFor="customMsg">Mensaje para la torta</label>
               <textarea
@@ -222,11 +275,7 @@ export function ProductoPage() {
 
       <section className="product-comments">
         <CommentsSection
-<<<<<<< HEAD
-          postId={`product:${product.id}`}
-=======
           postSlug={`product:${product.id}`}
->>>>>>> master
           title="Opiniones del producto"
           emptyMessage="Sé el primero en contar tu experiencia con este producto."
           placeholder="Cuéntanos cómo te fue con este producto..."
@@ -2,19 +2,10 @@ import { useCallback, useMemo, useState } from "react";
 import type { FormEvent } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAppContext } from "../context/AppContext";
-<<<<<<< HEAD
-import { REGIONS } from "../data/regions";
-=======
 import { useRegions } from "../hooks/useRegions";
->>>>>>> master
 import { computeAge, parseLocalDate } from "../utils/dates";
 import { cleanRun, formatRun, isEmailAllowed, isRunValid } from "../utils/validators";
 
-const SHIPPING_OPTIONS = [
-  { value: 3000, label: "Envío urbano ($3.000)" },
-  { value: 6000, label: "Envío regional ($6.000)" }
-];
-const DEFAULT_SHIP_VALUE = SHIPPING_OPTIONS[0]?.value ?? 0;
 
 const NAME_SANITIZE_REGEX = /[^A-Za-zÁÉÍÓÚáéíóúÑñÜü' -]/g;
 
@@ -34,10 +25,7 @@ const MAX_AGE = 110;
 export function RegistroPage() {
   const navigate = useNavigate();
   const { registerCustomer, showNotification } = useAppContext();
-<<<<<<< HEAD
-=======
   const { regions: regionsMap, loading: regionsLoading, error: regionsError } = useRegions();
->>>>>>> master
 
   const [runValue, setRunValue] = useState("");
   const [runDisplay, setRunDisplay] = useState("");
@@ -54,7 +42,6 @@ export function RegistroPage() {
   const [pass, setPass] = useState("");
   const [pass2, setPass2] = useState("");
   const [promo, setPromo] = useState("");
-  const [defaultShip, setDefaultShip] = useState(DEFAULT_SHIP_VALUE);
   const [newsletter, setNewsletter] = useState(false);
   const [saveAddress, setSaveAddress] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -162,13 +149,6 @@ export function RegistroPage() {
     setBirthError(message);
   };
 
-<<<<<<< HEAD
-  const regionOptions = useMemo(() => Object.keys(REGIONS).sort((a, b) => a.localeCompare(b, "es")), []);
-  const comunaOptions = useMemo(() => {
-    const list = REGIONS[region] || [];
-    return list.slice().sort((a, b) => a.localeCompare(b, "es"));
-  }, [region]);
-=======
   const regionOptions = useMemo(
     () => Object.keys(regionsMap).sort((a, b) => a.localeCompare(b, "es")),
     [regionsMap]
@@ -177,7 +157,6 @@ export function RegistroPage() {
     const list = regionsMap[region] || [];
     return list.slice().sort((a, b) => a.localeCompare(b, "es"));
   }, [regionsMap, region]);
->>>>>>> master
 
   const focusField = (field: string) => {
     const map: Record<string, string> = {
@@ -280,22 +259,14 @@ export function RegistroPage() {
     return true;
   };
 
-<<<<<<< HEAD
-  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
-=======
   const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
->>>>>>> master
     event.preventDefault();
     if (!validate()) return;
 
     const nombresNormalized = sanitizeNameInput(nombres).trim();
     const apellidosNormalized = sanitizeNameInput(apellidos).trim();
 
-<<<<<<< HEAD
-    const result = registerCustomer({
-=======
     const result = await registerCustomer({
->>>>>>> master
       run: runValue,
       tipo: "Cliente",
       nombre: nombresNormalized,
@@ -309,7 +280,6 @@ export function RegistroPage() {
       pass,
       promoCode: promo.trim().toUpperCase() || undefined,
       prefs: {
-        defaultShip,
         newsletter,
         saveAddress
       }
@@ -440,10 +410,7 @@ export function RegistroPage() {
                   setRegion(event.target.value);
                   setComuna("");
                 }}
-<<<<<<< HEAD
-=======
                 disabled={regionsLoading}
->>>>>>> master
                 aria-invalid={Boolean(errors.region)}
               >
                 <option value="">Seleccione</option>
@@ -453,13 +420,9 @@ export function RegistroPage() {
                   </option>
                 ))}
               </select>
-<<<<<<< HEAD
-              <small className={`help${errors.region ? " help--error" : ""}`}>{errors.region}</small>
-=======
               <small className={`help${errors.region ? " help--error" : ""}`}>
                 {errors.region || regionsError}
               </small>
->>>>>>> master
             </div>
             <div>
               <label htmlFor="comuna">Comuna</label>
@@ -468,11 +431,7 @@ export function RegistroPage() {
                 className={`form-control${errors.comuna ? " form-control--error" : ""}`}
                 value={comuna}
                 onChange={(event) => setComuna(event.target.value)}
-<<<<<<< HEAD
-                disabled={!region}
-=======
                 disabled={!region || regionsLoading}
->>>>>>> master
                 aria-invalid={Boolean(errors.comuna)}
               >
                 <option value="">Seleccione</option>
@@ -570,23 +529,6 @@ export function RegistroPage() {
             Preferencias de compra
           </h3>
 
-          <div className="form-group">
-            <label htmlFor="prefShip">Envío por defecto</label>
-            <select
-              id="prefShip"
-              className="form-control"
-              value={defaultShip}
-              onChange={(event) => setDefaultShip(Number(event.target.value))}
-            >
-              {SHIPPING_OPTIONS.map((option) => (
-                <option key={option.value} value={option.value}>
-                  {option.label}
-                </option>
-              ))}
-            </select>
-            <small className="help">Se usará en el carrito si no has elegido otro.</small>
-          </div>
-
           <div className="form-group">
             <div className="chk">
               <input
@@ -0,0 +1,117 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useAppContext } from "../context/AppContext";
+import type { Order } from "../types";
+import { formatMoney } from "../utils/format";
+import { describeFulfillment } from "../utils/delivery";
+import { OrderTimeline } from "../components/orders/OrderTimeline";
+
+export function SeguimientoPage() {
+  const { trackOrder } = useAppContext();
+  const [searchParams] = useSearchParams();
+  const [codigo, setCodigo] = useState(searchParams.get("codigo") ?? "");
+  const [correo, setCorreo] = useState(searchParams.get("correo") ?? "");
+  const [errors, setErrors] = useState<{ codigo?: string; correo?: string }>({});
+  const [loading, setLoading] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [order, setOrder] = useState<Order | null>(null);
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const nextErrors: typeof errors = {};
+    if (!codigo.trim()) nextErrors.codigo = "Ingresa el código de tu pedido";
+    if (!/^\S+@\S+\.\S+$/.test(correo.trim())) nextErrors.correo = "Ingresa el correo usado en la compra";
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length) return;
+
+    setLoading(true);
+    setMessage(null);
+    const result = await trackOrder(codigo, correo);
+    setLoading(false);
+    if (!result.ok || !result.order) {
+      setOrder(null);
+      setMessage(result.message ?? "No encontramos un pedido con ese código y correo.");
+      return;
+    }
+    setOrder(result.order);
+  };
+
+  return (
+    <main className="contenedor relleno">
+      <section className="contact-card" aria-labelledby="trackingTitle">
+        <h1 id="trackingTitle" className="contact-card__header">
+          Seguimiento de pedido
+        </h1>
+        <p className="muted small">
+          Ingresa el código que aparece en tu comprobante y el correo con el que compraste.
+        </p>
+
+        <form className="contact-form" onSubmit={handleSubmit} noValidate>
+          <div className="form-row">
+            <label htmlFor="trackingCode">Código de pedido</label>
+            <input
+              id="trackingCode"
+              className="input"
+              type="text"
+              value={codigo}
+              onChange={(event) => setCodigo(event.target.value)}
+              placeholder="Ej: MS-000123"
+            />
+            <small className="help">{errors.codigo}</small>
+          </div>
+          <div className="form-row">
+            <label htmlFor="trackingEmail">Correo</label>
+            <input
+              id="trackingEmail"
+              className="input"
+              type="email"
+              value={correo}
+              onChange={(event) => setCorreo(event.target.value)}
+              placeholder="tucorreo@ejemplo.com"
+            />
+            <small className="help">{errors.correo}</small>
+          </div>
+          <div className="form-actions">
+            <button className="btn btn--primary" type="submit" disabled={loading}>
+              {loading ? "Buscando…" : "Ver pedido"}
+            </button>
+          </div>
+        </form>
+
+        {message && (
+          <div className="flash error" role="alert">
+            {message}
+          </div>
+        )}
+      </section>
+
+      {order && (
+        <section className="contact-card order-tracking" aria-labelledby="trackingResult">
+          <h2 id="trackingResult" className="contact-card__header">
+            Pedido {order.orderCode ?? order.id} · {order.estado}
+          </h2>
+          <p className="muted small">{describeFulfillment(order)}</p>
+
+          <OrderTimeline order={order} />
+
+          <ul className="order-tracking__items">
+            {order.items.map((item) => (
+              <li key={`${item.codigo}-${item.variantId ?? ""}`}>
+                <span>
+                  {item.nombre}
+                  {item.variantLabel ? ` (${item.variantLabel})` : ""} × {item.qty}
+                </span>
+                <strong>{formatMoney(item.subtotal)}</strong>
+              </li>
+            ))}
+          </ul>
+          <div className="sum-row total">
+            <span>Total</span>
+            <strong>{formatMoney(order.total)}</strong>
+          </div>
+        </section>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,169 @@
+import { useEffect, useMemo, useState } from "react";
+import { useAppContext } from "../../context/AppContext";
+import type { Order } from "../../types";
+import { toIsoDate } from "../../utils/delivery";
+import { formatMoney } from "../../utils/format";
+import {
+  ANALYTICS_PERIODS,
+  benefitBreakdown,
+  ordersInRange,
+  percentChange,
+  periodRanges,
+  salesMetrics,
+  salesSeries,
+  topCategories,
+  topProducts,
+  type SalesMetrics
+} from "../../utils/salesAnalytics";
+import { SalesChart } from "../../components/analytics/SalesChart";
+import { RankingBars } from "../../components/analytics/RankingBars";
+
+const METRICS: Array<{ key: keyof SalesMetrics; label: string; format: (value: number) => string }> = [
+  { key: "ingresos", label: "Ventas netas", format: formatMoney },
+  { key: "pedidos", label: "Pedidos", format: (value) => value.toLocaleString("es-CL") },
+  { key: "ticketPromedio", label: "Ticket promedio", format: formatMoney },
+  { key: "descuentos", label: "Descuentos otorgados", format: formatMoney }
+];
+
+function Delta({ current, previous }: { current: number; previous: number }) {
+  const change = percentChange(current, previous);
+  if (change === null) return <span className="muted small">Sin datos del período anterior</span>;
+  const rounded = Math.round(change);
+  return (
+    <span className={`small ${rounded >= 0 ? "analytics-delta--up" : "analytics-delta--down"}`}>
+      {rounded >= 0 ? "▲" : "▼"} {Math.abs(rounded)}% vs período anterior
+    </span>
+  );
+}
+
+export function AdminAnaliticaPage() {
+  const { products, fetchOrdersSince } = useAppContext();
+  const [days, setDays] = useState(30);
+  const [orders, setOrders] = useState<Order[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // El contexto solo guarda los pedidos recientes; se piden ambos períodos al servidor.
+  useEffect(() => {
+    let active = true;
+    setOrders(null);
+    void fetchOrdersSince(toIsoDate(new Date(periodRanges(days).previous.from))).then((result) => {
+      if (!active) return;
+      setError(result.ok ? null : result.message ?? "No se pudieron cargar las ventas");
+      setOrders(result.orders ?? []);
+    });
+    return () => {
+      active = false;
+    };
+  }, [fetchOrdersSince, days]);
+
+  const data = useMemo(() => {
+    if (!orders) return null;
+    const ranges = periodRanges(days);
+    const current = ordersInRange(orders, ranges.current);
+    const previous = ordersInRange(orders, ranges.previous);
+    return {
+      metrics: salesMetrics(current),
+      previousMetrics: salesMetrics(previous),
+      series: salesSeries(orders, ranges.current),
+      previousSeries: salesSeries(orders, ranges.previous),
+      products: topProducts(current),
+      categories: topCategories(current, products),
+      benefits: benefitBreakdown(current)
+    };
+  }, [orders, products, days]);
+
+  return (
+    <section>
+      <div className="actions-top">
+        <div className="form-group">
+          <label htmlFor="analyticsPeriod">Período</label>
+          <select id="analyticsPeriod" value={days} onChange={(event) => setDays(Number(event.target.value))}>
+            {ANALYTICS_PERIODS.map((value) => (
+              <option key={value} value={value}>
+                Últimos {value} días
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && <div className="muted small">{error}</div>}
+      {!error && !data && <div className="muted small">Cargando ventas…</div>}
+      {!error && data && (
+        <>
+          <div className="admin-widgets" style={{ marginBottom: "24px" }}>
+            {METRICS.map((metric) => (
+              <article className="widget" key={metric.key}>
+                <h3>{metric.label}</h3>
+                <p>
+                  <strong>{metric.format(data.metrics[metric.key])}</strong>
+                  <br />
+                  <Delta current={data.metrics[metric.key]} previous={data.previousMetrics[metric.key]} />
+                </p>
+              </article>
+            ))}
+          </div>
+
+          <h2 style={{ marginBottom: "16px" }}>Ventas en el tiempo</h2>
+          <SalesChart
+            title="Ventas netas"
+            current={data.series}
+            previous={data.previousSeries}
+            metric="ingresos"
+            format={formatMoney}
+          />
+          <SalesChart
+            title="Pedidos"
+            current={data.series}
+            previous={data.previousSeries}
+            metric="pedidos"
+            format={(value) => Math.round(value).toLocaleString("es-CL")}
+          />
+
+          <div className="form-row">
+            <div className="form-group">
+              <h2 style={{ marginBottom: "16px" }}>Productos más vendidos</h2>
+              <RankingBars title="Ventas por producto" rows={data.products} format={formatMoney} />
+            </div>
+            <div className="form-group">
+              <h2 style={{ marginBottom: "16px" }}>Categorías</h2>
+              <RankingBars title="Ventas por categoría" rows={data.categories} format={formatMoney} />
+            </div>
+          </div>
+
+          <h2 style={{ margin: "8px 0 16px" }}>Beneficios aplicados</h2>
+          <p className="muted small">Un pedido con varios beneficios aparece en cada uno, por eso las filas no se suman.</p>
+          <div className="admin-table-wrap">
+            <table className="admin-table">
+              <thead>
+                <tr>
+                  <th>Beneficio</th>
+                  <th>Pedidos</th>
+                  <th>Ventas</th>
+                  <th>Descuentos</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.benefits.map((row) => (
+                  <tr key={row.label}>
+                    <td>{row.label}</td>
+                    <td>{row.pedidos}</td>
+                    <td>{formatMoney(row.ingresos)}</td>
+                    <td>{formatMoney(row.descuentos)}</td>
+                  </tr>
+                ))}
+                {!data.benefits.length && (
+                  <tr>
+                    <td colSpan={4} style={{ textAlign: "center", padding: "24px" }}>
+                      Sin pedidos en el período.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,5 @@
+import { StockCountsPanel } from "../../components/inventory/StockCountsPanel";
+
+export function AdminConteoPage() {
+  return <StockCountsPanel />;
+}
@@ -0,0 +1,427 @@
+import { useEffect, useMemo, useState } from "react";
+import type { FormEvent } from "react";
+import { useAppContext } from "../../context/AppContext";
+import type { CartTotals, CouponInfo, CouponType } from "../../types";
+import { formatMoney } from "../../utils/format";
+import { describeCouponLimits, describeCouponValue, describeCouponWindow } from "../../utils/coupons";
+import {
+  EMPTY_COUPON_FORM,
+  couponFromForm,
+  couponToForm,
+  validateCouponForm,
+  type CouponFormValues
+} from "../../utils/couponForm";
+import { DEFAULT_PROMOTION_RULES, evaluateCouponCode } from "../../utils/promotions";
+
+type SampleLine = { productId: string; qty: number };
+
+const TYPE_LABEL: Record<CouponType, string> = {
+  amount: "Monto fijo",
+  percent: "Porcentaje",
+  ship: "Envío gratis"
+};
+
+const SAMPLE_SHIPPING = 3000;
+
+export function AdminCuponesPage() {
+  const { adminCoupons, refreshAdminCoupons, saveCoupon, setCouponActive, products, showNotification } =
+    useAppContext();
+  const [form, setForm] = useState<CouponFormValues | null>(null);
+  const [editingCode, setEditingCode] = useState<string | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [sample, setSample] = useState<SampleLine[]>([]);
+
+  useEffect(() => {
+    void refreshAdminCoupons();
+  }, [refreshAdminCoupons]);
+
+  const categories = useMemo(
+    () => Array.from(new Set(products.map((product) => product.categoria))).sort((a, b) => a.localeCompare(b, "es")),
+    [products]
+  );
+
+  useEffect(() => {
+    if (sample.length || !products.length) return;
+    setSample(products.slice(0, 2).map((product) => ({ productId: product.id, qty: 1 })));
+  }, [products, sample.length]);
+
+  const sampleItems = useMemo<CartTotals["items"]>(
+    () =>
+      sample
+        .map(({ productId, qty }) => {
+          const product = products.find((entry) => entry.id === productId);
+          if (!product) return null;
+          const total = product.precio * qty;
+          return {
+            product,
+            qty,
+            subtotal: total,
+            pricing: {
+              originalUnitPrice: product.precio,
+              unitPrice: product.precio,
+              discountPercent: 0,
+              discountPerUnit: 0,
+              originalTotal: total,
+              discountTotal: 0,
+              total
+            }
+          };
+        })
+        .filter((entry): entry is NonNullable<typeof entry> => Boolean(entry)),
+    [sample, products]
+  );
+  const sampleSubtotal = sampleItems.reduce((sum, item) => sum + item.subtotal, 0);
+
+  const preview = useMemo(() => {
+    if (!form || !form.code.trim()) return null;
+    const draft = couponFromForm(form);
+    return evaluateCouponCode(
+      draft.code,
+      { [draft.code]: draft },
+      { subTotal: sampleSubtotal, shipCost: SAMPLE_SHIPPING, items: sampleItems },
+      DEFAULT_PROMOTION_RULES,
+      { customer: null }
+    );
+  }, [form, sampleItems, sampleSubtotal]);
+
+  const openForm = (coupon: CouponInfo | null, mode: "edit" | "clone" | "new") => {
+    setErrors({});
+    if (!coupon || mode === "new") {
+      setForm(EMPTY_COUPON_FORM);
+      setEditingCode(null);
+      return;
+    }
+    if (mode === "clone") {
+      setForm({ ...couponToForm(coupon), code: `${coupon.code}-COPIA`.slice(0, 20), active: true });
+      setEditingCode(null);
+      return;
+    }
+    setForm(couponToForm(coupon));
+    setEditingCode(coupon.code);
+  };
+
+  const updateField = <K extends keyof CouponFormValues>(field: K, value: CouponFormValues[K]) => {
+    setForm((prev) => (prev ? { ...prev, [field]: value } : prev));
+  };
+
+  const toggleCategory = (category: string) => {
+    if (!form) return;
+    const next = form.categories.includes(category)
+      ? form.categories.filter((entry) => entry !== category)
+      : [...form.categories, category];
+    updateField("categories", next);
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!form) return;
+    const isNew = editingCode === null;
+    const nextErrors = validateCouponForm(form, isNew, adminCoupons);
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length) return;
+
+    const usedCount = adminCoupons.find((coupon) => coupon.code === editingCode)?.usedCount;
+    const result = await saveCoupon(couponFromForm(form, usedCount), { isNew });
+    if (!result.ok) {
+      showNotification({
+        message: result.message ?? "No pudimos guardar el cupón.",
+        kind: "error",
+        mode: "dialog",
+        actionLabel: "Aceptar"
+      });
+      return;
+    }
+    showNotification({ message: `Cupón ${form.code.trim().toUpperCase()} guardado.`, kind: "success" });
+    setForm(null);
+    setEditingCode(null);
+  };
+
+  const handleToggleActive = (coupon: CouponInfo) => {
+    const nextActive = coupon.active === false;
+    showNotification({
+      message: nextActive ? `¿Reactivar el cupón ${coupon.code}?` : `¿Desactivar el cupón ${coupon.code}?`,
+      kind: "info",
+      mode: "dialog",
+      actionLabel: nextActive ? "Reactivar" : "Desactivar",
+      cancelLabel: "Cancelar",
+      onAction: () => {
+        void (async () => {
+          const result = await setCouponActive(coupon.code, nextActive);
+          if (!result.ok) {
+            showNotification({
+              message: result.message ?? "No pudimos actualizar el cupón.",
+              kind: "error",
+              mode: "dialog",
+              actionLabel: "Aceptar"
+            });
+          }
+        })();
+      }
+    });
+  };
+
+  return (
+    <section>
+      <div className="actions-top">
+        <p className="muted">Crea y administra los cupones que los clientes pueden usar en el carrito.</p>
+        <button className="btn btn--principal" type="button" onClick={() => openForm(null, "new")}>
+          Nuevo cupón
+        </button>
+      </div>
+
+      {form && (
+        <form className="admin-form" style={{ marginBottom: "24px" }} onSubmit={handleSubmit} noValidate>
+          <h2 style={{ marginBottom: "16px" }}>{editingCode ? `Editar cupón ${editingCode}` : "Registrar cupón"}</h2>
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor="couponCode">Código</label>
+              <input
+                id="couponCode"
+                value={form.code}
+                disabled={editingCode !== null}
+                onChange={(event) => updateField("code", event.target.value.toUpperCase())}
+              />
+              {errors.code && <small className="help">{errors.code}</small>}
+            </div>
+            <div className="form-group">
+              <label htmlFor="couponLabel">Descripción</label>
+              <input id="couponLabel" value={form.label} onChange={(event) => updateField("label", event.target.value)} />
+              {errors.label && <small className="help">{errors.label}</small>}
+            </div>
+            <div className="form-group">
+              <label htmlFor="couponType">Tipo</label>
+              <select
+                id="couponType"
+                value={form.type}
+                onChange={(event) => updateField("type", event.target.value as CouponType)}
+              >
+                {(Object.keys(TYPE_LABEL) as CouponType[]).map((type) => (
+                  <option key={type} value={type}>
+                    {TYPE_LABEL[type]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {form.type !== "ship" && (
+              <div className="form-group">
+                <label htmlFor="couponValue">{form.type === "percent" ? "Porcentaje (%)" : "Monto (CLP)"}</label>
+                <input
+                  id="couponValue"
+                  type="number"
+                  min={0}
+                  value={form.value}
+                  onChange={(event) => updateField("value", event.target.value)}
+                />
+                {errors.value && <small className="help">{errors.value}</small>}
+              </div>
+            )}
+          </div>
+
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor="couponMin">Compra mínima (CLP)</label>
+              <input
+                id="couponMin"
+                type="number"
+                min={0}
+                value={form.minSubtotal}
+                onChange={(event) => updateField("minSubtotal", event.target.value)}
+              />
+              {errors.minSubtotal && <small className="help">{errors.minSubtotal}</small>}
+            </div>
+            <div className="form-group">
+              <label htmlFor="couponFrom">Válido desde</label>
+              <input
+                id="couponFrom"
+                type="date"
+                value={form.validFrom}
+                onChange={(event) => updateField("validFrom", event.target.value)}
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="couponUntil">Válido hasta</label>
+              <input
+                id="couponUntil"
+                type="date"
+                value={form.validUntil}
+                onChange={(event) => updateField("validUntil", event.target.value)}
+              />
+              {errors.validUntil && <small className="help">{errors.validUntil}</small>}
+            </div>
+            <div className="form-group">
+              <label htmlFor="couponMaxUses">Usos totales</label>
+              <input
+                id="couponMaxUses"
+                type="number"
+                min={0}
+                placeholder="Sin límite"
+                value={form.maxUses}
+                onChange={(event) => updateField("maxUses", event.target.value)}
+              />
+              {errors.maxUses && <small className="help">{errors.maxUses}</small>}
+            </div>
+            <div className="form-group">
+              <label htmlFor="couponMaxCustomer">Usos por cliente</label>
+              <input
+                id="couponMaxCustomer"
+                type="number"
+                min={0}
+                placeholder="Sin límite"
+                value={form.maxUsesPerCustomer}
+                onChange={(event) => updateField("maxUsesPerCustomer", event.target.value)}
+              />
+              {errors.maxUsesPerCustomer && <small className="help">{errors.maxUsesPerCustomer}</small>}
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label>Categorías incluidas (vacío = todo el catálogo)</label>
+            <div style={{ display: "flex", flexWrap: "wrap", gap: "12px" }}>
+              {categories.map((category) => (
+                <label key={category} style={{ fontWeight: 400 }}>
+                  <input
+                    type="checkbox"
+                    checked={form.categories.includes(category)}
+                    onChange={() => toggleCategory(category)}
+                  />{" "}
+                  {category}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div className="form-group">
+            <label htmlFor="couponProducts">Códigos de producto incluidos</label>
+            <input
+              id="couponProducts"
+              placeholder="Ej: TC001, TT002"
+              value={form.productIds}
+              onChange={(event) => updateField("productIds", event.target.value)}
+            />
+          </div>
+          <label style={{ display: "flex", gap: "8px", alignItems: "center" }}>
+            <input type="checkbox" checked={form.active} onChange={(event) => updateField("active", event.target.checked)} />
+            Cupón activo
+          </label>
+
+          <div className="widget" style={{ marginTop: "20px" }}>
+            <h3>Vista previa en carrito de ejemplo</h3>
+            {sample.map((line, index) => (
+              <div key={index} className="form-row" style={{ marginBottom: "8px" }}>
+                <select
+                  aria-label={`Producto ${index + 1}`}
+                  value={line.productId}
+                  onChange={(event) =>
+                    setSample((prev) => prev.map((entry, i) => (i === index ? { ...entry, productId: event.target.value } : entry)))
+                  }
+                >
+                  {products.map((product) => (
+                    <option key={product.id} value={product.id}>
+                      {product.nombre} ({product.categoria})
+                    </option>
+                  ))}
+                </select>
+                <input
+                  aria-label={`Cantidad ${index + 1}`}
+                  type="number"
+                  min={1}
+                  value={line.qty}
+                  onChange={(event) =>
+                    setSample((prev) =>
+                      prev.map((entry, i) => (i === index ? { ...entry, qty: Math.max(1, Number(event.target.value) || 1) } : entry))
+                    )
+                  }
+                />
+              </div>
+            ))}
+            <div className="table-actions" style={{ marginBottom: "12px" }}>
+              <button
+                className="btn-edit"
+                type="button"
+                disabled={!products.length}
+                onClick={() => setSample((prev) => [...prev, { productId: products[0].id, qty: 1 }])}
+              >
+                Agregar producto
+              </button>
+              {sample.length > 1 && (
+                <button className="btn-delete" type="button" onClick={() => setSample((prev) => prev.slice(0, -1))}>
+                  Quitar último
+                </button>
+              )}
+            </div>
+            <p>
+              Subtotal {formatMoney(sampleSubtotal)} · Envío {formatMoney(SAMPLE_SHIPPING)}
+            </p>
+            {preview && (
+              <p id="couponPreview" className={preview.valid ? undefined : "error"}>
+                {preview.valid
+                  ? `Descuento ${formatMoney(preview.discount)} · Envío ${formatMoney(preview.shipAfter)} · Total ${formatMoney(
+                      Math.max(0, sampleSubtotal - preview.discount) + preview.shipAfter
+                    )}`
+                  : preview.reason}
+              </p>
+            )}
+          </div>
+
+          <div className="form-actions">
+            <button className="btn btn--principal" type="submit">
+              Guardar cupón
+            </button>
+            <button className="btn" type="button" onClick={() => setForm(null)}>
+              Cancelar
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="admin-table-wrap">
+        <table className="admin-table">
+          <thead>
+            <tr>
+              <th>Código</th>
+              <th>Descripción</th>
+              <th>Beneficio</th>
+              <th>Condiciones</th>
+              <th>Vigencia</th>
+              <th>Pedidos</th>
+              <th>Estado</th>
+              <th>Acciones</th>
+            </tr>
+          </thead>
+          <tbody>
+            {adminCoupons.map((coupon) => (
+              <tr key={coupon.code}>
+                <td>{coupon.code}</td>
+                <td>{coupon.label}</td>
+                <td>{describeCouponValue(coupon)}</td>
+                <td>{describeCouponLimits(coupon)}</td>
+                <td>{describeCouponWindow(coupon)}</td>
+                <td>{coupon.usedCount ?? 0}</td>
+                <td>{coupon.active === false ? "Inactivo" : "Activo"}</td>
+                <td>
+                  <div className="table-actions">
+                    <button className="btn-edit" type="button" onClick={() => openForm(coupon, "edit")}>
+                      Editar
+                    </button>
+                    <button className="btn-edit" type="button" onClick={() => openForm(coupon, "clone")}>
+                      Clonar
+                    </button>
+                    <button className="btn-delete" type="button" onClick={() => handleToggleActive(coupon)}>
+                      {coupon.active === false ? "Reactivar" : "Desactivar"}
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+            {!adminCoupons.length && (
+              <tr>
+                <td colSpan={8} style={{ textAlign: "center", padding: "24px" }}>
+                  Aún no hay cupones registrados.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
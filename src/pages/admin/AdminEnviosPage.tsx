@@ -0,0 +1,302 @@
+import { useMemo, useState } from "react";
+import type { FormEvent } from "react";
+import { useAppContext } from "../../context/AppContext";
+import { useRegions } from "../../hooks/useRegions";
+import type { ShippingZone } from "../../types";
+import { formatMoney } from "../../utils/format";
+
+type ZoneForm = {
+  nombre: string;
+  region: string;
+  comunas: string[];
+  costo: string;
+  envioGratisDesde: string;
+  sinCobertura: boolean;
+};
+
+const EMPTY_FORM: ZoneForm = {
+  nombre: "",
+  region: "",
+  comunas: [],
+  costo: "",
+  envioGratisDesde: "",
+  sinCobertura: false
+};
+
+const toForm = (zone: ShippingZone): ZoneForm => ({
+  nombre: zone.nombre,
+  region: zone.region,
+  comunas: zone.comunas,
+  costo: String(zone.costo),
+  envioGratisDesde: zone.envioGratisDesde != null ? String(zone.envioGratisDesde) : "",
+  sinCobertura: Boolean(zone.sinCobertura)
+});
+
+export function AdminEnviosPage() {
+  const { shippingZones, saveShippingZone, removeShippingZone, showNotification } = useAppContext();
+  const { regions: regionsMap, loading: regionsLoading, error: regionsError } = useRegions();
+  const [form, setForm] = useState<ZoneForm | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const regionOptions = useMemo(() => Object.keys(regionsMap).sort((a, b) => a.localeCompare(b, "es")), [regionsMap]);
+  const comunaOptions = useMemo(
+    () => (form ? (regionsMap[form.region] || []).slice().sort((a, b) => a.localeCompare(b, "es")) : []),
+    [form, regionsMap]
+  );
+
+  const sortedZones = useMemo(
+    () =>
+      shippingZones
+        .slice()
+        .sort((a, b) => a.region.localeCompare(b.region, "es") || a.comunas.length - b.comunas.length),
+    [shippingZones]
+  );
+
+  const uncoveredRegions = useMemo(
+    () => regionOptions.filter((region) => !shippingZones.some((zone) => zone.region === region && !zone.sinCobertura)),
+    [regionOptions, shippingZones]
+  );
+
+  const openForm = (zone: ShippingZone | null) => {
+    setErrors({});
+    setForm(zone ? toForm(zone) : EMPTY_FORM);
+    setEditingId(zone?.id ?? null);
+  };
+
+  const toggleComuna = (comuna: string) => {
+    setForm((prev) => {
+      if (!prev) return prev;
+      const comunas = prev.comunas.includes(comuna)
+        ? prev.comunas.filter((entry) => entry !== comuna)
+        : [...prev.comunas, comuna];
+      return { ...prev, comunas };
+    });
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!form) return;
+    const next: Record<string, string> = {};
+    if (!form.nombre.trim()) next.nombre = "Nombre requerido";
+    if (!form.region) next.region = "Selecciona una región";
+    const costo = Number(form.costo || 0);
+    if (!form.sinCobertura && (!Number.isFinite(costo) || costo < 0)) next.costo = "Costo inválido";
+    const umbral = form.envioGratisDesde.trim() === "" ? undefined : Number(form.envioGratisDesde);
+    if (umbral !== undefined && (!Number.isFinite(umbral) || umbral <= 0)) {
+      next.envioGratisDesde = "Monto inválido";
+    }
+    const duplicate = shippingZones.find(
+      (zone) =>
+        zone.id !== editingId &&
+        zone.region === form.region &&
+        (form.comunas.length
+          ? zone.comunas.some((comuna) => form.comunas.includes(comuna))
+          : zone.comunas.length === 0)
+    );
+    if (duplicate) next.comunas = `Se superpone con la zona "${duplicate.nombre}"`;
+    if (Object.keys(next).length) {
+      setErrors(next);
+      return;
+    }
+
+    const result = await saveShippingZone(
+      {
+        id: editingId ?? "",
+        nombre: form.nombre.trim(),
+        region: form.region,
+        comunas: form.comunas,
+        costo: form.sinCobertura ? 0 : Math.round(costo),
+        envioGratisDesde: form.sinCobertura ? undefined : umbral,
+        sinCobertura: form.sinCobertura
+      },
+      { isNew: editingId === null }
+    );
+    if (!result.ok) {
+      showNotification({ message: result.message ?? "No pudimos guardar la zona.", kind: "error" });
+      return;
+    }
+    showNotification({ message: "Zona de despacho guardada.", kind: "success" });
+    setForm(null);
+    setEditingId(null);
+  };
+
+  const handleRemove = (zone: ShippingZone) => {
+    showNotification({
+      message: `¿Eliminar la zona ${zone.nombre}?`,
+      kind: "info",
+      mode: "dialog",
+      actionLabel: "Eliminar",
+      cancelLabel: "Cancelar",
+      onAction: () => {
+        void (async () => {
+          const result = await removeShippingZone(zone.id);
+          if (!result.ok) {
+            showNotification({ message: result.message ?? "No pudimos eliminar la zona.", kind: "error" });
+          }
+        })();
+      }
+    });
+  };
+
+  return (
+    <section>
+      <div className="actions-top">
+        <p className="muted">
+          El costo se calcula según la región y comuna de la dirección del cliente. Una zona por comuna
+          tiene prioridad sobre la zona de toda la región.
+        </p>
+        <button className="btn btn--principal" type="button" onClick={() => openForm(null)}>
+          Nueva zona
+        </button>
+      </div>
+
+      {uncoveredRegions.length > 0 && (
+        <div className="widget" style={{ marginBottom: "24px" }}>
+          <h3>Regiones sin despacho</h3>
+          <p>{uncoveredRegions.join(", ")}</p>
+        </div>
+      )}
+
+      {form && (
+        <form className="admin-form" style={{ marginBottom: "24px" }} onSubmit={handleSubmit} noValidate>
+          <h2 style={{ marginBottom: "16px" }}>{editingId ? "Editar zona" : "Registrar zona"}</h2>
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor="zoneName">Nombre</label>
+              <input
+                id="zoneName"
+                value={form.nombre}
+                placeholder="Ej: Santiago centro"
+                onChange={(event) => setForm({ ...form, nombre: event.target.value })}
+              />
+              {errors.nombre && <small className="help">{errors.nombre}</small>}
+            </div>
+            <div className="form-group">
+              <label htmlFor="zoneRegion">Región</label>
+              <select
+                id="zoneRegion"
+                value={form.region}
+                disabled={regionsLoading}
+                onChange={(event) => setForm({ ...form, region: event.target.value, comunas: [] })}
+              >
+                <option value="">{regionsLoading ? "Cargando regiones..." : "Selecciona una región"}</option>
+                {regionOptions.map((region) => (
+                  <option key={region} value={region}>
+                    {region}
+                  </option>
+                ))}
+              </select>
+              {(errors.region || regionsError) && <small className="help">{errors.region || regionsError}</small>}
+            </div>
+            <div className="form-group">
+              <label htmlFor="zoneCost">Costo (CLP)</label>
+              <input
+                id="zoneCost"
+                type="number"
+                min={0}
+                value={form.costo}
+                disabled={form.sinCobertura}
+                onChange={(event) => setForm({ ...form, costo: event.target.value })}
+              />
+              {errors.costo && <small className="help">{errors.costo}</small>}
+            </div>
+            <div className="form-group">
+              <label htmlFor="zoneFree">Envío gratis desde (CLP)</label>
+              <input
+                id="zoneFree"
+                type="number"
+                min={0}
+                placeholder="Sin umbral"
+                value={form.envioGratisDesde}
+                disabled={form.sinCobertura}
+                onChange={(event) => setForm({ ...form, envioGratisDesde: event.target.value })}
+              />
+              {errors.envioGratisDesde && <small className="help">{errors.envioGratisDesde}</small>}
+            </div>
+          </div>
+
+          {form.region && (
+            <div className="form-group">
+              <label>Comunas (sin selección = toda la región)</label>
+              <div style={{ display: "flex", flexWrap: "wrap", gap: "12px" }}>
+                {comunaOptions.map((comuna) => (
+                  <label key={comuna} style={{ fontWeight: 400 }}>
+                    <input
+                      type="checkbox"
+                      checked={form.comunas.includes(comuna)}
+                      onChange={() => toggleComuna(comuna)}
+                    />{" "}
+                    {comuna}
+                  </label>
+                ))}
+              </div>
+              {errors.comunas && <small className="help">{errors.comunas}</small>}
+            </div>
+          )}
+
+          <label style={{ display: "flex", gap: "8px", alignItems: "center" }}>
+            <input
+              type="checkbox"
+              checked={form.sinCobertura}
+              onChange={(event) => setForm({ ...form, sinCobertura: event.target.checked })}
+            />
+            Sin cobertura (no se despacha a esta zona)
+          </label>
+
+          <div className="form-actions">
+            <button className="btn btn--principal" type="submit">
+              Guardar zona
+            </button>
+            <button className="btn" type="button" onClick={() => setForm(null)}>
+              Cancelar
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="admin-table-wrap">
+        <table className="admin-table">
+          <thead>
+            <tr>
+              <th>Zona</th>
+              <th>Región</th>
+              <th>Comunas</th>
+              <th>Costo</th>
+              <th>Gratis desde</th>
+              <th>Acciones</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sortedZones.map((zone) => (
+              <tr key={zone.id}>
+                <td>{zone.nombre}</td>
+                <td>{zone.region}</td>
+                <td style={{ whiteSpace: "normal" }}>{zone.comunas.length ? zone.comunas.join(", ") : "Toda la región"}</td>
+                <td>{zone.sinCobertura ? "Sin cobertura" : formatMoney(zone.costo)}</td>
+                <td>{zone.envioGratisDesde ? formatMoney(zone.envioGratisDesde) : "—"}</td>
+                <td>
+                  <div className="table-actions">
+                    <button className="btn-edit" type="button" onClick={() => openForm(zone)}>
+                      Editar
+                    </button>
+                    <button className="btn-delete" type="button" onClick={() => handleRemove(zone)}>
+                      Eliminar
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+            {!sortedZones.length && (
+              <tr>
+                <td colSpan={6} style={{ textAlign: "center", padding: "24px" }}>
+                  Aún no hay zonas de despacho configuradas.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
@@ -1,28 +1,31 @@
 import { useMemo } from "react";
+import { Link } from "react-router-dom";
 import { useAppContext } from "../../context/AppContext";
 import { formatMoney } from "../../utils/format";
+import { RECENT_ORDERS_DAYS } from "../../utils/orderFilters";
+import { isFinalStatus } from "../../utils/orderStatus";
+import { isCriticalStock } from "../../utils/replenishment";
+import { bestSeller, ordersInRange, periodRanges, salesMetrics } from "../../utils/salesAnalytics";
 
 export function AdminHomePage() {
   const { products, customers, orders } = useAppContext();
 
   const stats = useMemo(() => {
     const productCount = products.length;
-    const lowStock = products.filter((item) => item.stock <= item.stockCritico).length;
+    const lowStock = products.filter(isCriticalStock).length;
     const activeCustomers = customers.length;
-    const totalRevenue = orders.reduce((acc, order) => acc + order.total, 0);
-    const pendingOrders = orders.filter((order) => order.estado !== "Entregado").length;
+    // El contexto solo precarga los pedidos recientes, así que las ventas se muestran por período.
+    const recent = ordersInRange(orders, periodRanges(RECENT_ORDERS_DAYS).current);
+    const recentRevenue = salesMetrics(recent).ingresos;
+    const pendingOrders = orders.filter((order) => !isFinalStatus(order.estado)).length;
 
-    const topProduct = [...products]
-      .sort((a, b) => b.stock - a.stock)
-      .slice(0, 1)
-      .map((item) => item.nombre)
-      .join(", ");
+    const topProduct = bestSeller(recent);
 
     return {
       productCount,
       lowStock,
       activeCustomers,
-      totalRevenue,
+      recentRevenue,
       pendingOrders,
       topProduct
     };
@@ -34,9 +37,17 @@ export function AdminHomePage() {
         <h3>Inventario</h3>
         <p>
           <strong>{stats.productCount}</strong> productos registrados.<br />
-          {stats.lowStock ? `${stats.lowStock} productos en stock crítico.` : "Inventario estable."}
+          {stats.lowStock ? (
+            <Link to="/admin/reposicion">{stats.lowStock} productos en stock crítico.</Link>
+          ) : (
+            "Inventario estable."
+          )}
+        </p>
+        <p className="muted">
+          {stats.topProduct
+            ? `Más vendido: ${stats.topProduct.label} (${stats.topProduct.unidades} u.)`
+            : `Sin ventas en los últimos ${RECENT_ORDERS_DAYS} días.`}
         </p>
-        <p className="muted">{stats.topProduct ? `Mayor disponibilidad: ${stats.topProduct}` : "Agrega más productos para comenzar."}</p>
       </article>
 
       <article className="widget">
@@ -51,10 +62,12 @@ export function AdminHomePage() {
       <article className="widget">
         <h3>Ventas</h3>
         <p>
-          Total histórico: <strong>{formatMoney(stats.totalRevenue)}</strong>.<br />
+          Últimos {RECENT_ORDERS_DAYS} días: <strong>{formatMoney(stats.recentRevenue)}</strong>.<br />
           Pedidos pendientes: <strong>{stats.pendingOrders}</strong>.
         </p>
-        <p className="muted">Gestiona entregas desde la sección de pedidos.</p>
+        <p className="muted">
+          Gestiona entregas desde la sección de pedidos o revisa la <Link to="/admin/analitica">analítica de ventas</Link>.
+        </p>
       </article>
     </section>
   );
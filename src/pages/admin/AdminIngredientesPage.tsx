@@ -0,0 +1,16 @@
+import { IngredientShortageReport } from "../../components/inventory/IngredientShortageReport";
+import { IngredientsManager } from "../../components/inventory/IngredientsManager";
+import { RecipeEditor } from "../../components/inventory/RecipeEditor";
+
+export function AdminIngredientesPage() {
+  return (
+    <section>
+      <h2 style={{ marginBottom: "16px" }}>Faltantes proyectados</h2>
+      <IngredientShortageReport />
+      <h2 style={{ margin: "32px 0 16px" }}>Ingredientes en bodega</h2>
+      <IngredientsManager />
+      <h2 style={{ margin: "32px 0 16px" }}>Recetas</h2>
+      <RecipeEditor />
+    </section>
+  );
+}
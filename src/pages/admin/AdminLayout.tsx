@@ -16,9 +16,27 @@ export function AdminLayout() {
           <NavLink to="/admin" end className={({ isActive }) => `sidebar__link${isActive ? " active" : ""}`}>
             Inicio
           </NavLink>
+          <NavLink to="/admin/analitica" className={({ isActive }) => `sidebar__link${isActive ? " active" : ""}`}>
+            Analítica
+          </NavLink>
           <NavLink to="/admin/productos" className={({ isActive }) => `sidebar__link${isActive ? " active" : ""}`}>
             Productos
           </NavLink>
+          <NavLink to="/admin/reposicion" className={({ isActive }) => `sidebar__link${isActive ? " active" : ""}`}>
+            Reposición
+          </NavLink>
+          <NavLink to="/admin/ingredientes" className={({ isActive }) => `sidebar__link${isActive ? " active" : ""}`}>
+            Ingredientes
+          </NavLink>
+          <NavLink to="/admin/conteo" className={({ isActive }) => `sidebar__link${isActive ? " active" : ""}`}>
+            Conteo
+          </NavLink>
+          <NavLink to="/admin/cupones" className={({ isActive }) => `sidebar__link${isActive ? " active" : ""}`}>
+            Cupones
+          </NavLink>
+          <NavLink to="/admin/envios" className={({ isActive }) => `sidebar__link${isActive ? " active" : ""}`}>
+            Zonas de envío
+          </NavLink>
           <NavLink to="/admin/usuarios" className={({ isActive }) => `sidebar__link${isActive ? " active" : ""}`}>
             Clientes & Admin
           </NavLink>
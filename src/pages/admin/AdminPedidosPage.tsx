@@ -1,42 +1,162 @@
-import { Fragment, useMemo, useState } from "react";
+import { Fragment, useCallback, useEffect, useMemo, useState } from "react";
+import type { FormEvent } from "react";
+import { useSearchParams } from "react-router-dom";
 import { useAppContext } from "../../context/AppContext";
+import type { Order, OrderPage, OrderSummary } from "../../types";
 import { describeBenefitLabel, formatMoney } from "../../utils/format";
+import { describeFulfillment } from "../../utils/delivery";
+import { ORDER_STATES, allowedTransitions, refundableAmount, refundedAmount } from "../../utils/orderStatus";
+import { OrderStatusHistory } from "../../components/orders/OrderStatusHistory";
+import { RefundForm } from "../../components/orders/RefundForm";
+import {
+  DEFAULT_ORDER_FILTERS,
+  PAGE_SIZES,
+  hasActiveFilters,
+  orderFiltersToParams,
+  parseOrderFilters
+} from "../../utils/orderFilters";
+import type { OrderFilters } from "../../utils/orderFilters";
+import { buildOrderExport, downloadBlob } from "../../utils/orderExport";
+import type { ExportFormat } from "../../utils/orderExport";
+import { toIsoDate } from "../../utils/delivery";
 
-const ESTADOS = ["Pendiente", "Preparando", "Despachado", "Entregado"];
+const EXPORT_PAGE_SIZE = 100;
 
 export function AdminPedidosPage() {
-<<<<<<< HEAD
-  const { orders, updateOrders } = useAppContext();
-=======
-  const { orders, changeOrderStatus, showNotification } = useAppContext();
->>>>>>> master
+  const {
+    orders,
+    changeOrderStatus,
+    refundOrder,
+    searchOrders,
+    fetchOrderSummary,
+    adminSession,
+    showNotification,
+    realtimeMode
+  } = useAppContext();
   const [selected, setSelected] = useState<string | null>(null);
+  const [reembolsando, setReembolsando] = useState<string | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(() => parseOrderFilters(searchParams), [searchParams]);
+  const [draft, setDraft] = useState<OrderFilters>(filters);
+  const [result, setResult] = useState<OrderPage | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formato, setFormato] = useState<ExportFormat>("xlsx");
+  const [exportando, setExportando] = useState(false);
+  const [cargadoEn, setCargadoEn] = useState(() => Date.now());
+  const [resumen, setResumen] = useState<OrderSummary | null>(null);
 
-  const resumen = useMemo(() => {
-    const total = orders.length;
-    const porEstado = ESTADOS.reduce<Record<string, number>>((acc, estado) => {
-      acc[estado] = orders.filter((order) => order.estado === estado).length;
-      return acc;
-    }, {});
-    return { total, porEstado };
-  }, [orders]);
+  useEffect(() => {
+    setDraft(filters);
+  }, [filters]);
+
+  const cargar = useCallback(async () => {
+    setLoading(true);
+    const [response, summary] = await Promise.all([searchOrders(filters), fetchOrderSummary()]);
+    setLoading(false);
+    if (summary.ok && summary.summary) setResumen(summary.summary);
+    if (!response.ok || !response.page) {
+      setError(response.message ?? "No se pudieron cargar los pedidos");
+      return;
+    }
+    setError(null);
+    setResult(response.page);
+    setCargadoEn(Date.now());
+  }, [filters, searchOrders, fetchOrderSummary]);
+
+  useEffect(() => {
+    void cargar();
+  }, [cargar]);
+
+  const aplicarFiltros = (next: OrderFilters) => {
+    setSearchParams(orderFiltersToParams(next));
+  };
+
+  const handleBuscar = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    aplicarFiltros({ ...draft, pagina: 1 });
+  };
+
+  // El contexto solo tiene los pedidos recientes y abiertos; sus cambios en vivo reemplazan
+  // la versión de la búsqueda y el resto de la página se queda como la trajo el servidor.
+  const pedidos = useMemo(() => {
+    const live = new Map(orders.map((order) => [order.id, order]));
+    return (result?.items ?? []).map((order) => live.get(order.id) ?? order);
+  }, [result, orders]);
+  const nuevos = orders.filter((order) => order.createdAt > cargadoEn).length;
+
+  // Exporta todas las páginas que cumplen los filtros, no solo la visible.
+  const exportar = async () => {
+    setExportando(true);
+    const todos: Order[] = [];
+    let pagina = 1;
+    let totalPaginas = 1;
+    do {
+      const response = await searchOrders({ ...filters, pagina, porPagina: EXPORT_PAGE_SIZE });
+      if (!response.ok || !response.page) {
+        setExportando(false);
+        showNotification({ message: response.message ?? "No se pudo exportar", kind: "error" });
+        return;
+      }
+      todos.push(...response.page.items);
+      totalPaginas = response.page.totalPages;
+      pagina += 1;
+    } while (pagina <= totalPaginas);
+    setExportando(false);
+    if (!todos.length) {
+      showNotification({ message: "No hay pedidos para exportar con estos filtros.", kind: "info" });
+      return;
+    }
+    const { filename, blob } = buildOrderExport(todos, formato, toIsoDate(new Date()));
+    downloadBlob(filename, blob);
+  };
 
   const toggleDetalle = (id: string) => {
     setSelected((prev) => (prev === id ? null : id));
   };
 
-<<<<<<< HEAD
+  const aplicarEstado = async (id: string, estado: string, notes?: string) => {
+    const response = await changeOrderStatus(id, estado, notes);
+    if (!response.ok) {
+      showNotification({ message: response.message ?? "No se pudo actualizar el pedido", kind: "error" });
+      return;
+    }
+    await cargar();
+  };
+
   const cambiarEstado = (id: string, estado: string) => {
-    updateOrders(
-      orders.map((order) => (order.id === id ? { ...order, estado } : order))
-    );
-=======
-  const cambiarEstado = async (id: string, estado: string) => {
-    const result = await changeOrderStatus(id, estado);
-    if (!result.ok) {
-      showNotification({ message: result.message ?? "No se pudo actualizar el pedido", kind: "error" });
+    const order = pedidos.find((item) => item.id === id);
+    const transition = order
+      ? allowedTransitions(order.estado, adminSession?.rol).find((item) => item.to === estado)
+      : undefined;
+    if (!transition?.requiresNote) {
+      void aplicarEstado(id, estado);
+      return;
     }
->>>>>>> master
+    showNotification({
+      message: `Pasar el pedido ${id} a ${estado}`,
+      kind: "info",
+      mode: "dialog",
+      actionLabel: "Confirmar",
+      cancelLabel: "Volver",
+      input: {
+        label: "Motivo (obligatorio)",
+        maxLength: 250,
+        autoFocus: true
+      },
+      onAction: (value) => {
+        if (!value?.trim()) {
+          showNotification({
+            message: "Debes indicar el motivo para continuar.",
+            kind: "error",
+            mode: "dialog",
+            actionLabel: "Aceptar"
+          });
+          return;
+        }
+        void aplicarEstado(id, estado, value);
+      }
+    });
   };
 
   return (
@@ -44,148 +164,404 @@ export function AdminPedidosPage() {
       <div className="admin-widgets" style={{ marginBottom: "24px" }}>
         <article className="widget">
           <h3>Resumen de pedidos</h3>
-          <p>Total históricos: <strong>{resumen.total}</strong></p>
-          <ul className="muted" style={{ listStyle: "disc", paddingLeft: "20px" }}>
-            {ESTADOS.map((estado) => (
-              <li key={estado}>
-                {estado}: {resumen.porEstado[estado] || 0}
-              </li>
-            ))}
-          </ul>
+          {resumen ? (
+            <>
+              <p>Total históricos: <strong>{resumen.total}</strong></p>
+              <ul className="muted" style={{ listStyle: "disc", paddingLeft: "20px" }}>
+                {ORDER_STATES.map((estado) => (
+                  <li key={estado}>
+                    {estado}: {resumen.porEstado[estado] || 0}
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : (
+            <p className="muted small">Cargando resumen…</p>
+          )}
         </article>
       </div>
 
+      <div className="actions-top">
+        <p className="muted small">
+          {realtimeMode === "stream"
+            ? "Pedidos en vivo"
+            : realtimeMode === "polling"
+              ? "Actualizando pedidos periódicamente"
+              : "Sin actualización automática"}
+        </p>
+        {nuevos > 0 && (
+          <button className="btn btn--principal" type="button" onClick={() => void cargar()}>
+            {nuevos === 1 ? "Hay 1 pedido nuevo" : `Hay ${nuevos} pedidos nuevos`} · Actualizar
+          </button>
+        )}
+      </div>
+
+      <form className="admin-form" style={{ marginBottom: "24px" }} onSubmit={handleBuscar} noValidate>
+        <div className="form-row">
+          <div className="form-group">
+            <label htmlFor="filtroEstado">Estado</label>
+            <select
+              id="filtroEstado"
+              value={draft.estado}
+              onChange={(event) => setDraft({ ...draft, estado: event.target.value })}
+            >
+              <option value="">Todos</option>
+              {ORDER_STATES.map((estado) => (
+                <option key={estado} value={estado}>
+                  {estado}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="form-group">
+            <label htmlFor="filtroDesde">Desde</label>
+            <input
+              id="filtroDesde"
+              type="date"
+              value={draft.desde}
+              onChange={(event) => setDraft({ ...draft, desde: event.target.value })}
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="filtroHasta">Hasta</label>
+            <input
+              id="filtroHasta"
+              type="date"
+              value={draft.hasta}
+              min={draft.desde || undefined}
+              onChange={(event) => setDraft({ ...draft, hasta: event.target.value })}
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="filtroCliente">Cliente (correo o RUN)</label>
+            <input
+              id="filtroCliente"
+              value={draft.cliente}
+              placeholder="cliente@correo.cl / 12345678-9"
+              onChange={(event) => setDraft({ ...draft, cliente: event.target.value })}
+            />
+          </div>
+        </div>
+        <div className="form-row">
+          <div className="form-group">
+            <label htmlFor="filtroCupon">Cupón</label>
+            <input
+              id="filtroCupon"
+              value={draft.cupon}
+              onChange={(event) => setDraft({ ...draft, cupon: event.target.value })}
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="filtroMin">Total mínimo</label>
+            <input
+              id="filtroMin"
+              type="number"
+              min={0}
+              value={draft.min}
+              onChange={(event) => setDraft({ ...draft, min: event.target.value })}
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="filtroMax">Total máximo</label>
+            <input
+              id="filtroMax"
+              type="number"
+              min={0}
+              value={draft.max}
+              onChange={(event) => setDraft({ ...draft, max: event.target.value })}
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="filtroOrden">Ordenar por</label>
+            <select
+              id="filtroOrden"
+              value={`${draft.orden}:${draft.dir}`}
+              onChange={(event) => {
+                const [orden, dir] = event.target.value.split(":") as [OrderFilters["orden"], OrderFilters["dir"]];
+                setDraft({ ...draft, orden, dir });
+              }}
+            >
+              <option value="fecha:desc">Más recientes</option>
+              <option value="fecha:asc">Más antiguos</option>
+              <option value="total:desc">Mayor total</option>
+              <option value="total:asc">Menor total</option>
+              <option value="cliente:asc">Cliente (A-Z)</option>
+            </select>
+          </div>
+        </div>
+        <div className="form-actions">
+          <button className="btn btn--principal" type="submit">
+            Buscar
+          </button>
+          <button
+            className="btn"
+            type="button"
+            disabled={!hasActiveFilters(filters)}
+            onClick={() => aplicarFiltros(DEFAULT_ORDER_FILTERS)}
+          >
+            Limpiar filtros
+          </button>
+          <select
+            aria-label="Formato de exportación"
+            value={formato}
+            onChange={(event) => setFormato(event.target.value as ExportFormat)}
+          >
+            <option value="xlsx">Excel (pedidos e ítems)</option>
+            <option value="csv-pedidos">CSV de pedidos</option>
+            <option value="csv-items">CSV de ítems</option>
+          </select>
+          <button className="btn" type="button" disabled={exportando || !result?.totalItems} onClick={() => void exportar()}>
+            {exportando ? "Exportando…" : "Exportar"}
+          </button>
+        </div>
+        {error && <small className="help">{error}</small>}
+      </form>
+
       <div className="admin-table-wrap">
         <table className="admin-table">
           <thead>
             <tr>
               <th>ID</th>
               <th>Cliente</th>
+              <th>Entrega</th>
               <th>Total</th>
               <th>Estado</th>
               <th>Acciones</th>
             </tr>
           </thead>
           <tbody>
-            {orders.map((order) => (
-              <Fragment key={order.id}>
-                <tr>
-                  <td>{order.id}</td>
-                  <td>{order.cliente}</td>
-                  <td>{formatMoney(order.total)}</td>
-                  <td>{order.estado}</td>
-                  <td>
-                    <div className="table-actions">
-                      <button
-                        className="btn-edit"
-                        type="button"
-                        onClick={() => toggleDetalle(order.id)}
-                      >
-                        {selected === order.id ? "Ocultar" : "Detalle"}
-                      </button>
-                      <select
-                        value={order.estado}
-                        onChange={(event) => cambiarEstado(order.id, event.target.value)}
-                        style={{ padding: "6px 8px", borderRadius: "6px", border: "1px solid #ccc" }}
-                      >
-                        {ESTADOS.map((estado) => (
-                          <option key={estado} value={estado}>
-                            {estado}
-                          </option>
-                        ))}
-                      </select>
-                    </div>
-                  </td>
-                </tr>
-                {selected === order.id && (
+            {pedidos.map((order) => {
+              const transitions = allowedTransitions(order.estado, adminSession?.rol);
+              return (
+                <Fragment key={order.id}>
                   <tr>
-                    <td colSpan={5}>
-                      <div style={{ background: "#fafafa", padding: "16px", borderRadius: "8px" }}>
-                        <h4>Ítems</h4>
-                        <ul style={{ paddingLeft: "20px" }}>
-                          {order.items.map((item) => {
-                            const totalDiscount = Math.max(0, item.originalSubtotal - item.subtotal);
-                            const percent = item.originalUnitPrice > 0
-                              ? Math.round((item.discountPerUnit / item.originalUnitPrice) * 100)
-                              : 0;
-                            return (
-                              <li key={`${order.id}-${item.codigo}`} style={{ marginBottom: "16px" }}>
-                                <div>
-                                  <strong>{item.nombre}</strong> — Cant. {item.qty}
-                                </div>
-                                <div className="muted small">
-                                  Precio unitario original: {formatMoney(item.originalUnitPrice)}
-                                </div>
-                                {totalDiscount > 0 ? (
+                    <td>{order.id}</td>
+                    <td>{order.cliente}</td>
+                    <td>{describeFulfillment(order)}</td>
+                    <td>{formatMoney(order.total)}</td>
+                    <td>{order.estado}</td>
+                    <td>
+                      <div className="table-actions">
+                        <button
+                          className="btn-edit"
+                          type="button"
+                          onClick={() => toggleDetalle(order.id)}
+                        >
+                          {selected === order.id ? "Ocultar" : "Detalle"}
+                        </button>
+                        <select
+                          aria-label={`Estado del pedido ${order.id}`}
+                          value={order.estado}
+                          disabled={!transitions.length}
+                          onChange={(event) => cambiarEstado(order.id, event.target.value)}
+                          style={{ padding: "6px 8px", borderRadius: "6px", border: "1px solid #ccc" }}
+                        >
+                          <option value={order.estado}>{order.estado}</option>
+                          {transitions.map((transition) => (
+                            <option key={transition.to} value={transition.to}>
+                              {transition.to}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    </td>
+                  </tr>
+                  {selected === order.id && (
+                    <tr>
+                      <td colSpan={6}>
+                        <div style={{ background: "#fafafa", padding: "16px", borderRadius: "8px" }}>
+                          <h4>Ítems</h4>
+                          <ul style={{ paddingLeft: "20px" }}>
+                            {order.items.map((item) => {
+                              const totalDiscount = Math.max(0, item.originalSubtotal - item.subtotal);
+                              const percent = item.originalUnitPrice > 0
+                                ? Math.round((item.discountPerUnit / item.originalUnitPrice) * 100)
+                                : 0;
+                              return (
+                                <li key={`${order.id}-${item.codigo}-${item.variantId ?? ""}`} style={{ marginBottom: "16px" }}>
+                                  <div>
+                                    <strong>{item.nombre}</strong>
+                                    {item.variantLabel ? ` (${item.variantLabel})` : ""} — Cant. {item.qty}
+                                  </div>
+                                  {item.note && (
+                                    <div className="muted small">Personalización: {item.note}</div>
+                                  )}
                                   <div className="muted small">
-                                    Descuento aplicado: {percent > 0 ? `${percent}% ` : ""}(–{formatMoney(totalDiscount)})
+                                    Precio unitario original: {formatMoney(item.originalUnitPrice)}
                                   </div>
-                                ) : (
-                                  <div className="muted small">Descuento aplicado: No registra</div>
-                                )}
-                                <div className="muted small">
-                                  Subtotal con descuento: {formatMoney(item.subtotal)}
-                                </div>
-                              </li>
-                            );
-                          })}
-                        </ul>
-                        <div className="muted small" style={{ marginTop: "12px" }}>
-                          <div>Fecha del pedido: {new Date(order.createdAt).toLocaleString("es-CL", {
-                            day: "2-digit",
-                            month: "short",
-                            year: "numeric",
-                            hour: "2-digit",
-                            minute: "2-digit",
-                            hour12: true
-                          })}</div>
-                          <div>Subtotal productos: {formatMoney(order.subtotal)}</div>
-                          {order.discountTotal > 0 && (
-                            <div>Descuentos total aplicados: -{formatMoney(order.discountTotal)}</div>
-                          )}
-                          <div>Envío: {formatMoney(order.shippingCost)}</div>
-                          <div>
-                            <strong>Total final: {formatMoney(order.total)}</strong>
-                          </div>
-                          {(order.benefitsApplied?.length || order.couponCode) ? (
-                            <div style={{ marginTop: "10px" }}>
-                              <div style={{ fontWeight: 600 }}>Motivos del descuento</div>
-                              <ul style={{ margin: "6px 0 0", paddingLeft: "18px" }}>
-                                {order.benefitsApplied?.map((label) => {
-                                  const detail = describeBenefitLabel(label);
-                                  return (
-                                    <li key={`${order.id}-${label}`}>
-                                      {detail.title}
-                                      {detail.detail ? ` — ${detail.detail}` : ""}
-                                    </li>
-                                  );
-                                })}
-                                {order.couponCode ? (
-                                  <li key={`${order.id}-coupon`}>
-                                    Cupón {order.couponCode}
-                                    {order.couponLabel ? ` — ${order.couponLabel}` : ""}
-                                  </li>
-                                ) : null}
-                              </ul>
+                                  {totalDiscount > 0 ? (
+                                    <div className="muted small">
+                                      Descuento aplicado: {percent > 0 ? `${percent}% ` : ""}(–{formatMoney(totalDiscount)})
+                                    </div>
+                                  ) : (
+                                    <div className="muted small">Descuento aplicado: No registra</div>
+                                  )}
+                                  <div className="muted small">
+                                    Subtotal con descuento: {formatMoney(item.subtotal)}
+                                  </div>
+                                </li>
+                              );
+                            })}
+                          </ul>
+                          <div className="muted small" style={{ marginTop: "12px" }}>
+                            <div>Fecha del pedido: {new Date(order.createdAt).toLocaleString("es-CL", {
+                              day: "2-digit",
+                              month: "short",
+                              year: "numeric",
+                              hour: "2-digit",
+                              minute: "2-digit",
+                              hour12: true
+                            })}</div>
+                            <div>Subtotal productos: {formatMoney(order.subtotal)}</div>
+                            {order.discountTotal > 0 && (
+                              <div>Descuentos total aplicados: -{formatMoney(order.discountTotal)}</div>
+                            )}
+                            {order.fulfillment === "pickup" ? (
+                              <div>
+                                Retiro en tienda: {order.pickupLocation ?? "Sin tienda"}
+                                {order.pickupCode ? ` · Código ${order.pickupCode}` : ""}
+                                {order.pickedUpAt
+                                  ? ` · Retirado el ${new Date(order.pickedUpAt).toLocaleString("es-CL")}`
+                                  : ""}
+                              </div>
+                            ) : (
+                              <div>Envío: {formatMoney(order.shippingCost)}</div>
+                            )}
+                            <div>
+                              <strong>Total final: {formatMoney(order.total)}</strong>
                             </div>
-                          ) : null}
+                            {(order.benefitsApplied?.length || order.couponCode) ? (
+                              <div style={{ marginTop: "10px" }}>
+                                <div style={{ fontWeight: 600 }}>Motivos del descuento</div>
+                                <ul style={{ margin: "6px 0 0", paddingLeft: "18px" }}>
+                                  {order.benefitsApplied?.map((label) => {
+                                    const detail = describeBenefitLabel(label);
+                                    return (
+                                      <li key={`${order.id}-${label}`}>
+                                        {detail.title}
+                                        {detail.detail ? ` — ${detail.detail}` : ""}
+                                      </li>
+                                    );
+                                  })}
+                                  {order.couponCode ? (
+                                    <li key={`${order.id}-coupon`}>
+                                      Cupón {order.couponCode}
+                                      {order.couponLabel ? ` — ${order.couponLabel}` : ""}
+                                    </li>
+                                  ) : null}
+                                </ul>
+                              </div>
+                            ) : null}
+                          </div>
+                          <h4 style={{ marginTop: "16px" }}>Historial de estados</h4>
+                          <OrderStatusHistory history={order.statusHistory} />
+                          <h4 style={{ marginTop: "16px" }}>Reembolsos</h4>
+                          {order.refunds?.length ? (
+                            <ul style={{ paddingLeft: "20px" }}>
+                              {order.refunds.map((refund) => (
+                                <li key={refund.id}>
+                                  {formatMoney(refund.monto)} — {refund.motivo}
+                                  <span className="muted small">
+                                    {" "}
+                                    · {new Date(refund.createdAt).toLocaleString("es-CL")}
+                                    {refund.actor ? ` · ${refund.actor}` : ""}
+                                    {refund.repuesto ? " · stock repuesto" : ""}
+                                  </span>
+                                </li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <p className="muted small">Sin reembolsos registrados.</p>
+                          )}
+                          {refundedAmount(order) > 0 && (
+                            <div className="muted small">Total reembolsado: {formatMoney(refundedAmount(order))}</div>
+                          )}
+                          {reembolsando === order.id ? (
+                            <RefundForm
+                              order={order}
+                              onSubmit={async (refund) => {
+                                const response = await refundOrder(order.id, refund);
+                                if (response.ok) {
+                                  showNotification({ message: "Reembolso registrado.", kind: "success" });
+                                  await cargar();
+                                }
+                                return response;
+                              }}
+                              onClose={() => setReembolsando(null)}
+                            />
+                          ) : (
+                            refundableAmount(order) > 0 && (
+                              <button
+                                className="btn-edit"
+                                type="button"
+                                style={{ marginTop: "8px" }}
+                                onClick={() => setReembolsando(order.id)}
+                              >
+                                Registrar reembolso
+                              </button>
+                            )
+                          )}
                         </div>
-                      </div>
-                    </td>
-                  </tr>
-                )}
-              </Fragment>
-            ))}
-            {!orders.length && (
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              );
+            })}
+            {!pedidos.length && (
               <tr>
-                <td colSpan={5} style={{ textAlign: "center", padding: "24px" }}>
-                  No hay pedidos registrados.
+                <td colSpan={6} style={{ textAlign: "center", padding: "24px" }}>
+                  {loading
+                    ? "Cargando pedidos…"
+                    : hasActiveFilters(filters)
+                      ? "Ningún pedido coincide con los filtros."
+                      : "No hay pedidos registrados."}
                 </td>
               </tr>
             )}
           </tbody>
         </table>
       </div>
+
+      {result && result.totalItems > 0 && (
+        <div className="actions-top" style={{ marginTop: "16px" }}>
+          <span className="muted small">
+            {result.totalItems} pedidos · Página {result.page} de {Math.max(1, result.totalPages)}
+          </span>
+          <div className="table-actions">
+            <label htmlFor="filtroPorPagina" className="small">
+              Por página
+            </label>
+            <select
+              id="filtroPorPagina"
+              value={filters.porPagina}
+              onChange={(event) => aplicarFiltros({ ...filters, porPagina: Number(event.target.value), pagina: 1 })}
+            >
+              {PAGE_SIZES.map((size) => (
+                <option key={size} value={size}>
+                  {size}
+                </option>
+              ))}
+            </select>
+            <button
+              className="btn"
+              type="button"
+              disabled={loading || result.page <= 1}
+              onClick={() => aplicarFiltros({ ...filters, pagina: result.page - 1 })}
+            >
+              Anterior
+            </button>
+            <button
+              className="btn"
+              type="button"
+              disabled={loading || result.page >= result.totalPages}
+              onClick={() => aplicarFiltros({ ...filters, pagina: result.page + 1 })}
+            >
+              Siguiente
+            </button>
+          </div>
+        </div>
+      )}
     </section>
   );
 }
@@ -1,13 +1,22 @@
-import { useState } from "react";
+import { Fragment, useState } from "react";
 import { useAppContext } from "../../context/AppContext";
 import type { Product } from "../../types";
 import { formatMoney } from "../../utils/format";
 import { ProductCreateForm } from "../../components/admin/ProductCreateForm";
+import { StockMovementForm } from "../../components/inventory/StockMovementForm";
+import { StockMovementHistory } from "../../components/inventory/StockMovementHistory";
+import { ProductImport } from "../../components/admin/ProductImport";
+import { toIsoDate } from "../../utils/delivery";
+import { downloadBlob } from "../../utils/orderExport";
+import { buildProductExport, type CatalogFormat } from "../../utils/productImport";
 
 export function AdminProductosPage() {
-  const { products, removeProduct, upsertProduct, showNotification } = useAppContext();
+  const { products, removeProduct, showNotification } = useAppContext();
   const [filter, setFilter] = useState("");
   const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [stockOpen, setStockOpen] = useState<string | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [formato, setFormato] = useState<CatalogFormat>("xlsx");
 
   const filtered = products.filter((product) => {
     if (!filter.trim()) return true;
@@ -19,61 +28,9 @@ export function AdminProductosPage() {
     );
   });
 
-  const handleStockUpdate = (product: Product) => {
-    showNotification({
-      message: `Nuevo stock para ${product.nombre}`,
-      kind: "info",
-      mode: "dialog",
-      actionLabel: "Actualizar",
-      cancelLabel: "Cancelar",
-      input: {
-        label: "Cantidad disponible",
-        type: "number",
-        defaultValue: String(product.stock),
-        min: 0,
-        autoFocus: true
-      },
-      onAction: (value) => {
-        const parsed = Number(value);
-        if (!Number.isFinite(parsed) || parsed < 0) {
-          showNotification({
-            message: "Ingresa un número válido",
-            kind: "error",
-            mode: "dialog",
-            actionLabel: "Aceptar"
-          });
-          return;
-        }
-<<<<<<< HEAD
-        upsertProduct({ ...product, stock: Math.floor(parsed) });
-        showNotification({
-          message: "Stock actualizado.",
-          kind: "success",
-          mode: "dialog",
-          actionLabel: "Listo"
-        });
-=======
-        void (async () => {
-          const result = await upsertProduct({ ...product, stock: Math.floor(parsed) });
-          if (!result.ok) {
-            showNotification({
-              message: result.message ?? "No pudimos actualizar el stock.",
-              kind: "error",
-              mode: "dialog",
-              actionLabel: "Aceptar"
-            });
-            return;
-          }
-          showNotification({
-            message: "Stock actualizado.",
-            kind: "success",
-            mode: "dialog",
-            actionLabel: "Listo"
-          });
-        })();
->>>>>>> master
-      }
-    });
+  const handleExport = () => {
+    const { filename, blob } = buildProductExport(products, formato, toIsoDate(new Date()));
+    downloadBlob(filename, blob);
   };
 
   const handleRemove = (product: Product) => {
@@ -84,15 +41,6 @@ export function AdminProductosPage() {
       actionLabel: "Eliminar",
       cancelLabel: "Cancelar",
       onAction: () => {
-<<<<<<< HEAD
-        removeProduct(product.id);
-        showNotification({
-          message: `${product.nombre} eliminado.`,
-          kind: "success",
-          mode: "dialog",
-          actionLabel: "Aceptar"
-        });
-=======
         void (async () => {
           const result = await removeProduct(product.id);
           if (!result.ok) {
@@ -111,7 +59,6 @@ export function AdminProductosPage() {
             actionLabel: "Aceptar"
           });
         })();
->>>>>>> master
       }
     });
   };
@@ -133,8 +80,24 @@ export function AdminProductosPage() {
         >
           {isCreateOpen ? "Cerrar formulario" : "Agregar producto nuevo"}
         </button>
+        <button className="btn" type="button" onClick={() => setIsImportOpen((prev) => !prev)}>
+          {isImportOpen ? "Cerrar importación" : "Importar CSV/XLSX"}
+        </button>
+        <select
+          aria-label="Formato de exportación"
+          value={formato}
+          onChange={(event) => setFormato(event.target.value as CatalogFormat)}
+        >
+          <option value="xlsx">Excel (XLSX)</option>
+          <option value="csv">CSV</option>
+        </select>
+        <button className="btn" type="button" onClick={handleExport} disabled={!products.length}>
+          Exportar catálogo
+        </button>
       </div>
 
+      {isImportOpen && <ProductImport onClose={() => setIsImportOpen(false)} />}
+
       {isCreateOpen && (
         <div className="admin-form" style={{ marginBottom: "24px" }}>
           <h2 style={{ marginBottom: "16px" }}>Registrar nuevo producto</h2>
@@ -157,24 +120,39 @@ export function AdminProductosPage() {
           </thead>
           <tbody>
             {filtered.map((product) => (
-              <tr key={product.id}>
-                <td>{product.id}</td>
-                <td>{product.nombre}</td>
-                <td>{product.categoria}</td>
-                <td>{product.stock}</td>
-                <td>{formatMoney(product.precio)}</td>
-                <td>{product.stockCritico}</td>
-                <td>
-                  <div className="table-actions">
-                    <button className="btn-edit" type="button" onClick={() => handleStockUpdate(product)}>
-                      Stock
-                    </button>
-                    <button className="btn-delete" type="button" onClick={() => handleRemove(product)}>
-                      Eliminar
-                    </button>
-                  </div>
-                </td>
-              </tr>
+              <Fragment key={product.id}>
+                <tr>
+                  <td>{product.id}</td>
+                  <td>{product.nombre}</td>
+                  <td>{product.categoria}</td>
+                  <td>{product.stock}</td>
+                  <td>{formatMoney(product.precio)}</td>
+                  <td>{product.stockCritico}</td>
+                  <td>
+                    <div className="table-actions">
+                      <button
+                        className="btn-edit"
+                        type="button"
+                        onClick={() => setStockOpen((prev) => (prev === product.id ? null : product.id))}
+                      >
+                        Stock
+                      </button>
+                      <button className="btn-delete" type="button" onClick={() => handleRemove(product)}>
+                        Eliminar
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+                {stockOpen === product.id && (
+                  <tr>
+                    <td colSpan={7}>
+                      <StockMovementForm product={product} onClose={() => setStockOpen(null)} />
+                      <h4 style={{ marginTop: "16px" }}>Historial de stock</h4>
+                      <StockMovementHistory product={product} />
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
             ))}
             {!filtered.length && (
               <tr>
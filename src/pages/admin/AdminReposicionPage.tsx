@@ -0,0 +1,14 @@
+import { ReplenishmentDashboard } from "../../components/inventory/ReplenishmentDashboard";
+import { ExpiringLotsAlert } from "../../components/inventory/ExpiringLotsAlert";
+import { ExpiredWasteReport } from "../../components/inventory/ExpiredWasteReport";
+
+export function AdminReposicionPage() {
+  return (
+    <section>
+      <ExpiringLotsAlert />
+      <ReplenishmentDashboard />
+      <h2 style={{ margin: "32px 0 16px" }}>Mermas por vencimiento</h2>
+      <ExpiredWasteReport />
+    </section>
+  );
+}
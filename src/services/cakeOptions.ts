@@ -0,0 +1,24 @@
+import type { CakeOption, CakeOptionGroup } from "../types";
+import { request } from "./http";
+
+type CakeOptionResponse = {
+  id: string;
+  group: CakeOptionGroup | string;
+  label: string;
+  price: number;
+  active: boolean;
+};
+
+const GROUPS: CakeOptionGroup[] = ["base", "relleno", "cobertura", "decoracion"];
+
+export async function fetchCakeOptions(): Promise<CakeOption[]> {
+  const data = await request<CakeOptionResponse[]>("/api/v1/cake-options");
+  return data
+    .filter((option) => option.active && GROUPS.includes(option.group as CakeOptionGroup))
+    .map((option) => ({
+      id: option.id,
+      group: option.group as CakeOptionGroup,
+      label: option.label,
+      precio: option.price
+    }));
+}
@@ -1,34 +1,121 @@
-import type { CouponInfo } from "../types";
+import type { CouponInfo, CouponType } from "../types";
 import { request } from "./http";
 
 type CouponResponse = {
   code: string;
-  type: "ship" | "amount" | string;
+  type: string;
   value: number;
   label: string;
+  active?: boolean | null;
+  minSubtotal?: number | null;
+  validFrom?: string | null;
+  validUntil?: string | null;
+  maxUses?: number | null;
+  usedCount?: number | null;
+  maxUsesPerCustomer?: number | null;
+  categories?: string[] | null;
+  productIds?: string[] | null;
 };
 
+const COUPON_TYPES: CouponType[] = ["ship", "amount", "percent"];
+
+function isCouponType(value: string): value is CouponType {
+  return (COUPON_TYPES as string[]).includes(value);
+}
+
+function mapCoupon(response: CouponResponse): CouponInfo | null {
+  const type = response.type?.toLowerCase() ?? "";
+  if (!isCouponType(type)) return null;
+  return {
+    code: response.code.toUpperCase(),
+    type,
+    value: response.value,
+    label: response.label,
+    active: response.active ?? undefined,
+    minSubtotal: response.minSubtotal ?? undefined,
+    validFrom: response.validFrom ?? undefined,
+    validUntil: response.validUntil ?? undefined,
+    maxUses: response.maxUses ?? undefined,
+    usedCount: response.usedCount ?? undefined,
+    maxUsesPerCustomer: response.maxUsesPerCustomer ?? undefined,
+    categories: response.categories?.length ? response.categories : undefined,
+    productIds: response.productIds?.length ? response.productIds : undefined
+  } satisfies CouponInfo;
+}
+
 export async function fetchCoupons(): Promise<Record<string, CouponInfo>> {
   const data = await request<CouponResponse[]>("/api/v1/coupons");
   return data.reduce<Record<string, CouponInfo>>((acc, coupon) => {
-    const normalizedType = coupon.type === "ship" || coupon.type === "amount" ? coupon.type : "amount";
-    acc[coupon.code.toUpperCase()] = {
-      code: coupon.code.toUpperCase(),
-      type: normalizedType,
-      value: coupon.value,
-      label: coupon.label
-    } satisfies CouponInfo;
+    const mapped = mapCoupon(coupon);
+    if (!mapped) {
+      console.warn(`Cupón ${coupon.code} ignorado: tipo desconocido "${coupon.type}"`);
+      return acc;
+    }
+    acc[mapped.code] = mapped;
     return acc;
   }, {});
 }
 
 export async function fetchCoupon(code: string): Promise<CouponInfo> {
   const response = await request<CouponResponse>(`/api/v1/coupons/${code}`);
-  const normalizedType = response.type === "ship" || response.type === "amount" ? response.type : "amount";
+  const mapped = mapCoupon(response);
+  if (!mapped) {
+    throw new Error(`El cupón ${response.code} tiene un tipo desconocido`);
+  }
+  return mapped;
+}
+
+export type CouponRequestDto = {
+  code: string;
+  type: CouponType;
+  value: number;
+  label: string;
+  active: boolean;
+  minSubtotal: number | null;
+  validFrom: string | null;
+  validUntil: string | null;
+  maxUses: number | null;
+  maxUsesPerCustomer: number | null;
+  categories: string[] | null;
+  productIds: string[] | null;
+};
+
+function buildCouponPayload(coupon: CouponInfo): CouponRequestDto {
   return {
-    code: response.code.toUpperCase(),
-    type: normalizedType,
-    value: response.value,
-    label: response.label
-  } satisfies CouponInfo;
+    code: coupon.code.trim().toUpperCase(),
+    type: coupon.type,
+    value: coupon.value,
+    label: coupon.label.trim(),
+    active: coupon.active !== false,
+    minSubtotal: coupon.minSubtotal ?? null,
+    validFrom: coupon.validFrom || null,
+    validUntil: coupon.validUntil || null,
+    maxUses: coupon.maxUses ?? null,
+    maxUsesPerCustomer: coupon.maxUsesPerCustomer ?? null,
+    categories: coupon.categories?.length ? coupon.categories : null,
+    productIds: coupon.productIds?.length ? coupon.productIds : null
+  };
+}
+
+export async function fetchAdminCoupons(token: string): Promise<CouponInfo[]> {
+  const data = await request<CouponResponse[]>("/api/v1/admin/coupons", { token });
+  return data.map(mapCoupon).filter((coupon): coupon is CouponInfo => Boolean(coupon));
+}
+
+export async function createCoupon(coupon: CouponInfo, token: string): Promise<CouponInfo | null> {
+  const response = await request<CouponResponse>("/api/v1/admin/coupons", {
+    method: "POST",
+    body: buildCouponPayload(coupon),
+    token
+  });
+  return mapCoupon(response);
+}
+
+export async function updateCoupon(coupon: CouponInfo, token: string): Promise<CouponInfo | null> {
+  const response = await request<CouponResponse>(`/api/v1/admin/coupons/${coupon.code}`, {
+    method: "PUT",
+    body: buildCouponPayload(coupon),
+    token
+  });
+  return mapCoupon(response);
 }
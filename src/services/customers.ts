@@ -32,7 +32,6 @@ export type CustomerProfileDto = {
   promoCode: string | null;
   felices50: boolean;
   birthdayRedeemedYear: number | null;
-  defaultShippingCost: number | null;
   newsletter: boolean;
   saveAddress: boolean;
   staffRole: string | null;
@@ -53,7 +52,6 @@ export type CustomerSummaryDto = {
   newsletter: boolean;
   felices50: boolean;
   birthdayRedeemedYear: number | null;
-  defaultShippingCost: number | null;
 };
 
 export type CustomerAddressRequestDto = {
@@ -79,7 +77,6 @@ export type CustomerRegistrationRequestDto = {
   address?: string | null;
   phone?: string | null;
   promoCode?: string | null;
-  defaultShippingCost?: number | null;
   newsletter?: boolean;
   saveAddress?: boolean;
   birthdayRedeemedYear?: number | null;
@@ -98,7 +95,6 @@ export type CustomerUpdateRequestDto = {
   customerType?: string | null;
   birthDate?: string | null;
   birthdayRedeemedYear?: number | null;
-  defaultShippingCost?: number | null;
   newsletter?: boolean;
   saveAddress?: boolean;
   felices50?: boolean;
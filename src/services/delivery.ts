@@ -0,0 +1,34 @@
+import type { DeliverySchedule } from "../types";
+import { request } from "./http";
+
+type DeliverySlotResponse = {
+  id: string;
+  label: string;
+  startTime: string;
+  endTime: string;
+  capacity: number;
+};
+
+type DeliveryAvailabilityResponse = {
+  slots: DeliverySlotResponse[];
+  holidays: string[] | null;
+  bookings: Array<{ date: string; slotId: string; booked: number }> | null;
+};
+
+export async function fetchDeliveryAvailability(from: string, to: string): Promise<DeliverySchedule> {
+  const data = await request<DeliveryAvailabilityResponse>(`/api/v1/delivery/availability?from=${from}&to=${to}`);
+  return {
+    slots: data.slots.map((slot) => ({
+      id: slot.id,
+      label: slot.label,
+      inicio: slot.startTime.slice(0, 5),
+      fin: slot.endTime.slice(0, 5),
+      capacidad: slot.capacity
+    })),
+    holidays: data.holidays ?? [],
+    booked: (data.bookings ?? []).reduce<Record<string, number>>((acc, entry) => {
+      acc[`${entry.date}|${entry.slotId}`] = entry.booked;
+      return acc;
+    }, {})
+  };
+}
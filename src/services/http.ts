@@ -10,9 +10,12 @@ function getBaseUrl() {
   return DEFAULT_BASE_URL;
 }
 
+export function apiUrl(path: string): string {
+  return `${getBaseUrl()}${path.startsWith("/") ? path : `/${path}`}`;
+}
+
 export async function request<T>(path: string, options: { method?: HttpMethod; body?: unknown; token?: string } = {}): Promise<T> {
-  const baseUrl = getBaseUrl();
-  const url = `${baseUrl}${path.startsWith("/") ? path : `/${path}`}`;
+  const url = apiUrl(path);
   const headers: Record<string, string> = {
     Accept: "application/json"
   };
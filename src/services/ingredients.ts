@@ -0,0 +1,99 @@
+import type { Ingredient, IngredientUnit, Recipe } from "../types";
+import { request } from "./http";
+
+export type IngredientUnitDto = "KG" | "G" | "L" | "ML" | "UNIT";
+
+export type IngredientDto = {
+  id: string;
+  name: string;
+  unit: IngredientUnitDto;
+  onHand: number;
+  minimum: number;
+};
+
+export type IngredientRequestDto = Omit<IngredientDto, "id">;
+
+export type RecipeDto = {
+  productId: string;
+  lines: Array<{ ingredientId: string; quantity: number }>;
+};
+
+const UNIT_FROM_DTO: Record<IngredientUnitDto, IngredientUnit> = {
+  KG: "kg",
+  G: "g",
+  L: "l",
+  ML: "ml",
+  UNIT: "unidad"
+};
+
+const UNIT_TO_DTO: Record<IngredientUnit, IngredientUnitDto> = {
+  kg: "KG",
+  g: "G",
+  l: "L",
+  ml: "ML",
+  unidad: "UNIT"
+};
+
+function mapIngredient(dto: IngredientDto): Ingredient {
+  return {
+    id: dto.id,
+    nombre: dto.name,
+    unidad: UNIT_FROM_DTO[dto.unit] ?? "unidad",
+    disponible: dto.onHand,
+    minimo: dto.minimum
+  };
+}
+
+function buildIngredientPayload(ingredient: Ingredient): IngredientRequestDto {
+  return {
+    name: ingredient.nombre.trim(),
+    unit: UNIT_TO_DTO[ingredient.unidad],
+    onHand: ingredient.disponible,
+    minimum: ingredient.minimo
+  };
+}
+
+function mapRecipe(dto: RecipeDto): Recipe {
+  return {
+    productId: dto.productId,
+    lineas: dto.lines.map((line) => ({ ingredientId: line.ingredientId, cantidad: line.quantity }))
+  };
+}
+
+export async function fetchIngredients(token: string): Promise<Ingredient[]> {
+  const data = await request<IngredientDto[]>("/api/v1/admin/ingredients", { token });
+  return data.map(mapIngredient);
+}
+
+export async function createIngredient(ingredient: Ingredient, token: string): Promise<Ingredient> {
+  const dto = await request<IngredientDto>("/api/v1/admin/ingredients", {
+    method: "POST",
+    body: buildIngredientPayload(ingredient),
+    token
+  });
+  return mapIngredient(dto);
+}
+
+export async function updateIngredient(ingredient: Ingredient, token: string): Promise<Ingredient> {
+  const dto = await request<IngredientDto>(`/api/v1/admin/ingredients/${encodeURIComponent(ingredient.id)}`, {
+    method: "PUT",
+    body: buildIngredientPayload(ingredient),
+    token
+  });
+  return mapIngredient(dto);
+}
+
+export async function fetchRecipes(token: string): Promise<Recipe[]> {
+  const data = await request<RecipeDto[]>("/api/v1/admin/recipes", { token });
+  return data.map(mapRecipe);
+}
+
+/** Reemplaza la receta completa del producto; sin líneas la elimina. */
+export async function saveRecipe(recipe: Recipe, token: string): Promise<Recipe> {
+  const dto = await request<RecipeDto>(`/api/v1/admin/recipes/${encodeURIComponent(recipe.productId)}`, {
+    method: "PUT",
+    body: { lines: recipe.lineas.map((line) => ({ ingredientId: line.ingredientId, quantity: line.cantidad })) },
+    token
+  });
+  return mapRecipe(dto);
+}
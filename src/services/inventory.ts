@@ -0,0 +1,114 @@
+import type { StockLot, StockMovement, StockMovementType } from "../types";
+import { request } from "./http";
+
+export type StockMovementTypeDto = "PRODUCTION" | "SALE" | "WASTE" | "ADJUSTMENT" | "RETURN";
+
+export type StockMovementDto = {
+  id: string;
+  productId: string;
+  variantId: string | null;
+  type: StockMovementTypeDto;
+  quantity: number;
+  resultingStock: number;
+  reason: string | null;
+  createdBy: string | null;
+  lotId: string | null;
+  createdAt: number;
+};
+
+export type CreateStockMovementRequestDto = {
+  productId: string;
+  variantId: string | null;
+  type: StockMovementTypeDto;
+  quantity: number;
+  reason: string | null;
+  /** Solo producción: crea un lote con este vencimiento. */
+  expiresOn: string | null;
+  /** Solo merma: lote a descontar; sin lote el backend descuenta por FEFO. */
+  lotId: string | null;
+};
+
+export type StockLotDto = {
+  id: string;
+  productId: string;
+  variantId: string | null;
+  code: string;
+  initialQuantity: number;
+  remaining: number;
+  producedAt: number;
+  expiresOn: string | null;
+};
+
+const TYPE_FROM_DTO: Record<StockMovementTypeDto, StockMovementType> = {
+  PRODUCTION: "produccion",
+  SALE: "venta",
+  WASTE: "merma",
+  ADJUSTMENT: "ajuste",
+  RETURN: "devolucion"
+};
+
+export const STOCK_MOVEMENT_TYPE_TO_DTO: Record<StockMovementType, StockMovementTypeDto> = {
+  produccion: "PRODUCTION",
+  venta: "SALE",
+  merma: "WASTE",
+  ajuste: "ADJUSTMENT",
+  devolucion: "RETURN"
+};
+
+function mapMovement(dto: StockMovementDto): StockMovement {
+  return {
+    id: dto.id,
+    productId: dto.productId,
+    variantId: dto.variantId ?? undefined,
+    tipo: TYPE_FROM_DTO[dto.type] ?? "ajuste",
+    cantidad: dto.quantity,
+    stockResultante: dto.resultingStock,
+    motivo: dto.reason ?? undefined,
+    actor: dto.createdBy ?? undefined,
+    lotId: dto.lotId ?? undefined,
+    createdAt: dto.createdAt
+  };
+}
+
+function mapLot(dto: StockLotDto): StockLot {
+  return {
+    id: dto.id,
+    productId: dto.productId,
+    variantId: dto.variantId ?? undefined,
+    codigo: dto.code,
+    cantidadInicial: dto.initialQuantity,
+    disponible: dto.remaining,
+    producidoEn: dto.producedAt,
+    venceEl: dto.expiresOn ?? undefined
+  };
+}
+
+export async function fetchStockMovements(productId: string, token: string): Promise<StockMovement[]> {
+  const data = await request<StockMovementDto[]>(
+    `/api/v1/admin/products/${encodeURIComponent(productId)}/stock-movements`,
+    { token }
+  );
+  return data.map(mapMovement);
+}
+
+export async function createStockMovement(payload: CreateStockMovementRequestDto, token: string): Promise<StockMovement> {
+  const data = await request<StockMovementDto>("/api/v1/admin/stock-movements", {
+    method: "POST",
+    body: payload,
+    token
+  });
+  return mapMovement(data);
+}
+
+/** Lotes con unidades disponibles de todo el catálogo. */
+export async function fetchStockLots(token: string): Promise<StockLot[]> {
+  const data = await request<StockLotDto[]>("/api/v1/admin/stock-lots?available=true", { token });
+  return data.map(mapLot);
+}
+
+/** Mermas registradas entre dos fechas (YYYY-MM-DD, ambas incluidas). */
+export async function fetchWasteMovements(from: string, to: string, token: string): Promise<StockMovement[]> {
+  const params = new URLSearchParams({ type: "WASTE", from, to });
+  const data = await request<StockMovementDto[]>(`/api/v1/admin/stock-movements?${params.toString()}`, { token });
+  return data.map(mapMovement);
+}
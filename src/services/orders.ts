@@ -2,8 +2,11 @@ import { request } from "./http";
 
 export type OrderStatusDto = "PENDIENTE" | "EN_PROCESO" | "ENVIADO" | "CANCELADO" | "COMPLETADO";
 
+export type FulfillmentDto = "DELIVERY" | "PICKUP";
+
 export type CreateOrderItemRequestDto = {
   productId: string;
+  variantId?: string | null;
   quantity: number;
   unitPrice: number;
   originalUnitPrice: number;
@@ -20,11 +23,17 @@ export type CreateOrderRequestDto = {
   couponLabel?: string | null;
   notes?: string | null;
   shippingAddressId?: string | null;
+  deliveryDate?: string | null;
+  deliverySlotId?: string | null;
+  fulfillment?: FulfillmentDto;
+  pickupLocationId?: string | null;
 };
 
 export type OrderItemResponseDto = {
   codigo: string;
   nombre: string;
+  variantId: string | null;
+  variantLabel: string | null;
   quantity: number;
   unitPrice: number;
   originalUnitPrice: number;
@@ -32,6 +41,7 @@ export type OrderItemResponseDto = {
   subtotal: number;
   originalSubtotal: number;
   benefitLabels: string[] | null;
+  note: string | null;
 };
 
 export type OrderResponseDto = {
@@ -48,12 +58,54 @@ export type OrderResponseDto = {
   couponCode: string | null;
   couponLabel: string | null;
   createdAt: number;
+  deliveryDate: string | null;
+  deliverySlotId: string | null;
+  deliverySlotLabel: string | null;
+  fulfillment: FulfillmentDto | null;
+  pickupLocationName: string | null;
+  pickupCode: string | null;
+  pickedUpAt: number | null;
+  statusHistory?: OrderStatusHistoryDto[] | null;
+  refunds?: OrderRefundDto[] | null;
   items: OrderItemResponseDto[];
 };
 
+export type OrderRefundItemDto = {
+  productId: string;
+  variantId: string | null;
+  quantity: number;
+};
+
+export type OrderRefundDto = {
+  id: string;
+  amount: number;
+  reason: string;
+  items: OrderRefundItemDto[];
+  restocked: boolean;
+  createdAt: number;
+  createdBy: string | null;
+};
+
+export type CreateRefundRequestDto = {
+  amount: number;
+  reason: string;
+  items: OrderRefundItemDto[];
+  restock: boolean;
+};
+
+export type OrderStatusHistoryDto = {
+  status: OrderStatusDto;
+  previousStatus: OrderStatusDto | null;
+  changedAt: number;
+  changedBy: string | null;
+  notes: string | null;
+};
+
 export type UpdateOrderStatusRequestDto = {
   status: OrderStatusDto;
   notes?: string | null;
+  /** Estado que el usuario veía; el backend responde 409 si el pedido ya cambió. */
+  expectedStatus?: OrderStatusDto | null;
 };
 
 export function createOrder(payload: CreateOrderRequestDto, token: string) {
@@ -68,8 +120,60 @@ export function fetchMyOrders(token: string) {
   return request<OrderResponseDto[]>("/api/v1/orders/mine", { token });
 }
 
-export function fetchAllOrders(token: string) {
-  return request<OrderResponseDto[]>("/api/v1/orders", { token });
+export type OrderSearchQueryDto = {
+  status?: OrderStatusDto;
+  from?: string;
+  to?: string;
+  customer?: string;
+  couponCode?: string;
+  minTotal?: number;
+  maxTotal?: number;
+  sort: "createdAt" | "total" | "customerName";
+  direction: "asc" | "desc";
+  page: number;
+  size: number;
+};
+
+export type OrderPageResponseDto = {
+  content: OrderResponseDto[];
+  page: number;
+  size: number;
+  totalElements: number;
+  totalPages: number;
+};
+
+/** Búsqueda paginada en el servidor; `page` parte en 0 como en el backend. */
+export function searchOrders(query: OrderSearchQueryDto, token: string) {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== "") params.set(key, String(value));
+  });
+  return request<OrderPageResponseDto>(`/api/v1/orders/search?${params.toString()}`, { token });
+}
+
+const SEARCH_ALL_PAGE_SIZE = 100;
+
+/** Recorre todas las páginas de una búsqueda; solo para consultas acotadas por fecha o estado. */
+export async function searchAllOrders(query: Omit<OrderSearchQueryDto, "page" | "size">, token: string) {
+  const orders: OrderResponseDto[] = [];
+  let page = 0;
+  let totalPages = 1;
+  do {
+    const response = await searchOrders({ ...query, page, size: SEARCH_ALL_PAGE_SIZE }, token);
+    orders.push(...response.content);
+    totalPages = response.totalPages;
+    page += 1;
+  } while (page < totalPages);
+  return orders;
+}
+
+export type OrderSummaryResponseDto = {
+  total: number;
+  byStatus: Partial<Record<OrderStatusDto, number>>;
+};
+
+export function fetchOrderSummary(token: string) {
+  return request<OrderSummaryResponseDto>("/api/v1/orders/summary", { token });
 }
 
 export function updateOrderStatus(orderId: string, payload: UpdateOrderStatusRequestDto, token: string) {
@@ -79,3 +183,36 @@ export function updateOrderStatus(orderId: string, payload: UpdateOrderStatusReq
     token
   });
 }
+
+export function markOrderPickedUp(orderId: string, pickupCode: string, token: string) {
+  return request<OrderResponseDto>(`/api/v1/orders/${orderId}/pickup`, {
+    method: "PATCH",
+    body: { pickupCode },
+    token
+  });
+}
+
+/** Consulta pública: el backend solo responde si el correo coincide con el del pedido. */
+export function trackOrder(orderCode: string, email: string) {
+  return request<OrderResponseDto>("/api/v1/orders/track", {
+    method: "POST",
+    body: { orderCode, email }
+  });
+}
+
+/** El backend valida la ventana de cancelación y devuelve el stock de los ítems. */
+export function cancelMyOrder(orderId: string, reason: string | null, token: string) {
+  return request<OrderResponseDto>(`/api/v1/orders/${orderId}/cancel`, {
+    method: "POST",
+    body: { reason },
+    token
+  });
+}
+
+export function createRefund(orderId: string, payload: CreateRefundRequestDto, token: string) {
+  return request<OrderResponseDto>(`/api/v1/admin/orders/${orderId}/refunds`, {
+    method: "POST",
+    body: payload,
+    token
+  });
+}
@@ -0,0 +1,24 @@
+import type { PickupLocation } from "../types";
+import { request } from "./http";
+
+type PickupLocationResponse = {
+  id: string;
+  name: string;
+  address: string;
+  commune: string;
+  openingHours: string | null;
+  active: boolean;
+};
+
+export async function fetchPickupLocations(): Promise<PickupLocation[]> {
+  const data = await request<PickupLocationResponse[]>("/api/v1/pickup-locations");
+  return data
+    .filter((location) => location.active)
+    .map((location) => ({
+      id: location.id,
+      nombre: location.name,
+      direccion: location.address,
+      comuna: location.commune,
+      horario: location.openingHours ?? undefined
+    }));
+}
@@ -1,6 +1,15 @@
-import type { Product } from "../types";
+import type { Product, ProductVariant } from "../types";
+import { BIRTHDAY_CAKE_ID } from "../utils/promotions";
 import { request } from "./http";
 
+export type ProductVariantResponse = {
+  id: string;
+  label: string;
+  price: number;
+  stock: number;
+  portions: number | null;
+};
+
 export type ProductResponse = {
   id: string;
   name: string;
@@ -12,14 +21,24 @@ export type ProductResponse = {
   criticalStock: number;
   description: string | null;
   active: boolean;
+  variants: ProductVariantResponse[] | null;
+  leadTimeHours: number | null;
 };
 
-const BDAY_CAKE_ID = "BDAY001";
+function mapVariant(response: ProductVariantResponse): ProductVariant {
+  return {
+    id: response.id,
+    label: response.label,
+    precio: response.price,
+    stock: response.stock,
+    porciones: response.portions ?? undefined
+  };
+}
 
 function mapProduct(response: ProductResponse): Product {
   const image = response.imageUrl ?? "";
   const normalizedImage = image.startsWith("/") ? image : image ? `/${image}` : "/img/placeholder.png";
-  const basePrice = response.id === BDAY_CAKE_ID ? 0 : response.price;
+  const basePrice = response.id === BIRTHDAY_CAKE_ID ? 0 : response.price;
   return {
     id: response.id,
     nombre: response.name,
@@ -29,7 +48,9 @@ function mapProduct(response: ProductResponse): Product {
     img: normalizedImage,
     stock: response.stock,
     stockCritico: response.criticalStock,
-    descripcion: response.description ?? undefined
+    descripcion: response.description ?? undefined,
+    variants: response.variants?.length ? response.variants.map(mapVariant) : undefined,
+    leadTimeHours: response.leadTimeHours ?? undefined
   };
 }
 
@@ -43,6 +64,8 @@ export async function fetchProduct(id: string): Promise<Product> {
   return mapProduct(data);
 }
 
+type ProductVariantPayload = Omit<ProductVariantResponse, "stock"> & { stock?: number };
+
 type ProductPayload = {
   id: string;
   name: string;
@@ -50,13 +73,16 @@ type ProductPayload = {
   category: string;
   attributes: string | null;
   imageUrl: string | null;
-  stock: number;
+  stock?: number;
   criticalStock: number;
   description: string | null;
   active?: boolean;
+  variants?: ProductVariantPayload[];
+  leadTimeHours: number | null;
 };
 
-function buildPayload(product: Product): ProductPayload {
+// El stock de un producto existente solo cambia con movimientos de inventario.
+function buildPayload(product: Product, options: { includeStock: boolean }): ProductPayload {
   return {
     id: product.id,
     name: product.nombre,
@@ -64,15 +90,23 @@ function buildPayload(product: Product): ProductPayload {
     category: product.categoria,
     attributes: product.attr || null,
     imageUrl: product.img || null,
-    stock: product.stock,
+    stock: options.includeStock ? product.stock : undefined,
     criticalStock: product.stockCritico,
     description: product.descripcion || null,
-    active: true
+    active: true,
+    variants: product.variants?.map((variant) => ({
+      id: variant.id,
+      label: variant.label,
+      price: variant.precio,
+      stock: options.includeStock ? variant.stock : undefined,
+      portions: variant.porciones ?? null
+    })),
+    leadTimeHours: product.leadTimeHours ?? null
   };
 }
 
 export async function createProduct(product: Product, token: string): Promise<Product> {
-  const payload = buildPayload(product);
+  const payload = buildPayload(product, { includeStock: true });
   const response = await request<ProductResponse>("/api/v1/products", {
     method: "POST",
     body: payload,
@@ -82,7 +116,7 @@ export async function createProduct(product: Product, token: string): Promise<Pr
 }
 
 export async function updateProduct(product: Product, token: string): Promise<Product> {
-  const payload = buildPayload(product);
+  const payload = buildPayload(product, { includeStock: false });
   const response = await request<ProductResponse>(`/api/v1/products/${product.id}`, {
     method: "PUT",
     body: payload,
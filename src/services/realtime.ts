@@ -0,0 +1,160 @@
+import { apiUrl, request } from "./http";
+import type { OrderResponseDto } from "./orders";
+
+export type StockChangeDto = {
+  productId: string;
+  stock: number;
+  variants: Array<{ id: string; stock: number }> | null;
+};
+
+export type RealtimeEventDto =
+  | { id: string; type: "ORDER_CREATED" | "ORDER_UPDATED"; order: OrderResponseDto }
+  | { id: string; type: "STOCK_CHANGED"; stock: StockChangeDto };
+
+type RealtimeEventsResponseDto = {
+  events: RealtimeEventDto[];
+  cursor: string | null;
+};
+
+export type RealtimeMode = "stream" | "polling" | "closed";
+
+export type RealtimeOptions = {
+  token: string;
+  onEvent: (event: RealtimeEventDto) => void;
+  onModeChange?: (mode: RealtimeMode) => void;
+  pollIntervalMs?: number;
+  /** Tiempo en modo consulta antes de reintentar el stream. */
+  streamRetryMs?: number;
+};
+
+export const DEFAULT_POLL_INTERVAL_MS = 15000;
+export const DEFAULT_STREAM_RETRY_MS = 60000;
+
+type SseMessage = { id?: string; data: string };
+
+/** Separa los mensajes SSE completos del buffer y devuelve el resto sin terminar. */
+export function parseSseMessages(buffer: string): { messages: SseMessage[]; rest: string } {
+  const blocks = buffer.replace(/\r\n?/g, "\n").split("\n\n");
+  const rest = blocks.pop() ?? "";
+  const messages: SseMessage[] = [];
+  for (const block of blocks) {
+    let id: string | undefined;
+    const data: string[] = [];
+    for (const line of block.split("\n")) {
+      if (!line || line.startsWith(":")) continue;
+      const separator = line.indexOf(":");
+      const field = separator === -1 ? line : line.slice(0, separator);
+      const value = separator === -1 ? "" : line.slice(separator + 1).replace(/^ /, "");
+      if (field === "data") data.push(value);
+      else if (field === "id") id = value;
+    }
+    if (data.length) messages.push({ id, data: data.join("\n") });
+  }
+  return { messages, rest };
+}
+
+/**
+ * Abre el canal de eventos del backend: usa SSE (vía fetch para enviar el token) y,
+ * si el stream no está disponible o se corta, consulta periódicamente hasta reintentarlo.
+ * Devuelve la función que cierra el canal.
+ */
+export function openRealtimeChannel(options: RealtimeOptions): () => void {
+  const pollInterval = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const streamRetry = options.streamRetryMs ?? DEFAULT_STREAM_RETRY_MS;
+  let cursor: string | null = null;
+  let closed = false;
+  let mode: RealtimeMode | null = null;
+  let controller: AbortController | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const setMode = (next: RealtimeMode) => {
+    if (mode === next) return;
+    mode = next;
+    options.onModeChange?.(next);
+  };
+
+  const deliver = (event: RealtimeEventDto) => {
+    if (closed) return;
+    if (event.id) cursor = event.id;
+    options.onEvent(event);
+  };
+
+  const query = () => (cursor ? `?after=${encodeURIComponent(cursor)}` : "");
+
+  const stream = async () => {
+    controller = new AbortController();
+    const response = await fetch(apiUrl(`/api/v1/events/stream${query()}`), {
+      headers: { Accept: "text/event-stream", Authorization: `Bearer ${options.token}` },
+      credentials: "include",
+      signal: controller.signal
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(`Stream de eventos no disponible (${response.status})`);
+    }
+    setMode("stream");
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += decoder.decode(value, { stream: true });
+      const parsed = parseSseMessages(buffer);
+      buffer = parsed.rest;
+      for (const message of parsed.messages) {
+        let event: RealtimeEventDto;
+        try {
+          event = JSON.parse(message.data) as RealtimeEventDto;
+        } catch {
+          continue;
+        }
+        deliver({ ...event, id: message.id ?? event.id });
+      }
+    }
+  };
+
+  const poll = async () => {
+    const data = await request<RealtimeEventsResponseDto>(`/api/v1/events${query()}`, { token: options.token });
+    data.events.forEach(deliver);
+    if (data.cursor) cursor = data.cursor;
+  };
+
+  const startPolling = () => {
+    setMode("polling");
+    const retryAt = Date.now() + streamRetry;
+    const tick = async () => {
+      timer = null;
+      if (closed) return;
+      if (Date.now() >= retryAt) {
+        void connect();
+        return;
+      }
+      try {
+        await poll();
+      } catch (error) {
+        console.error("No se pudieron consultar los eventos", error);
+      }
+      if (!closed) timer = setTimeout(() => void tick(), pollInterval);
+    };
+    void tick();
+  };
+
+  const connect = async () => {
+    try {
+      await stream();
+    } catch (error) {
+      if (closed) return;
+      console.warn("Stream de eventos interrumpido, se usará consulta periódica", error);
+    }
+    if (!closed) startPolling();
+  };
+
+  void connect();
+
+  return () => {
+    closed = true;
+    controller?.abort();
+    if (timer) clearTimeout(timer);
+    setMode("closed");
+  };
+}
@@ -0,0 +1,67 @@
+import type { ShippingZone } from "../types";
+import { request } from "./http";
+
+export type ShippingZoneDto = {
+  id: string;
+  name: string;
+  region: string;
+  communes: string[] | null;
+  cost: number;
+  freeShippingFrom: number | null;
+  deliverable: boolean;
+};
+
+export type ShippingZoneRequestDto = Omit<ShippingZoneDto, "id">;
+
+function mapZone(dto: ShippingZoneDto): ShippingZone {
+  return {
+    id: dto.id,
+    nombre: dto.name,
+    region: dto.region,
+    comunas: dto.communes ?? [],
+    costo: dto.cost,
+    envioGratisDesde: dto.freeShippingFrom ?? undefined,
+    sinCobertura: !dto.deliverable
+  };
+}
+
+function buildPayload(zone: ShippingZone): ShippingZoneRequestDto {
+  return {
+    name: zone.nombre.trim(),
+    region: zone.region,
+    communes: zone.comunas.length ? zone.comunas : null,
+    cost: zone.costo,
+    freeShippingFrom: zone.envioGratisDesde ?? null,
+    deliverable: !zone.sinCobertura
+  };
+}
+
+export async function fetchShippingZones(): Promise<ShippingZone[]> {
+  const data = await request<ShippingZoneDto[]>("/api/v1/shipping-zones");
+  return data.map(mapZone);
+}
+
+export async function createShippingZone(zone: ShippingZone, token: string): Promise<ShippingZone> {
+  const dto = await request<ShippingZoneDto>("/api/v1/admin/shipping-zones", {
+    method: "POST",
+    body: buildPayload(zone),
+    token
+  });
+  return mapZone(dto);
+}
+
+export async function updateShippingZone(zone: ShippingZone, token: string): Promise<ShippingZone> {
+  const dto = await request<ShippingZoneDto>(`/api/v1/admin/shipping-zones/${zone.id}`, {
+    method: "PUT",
+    body: buildPayload(zone),
+    token
+  });
+  return mapZone(dto);
+}
+
+export function deleteShippingZone(zoneId: string, token: string) {
+  return request<void>(`/api/v1/admin/shipping-zones/${zoneId}`, {
+    method: "DELETE",
+    token
+  });
+}
@@ -0,0 +1,87 @@
+import type { StockCount, StockCountLine, StockCountStatus } from "../types";
+import { request } from "./http";
+
+export type StockCountStatusDto = "OPEN" | "APPROVED" | "CANCELLED";
+
+export type StockCountLineDto = {
+  productId: string;
+  variantId: string | null;
+  counted: number;
+  expected: number | null;
+};
+
+export type StockCountDto = {
+  id: string;
+  code: string;
+  status: StockCountStatusDto;
+  notes: string | null;
+  startedBy: string | null;
+  startedAt: number;
+  closedBy: string | null;
+  closedAt: number | null;
+  lines: StockCountLineDto[];
+};
+
+const STATUS_FROM_DTO: Record<StockCountStatusDto, StockCountStatus> = {
+  OPEN: "abierto",
+  APPROVED: "aprobado",
+  CANCELLED: "anulado"
+};
+
+function mapCount(dto: StockCountDto): StockCount {
+  return {
+    id: dto.id,
+    codigo: dto.code,
+    estado: STATUS_FROM_DTO[dto.status] ?? "abierto",
+    notas: dto.notes ?? undefined,
+    iniciadoPor: dto.startedBy ?? undefined,
+    iniciadoEn: dto.startedAt,
+    cerradoPor: dto.closedBy ?? undefined,
+    cerradoEn: dto.closedAt ?? undefined,
+    lineas: dto.lines.map((line) => ({
+      productId: line.productId,
+      variantId: line.variantId ?? undefined,
+      contado: line.counted,
+      esperado: line.expected ?? undefined
+    }))
+  };
+}
+
+export async function fetchStockCounts(token: string): Promise<StockCount[]> {
+  const data = await request<StockCountDto[]>("/api/v1/admin/stock-counts", { token });
+  return data.map(mapCount);
+}
+
+export async function createStockCount(notes: string | null, token: string): Promise<StockCount> {
+  const dto = await request<StockCountDto>("/api/v1/admin/stock-counts", { method: "POST", body: { notes }, token });
+  return mapCount(dto);
+}
+
+/** Guarda el avance del conteo; reemplaza todas las líneas. */
+export async function saveStockCountLines(id: string, lines: StockCountLine[], token: string): Promise<StockCount> {
+  const dto = await request<StockCountDto>(`/api/v1/admin/stock-counts/${encodeURIComponent(id)}/lines`, {
+    method: "PUT",
+    body: {
+      lines: lines.map((line) => ({ productId: line.productId, variantId: line.variantId ?? null, counted: line.contado }))
+    },
+    token
+  });
+  return mapCount(dto);
+}
+
+/** Aprueba el conteo: el backend fija el esperado de cada línea y registra los ajustes de stock. */
+export async function approveStockCount(id: string, token: string): Promise<StockCount> {
+  const dto = await request<StockCountDto>(`/api/v1/admin/stock-counts/${encodeURIComponent(id)}/approve`, {
+    method: "POST",
+    token
+  });
+  return mapCount(dto);
+}
+
+export async function cancelStockCount(id: string, token: string): Promise<StockCount> {
+  const dto = await request<StockCountDto>(`/api/v1/admin/stock-counts/${encodeURIComponent(id)}/cancel`, {
+    method: "POST",
+    token
+  });
+  return mapCount(dto);
+}
@@ -1,3 +1,11 @@
+export type ProductVariant = {
+  id: string;
+  label: string;
+  precio: number;
+  stock: number;
+  porciones?: number;
+};
+
 export type Product = {
   id: string;
   nombre: string;
@@ -8,12 +16,114 @@ export type Product = {
   stock: number;
   stockCritico: number;
   descripcion?: string;
+  variants?: ProductVariant[];
+  /** Horas mínimas de anticipación para agendar la entrega. */
+  leadTimeHours?: number;
+};
+
+export type StockLevel = {
+  productId: string;
+  stock: number;
+  variants?: Array<{ id: string; stock: number }>;
+};
+
+export type StockMovementType = "produccion" | "venta" | "merma" | "ajuste" | "devolucion";
+
+export type StockMovement = {
+  id: string;
+  productId: string;
+  variantId?: string;
+  tipo: StockMovementType;
+  /** Variación con signo: positiva entra stock, negativa sale. */
+  cantidad: number;
+  stockResultante: number;
+  motivo?: string;
+  actor?: string;
+  /** Lote afectado (producción que lo creó o merma que lo dio de baja). */
+  lotId?: string;
+  createdAt: number;
+};
+
+/** Unidades de una misma producción; salen primero las que vencen antes (FEFO). */
+export type StockLot = {
+  id: string;
+  productId: string;
+  variantId?: string;
+  codigo: string;
+  cantidadInicial: number;
+  disponible: number;
+  producidoEn: number;
+  /** Fecha de vencimiento (YYYY-MM-DD); vence al terminar ese día. Sin fecha no vence. */
+  venceEl?: string;
+};
+
+export type StockCountStatus = "abierto" | "aprobado" | "anulado";
+
+export type StockCountLine = {
+  productId: string;
+  variantId?: string;
+  contado: number;
+  /** Stock del sistema al aprobar; antes de eso se compara con el stock actual. */
+  esperado?: number;
+};
+
+/** Conteo físico de la sala: queda como documento con quién lo hizo y aprobó. */
+export type StockCount = {
+  id: string;
+  codigo: string;
+  estado: StockCountStatus;
+  notas?: string;
+  iniciadoPor?: string;
+  iniciadoEn: number;
+  cerradoPor?: string;
+  cerradoEn?: number;
+  lineas: StockCountLine[];
+};
+
+export type IngredientUnit = "kg" | "g" | "l" | "ml" | "unidad";
+
+export type Ingredient = {
+  id: string;
+  nombre: string;
+  unidad: IngredientUnit;
+  /** Cantidad en bodega, en la unidad del ingrediente. */
+  disponible: number;
+  minimo: number;
+};
+
+export type RecipeLine = {
+  ingredientId: string;
+  /** Cantidad por unidad de producto, en la unidad del ingrediente. */
+  cantidad: number;
+};
+
+export type Recipe = {
+  productId: string;
+  lineas: RecipeLine[];
+};
+
+export type CakeOptionGroup = "base" | "relleno" | "cobertura" | "decoracion";
+
+export type CakeOption = {
+  id: string;
+  group: CakeOptionGroup;
+  label: string;
+  precio: number;
+};
+
+export type CakeCustomization = {
+  base?: string;
+  relleno?: string;
+  cobertura?: string;
+  decoraciones: string[];
 };
 
 export type CartItem = {
   id: string;
   qty: number;
   msg?: string;
+  variantId?: string;
+  custom?: CakeCustomization;
 };
 
 export type ProductPricing = {
@@ -24,6 +134,7 @@ export type ProductPricing = {
   originalTotal: number;
   discountTotal: number;
   total: number;
+  labels?: string[];
 };
 
 export type UserAddress = {
@@ -35,14 +146,10 @@ export type UserAddress = {
   referencia?: string;
   createdAt: number;
   updatedAt: number;
-<<<<<<< HEAD
-=======
   primary?: boolean;
->>>>>>> master
 };
 
 export type UserPreferences = {
-  defaultShip?: number;
   newsletter?: boolean;
   saveAddress?: boolean;
   addresses?: UserAddress[];
@@ -52,14 +159,9 @@ export type UserPreferences = {
 export type AccountStatus = "active" | "inactive";
 
 export type CustomerUser = {
-<<<<<<< HEAD
-  run: string;
-  tipo: string;
-=======
   id?: string;
   run: string;
   tipo?: string;
->>>>>>> master
   nombre: string;
   apellidos: string;
   email: string;
@@ -68,11 +170,7 @@ export type CustomerUser = {
   comuna: string;
   direccion: string;
   phone?: string;
-<<<<<<< HEAD
-  pass: string;
-=======
   pass?: string;
->>>>>>> master
   promoCode?: string;
   felices50?: boolean;
   createdAt: number;
@@ -82,10 +180,7 @@ export type CustomerUser = {
 };
 
 export type AdminUser = {
-<<<<<<< HEAD
-=======
   id?: string;
->>>>>>> master
   run: string;
   nombre: string;
   apellidos: string;
@@ -95,18 +190,12 @@ export type AdminUser = {
   comuna?: string;
   direccion?: string;
   fnac?: string;
-<<<<<<< HEAD
-};
-
-export type CustomerSession = {
-=======
   phone?: string;
   status?: AccountStatus;
 };
 
 export type CustomerSession = {
   id?: string;
->>>>>>> master
   email: string;
   nombre?: string;
   fnac?: string;
@@ -123,18 +212,33 @@ export type AdminSession = {
   rol: string;
 };
 
+export type CouponType = "ship" | "amount" | "percent";
+
 export type CouponInfo = {
   code: string;
-  type: "ship" | "amount";
+  type: CouponType;
+  /** Monto en CLP para `amount`, fracción (0.15 = 15%) para `percent`. */
   value: number;
   label: string;
+  active?: boolean;
+  minSubtotal?: number;
+  validFrom?: string;
+  validUntil?: string;
+  maxUses?: number;
+  usedCount?: number;
+  maxUsesPerCustomer?: number;
+  categories?: string[];
+  productIds?: string[];
 };
 
 export type CartTotals = {
   items: Array<{
     product: Product;
+    variant?: ProductVariant;
     qty: number;
     msg?: string;
+    custom?: CakeCustomization;
+    customSummary?: string;
     subtotal: number;
     pricing: ProductPricing;
   }>;
@@ -179,17 +283,11 @@ export type BlogPost = {
 
 export type Order = {
   id: string;
-<<<<<<< HEAD
-  cliente: string;
-  total: number;
-  estado: string;
-=======
   orderCode?: string;
   cliente: string;
   total: number;
   estado: string;
   statusRaw?: string;
->>>>>>> master
   items: OrderItem[];
   subtotal: number;
   discountTotal: number;
@@ -199,11 +297,101 @@ export type Order = {
   benefitsApplied?: string[];
   couponCode?: string;
   couponLabel?: string;
+  deliveryDate?: string;
+  deliverySlot?: string;
+  fulfillment?: FulfillmentMethod;
+  pickupLocation?: string;
+  pickupCode?: string;
+  pickedUpAt?: number;
+  statusHistory?: OrderStatusChange[];
+  refunds?: OrderRefund[];
+};
+
+export type OrderRefundItem = {
+  codigo: string;
+  variantId?: string;
+  qty: number;
+};
+
+export type OrderRefund = {
+  id: string;
+  monto: number;
+  motivo: string;
+  items: OrderRefundItem[];
+  /** Si las unidades devueltas volvieron al stock. */
+  repuesto: boolean;
+  createdAt: number;
+  actor?: string;
+};
+
+export type OrderPage = {
+  items: Order[];
+  /** Página actual, desde 1. */
+  page: number;
+  pageSize: number;
+  totalItems: number;
+  totalPages: number;
+};
+
+/** Conteo de todos los pedidos por estado, calculado en el servidor. */
+export type OrderSummary = {
+  total: number;
+  porEstado: Record<string, number>;
+};
+
+export type OrderStatusChange = {
+  estado: string;
+  at: number;
+  desde?: string;
+  actor?: string;
+  nota?: string;
+};
+
+export type FulfillmentMethod = "delivery" | "pickup";
+
+export type PickupLocation = {
+  id: string;
+  nombre: string;
+  direccion: string;
+  comuna: string;
+  horario?: string;
+};
+
+export type ShippingZone = {
+  id: string;
+  nombre: string;
+  region: string;
+  /** Comunas cubiertas por la zona; vacío = toda la región. */
+  comunas: string[];
+  costo: number;
+  /** Subtotal desde el cual el envío es gratis. */
+  envioGratisDesde?: number;
+  /** Marca comunas o regiones donde no se despacha. */
+  sinCobertura?: boolean;
+};
+
+export type DeliverySlot = {
+  id: string;
+  label: string;
+  /** Hora de inicio en formato HH:mm. */
+  inicio: string;
+  fin: string;
+  capacidad: number;
+};
+
+export type DeliverySchedule = {
+  slots: DeliverySlot[];
+  /** Fechas bloqueadas (YYYY-MM-DD). */
+  holidays: string[];
+  /** Pedidos ya agendados por `fecha|slotId`. */
+  booked: Record<string, number>;
 };
 
 export type OrderItem = {
   codigo: string;
   nombre: string;
+  variantId?: string;
+  variantLabel?: string;
   qty: number;
   unitPrice: number;
   originalUnitPrice: number;
@@ -211,4 +399,5 @@ export type OrderItem = {
   subtotal: number;
   originalSubtotal: number;
   benefitLabels?: string[];
+  note?: string;
 };
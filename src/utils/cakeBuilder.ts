@@ -0,0 +1,98 @@
+import type { CakeCustomization, CakeOption, CakeOptionGroup } from "../types";
+
+export const CUSTOM_CAKE_CATEGORY = "Tortas Especiales";
+
+export const CAKE_GROUP_LABEL: Record<CakeOptionGroup, string> = {
+  base: "Bizcocho",
+  relleno: "Relleno",
+  cobertura: "Cobertura",
+  decoracion: "Decoración"
+};
+
+const SINGLE_GROUPS: Array<Exclude<CakeOptionGroup, "decoracion">> = ["base", "relleno", "cobertura"];
+
+export function optionsByGroup(options: CakeOption[], group: CakeOptionGroup): CakeOption[] {
+  return options.filter((option) => option.group === group);
+}
+
+export function defaultCustomization(options: CakeOption[]): CakeCustomization {
+  return {
+    base: optionsByGroup(options, "base")[0]?.id,
+    relleno: optionsByGroup(options, "relleno")[0]?.id,
+    cobertura: optionsByGroup(options, "cobertura")[0]?.id,
+    decoraciones: []
+  };
+}
+
+function selectedOptions(custom: CakeCustomization, options: CakeOption[]): CakeOption[] {
+  const ids = [...SINGLE_GROUPS.map((group) => custom[group]), ...custom.decoraciones];
+  return ids
+    .map((id) => options.find((option) => option.id === id))
+    .filter((option): option is CakeOption => Boolean(option));
+}
+
+export function customizationPrice(custom: CakeCustomization | undefined, options: CakeOption[]): number {
+  if (!custom) return 0;
+  return selectedOptions(custom, options).reduce((sum, option) => sum + option.precio, 0);
+}
+
+export function describeCustomization(custom: CakeCustomization | undefined, options: CakeOption[]): string {
+  if (!custom) return "";
+  const parts: string[] = [];
+  for (const group of SINGLE_GROUPS) {
+    const option = options.find((entry) => entry.id === custom[group]);
+    if (option) parts.push(`${CAKE_GROUP_LABEL[group]}: ${option.label}`);
+  }
+  const decorations = custom.decoraciones
+    .map((id) => options.find((entry) => entry.id === id)?.label)
+    .filter(Boolean);
+  if (decorations.length) {
+    parts.push(`${CAKE_GROUP_LABEL.decoracion}: ${decorations.join(", ")}`);
+  }
+  return parts.join(" · ");
+}
+
+export function customizationKey(custom: CakeCustomization | undefined): string {
+  if (!custom) return "";
+  const decorations = [...custom.decoraciones].sort().join(",");
+  return [custom.base ?? "", custom.relleno ?? "", custom.cobertura ?? "", decorations].join("|");
+}
+
+export function buildItemNote(summary: string | undefined, msg: string | undefined): string | null {
+  const message = msg?.trim();
+  if (!summary) return message || null;
+  return message ? `${summary} · Mensaje: ${message}` : summary;
+}
+
+const NOTE_MESSAGE_MARKER = " · Mensaje: ";
+
+/**
+ * Inverso de `buildItemNote`: recupera la personalización y el mensaje guardados en el pedido.
+ * `missing` lista las opciones que ya no existen en el catálogo.
+ */
+export function parseItemNote(
+  note: string | undefined,
+  options: CakeOption[]
+): { custom?: CakeCustomization; msg?: string; missing: string[] } {
+  if (!note) return { missing: [] };
+  const at = note.indexOf(NOTE_MESSAGE_MARKER);
+  const summary = at >= 0 ? note.slice(0, at) : note;
+  const msg = at >= 0 ? note.slice(at + NOTE_MESSAGE_MARKER.length) : undefined;
+  const groups = Object.keys(CAKE_GROUP_LABEL) as CakeOptionGroup[];
+  const custom: CakeCustomization = { decoraciones: [] };
+  const missing: string[] = [];
+  for (const part of summary.split(" · ")) {
+    const separator = part.indexOf(": ");
+    const group = groups.find((entry) => CAKE_GROUP_LABEL[entry] === part.slice(0, separator));
+    // Sin grupos reconocibles la nota es solo el mensaje del cliente.
+    if (separator < 0 || !group) return { msg: note, missing: [] };
+    const labels = group === "decoracion" ? part.slice(separator + 2).split(", ") : [part.slice(separator + 2)];
+    for (const label of labels) {
+      const option = options.find((entry) => entry.group === group && entry.label === label);
+      if (!option) missing.push(label);
+      else if (group === "decoracion") custom.decoraciones.push(option.id);
+      else custom[group] = option.id;
+    }
+  }
+  return { custom, msg, missing };
+}
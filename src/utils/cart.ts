@@ -0,0 +1,18 @@
+import type { CakeCustomization, CartItem } from "../types";
+import { customizationKey } from "./cakeBuilder";
+
+/** Dos líneas se juntan solo si coinciden producto, mensaje, variante y personalización. */
+export function isSameCartLine(
+  item: CartItem,
+  id: string,
+  msg: string,
+  variantId: string,
+  custom?: CakeCustomization
+): boolean {
+  return (
+    item.id === id &&
+    (item.msg || "") === msg &&
+    (item.variantId || "") === variantId &&
+    customizationKey(item.custom) === customizationKey(custom)
+  );
+}
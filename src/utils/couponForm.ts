@@ -0,0 +1,101 @@
+import type { CouponInfo, CouponType } from "../types";
+
+export type CouponFormValues = {
+  code: string;
+  label: string;
+  type: CouponType;
+  value: string;
+  minSubtotal: string;
+  validFrom: string;
+  validUntil: string;
+  maxUses: string;
+  maxUsesPerCustomer: string;
+  categories: string[];
+  productIds: string;
+  active: boolean;
+};
+
+export const EMPTY_COUPON_FORM: CouponFormValues = {
+  code: "",
+  label: "",
+  type: "amount",
+  value: "",
+  minSubtotal: "",
+  validFrom: "",
+  validUntil: "",
+  maxUses: "",
+  maxUsesPerCustomer: "",
+  categories: [],
+  productIds: "",
+  active: true
+};
+
+const optionalNumber = (value: string) => (value.trim() === "" ? undefined : Number(value));
+
+export function couponToForm(coupon: CouponInfo): CouponFormValues {
+  return {
+    code: coupon.code,
+    label: coupon.label,
+    type: coupon.type,
+    value: coupon.type === "percent" ? String(Math.round(coupon.value * 100)) : String(coupon.value),
+    minSubtotal: coupon.minSubtotal != null ? String(coupon.minSubtotal) : "",
+    validFrom: coupon.validFrom?.slice(0, 10) ?? "",
+    validUntil: coupon.validUntil?.slice(0, 10) ?? "",
+    maxUses: coupon.maxUses != null ? String(coupon.maxUses) : "",
+    maxUsesPerCustomer: coupon.maxUsesPerCustomer != null ? String(coupon.maxUsesPerCustomer) : "",
+    categories: coupon.categories ?? [],
+    productIds: (coupon.productIds ?? []).join(", "),
+    active: coupon.active !== false
+  };
+}
+
+export function couponFromForm(form: CouponFormValues, usedCount?: number): CouponInfo {
+  const rawValue = Number(form.value) || 0;
+  const productIds = form.productIds
+    .split(",")
+    .map((entry) => entry.trim().toUpperCase())
+    .filter(Boolean);
+  return {
+    code: form.code.trim().toUpperCase(),
+    label: form.label.trim(),
+    type: form.type,
+    value: form.type === "percent" ? rawValue / 100 : form.type === "ship" ? 0 : rawValue,
+    active: form.active,
+    minSubtotal: optionalNumber(form.minSubtotal),
+    validFrom: form.validFrom || undefined,
+    validUntil: form.validUntil || undefined,
+    maxUses: optionalNumber(form.maxUses),
+    usedCount,
+    maxUsesPerCustomer: optionalNumber(form.maxUsesPerCustomer),
+    categories: form.categories.length ? form.categories : undefined,
+    productIds: productIds.length ? productIds : undefined
+  };
+}
+
+export function validateCouponForm(form: CouponFormValues, isNew: boolean, existing: CouponInfo[]): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const code = form.code.trim().toUpperCase();
+  if (!/^[A-Z0-9_-]{3,20}$/.test(code)) {
+    errors.code = "Usa entre 3 y 20 letras, números, guiones o guiones bajos";
+  } else if (isNew && existing.some((coupon) => coupon.code === code)) {
+    errors.code = "Ya existe un cupón con ese código";
+  }
+  if (!form.label.trim()) errors.label = "Ingresa una descripción visible para el cliente";
+  const value = Number(form.value);
+  if (form.type === "amount" && (!Number.isFinite(value) || value <= 0)) {
+    errors.value = "Ingresa un monto mayor a 0";
+  }
+  if (form.type === "percent" && (!Number.isFinite(value) || value <= 0 || value > 100)) {
+    errors.value = "Ingresa un porcentaje entre 1 y 100";
+  }
+  for (const field of ["minSubtotal", "maxUses", "maxUsesPerCustomer"] as const) {
+    const parsed = optionalNumber(form[field]);
+    if (parsed !== undefined && (!Number.isFinite(parsed) || parsed < 0)) {
+      errors[field] = "Debe ser un número positivo";
+    }
+  }
+  if (form.validFrom && form.validUntil && form.validFrom > form.validUntil) {
+    errors.validUntil = "La fecha de término debe ser posterior al inicio";
+  }
+  return errors;
+}
@@ -0,0 +1,141 @@
+import type { CartTotals, CouponInfo, Order } from "../types";
+import { parseLocalDate } from "./dates";
+import { formatMoney } from "./format";
+
+export type CouponEval = {
+  valid: boolean;
+  discount: number;
+  shipAfter: number;
+  label?: string;
+  code?: string;
+  /** Motivo legible cuando el cupón ingresado no aplica. */
+  reason?: string;
+};
+
+export type CouponCheckInput = {
+  subTotal: number;
+  shipCost: number;
+  items?: CartTotals["items"];
+  /** Veces que el cliente actual ya usó el cupón. */
+  customerUses?: number;
+  now?: Date;
+};
+
+function parseBoundary(value: string | undefined, endOfDay: boolean): Date | null {
+  if (!value) return null;
+  const localDate = parseLocalDate(value);
+  if (localDate) {
+    if (endOfDay) localDate.setHours(23, 59, 59, 999);
+    return localDate;
+  }
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+const formatDay = (date: Date) => date.toLocaleDateString("es-CL");
+
+export function isScoped(coupon: CouponInfo): boolean {
+  return Boolean(coupon.categories?.length || coupon.productIds?.length);
+}
+
+export function couponAppliesToItem(coupon: CouponInfo, item: CartTotals["items"][number]): boolean {
+  if (!isScoped(coupon)) return true;
+  const categories = (coupon.categories ?? []).map((entry) => entry.toLowerCase());
+  if (coupon.productIds?.includes(item.product.id)) return true;
+  return categories.includes((item.product.categoria || "").toLowerCase());
+}
+
+export function describeCouponValue(coupon: Pick<CouponInfo, "type" | "value">): string {
+  if (coupon.type === "ship") return "Envío gratis";
+  if (coupon.type === "percent") return `${Math.round(coupon.value * 100)}% OFF`;
+  return `${formatMoney(coupon.value)} OFF`;
+}
+
+/**
+ * Valida un cupón contra el carrito y calcula su efecto. Cuando no aplica,
+ * `reason` explica por qué para mostrarlo en el checkout.
+ */
+export function checkCoupon(coupon: CouponInfo, input: CouponCheckInput): CouponEval {
+  const { subTotal, shipCost, items, customerUses = 0 } = input;
+  const now = input.now ?? new Date();
+  const reject = (reason: string): CouponEval => ({
+    valid: false,
+    discount: 0,
+    shipAfter: shipCost,
+    code: coupon.code,
+    reason
+  });
+
+  if (coupon.active === false) return reject(`El cupón ${coupon.code} no está disponible.`);
+
+  const from = parseBoundary(coupon.validFrom, false);
+  if (from && now < from) return reject(`El cupón ${coupon.code} es válido desde el ${formatDay(from)}.`);
+  const until = parseBoundary(coupon.validUntil, true);
+  if (until && now > until) return reject(`El cupón ${coupon.code} venció el ${formatDay(until)}.`);
+
+  if (typeof coupon.maxUses === "number" && (coupon.usedCount ?? 0) >= coupon.maxUses) {
+    return reject(`El cupón ${coupon.code} alcanzó su límite de usos.`);
+  }
+  if (typeof coupon.maxUsesPerCustomer === "number" && customerUses >= coupon.maxUsesPerCustomer) {
+    return reject(
+      coupon.maxUsesPerCustomer === 1
+        ? `Ya usaste el cupón ${coupon.code}.`
+        : `Ya usaste el cupón ${coupon.code} ${coupon.maxUsesPerCustomer} veces.`
+    );
+  }
+
+  if (coupon.minSubtotal && subTotal < coupon.minSubtotal) {
+    return reject(`El cupón ${coupon.code} requiere una compra mínima de ${formatMoney(coupon.minSubtotal)}.`);
+  }
+
+  let eligibleBase = subTotal;
+  if (isScoped(coupon)) {
+    const eligible = (items ?? []).filter((item) => couponAppliesToItem(coupon, item));
+    if (!eligible.length) return reject(`El cupón ${coupon.code} no aplica a los productos de tu carrito.`);
+    eligibleBase = Math.min(
+      subTotal,
+      eligible.reduce((sum, item) => sum + item.pricing.total, 0)
+    );
+  }
+
+  const accepted = { valid: true, label: coupon.label, code: coupon.code };
+  if (coupon.type === "ship") {
+    return { ...accepted, discount: 0, shipAfter: 0 };
+  }
+  if (coupon.type === "percent") {
+    const percent = Math.min(1, Math.max(0, coupon.value));
+    return { ...accepted, discount: Math.round(eligibleBase * percent), shipAfter: shipCost };
+  }
+  return { ...accepted, discount: Math.max(0, Math.min(eligibleBase, coupon.value)), shipAfter: shipCost };
+}
+
+/**
+ * Pedidos que usaron cada cupón, con la misma regla que aplica el checkout:
+ * los cancelados no cuentan. Con `email` solo cuenta los de ese cliente.
+ */
+export function couponUses(orders: Order[], email?: string | null): Record<string, number> {
+  const uses: Record<string, number> = {};
+  const customer = email?.toLowerCase();
+  for (const order of orders) {
+    if (!order.couponCode || order.estado === "Cancelado") continue;
+    if (customer && order.customerEmail && order.customerEmail.toLowerCase() !== customer) continue;
+    const code = order.couponCode.toUpperCase();
+    uses[code] = (uses[code] ?? 0) + 1;
+  }
+  return uses;
+}
+
+export function describeCouponLimits(coupon: CouponInfo): string {
+  const parts: string[] = [];
+  if (coupon.minSubtotal) parts.push(`Mín. ${formatMoney(coupon.minSubtotal)}`);
+  if (coupon.maxUses != null) parts.push(`${coupon.usedCount ?? 0}/${coupon.maxUses} usos`);
+  if (coupon.maxUsesPerCustomer != null) parts.push(`${coupon.maxUsesPerCustomer} por cliente`);
+  if (coupon.categories?.length) parts.push(coupon.categories.join(", "));
+  if (coupon.productIds?.length) parts.push(coupon.productIds.join(", "));
+  return parts.join(" · ") || "Sin restricciones";
+}
+
+export function describeCouponWindow(coupon: Pick<CouponInfo, "validFrom" | "validUntil">): string {
+  if (!coupon.validFrom && !coupon.validUntil) return "Siempre";
+  return `${coupon.validFrom?.slice(0, 10) ?? "…"} → ${coupon.validUntil?.slice(0, 10) ?? "…"}`;
+}
@@ -0,0 +1,113 @@
+import type { DeliverySchedule, DeliverySlot, Order, Product } from "../types";
+import { parseLocalDate } from "./dates";
+
+export const DEFAULT_LEAD_TIME_HOURS = 24;
+export const DELIVERY_WINDOW_DAYS = 14;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type DeliverySlotOption = {
+  slot: DeliverySlot;
+  remaining: number;
+  available: boolean;
+};
+
+export type DeliveryDay = {
+  date: string;
+  holiday: boolean;
+  slots: DeliverySlotOption[];
+};
+
+export function toIsoDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function addDays(date: Date, days: number): Date {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
+/** La anticipación del pedido la define el producto más exigente del carrito. */
+export function requiredLeadTime(items: Array<{ product: Product }>): number {
+  return items.reduce(
+    (max, { product }) => Math.max(max, product.leadTimeHours ?? DEFAULT_LEAD_TIME_HOURS),
+    items.length ? 0 : DEFAULT_LEAD_TIME_HOURS
+  );
+}
+
+export function slotStart(date: string, slot: DeliverySlot): Date | null {
+  const day = parseLocalDate(date);
+  if (!day) return null;
+  const [hours, minutes] = slot.inicio.split(":").map(Number);
+  day.setHours(hours || 0, minutes || 0, 0, 0);
+  return day;
+}
+
+export function slotRemaining(schedule: DeliverySchedule, date: string, slot: DeliverySlot): number {
+  return Math.max(0, slot.capacidad - (schedule.booked[`${date}|${slot.id}`] ?? 0));
+}
+
+export function isSlotAvailable(
+  schedule: DeliverySchedule,
+  date: string,
+  slot: DeliverySlot,
+  leadHours: number,
+  now = new Date()
+): boolean {
+  if (schedule.holidays.includes(date)) return false;
+  const start = slotStart(date, slot);
+  if (!start || start.getTime() < now.getTime() + leadHours * HOUR_MS) return false;
+  return slotRemaining(schedule, date, slot) > 0;
+}
+
+export function deliveryDays(
+  schedule: DeliverySchedule,
+  leadHours: number,
+  now = new Date(),
+  days = DELIVERY_WINDOW_DAYS
+): DeliveryDay[] {
+  const firstDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  return Array.from({ length: days }, (_, index) => {
+    const date = toIsoDate(addDays(firstDay, index));
+    return {
+      date,
+      holiday: schedule.holidays.includes(date),
+      slots: schedule.slots.map((slot) => ({
+        slot,
+        remaining: slotRemaining(schedule, date, slot),
+        available: isSlotAvailable(schedule, date, slot, leadHours, now)
+      }))
+    };
+  });
+}
+
+export function formatDeliveryDate(date: string): string {
+  const parsed = parseLocalDate(date);
+  if (!parsed) return date;
+  return parsed.toLocaleDateString("es-CL", { weekday: "long", day: "numeric", month: "long" });
+}
+
+export function describeDelivery(date: string, slotLabel?: string): string {
+  const day = formatDeliveryDate(date);
+  return slotLabel ? `${day} · ${slotLabel}` : day;
+}
+
+export function describeFulfillment(order: Pick<Order, "fulfillment" | "pickupLocation" | "deliveryDate" | "deliverySlot">): string {
+  const when = order.deliveryDate ? describeDelivery(order.deliveryDate, order.deliverySlot) : "";
+  if (order.fulfillment === "pickup") {
+    const where = order.pickupLocation ? `Retiro en ${order.pickupLocation}` : "Retiro en tienda";
+    return when ? `${where} · ${when}` : where;
+  }
+  return when || "Sin agendar";
+}
+
+/** Hora comprometida del pedido: inicio de la franja agendada o el día sin hora. */
+export function orderDueAt(order: Pick<Order, "deliveryDate" | "deliverySlot">): Date | null {
+  const day = parseLocalDate(order.deliveryDate);
+  if (!day) return null;
+  const match = /(\d{1,2}):(\d{2})/.exec(order.deliverySlot ?? "");
+  if (match) day.setHours(Number(match[1]), Number(match[2]), 0, 0);
+  return day;
+}
@@ -6,6 +6,10 @@ export function formatMoney(value: number, locale = "es-CL"): string {
   });
 }
 
+/** Escapa texto libre (mensajes, notas) antes de insertarlo en HTML generado a mano. */
+export const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
 export function describeBenefitLabel(label: string): { title: string; detail?: string } {
   const text = label?.trim() || "";
   if (!text) {
@@ -0,0 +1,159 @@
+import type { Order, OrderItem, Product, StockLot, StockMovement } from "../types";
+import { toIsoDate } from "./delivery";
+
+/** Motivo con que se registra la merma de un lote vencido; la usa el reporte de pérdidas. */
+export const EXPIRED_WASTE_REASON = "Producto vencido";
+
+/** Estados en que las unidades salen de la tienda y se descuentan de los lotes. */
+export const FULFILLMENT_STATES = ["Despachado", "Entregado"];
+
+/** Días de vida útil sugeridos al registrar una producción. */
+export const DEFAULT_SHELF_LIFE_DAYS = 2;
+
+export type LotStatus = "vencido" | "venceHoy" | "vigente";
+
+export function lotStatus(lot: Pick<StockLot, "venceEl">, today = toIsoDate(new Date())): LotStatus {
+  if (!lot.venceEl || lot.venceEl > today) return "vigente";
+  return lot.venceEl === today ? "venceHoy" : "vencido";
+}
+
+/** Orden FEFO: primero lo que vence antes; sin vencimiento al final y, a igual fecha, lo más antiguo. */
+export function sortFefo(lots: StockLot[]): StockLot[] {
+  return [...lots].sort(
+    (a, b) => (a.venceEl ?? "9999-12-31").localeCompare(b.venceEl ?? "9999-12-31") || a.producidoEn - b.producidoEn
+  );
+}
+
+export type LotAllocation = { lot: StockLot; cantidad: number };
+
+/** Lotes vigentes de los que saldrían `qty` unidades; los vencidos no se venden. */
+export function allocateFefo(
+  lots: StockLot[],
+  productId: string,
+  variantId: string | undefined,
+  qty: number,
+  today = toIsoDate(new Date())
+): { asignaciones: LotAllocation[]; faltante: number } {
+  const asignaciones: LotAllocation[] = [];
+  let pendiente = qty;
+  const candidates = sortFefo(
+    lots.filter(
+      (lot) =>
+        lot.productId === productId &&
+        (lot.variantId ?? "") === (variantId ?? "") &&
+        lot.disponible > 0 &&
+        lotStatus(lot, today) !== "vencido"
+    )
+  );
+  for (const lot of candidates) {
+    if (pendiente <= 0) break;
+    const cantidad = Math.min(lot.disponible, pendiente);
+    asignaciones.push({ lot, cantidad });
+    pendiente -= cantidad;
+  }
+  return { asignaciones, faltante: pendiente };
+}
+
+/** Descuenta los ítems de un pedido de los lotes con el mismo criterio FEFO del backend. */
+export function consumeFefo(
+  lots: StockLot[],
+  items: Array<Pick<OrderItem, "codigo" | "variantId" | "qty">>,
+  today = toIsoDate(new Date())
+): StockLot[] {
+  let next = lots;
+  for (const item of items) {
+    const { asignaciones } = allocateFefo(next, item.codigo, item.variantId, item.qty, today);
+    next = next
+      .map((lot) => {
+        const used = asignaciones.find((entry) => entry.lot.id === lot.id)?.cantidad ?? 0;
+        return used ? { ...lot, disponible: lot.disponible - used } : lot;
+      })
+      .filter((lot) => lot.disponible > 0);
+  }
+  return next;
+}
+
+/**
+ * Unidades de cada lote ya vendidas en pedidos que aún no se despachan. El stock del producto
+ * baja al vender pero el lote recién al despachar, así que esas unidades no son merma. Se asignan
+ * como lo haría el despacho (FEFO entre los vigentes) y lo que no alcanza queda en los vencidos.
+ */
+export function reservedByLot(
+  lots: StockLot[],
+  orders: Array<Pick<Order, "estado" | "items">>,
+  today = toIsoDate(new Date())
+): Record<string, number> {
+  const reservado: Record<string, number> = {};
+  const abiertos = orders.filter((order) => order.estado !== "Cancelado" && !FULFILLMENT_STATES.includes(order.estado));
+  for (const order of abiertos) {
+    for (const item of order.items) {
+      const own = lots.filter(
+        (lot) => lot.productId === item.codigo && (lot.variantId ?? "") === (item.variantId ?? "")
+      );
+      const vigentes = sortFefo(own.filter((lot) => lotStatus(lot, today) !== "vencido"));
+      const vencidos = sortFefo(own.filter((lot) => lotStatus(lot, today) === "vencido"));
+      let pendiente = item.qty;
+      for (const lot of [...vigentes, ...vencidos]) {
+        if (pendiente <= 0) break;
+        const cantidad = Math.min(lot.disponible - (reservado[lot.id] ?? 0), pendiente);
+        if (cantidad <= 0) continue;
+        reservado[lot.id] = (reservado[lot.id] ?? 0) + cantidad;
+        pendiente -= cantidad;
+      }
+    }
+  }
+  return reservado;
+}
+
+export type LotAttention = {
+  lot: StockLot;
+  /** Unidades comprometidas con pedidos abiertos. */
+  reservado: number;
+  /** Unidades que se pueden dar de baja como merma. */
+  libre: number;
+};
+
+/** Lotes con unidades que vencen hoy o ya vencieron, los vencidos primero. */
+export function lotsNeedingAttention(
+  lots: StockLot[],
+  orders: Array<Pick<Order, "estado" | "items">> = [],
+  today = toIsoDate(new Date())
+): LotAttention[] {
+  const reservado = reservedByLot(lots, orders, today);
+  return sortFefo(lots.filter((lot) => lot.disponible > 0 && lotStatus(lot, today) !== "vigente")).map((lot) => ({
+    lot,
+    reservado: reservado[lot.id] ?? 0,
+    libre: lot.disponible - (reservado[lot.id] ?? 0)
+  }));
+}
+
+export type WasteRow = {
+  product: Pick<Product, "id" | "nombre">;
+  unidades: number;
+  /** Valor a precio de venta de lo perdido. */
+  valor: number;
+  registros: number;
+};
+
+/** Agrupa por producto las mermas por vencimiento, de mayor a menor pérdida. */
+export function buildExpiredWasteReport(movements: StockMovement[], products: Product[]): WasteRow[] {
+  const rows = new Map<string, WasteRow>();
+  movements
+    .filter((movement) => movement.tipo === "merma" && movement.motivo === EXPIRED_WASTE_REASON)
+    .forEach((movement) => {
+      const product = products.find((entry) => entry.id === movement.productId);
+      const variant = product?.variants?.find((entry) => entry.id === movement.variantId);
+      const row = rows.get(movement.productId) ?? {
+        product: { id: movement.productId, nombre: product?.nombre ?? movement.productId },
+        unidades: 0,
+        valor: 0,
+        registros: 0
+      };
+      const unidades = Math.abs(movement.cantidad);
+      row.unidades += unidades;
+      row.valor += unidades * (variant?.precio ?? product?.precio ?? 0);
+      row.registros += 1;
+      rows.set(movement.productId, row);
+    });
+  return Array.from(rows.values()).sort((a, b) => b.valor - a.valor || b.unidades - a.unidades);
+}
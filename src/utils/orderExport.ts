@@ -0,0 +1,135 @@
+import type { Order } from "../types";
+import { describeFulfillment } from "./delivery";
+import { buildXlsx, XLSX_MIME } from "./xlsx";
+import type { CellValue, Sheet } from "./xlsx";
+
+const joinLabels = (labels?: string[]) => (labels?.length ? labels.join(" | ") : "");
+
+export function ordersSheet(orders: Order[]): Sheet {
+  return {
+    name: "Pedidos",
+    columns: [
+      { header: "Pedido", type: "text", width: 14 },
+      { header: "Fecha", type: "date", width: 18 },
+      { header: "Cliente", type: "text", width: 24 },
+      { header: "Correo", type: "text", width: 28 },
+      { header: "Estado", type: "text", width: 12 },
+      { header: "Entrega", type: "text", width: 32 },
+      { header: "Subtotal", type: "money", width: 12 },
+      { header: "Descuentos", type: "money", width: 12 },
+      { header: "Envío", type: "money", width: 10 },
+      { header: "Total", type: "money", width: 12 },
+      { header: "Cupón", type: "text", width: 14 },
+      { header: "Beneficios", type: "text", width: 40 }
+    ],
+    rows: orders.map((order) => [
+      order.orderCode ?? order.id,
+      order.createdAt,
+      order.cliente,
+      order.customerEmail ?? "",
+      order.estado,
+      describeFulfillment(order),
+      order.subtotal,
+      order.discountTotal,
+      order.shippingCost,
+      order.total,
+      order.couponCode ?? "",
+      joinLabels(order.benefitsApplied)
+    ])
+  };
+}
+
+export function orderItemsSheet(orders: Order[]): Sheet {
+  return {
+    name: "Ítems",
+    columns: [
+      { header: "Pedido", type: "text", width: 14 },
+      { header: "Fecha", type: "date", width: 18 },
+      { header: "Estado", type: "text", width: 12 },
+      { header: "Código", type: "text", width: 12 },
+      { header: "Producto", type: "text", width: 30 },
+      { header: "Variante", type: "text", width: 14 },
+      { header: "Cantidad", type: "number", width: 10 },
+      { header: "Precio unitario original", type: "money", width: 14 },
+      { header: "Descuento por unidad", type: "money", width: 14 },
+      { header: "Precio unitario", type: "money", width: 14 },
+      { header: "Subtotal", type: "money", width: 12 },
+      { header: "Beneficios", type: "text", width: 40 },
+      { header: "Cupón del pedido", type: "text", width: 14 }
+    ],
+    rows: orders.flatMap((order) =>
+      order.items.map((item): CellValue[] => [
+        order.orderCode ?? order.id,
+        order.createdAt,
+        order.estado,
+        item.codigo,
+        item.nombre,
+        item.variantLabel ?? "",
+        item.qty,
+        item.originalUnitPrice,
+        item.discountPerUnit,
+        item.unitPrice,
+        item.subtotal,
+        joinLabels(item.benefitLabels),
+        order.couponCode ?? ""
+      ])
+    )
+  };
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const csvDate = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${pad(date.getDate())}-${pad(date.getMonth() + 1)}-${date.getFullYear()} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const csvCell = (value: string) => (/[";\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * CSV para Excel en configuración regional chilena: separador ";" y BOM UTF-8
+ * para que respete los acentos. Los montos CLP van como enteros, sin símbolo,
+ * para que se puedan sumar.
+ */
+export function sheetToCsv(sheet: Sheet): string {
+  const header = sheet.columns.map((column) => csvCell(column.header)).join(";");
+  const lines = sheet.rows.map((row) =>
+    sheet.columns
+      .map((column, index) => {
+        const value = row[index];
+        if (value === null || value === undefined) return "";
+        if (column.type === "date" && typeof value === "number") return csvDate(value);
+        if (column.type === "money" && typeof value === "number") return String(Math.round(value));
+        return csvCell(String(value));
+      })
+      .join(";")
+  );
+  return `\uFEFF${[header, ...lines].join("\r\n")}\r\n`;
+}
+
+export type ExportFormat = "csv-pedidos" | "csv-items" | "xlsx";
+
+export function buildOrderExport(orders: Order[], format: ExportFormat, stamp: string): { filename: string; blob: Blob } {
+  if (format === "xlsx") {
+    return {
+      filename: `pedidos-${stamp}.xlsx`,
+      blob: new Blob([buildXlsx([ordersSheet(orders), orderItemsSheet(orders)]) as BlobPart], { type: XLSX_MIME })
+    };
+  }
+  const sheet = format === "csv-items" ? orderItemsSheet(orders) : ordersSheet(orders);
+  return {
+    filename: `${format === "csv-items" ? "pedidos-items" : "pedidos"}-${stamp}.csv`,
+    blob: new Blob([sheetToCsv(sheet)], { type: "text/csv;charset=utf-8" })
+  };
+}
+
+export function downloadBlob(filename: string, blob: Blob): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
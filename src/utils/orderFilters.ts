@@ -0,0 +1,76 @@
+export type OrderSortField = "fecha" | "total" | "cliente";
+export type SortDirection = "asc" | "desc";
+
+export type OrderFilters = {
+  estado: string;
+  desde: string;
+  hasta: string;
+  cliente: string;
+  cupon: string;
+  min: string;
+  max: string;
+  orden: OrderSortField;
+  dir: SortDirection;
+  pagina: number;
+  porPagina: number;
+};
+
+export const PAGE_SIZES = [20, 50, 100];
+
+/** Días de pedidos que el panel mantiene en memoria; lo anterior se consulta paginado. */
+export const RECENT_ORDERS_DAYS = 30;
+
+export const DEFAULT_ORDER_FILTERS: OrderFilters = {
+  estado: "",
+  desde: "",
+  hasta: "",
+  cliente: "",
+  cupon: "",
+  min: "",
+  max: "",
+  orden: "fecha",
+  dir: "desc",
+  pagina: 1,
+  porPagina: PAGE_SIZES[0]
+};
+
+const TEXT_KEYS = ["estado", "desde", "hasta", "cliente", "cupon", "min", "max"] as const;
+const SORT_FIELDS: OrderSortField[] = ["fecha", "total", "cliente"];
+
+const positiveInt = (value: string | null, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/** Lee los filtros desde la URL; valores desconocidos vuelven al predeterminado. */
+export function parseOrderFilters(params: URLSearchParams): OrderFilters {
+  const filters: OrderFilters = { ...DEFAULT_ORDER_FILTERS };
+  TEXT_KEYS.forEach((key) => {
+    filters[key] = params.get(key)?.trim() ?? "";
+  });
+  // Un monto que no es número (p. ej. editado a mano en la URL) se ignora.
+  (["min", "max"] as const).forEach((key) => {
+    if (filters[key] && !Number.isFinite(Number(filters[key]))) filters[key] = "";
+  });
+  const orden = params.get("orden") as OrderSortField | null;
+  if (orden && SORT_FIELDS.includes(orden)) filters.orden = orden;
+  if (params.get("dir") === "asc") filters.dir = "asc";
+  filters.pagina = positiveInt(params.get("pagina"), 1);
+  const porPagina = positiveInt(params.get("porPagina"), DEFAULT_ORDER_FILTERS.porPagina);
+  filters.porPagina = PAGE_SIZES.includes(porPagina) ? porPagina : DEFAULT_ORDER_FILTERS.porPagina;
+  return filters;
+}
+
+/** Serializa solo lo que difiere del predeterminado para que el enlace quede corto. */
+export function orderFiltersToParams(filters: OrderFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  (Object.keys(DEFAULT_ORDER_FILTERS) as Array<keyof OrderFilters>).forEach((key) => {
+    const value = String(filters[key]).trim();
+    if (value && value !== String(DEFAULT_ORDER_FILTERS[key])) params.set(key, value);
+  });
+  return params;
+}
+
+export function hasActiveFilters(filters: OrderFilters): boolean {
+  return TEXT_KEYS.some((key) => filters[key] !== "");
+}
@@ -0,0 +1,89 @@
+import type { Order } from "../types";
+
+/** Flujo normal de un pedido; "Cancelado" queda fuera porque corta el flujo. */
+export const ORDER_FLOW = ["Pendiente", "Preparando", "Despachado", "Entregado"];
+
+export const ORDER_STATES = [...ORDER_FLOW, "Cancelado"];
+
+export type OrderTransition = {
+  to: string;
+  /** Roles del personal que pueden aplicar el cambio. */
+  roles: string[];
+  requiresNote?: boolean;
+};
+
+const SALES = ["Administrador", "Ventas", "Vendedor"];
+
+/** Tabla de transiciones permitidas. Los estados finales no tienen salida. */
+export const ORDER_TRANSITIONS: Record<string, OrderTransition[]> = {
+  Pendiente: [
+    { to: "Preparando", roles: [...SALES, "Inventario"] },
+    { to: "Cancelado", roles: ["Administrador", "Ventas"], requiresNote: true }
+  ],
+  Preparando: [
+    { to: "Despachado", roles: SALES },
+    { to: "Cancelado", roles: ["Administrador"], requiresNote: true }
+  ],
+  Despachado: [{ to: "Entregado", roles: SALES }],
+  Entregado: [],
+  Cancelado: []
+};
+
+const sameRole = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export function allowedTransitions(estado: string, rol: string | null | undefined): OrderTransition[] {
+  if (!rol) return [];
+  return (ORDER_TRANSITIONS[estado] ?? []).filter((transition) =>
+    transition.roles.some((allowed) => sameRole(allowed, rol))
+  );
+}
+
+export function findTransition(from: string, to: string, rol: string | null | undefined): OrderTransition | undefined {
+  return allowedTransitions(from, rol).find((transition) => transition.to === to);
+}
+
+/** Siguiente estado del flujo normal que el rol puede aplicar, si existe. */
+export function nextFlowStatus(estado: string, rol: string | null | undefined): string | undefined {
+  return allowedTransitions(estado, rol).find((transition) => ORDER_FLOW.includes(transition.to))?.to;
+}
+
+export function isFinalStatus(estado: string): boolean {
+  return (ORDER_TRANSITIONS[estado] ?? []).length === 0;
+}
+
+export const DEFAULT_CANCELLATION_WINDOW_HOURS = 2;
+
+/** Horas que tiene el cliente para cancelar, configurable con VITE_CANCELLATION_WINDOW_HOURS. */
+export function cancellationWindowHours(): number {
+  const configured = Number(import.meta.env.VITE_CANCELLATION_WINDOW_HOURS);
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_CANCELLATION_WINDOW_HOURS;
+}
+
+/** El cliente solo cancela pedidos pendientes y dentro de la ventana desde la compra. */
+export function canCustomerCancel(
+  order: Pick<Order, "estado" | "createdAt">,
+  now = Date.now(),
+  windowHours = cancellationWindowHours()
+): boolean {
+  return order.estado === "Pendiente" && now - order.createdAt <= windowHours * 60 * 60 * 1000;
+}
+
+export function refundedAmount(order: Pick<Order, "refunds">): number {
+  return (order.refunds ?? []).reduce((acc, refund) => acc + refund.monto, 0);
+}
+
+export function refundableAmount(order: Pick<Order, "total" | "refunds">): number {
+  return Math.max(0, order.total - refundedAmount(order));
+}
+
+/** Unidades de un ítem que aún no se devuelven en reembolsos anteriores. */
+export function returnableQty(order: Pick<Order, "items" | "refunds">, codigo: string, variantId?: string): number {
+  const sold = order.items
+    .filter((item) => item.codigo === codigo && (item.variantId ?? "") === (variantId ?? ""))
+    .reduce((acc, item) => acc + item.qty, 0);
+  const returned = (order.refunds ?? [])
+    .flatMap((refund) => refund.items)
+    .filter((item) => item.codigo === codigo && (item.variantId ?? "") === (variantId ?? ""))
+    .reduce((acc, item) => acc + item.qty, 0);
+  return Math.max(0, sold - returned);
+}
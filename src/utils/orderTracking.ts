@@ -0,0 +1,34 @@
+import type { Order } from "../types";
+import { ORDER_FLOW } from "./orderStatus";
+
+export type TimelineStep = {
+  estado: string;
+  at?: number;
+  done: boolean;
+  current: boolean;
+};
+
+/**
+ * Arma la línea de tiempo del pedido. Si el historial no trae una etapa
+ * intermedia igual se marca como cumplida cuando el pedido ya la superó.
+ */
+export function buildStatusTimeline(order: Pick<Order, "estado" | "createdAt" | "statusHistory">): TimelineStep[] {
+  const history = order.statusHistory ?? [];
+  const reachedAt = (estado: string) => history.find((entry) => entry.estado === estado)?.at;
+  const cancelled = order.estado === "Cancelado";
+  const lastIndex = cancelled
+    ? Math.max(0, ...history.map((entry) => ORDER_FLOW.indexOf(entry.estado)))
+    : ORDER_FLOW.indexOf(order.estado);
+
+  const steps = ORDER_FLOW.map((estado, index) => ({
+    estado,
+    at: reachedAt(estado) ?? (index === 0 ? order.createdAt : undefined),
+    done: index <= lastIndex,
+    current: !cancelled && index === lastIndex
+  }));
+  if (!cancelled) return steps;
+  return [
+    ...steps.slice(0, lastIndex + 1),
+    { estado: "Cancelado", at: reachedAt("Cancelado"), done: true, current: true }
+  ];
+}
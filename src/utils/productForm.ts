@@ -0,0 +1,107 @@
+import type { Product } from "../types";
+
+/** Campos del formulario de producto tal como se escriben (también en la importación). */
+export type ProductFormValues = {
+  id: string;
+  nombre: string;
+  categoria: string;
+  attr: string;
+  precio: string;
+  stock: string;
+  stockCritico: string;
+  leadTimeHours: string;
+  img: string;
+  descripcion: string;
+};
+
+export const EMPTY_PRODUCT_FORM: ProductFormValues = {
+  id: "",
+  nombre: "",
+  categoria: "",
+  attr: "",
+  precio: "",
+  stock: "",
+  stockCritico: "",
+  leadTimeHours: "",
+  img: "",
+  descripcion: ""
+};
+
+export const MIN_PRODUCT_PRICE = 1000; // precio mínimo razonable
+
+/**
+ * Reglas del formulario de producto. `existingIds` se usa para rechazar códigos
+ * repetidos solo cuando se está creando.
+ */
+export function validateProductForm(
+  form: ProductFormValues,
+  options: { existingIds?: string[]; isNew?: boolean } = {}
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const id = form.id.trim().toLowerCase();
+  if (!id) {
+    errors.id = "Código requerido";
+  } else if (options.isNew && options.existingIds?.some((existing) => existing.toLowerCase() === id)) {
+    errors.id = "El código ya existe";
+  }
+  if (!form.nombre.trim()) {
+    errors.nombre = "Nombre requerido";
+  }
+  if (!form.categoria.trim()) {
+    errors.categoria = "Categoría requerida";
+  }
+
+  const precio = Number(form.precio);
+  if (!Number.isFinite(precio) || precio < MIN_PRODUCT_PRICE) {
+    errors.precio = `Precio inválido (mínimo ${MIN_PRODUCT_PRICE})`;
+  }
+
+  const stock = Number(form.stock);
+  if (!Number.isFinite(stock) || stock < 0) {
+    errors.stock = "Stock inválido";
+  }
+
+  const stockCritico = Number(form.stockCritico);
+  if (!Number.isFinite(stockCritico) || stockCritico < 0) {
+    errors.stockCritico = "Stock crítico inválido";
+  }
+
+  const leadTimeHours = form.leadTimeHours.trim() === "" ? undefined : Number(form.leadTimeHours);
+  if (leadTimeHours !== undefined && (!Number.isFinite(leadTimeHours) || leadTimeHours < 0)) {
+    errors.leadTimeHours = "Anticipación inválida";
+  }
+  return errors;
+}
+
+/** Convierte un formulario ya validado en producto. */
+export function productFromForm(form: ProductFormValues): Product {
+  const leadTimeHours = form.leadTimeHours.trim() === "" ? undefined : Number(form.leadTimeHours);
+  const img = form.img.trim();
+  return {
+    id: form.id.trim().toUpperCase(),
+    nombre: form.nombre.trim(),
+    categoria: form.categoria.trim(),
+    attr: form.attr.trim(),
+    precio: Math.round(Number(form.precio)),
+    stock: Math.round(Number(form.stock)),
+    stockCritico: Math.round(Number(form.stockCritico)),
+    leadTimeHours: leadTimeHours !== undefined ? Math.round(leadTimeHours) : undefined,
+    img: img.startsWith("/") ? img : img ? `/${img}` : "/img/placeholder.png",
+    descripcion: form.descripcion.trim()
+  };
+}
+
+export function productToForm(product: Product): ProductFormValues {
+  return {
+    id: product.id,
+    nombre: product.nombre,
+    categoria: product.categoria,
+    attr: product.attr,
+    precio: String(product.precio),
+    stock: String(product.stock),
+    stockCritico: String(product.stockCritico),
+    leadTimeHours: product.leadTimeHours !== undefined ? String(product.leadTimeHours) : "",
+    img: product.img,
+    descripcion: product.descripcion ?? ""
+  };
+}
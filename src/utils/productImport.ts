@@ -0,0 +1,194 @@
+import type { Product } from "../types";
+import { sheetToCsv } from "./orderExport";
+import { EMPTY_PRODUCT_FORM, productFromForm, productToForm, validateProductForm } from "./productForm";
+import type { ProductFormValues } from "./productForm";
+import { BIRTHDAY_CAKE_ID } from "./promotions";
+import { buildXlsx, readXlsxRows, XLSX_MIME } from "./xlsx";
+import type { CellType, Sheet } from "./xlsx";
+
+type CatalogColumn = {
+  key: keyof ProductFormValues;
+  header: string;
+  type: CellType;
+  width: number;
+  required?: boolean;
+};
+
+/** Columnas del catálogo; la importación espera los mismos encabezados que exporta. */
+export const CATALOG_COLUMNS: CatalogColumn[] = [
+  { key: "id", header: "Código", type: "text", width: 12, required: true },
+  { key: "nombre", header: "Nombre", type: "text", width: 32, required: true },
+  { key: "categoria", header: "Categoría", type: "text", width: 20, required: true },
+  { key: "attr", header: "Atributo", type: "text", width: 20 },
+  { key: "precio", header: "Precio", type: "money", width: 12, required: true },
+  { key: "stock", header: "Stock", type: "number", width: 10 },
+  { key: "stockCritico", header: "Stock crítico", type: "number", width: 12 },
+  { key: "leadTimeHours", header: "Anticipación (horas)", type: "number", width: 12 },
+  { key: "img", header: "Imagen", type: "text", width: 30 },
+  { key: "descripcion", header: "Descripción", type: "text", width: 50 }
+];
+
+const FIELD_LABEL = Object.fromEntries(CATALOG_COLUMNS.map((column) => [column.key, column.header])) as Record<
+  keyof ProductFormValues,
+  string
+>;
+
+export function productsSheet(products: Product[]): Sheet {
+  return {
+    name: "Productos",
+    columns: CATALOG_COLUMNS.map(({ header, type, width }) => ({ header, type, width })),
+    rows: products.map((product) => {
+      const form = productToForm(product);
+      return CATALOG_COLUMNS.map((column) =>
+        column.type === "text" ? form[column.key] : form[column.key] === "" ? null : Number(form[column.key])
+      );
+    })
+  };
+}
+
+export type CatalogFormat = "csv" | "xlsx";
+
+export function buildProductExport(products: Product[], format: CatalogFormat, stamp: string): { filename: string; blob: Blob } {
+  const sheet = productsSheet(products);
+  if (format === "xlsx") {
+    return {
+      filename: `productos-${stamp}.xlsx`,
+      blob: new Blob([buildXlsx([sheet]) as BlobPart], { type: XLSX_MIME })
+    };
+  }
+  return { filename: `productos-${stamp}.csv`, blob: new Blob([sheetToCsv(sheet)], { type: "text/csv;charset=utf-8" }) };
+}
+
+/** CSV con separador ";" o "," (el que use la primera línea) y campos entre comillas. */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, "");
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? "";
+  const separator = (firstLine.match(/;/g)?.length ?? 0) >= (firstLine.match(/,/g)?.length ?? 0) ? ";" : ",";
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index];
+    if (quoted) {
+      if (char === '"' && content[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[index + 1] === "\n") index++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+export async function readCatalogFile(file: File): Promise<string[][]> {
+  if (/\.xlsx$/i.test(file.name)) {
+    return readXlsxRows(new Uint8Array(await file.arrayBuffer()));
+  }
+  return parseCsv(await file.text());
+}
+
+const normalizeHeader = (value: string) =>
+  value
+    .normalize("NFD")
+    .replace(/[̀-ͯ]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+
+export type ProductImportPlan = {
+  nuevos: Product[];
+  actualizados: Array<{ before: Product; after: Product; cambios: string[] }>;
+  sinCambios: number;
+  invalidos: Array<{ line: number; id: string; errors: Record<string, string> }>;
+  columnasFaltantes: string[];
+};
+
+const COMPARED_FIELDS: Array<keyof ProductFormValues> = [
+  "nombre",
+  "categoria",
+  "attr",
+  "precio",
+  "stockCritico",
+  "leadTimeHours",
+  "img",
+  "descripcion"
+];
+
+/**
+ * Simulación de la importación: clasifica cada fila en nueva, actualizada, sin cambios o
+ * inválida con las mismas reglas del formulario. El stock de productos existentes no se
+ * toca (cambia con movimientos de inventario); las columnas ausentes conservan su valor.
+ */
+export function planProductImport(rows: string[][], products: Product[]): ProductImportPlan {
+  const plan: ProductImportPlan = { nuevos: [], actualizados: [], sinCambios: 0, invalidos: [], columnasFaltantes: [] };
+  const [header = [], ...body] = rows;
+  const positions = new Map<keyof ProductFormValues, number>();
+  CATALOG_COLUMNS.forEach((column) => {
+    const index = header.findIndex((cell) => normalizeHeader(cell) === normalizeHeader(column.header));
+    if (index >= 0) positions.set(column.key, index);
+    else if (column.required) plan.columnasFaltantes.push(column.header);
+  });
+  if (plan.columnasFaltantes.length) return plan;
+
+  const seen = new Set<string>();
+  body.forEach((cells, index) => {
+    if (cells.every((cell) => !cell.trim())) return;
+    const line = index + 2;
+    const id = (cells[positions.get("id") ?? -1] ?? "").trim().toUpperCase();
+    const before = products.find((product) => product.id.toUpperCase() === id);
+    const values: ProductFormValues = before ? productToForm(before) : { ...EMPTY_PRODUCT_FORM, stock: "0", stockCritico: "0" };
+    positions.forEach((position, key) => {
+      values[key] = (cells[position] ?? "").trim();
+    });
+    if (before) values.stock = String(before.stock);
+
+    const errors = validateProductForm(values, { isNew: !before });
+    // La torta de cumpleaños se regala como beneficio: su precio se guarda siempre en 0.
+    if (id === BIRTHDAY_CAKE_ID) {
+      delete errors.precio;
+      values.precio = "0";
+    }
+    if (id && seen.has(id)) errors.id = "Código repetido en el archivo";
+    seen.add(id);
+    if (Object.keys(errors).length) {
+      plan.invalidos.push({ line, id, errors });
+      return;
+    }
+
+    const product = productFromForm(values);
+    if (!before) {
+      plan.nuevos.push(product);
+      return;
+    }
+    // Se normaliza igual que la fila para no marcar diferencias solo de formato.
+    const beforeForm = productToForm(productFromForm(productToForm(before)));
+    const afterForm = productToForm(product);
+    const cambios = COMPARED_FIELDS.filter((key) => beforeForm[key] !== afterForm[key]).map((key) => FIELD_LABEL[key]);
+    if (!cambios.length) {
+      plan.sinCambios += 1;
+      return;
+    }
+    plan.actualizados.push({ before, after: { ...before, ...product, variants: before.variants }, cambios });
+  });
+  return plan;
+}
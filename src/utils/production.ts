@@ -0,0 +1,111 @@
+import type { Order } from "../types";
+import { formatDeliveryDate } from "./delivery";
+import { escapeHtml } from "./format";
+
+export type ProductionNote = {
+  orderId: string;
+  qty: number;
+  note: string;
+};
+
+export type ProductionLine = {
+  /** Clave estable por producto y variante, usada para marcar la línea como lista. */
+  key: string;
+  codigo: string;
+  nombre: string;
+  variantLabel?: string;
+  qty: number;
+  orderIds: string[];
+  notes: ProductionNote[];
+};
+
+export type ProductionDay = {
+  date: string;
+  totalQty: number;
+  lines: ProductionLine[];
+};
+
+/** Agrupa los ítems de pedidos vigentes por fecha comprometida y producto. */
+export function buildProductionPlan(orders: Order[]): ProductionDay[] {
+  const days = new Map<string, Map<string, ProductionLine>>();
+  orders
+    .filter((order) => order.estado !== "Cancelado")
+    .forEach((order) => {
+      const date = order.deliveryDate ?? "";
+      const lines = days.get(date) ?? new Map<string, ProductionLine>();
+      days.set(date, lines);
+      order.items.forEach((item) => {
+        const key = `${item.codigo}|${item.variantId ?? ""}`;
+        const line = lines.get(key) ?? {
+          key,
+          codigo: item.codigo,
+          nombre: item.nombre,
+          variantLabel: item.variantLabel,
+          qty: 0,
+          orderIds: [],
+          notes: []
+        };
+        line.qty += item.qty;
+        if (!line.orderIds.includes(order.id)) line.orderIds.push(order.id);
+        if (item.note?.trim()) line.notes.push({ orderId: order.id, qty: item.qty, note: item.note.trim() });
+        lines.set(key, line);
+      });
+    });
+
+  return Array.from(days.entries())
+    .map(([date, lines]) => {
+      const sorted = Array.from(lines.values()).sort((a, b) => b.qty - a.qty || a.nombre.localeCompare(b.nombre, "es"));
+      return { date, totalQty: sorted.reduce((acc, line) => acc + line.qty, 0), lines: sorted };
+    })
+    .sort((a, b) => (a.date || "9999").localeCompare(b.date || "9999"));
+}
+
+export function buildPrepSheetHTML(day: ProductionDay, done: Record<string, boolean> = {}): string {
+  const title = day.date ? formatDeliveryDate(day.date) : "Sin fecha de entrega";
+  const rows = day.lines
+    .map((line) => {
+      const notes = line.notes
+        .map((note) => `<li>${escapeHtml(note.orderId)} · ${note.qty} u. — ${escapeHtml(note.note)}</li>`)
+        .join("");
+      return `
+        <tr>
+          <td class="check">${done[line.key] ? "☑" : "☐"}</td>
+          <td class="qty">${line.qty}</td>
+          <td>
+            <strong>${escapeHtml(line.nombre)}</strong>${line.variantLabel ? ` (${escapeHtml(line.variantLabel)})` : ""}
+            <div class="muted small">${escapeHtml(line.codigo)} · Pedidos: ${line.orderIds.map(escapeHtml).join(", ")}</div>
+            ${notes ? `<ul class="small">${notes}</ul>` : ""}
+          </td>
+        </tr>
+      `;
+    })
+    .join("");
+
+  return `<!doctype html>
+<html lang="es">
+<head>
+  <meta charset="utf-8">
+  <title>Hoja de producción · Mil Sabores</title>
+  <style>
+    body{font-family: Lato, Arial, sans-serif; color:#2f2a25; margin:24px}
+    h1{font-size:20px;margin:0 0 4px;text-transform:capitalize}
+    .muted{color:#7a766f}
+    .small{font-size:12px}
+    table{width:100%;border-collapse:collapse;margin-top:16px}
+    th,td{padding:8px;border-bottom:1px solid #ddd;vertical-align:top;text-align:left}
+    .check{width:32px;font-size:20px}
+    .qty{width:60px;font-size:18px;font-weight:700}
+    ul{margin:6px 0 0;padding-left:18px}
+  </style>
+</head>
+<body>
+  <h1>Producción · ${escapeHtml(title)}</h1>
+  <div class="muted small">${day.totalQty} unidades en ${day.lines.length} productos</div>
+  <table>
+    <thead><tr><th>Listo</th><th>Cant.</th><th>Producto</th></tr></thead>
+    <tbody>${rows}</tbody>
+  </table>
+  <script>window.onload = () => window.print();</script>
+</body>
+</html>`;
+}
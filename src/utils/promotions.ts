@@ -0,0 +1,370 @@
+import type { CartTotals, CouponInfo, CustomerSession, ProductPricing, UserBenefits } from "../types";
+import { checkCoupon, type CouponCheckInput, type CouponEval } from "./coupons";
+import { computeAge, isBirthdayToday } from "./dates";
+
+export type { CouponEval } from "./coupons";
+
+export type CustomerCondition =
+  | { type: "ageOver"; age: number }
+  | { type: "promoCode"; code: string }
+  | { type: "felices50" }
+  | { type: "emailDomain"; domain: string }
+  | { type: "birthdayToday" };
+
+type RuleBase = {
+  id: string;
+  /** Reglas con el mismo grupo son excluyentes: solo aplica la primera que calza. */
+  exclusiveGroup?: string;
+  /** Si es `false` y la regla aplica, ninguna regla posterior se evalúa. */
+  stackable?: boolean;
+};
+
+export type CustomerPercentRule = RuleBase & {
+  kind: "customerPercent";
+  label: string;
+  percent: number;
+  conditions: CustomerCondition[];
+  match?: "all" | "any";
+};
+
+export type BirthdayItemRule = RuleBase & {
+  kind: "birthdayItem";
+  label: string;
+  productId: string;
+  conditions: CustomerCondition[];
+  /** Etiqueta del envío gratis cuando la torta es el único producto del carrito. */
+  soloShippingLabel?: string;
+};
+
+export type CouponRule = RuleBase & {
+  kind: "coupon";
+  excludedCodes?: string[];
+};
+
+export type FreeShippingRule = RuleBase & {
+  kind: "freeShipping";
+  label: string;
+  minSubtotal?: number;
+  conditions?: CustomerCondition[];
+};
+
+export type PromotionRule = CustomerPercentRule | BirthdayItemRule | CouponRule | FreeShippingRule;
+
+export type PromotionContext = {
+  customer: CustomerSession | null;
+  today?: Date;
+};
+
+export type CheckoutTotals = {
+  benefits: UserBenefits;
+  coupon: CouponEval;
+  baseAfterBenefits: number;
+  shipping: number;
+  total: number;
+  benefitLabels: string[];
+};
+
+type CartLine = CartTotals["items"][number];
+
+export const BIRTHDAY_CAKE_ID = "BDAY001";
+
+/**
+ * Reglas vigentes de la tienda, evaluadas en este orden. Adulto Mayor y
+ * FELICES50 comparten grupo: se aplica solo el primero que calce.
+ */
+export const DEFAULT_PROMOTION_RULES: PromotionRule[] = [
+  {
+    id: "birthday-duoc",
+    kind: "birthdayItem",
+    label: "Beneficio DUOC: Torta de Cumpleaños gratis",
+    productId: BIRTHDAY_CAKE_ID,
+    conditions: [{ type: "emailDomain", domain: "duoc.cl" }, { type: "birthdayToday" }],
+    soloShippingLabel: "Envío gratis por tu cumpleaños DUOC"
+  },
+  {
+    id: "senior",
+    kind: "customerPercent",
+    label: "Beneficio Adulto Mayor",
+    percent: 0.5,
+    conditions: [{ type: "ageOver", age: 50 }],
+    exclusiveGroup: "perfil"
+  },
+  {
+    id: "felices50",
+    kind: "customerPercent",
+    label: "Beneficio FELICES50",
+    percent: 0.1,
+    conditions: [{ type: "promoCode", code: "FELICES50" }, { type: "felices50" }],
+    match: "any",
+    exclusiveGroup: "perfil"
+  },
+  {
+    id: "coupon",
+    kind: "coupon",
+    excludedCodes: ["FELICES50"]
+  }
+];
+
+type CartState = {
+  items: CartLine[];
+  subTotal: number;
+};
+
+const EMPTY_BENEFITS: UserBenefits = {
+  userDisc: 0,
+  userLabel: "",
+  bdayDisc: 0,
+  bdayLabel: "",
+  bdayEligible: false,
+  bdayApplied: false,
+  freeShipping: false,
+  shippingLabel: ""
+};
+
+function conditionHolds(condition: CustomerCondition, customer: CustomerSession): boolean {
+  switch (condition.type) {
+    case "ageOver": {
+      const age = computeAge(customer.fnac ?? "");
+      return typeof age === "number" && age > condition.age;
+    }
+    case "promoCode":
+      return customer.promoCode?.trim().toUpperCase() === condition.code.toUpperCase();
+    case "felices50":
+      return Boolean(customer.felices50);
+    case "emailDomain":
+      return (customer.email || "").toLowerCase().endsWith(`@${condition.domain.toLowerCase()}`);
+    case "birthdayToday":
+      return isBirthdayToday(customer.fnac);
+  }
+}
+
+function conditionsHold(
+  conditions: CustomerCondition[] | undefined,
+  customer: CustomerSession | null,
+  match: "all" | "any" = "all"
+): boolean {
+  if (!conditions?.length) return true;
+  if (!customer) return false;
+  return match === "any"
+    ? conditions.some((condition) => conditionHolds(condition, customer))
+    : conditions.every((condition) => conditionHolds(condition, customer));
+}
+
+function birthdayAvailable(rule: BirthdayItemRule, ctx: PromotionContext): boolean {
+  if (!ctx.customer || !conditionsHold(rule.conditions, ctx.customer)) return false;
+  const thisYear = (ctx.today ?? new Date()).getFullYear();
+  return (ctx.customer.bdayRedeemedYear ?? null) !== thisYear;
+}
+
+function ruleApplies(rule: PromotionRule, ctx: PromotionContext, cart?: CartState): boolean {
+  switch (rule.kind) {
+    case "customerPercent":
+      return rule.percent > 0 && conditionsHold(rule.conditions, ctx.customer, rule.match);
+    case "birthdayItem":
+      return birthdayAvailable(rule, ctx);
+    case "coupon":
+      return Boolean(cart);
+    case "freeShipping":
+      return Boolean(cart) && (cart?.subTotal ?? 0) >= (rule.minSubtotal ?? 0) && conditionsHold(rule.conditions, ctx.customer);
+  }
+}
+
+/**
+ * Recorre las reglas en orden y devuelve las que aplican respetando grupos
+ * excluyentes y reglas no acumulables. Sin carrito, las reglas de cupón y
+ * envío se consideran no aplicables (precio por producto).
+ */
+export function resolvePromotions(rules: PromotionRule[], ctx: PromotionContext, cart?: CartState): PromotionRule[] {
+  const applied: PromotionRule[] = [];
+  const usedGroups = new Set<string>();
+  for (const rule of rules) {
+    if (rule.exclusiveGroup && usedGroups.has(rule.exclusiveGroup)) continue;
+    if (!ruleApplies(rule, ctx, cart)) continue;
+    applied.push(rule);
+    if (rule.exclusiveGroup) usedGroups.add(rule.exclusiveGroup);
+    if (rule.stackable === false) break;
+  }
+  return applied;
+}
+
+function percentRules(applied: PromotionRule[]): CustomerPercentRule[] {
+  return applied.filter((rule): rule is CustomerPercentRule => rule.kind === "customerPercent");
+}
+
+function combinePercents(rules: CustomerPercentRule[]): number {
+  const remaining = rules.reduce((acc, rule) => acc * (1 - Math.min(1, Math.max(0, rule.percent))), 1);
+  return 1 - remaining;
+}
+
+const percentLabel = (rule: CustomerPercentRule) => `${rule.label} (${Math.round(rule.percent * 100)}% OFF)`;
+
+export function customerDiscountPercent(rules: PromotionRule[], ctx: PromotionContext): number {
+  return combinePercents(percentRules(resolvePromotions(rules, ctx)));
+}
+
+export function birthdayRule(rules: PromotionRule[]): BirthdayItemRule | undefined {
+  return rules.find((rule): rule is BirthdayItemRule => rule.kind === "birthdayItem");
+}
+
+export function birthdayStatus(rules: PromotionRule[], ctx: PromotionContext): { eligible: boolean; available: boolean } {
+  const rule = birthdayRule(rules);
+  if (!rule || !ctx.customer) return { eligible: false, available: false };
+  const eligible = conditionsHold(rule.conditions, ctx.customer);
+  const available = resolvePromotions(rules, ctx).includes(rule);
+  return { eligible, available };
+}
+
+export function priceItem(
+  productId: string,
+  originalUnitPrice: number,
+  qty: number,
+  rules: PromotionRule[],
+  ctx: PromotionContext
+): ProductPricing {
+  const quantity = Number.isFinite(qty) ? Math.max(1, Math.floor(qty)) : 1;
+  const applied = resolvePromotions(rules, ctx);
+  const birthday = applied.find(
+    (rule): rule is BirthdayItemRule => rule.kind === "birthdayItem" && rule.productId === productId
+  );
+  if (birthday) {
+    return {
+      originalUnitPrice,
+      unitPrice: 0,
+      discountPercent: 1,
+      discountPerUnit: originalUnitPrice,
+      originalTotal: originalUnitPrice * quantity,
+      discountTotal: originalUnitPrice * quantity,
+      total: 0,
+      labels: originalUnitPrice > 0 ? [birthday.label] : []
+    };
+  }
+  const percents = percentRules(applied);
+  const discountPercent = combinePercents(percents);
+  const unitPrice = discountPercent > 0
+    ? Math.max(0, Math.round(originalUnitPrice * (1 - discountPercent)))
+    : originalUnitPrice;
+  const discountPerUnit = Math.max(0, originalUnitPrice - unitPrice);
+  return {
+    originalUnitPrice,
+    unitPrice,
+    discountPercent,
+    discountPerUnit,
+    originalTotal: originalUnitPrice * quantity,
+    discountTotal: discountPerUnit * quantity,
+    total: unitPrice * quantity,
+    labels: discountPerUnit > 0 ? percents.map(percentLabel) : []
+  };
+}
+
+export function computeBenefits(
+  items: CartLine[],
+  subTotal: number,
+  rules: PromotionRule[],
+  ctx: PromotionContext
+): UserBenefits {
+  if (!ctx.customer) return EMPTY_BENEFITS;
+  const applied = resolvePromotions(rules, ctx, { items, subTotal });
+  const bdayRule = birthdayRule(rules);
+  const bdayEligible = bdayRule ? conditionsHold(bdayRule.conditions, ctx.customer) : false;
+
+  let bdayDisc = 0;
+  let bdayLabel = "";
+  let bdayApplied = false;
+  let freeShipping = false;
+  let shippingLabel = "";
+
+  const activeBirthday = applied.find((rule): rule is BirthdayItemRule => rule.kind === "birthdayItem");
+  const cake = activeBirthday ? items.find((item) => item.product.id === activeBirthday.productId) : undefined;
+  if (activeBirthday && cake && cake.qty > 0) {
+    bdayDisc = cake.pricing?.discountTotal ?? cake.product.precio * cake.qty;
+    bdayLabel = activeBirthday.label;
+    bdayApplied = bdayDisc > 0;
+    if (items.length === 1 && activeBirthday.soloShippingLabel) {
+      freeShipping = true;
+      shippingLabel = activeBirthday.soloShippingLabel;
+    }
+  }
+
+  const shippingRule = applied.find((rule): rule is FreeShippingRule => rule.kind === "freeShipping");
+  if (!freeShipping && shippingRule) {
+    freeShipping = true;
+    shippingLabel = shippingRule.label;
+  }
+
+  const percents = percentRules(applied);
+  const discountFromItems = items
+    .filter((item) => item !== cake)
+    .reduce((sum, entry) => sum + (entry.pricing?.discountTotal ?? 0), 0);
+  const base = Math.max(0, subTotal - bdayDisc);
+  const userDisc = percents.length ? Math.min(base, discountFromItems) : 0;
+  const userLabel = percents.length ? percents.map(percentLabel).join(" + ") : "";
+
+  return {
+    userDisc,
+    userLabel,
+    bdayDisc,
+    bdayLabel,
+    bdayEligible,
+    bdayApplied,
+    freeShipping,
+    shippingLabel
+  };
+}
+
+export function evaluateCouponCode(
+  code: string,
+  coupons: Record<string, CouponInfo>,
+  input: CouponCheckInput,
+  rules: PromotionRule[],
+  ctx: PromotionContext
+): CouponEval {
+  const normalized = code.trim().toUpperCase();
+  const invalid = (reason?: string): CouponEval => ({
+    valid: false,
+    discount: 0,
+    shipAfter: input.shipCost,
+    code: normalized || undefined,
+    reason
+  });
+  if (!normalized) return invalid();
+  const couponRule = resolvePromotions(rules, { ...ctx, today: input.now ?? ctx.today }, {
+    items: input.items ?? [],
+    subTotal: input.subTotal
+  }).find((rule): rule is CouponRule => rule.kind === "coupon");
+  if (!couponRule) return invalid("Los cupones no se pueden combinar con tus beneficios actuales.");
+  if (couponRule.excludedCodes?.some((excluded) => excluded.toUpperCase() === normalized)) {
+    return invalid(`${normalized} es un beneficio de registro, no un cupón de compra.`);
+  }
+  const definition = coupons[normalized];
+  if (!definition) return invalid(`El cupón ${normalized} no existe.`);
+  return checkCoupon(definition, input);
+}
+
+/** Combina beneficios, cupón y envío en los totales que muestra el checkout. */
+export function summarizeCheckout(
+  subTotal: number,
+  shippingCost: number,
+  benefits: UserBenefits,
+  evaluateCoupon: (subTotal: number, shipCost: number) => CouponEval
+): CheckoutTotals {
+  const baseAfterBenefits = Math.max(0, subTotal - benefits.bdayDisc - benefits.userDisc);
+  const shipBeforeCoupons = benefits.freeShipping ? 0 : shippingCost;
+  const coupon = evaluateCoupon(baseAfterBenefits, shipBeforeCoupons);
+  const shipping = benefits.freeShipping ? 0 : coupon.valid ? coupon.shipAfter : shipBeforeCoupons;
+  const total = Math.max(0, baseAfterBenefits - (coupon.valid ? coupon.discount : 0) + shipping);
+
+  const labels: string[] = [];
+  if (benefits.userDisc > 0 && benefits.userLabel) labels.push(benefits.userLabel);
+  if (benefits.bdayDisc > 0 && benefits.bdayLabel) labels.push(benefits.bdayLabel);
+  if (benefits.freeShipping && benefits.shippingLabel) labels.push(benefits.shippingLabel);
+  if (coupon.valid) labels.push(coupon.label || `Cupón ${coupon.code}`);
+
+  return {
+    benefits,
+    coupon,
+    baseAfterBenefits,
+    shipping,
+    total,
+    benefitLabels: Array.from(new Set(labels))
+  };
+}
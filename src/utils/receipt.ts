@@ -1,10 +1,12 @@
-import { formatMoney } from "./format";
+import { escapeHtml, formatMoney } from "./format";
 import type { Product, UserBenefits } from "../types";
 
 type ReceiptItem = {
   product: Product;
+  variantLabel?: string;
   qty: number;
   msg?: string;
+  note?: string;
   subtotal: number;
   originalSubtotal?: number;
   unitPrice?: number;
@@ -28,10 +30,13 @@ type ReceiptPayload = {
   benefits: UserBenefits;
   coupon: CouponSummary;
   currentEmail?: string | null;
+  delivery?: string;
+  pickup?: { location: string; code?: string };
+  orderCode?: string;
 };
 
 export function buildReceiptHTML(payload: ReceiptPayload): string {
-  const { items, subTotal, effectiveSubtotal, shipCost, total, benefits, coupon, currentEmail } = payload;
+  const { items, subTotal, effectiveSubtotal, shipCost, total, benefits, coupon, currentEmail, delivery, pickup, orderCode } = payload;
   const { userDisc, userLabel, bdayDisc, bdayLabel } = benefits;
   const rows = items
     .map((item) => {
@@ -41,8 +46,11 @@ export function buildReceiptHTML(payload: ReceiptPayload): string {
       const hasUnitDiscount = originalUnit > unitPrice;
       const originalSubtotal = typeof item.originalSubtotal === "number" ? item.originalSubtotal : product.precio * qty;
       const hasSubtotalDiscount = originalSubtotal > subtotal;
-      const attr = product.attr ? ` • ${product.attr}` : "";
-      const extra = msg ? `<div class="small">🎂 Mensaje: ${msg}</div>` : "";
+      const detail = item.variantLabel || product.attr;
+      const attr = detail ? ` • ${detail}` : "";
+      const extra = item.note
+        ? `<div class="small">🎂 Personalización: ${escapeHtml(item.note)}</div>`
+        : msg ? `<div class="small">🎂 Mensaje: ${escapeHtml(msg)}</div>` : "";
       const priceColumn = hasUnitDiscount
         ? `<div><s class="muted">${formatMoney(originalUnit)}</s></div><div><strong>${formatMoney(unitPrice)}</strong></div>`
         : `<strong>${formatMoney(unitPrice)}</strong>`;
@@ -87,11 +95,23 @@ export function buildReceiptHTML(payload: ReceiptPayload): string {
       }</span><strong>- ${formatMoney(coupon.discount)}</strong></div>`
     );
   }
-  lines.push(`<div class="row"><span>Envío</span><strong>${formatMoney(shipCost)}</strong></div>`);
+  lines.push(
+    pickup
+      ? `<div class="row"><span>Retiro en tienda</span><strong>${formatMoney(0)}</strong></div>`
+      : `<div class="row"><span>Envío</span><strong>${formatMoney(shipCost)}</strong></div>`
+  );
   lines.push(`<div class="row total"><span>Total</span><strong>${formatMoney(total)}</strong></div>`);
 
   const fecha = now.toLocaleString("es-CL");
   const cliente = currentEmail ? ` &nbsp;•&nbsp; Cliente: ${currentEmail}` : "";
+  const pedido = orderCode
+    ? `<div class="small"><strong>Pedido:</strong> ${orderCode} &nbsp;•&nbsp; Revisa su estado en "Seguimiento de pedido" con este código y tu correo.</div>`
+    : "";
+  const entrega = pickup
+    ? `<div class="small"><strong>Retiro en:</strong> ${pickup.location}${delivery ? ` · ${delivery}` : ""}</div>${
+        pickup.code ? `<div class="small"><strong>Código de retiro:</strong> ${pickup.code}</div>` : ""
+      }`
+    : delivery ? `<div class="small"><strong>Entrega:</strong> ${delivery}</div>` : "";
 
   return `<!doctype html>
 <html lang="es">
@@ -124,6 +144,8 @@ export function buildReceiptHTML(payload: ReceiptPayload): string {
   <div class="wrap">
     <h1>Detalle de la compra</h1>
     <div class="muted small">Fecha: ${fecha}${cliente}</div>
+    ${pedido}
+    ${entrega}
     <table>
       <thead>
         <tr>
@@ -0,0 +1,126 @@
+import type { Ingredient, IngredientUnit, Order, OrderItem, Recipe } from "../types";
+
+export const INGREDIENT_UNIT_LABEL: Record<IngredientUnit, string> = {
+  kg: "kg",
+  g: "g",
+  l: "litros",
+  ml: "ml",
+  unidad: "unidades"
+};
+
+/**
+ * Estado en que se descuentan de bodega los ingredientes de la receta. Contrato con el backend:
+ * `PATCH /api/v1/orders/{id}/status` a EN_PROCESO descuenta `cantidad × qty` de cada línea de
+ * receta en la misma transacción (y CANCELADO los devuelve si ya se habían descontado); el
+ * cliente no envía movimientos de ingredientes, solo vuelve a leer `/api/v1/admin/ingredients`.
+ * El backend no rechaza el cambio por faltantes: el disponible puede quedar negativo, por eso el
+ * panel pide confirmación antes (ver `findShortages`).
+ */
+export const CONSUMES_INGREDIENTS_STATUS = "Preparando";
+
+export const formatQuantity = (value: number, unidad: IngredientUnit) =>
+  `${value.toLocaleString("es-CL", { maximumFractionDigits: 2 })} ${INGREDIENT_UNIT_LABEL[unidad]}`;
+
+/** Ingredientes que consumen los ítems según las recetas, por id de ingrediente. */
+export function ingredientRequirements(
+  items: Array<Pick<OrderItem, "codigo" | "qty">>,
+  recipes: Recipe[]
+): Record<string, number> {
+  const required: Record<string, number> = {};
+  for (const item of items) {
+    const recipe = recipes.find((entry) => entry.productId === item.codigo);
+    recipe?.lineas.forEach((line) => {
+      required[line.ingredientId] = (required[line.ingredientId] ?? 0) + line.cantidad * item.qty;
+    });
+  }
+  return required;
+}
+
+export type IngredientShortage = {
+  ingredient: Ingredient;
+  requerido: number;
+  faltante: number;
+};
+
+export function findShortages(required: Record<string, number>, ingredients: Ingredient[]): IngredientShortage[] {
+  return ingredients
+    .filter((ingredient) => (required[ingredient.id] ?? 0) > ingredient.disponible)
+    .map((ingredient) => ({
+      ingredient,
+      requerido: required[ingredient.id],
+      faltante: required[ingredient.id] - ingredient.disponible
+    }));
+}
+
+export type ShortageRow = {
+  ingredient: Ingredient;
+  /** Lo que consumirán los pedidos que aún no pasan a preparación. */
+  requerido: number;
+  restante: number;
+  faltante: number;
+  bajoMinimo: boolean;
+  productos: string[];
+};
+
+export type ShortageReport = {
+  rows: ShortageRow[];
+  pedidos: number;
+  /** Productos pedidos que todavía no tienen receta y no se pueden proyectar. */
+  sinReceta: string[];
+};
+
+/**
+ * Proyecta el consumo de los pedidos pendientes sobre la bodega: ingredientes que
+ * faltarán o que quedarán bajo su mínimo, primero los de mayor faltante.
+ */
+export function buildShortageReport(orders: Order[], recipes: Recipe[], ingredients: Ingredient[]): ShortageReport {
+  const pendientes = orders.filter((order) => order.estado === "Pendiente");
+  const items = pendientes.flatMap((order) => order.items);
+  const required = ingredientRequirements(items, recipes);
+  const sinReceta = Array.from(
+    new Set(items.map((item) => item.codigo).filter((codigo) => !recipes.some((recipe) => recipe.productId === codigo)))
+  );
+
+  const rows = ingredients
+    .map((ingredient) => {
+      const requerido = required[ingredient.id] ?? 0;
+      const restante = ingredient.disponible - requerido;
+      return {
+        ingredient,
+        requerido,
+        restante,
+        faltante: Math.max(0, -restante),
+        bajoMinimo: restante < ingredient.minimo,
+        productos: recipes
+          .filter(
+            (recipe) =>
+              recipe.lineas.some((line) => line.ingredientId === ingredient.id) &&
+              items.some((item) => item.codigo === recipe.productId)
+          )
+          .map((recipe) => recipe.productId)
+      };
+    })
+    .filter((row) => row.bajoMinimo)
+    .sort((a, b) => b.faltante - a.faltante || a.restante - a.ingredient.minimo - (b.restante - b.ingredient.minimo));
+
+  return { rows, pedidos: pendientes.length, sinReceta };
+}
+
+export type RecipeDraftLine = { ingredientId: string; cantidad: string };
+
+export function validateRecipe(lines: RecipeDraftLine[]): Record<number, string> {
+  const errors: Record<number, string> = {};
+  const seen = new Set<string>();
+  lines.forEach((line, index) => {
+    const cantidad = Number(line.cantidad);
+    if (!line.ingredientId) {
+      errors[index] = "Selecciona un ingrediente";
+    } else if (seen.has(line.ingredientId)) {
+      errors[index] = "Ingrediente repetido";
+    } else if (!Number.isFinite(cantidad) || cantidad <= 0) {
+      errors[index] = "Cantidad inválida";
+    }
+    seen.add(line.ingredientId);
+  });
+  return errors;
+}
@@ -0,0 +1,81 @@
+import type { CakeCustomization, CakeOption, CartItem, Order, OrderItem, Product } from "../types";
+import { customizationPrice, parseItemNote } from "./cakeBuilder";
+import { formatMoney } from "./format";
+import { BIRTHDAY_CAKE_ID } from "./promotions";
+import { resolveCartLine } from "./variants";
+
+export type ReorderLine = {
+  item: OrderItem;
+  productId: string;
+  variantId?: string;
+  qty: number;
+  msg?: string;
+  custom?: CakeCustomization;
+};
+
+export type ReorderIssue = {
+  item: OrderItem;
+  kind: "unavailable" | "outOfStock" | "partial" | "priceChanged" | "customChanged";
+  detail: string;
+};
+
+export type ReorderPlan = {
+  lines: ReorderLine[];
+  issues: ReorderIssue[];
+};
+
+/**
+ * Decide qué ítems de un pedido anterior se pueden volver a agregar al carrito,
+ * limitando por el stock que queda descontando lo que ya está en el carrito.
+ */
+export function planReorder(
+  order: Pick<Order, "items">,
+  products: Product[],
+  cart: CartItem[],
+  cakeOptions: CakeOption[]
+): ReorderPlan {
+  const lines: ReorderLine[] = [];
+  const issues: ReorderIssue[] = [];
+  const reserved: Record<string, number> = {};
+
+  for (const item of order.items) {
+    const product = products.find((entry) => entry.id === item.codigo);
+    const line = product ? resolveCartLine(product, item.variantId) : null;
+    if (!product || !line || item.codigo === BIRTHDAY_CAKE_ID) {
+      issues.push({ item, kind: "unavailable", detail: "Ya no está disponible" });
+      continue;
+    }
+    const { variant } = line;
+
+    const key = `${product.id}|${variant?.id ?? ""}`;
+    const inCart = cart
+      .filter((entry) => entry.id === product.id && (entry.variantId ?? "") === (variant?.id ?? ""))
+      .reduce((acc, entry) => acc + entry.qty, 0);
+    const remaining = Math.max(0, line.stock - inCart - (reserved[key] ?? 0));
+    if (remaining <= 0) {
+      issues.push({ item, kind: "outOfStock", detail: "Sin stock disponible" });
+      continue;
+    }
+    const qty = Math.min(item.qty, remaining);
+    reserved[key] = (reserved[key] ?? 0) + qty;
+    if (qty < item.qty) {
+      issues.push({ item, kind: "partial", detail: `Solo quedan ${qty} de ${item.qty} unidades` });
+    }
+
+    const { custom, msg, missing } = parseItemNote(item.note, cakeOptions);
+    if (missing.length) {
+      issues.push({ item, kind: "customChanged", detail: `Opciones ya no disponibles: ${missing.join(", ")}` });
+    }
+    const unitPrice = line.precio + customizationPrice(custom, cakeOptions);
+    if (unitPrice !== item.originalUnitPrice) {
+      issues.push({
+        item,
+        kind: "priceChanged",
+        detail: `Ahora ${formatMoney(unitPrice)} (antes ${formatMoney(item.originalUnitPrice)})`
+      });
+    }
+    lines.push({ item, productId: product.id, variantId: variant?.id, qty, msg, custom });
+  }
+
+  return { lines, issues };
+}
@@ -0,0 +1,72 @@
+import type { Order, Product } from "../types";
+
+/** Días de pedidos recientes usados para estimar la demanda. */
+export const DEMAND_WINDOW_DAYS = 14;
+/** Días de venta que debería cubrir el stock después de producir. */
+export const TARGET_COVER_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ReplenishmentRow = {
+  product: Product;
+  /** Unidades promedio vendidas por día en la ventana. */
+  demandaDiaria: number;
+  /** Días que alcanza el stock actual; `null` si no hubo ventas. */
+  diasCobertura: number | null;
+  sugerido: number;
+  critico: boolean;
+};
+
+export function isCriticalStock(product: Pick<Product, "stock" | "stockCritico">): boolean {
+  return product.stock <= product.stockCritico;
+}
+
+/** Unidades vendidas por día y producto, sin contar pedidos cancelados. */
+export function dailyDemand(orders: Order[], now = Date.now(), windowDays = DEMAND_WINDOW_DAYS): Record<string, number> {
+  const since = now - windowDays * DAY_MS;
+  const units: Record<string, number> = {};
+  for (const order of orders) {
+    if (order.estado === "Cancelado" || order.createdAt < since || order.createdAt > now) continue;
+    for (const item of order.items) {
+      units[item.codigo] = (units[item.codigo] ?? 0) + item.qty;
+    }
+  }
+  return Object.fromEntries(Object.entries(units).map(([codigo, qty]) => [codigo, qty / windowDays]));
+}
+
+/**
+ * Productos en stock crítico o que no alcanzan a cubrir los días objetivo,
+ * ordenados por los días de cobertura que les quedan.
+ */
+export function buildReplenishmentPlan(
+  products: Product[],
+  orders: Order[],
+  options: { now?: number; windowDays?: number; targetDays?: number } = {}
+): ReplenishmentRow[] {
+  const targetDays = options.targetDays ?? TARGET_COVER_DAYS;
+  const demand = dailyDemand(orders, options.now, options.windowDays);
+  return products
+    .map((product) => {
+      const demandaDiaria = demand[product.id] ?? 0;
+      const diasCobertura = demandaDiaria > 0 ? product.stock / demandaDiaria : null;
+      // Se produce para cubrir los días objetivo y quedar sobre el stock crítico.
+      const objetivo = Math.max(Math.ceil(demandaDiaria * targetDays) + product.stockCritico, product.stockCritico + 1);
+      return {
+        product,
+        demandaDiaria,
+        diasCobertura,
+        sugerido: Math.max(0, objetivo - product.stock),
+        critico: isCriticalStock(product)
+      };
+    })
+    .filter((row) => row.critico || (row.diasCobertura !== null && row.diasCobertura < targetDays))
+    .sort((a, b) => (a.diasCobertura ?? Infinity) - (b.diasCobertura ?? Infinity) || a.product.stock - b.product.stock);
+}
+
+/** Productos que quedaron en stock crítico entre dos lecturas del catálogo. */
+export function crossedCriticalStock(before: Product[], after: Product[]): Product[] {
+  return after.filter((product) => {
+    const previous = before.find((entry) => entry.id === product.id);
+    return previous !== undefined && !isCriticalStock(previous) && isCriticalStock(product);
+  });
+}
@@ -0,0 +1,142 @@
+import type { Order, Product } from "../types";
+import { addDays, toIsoDate } from "./delivery";
+import { describeBenefitLabel } from "./format";
+import { refundedAmount } from "./orderStatus";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Períodos disponibles, en días hacia atrás desde hoy. */
+export const ANALYTICS_PERIODS = [7, 30, 90, 365];
+
+export type DateRange = { from: number; to: number };
+
+/** Rango de `days` días que termina hoy y el rango anterior del mismo largo. */
+export function periodRanges(days: number, now = Date.now()): { current: DateRange; previous: DateRange } {
+  const endOfToday = new Date(now);
+  endOfToday.setHours(24, 0, 0, 0);
+  const from = addDays(endOfToday, -days).getTime();
+  return {
+    current: { from, to: endOfToday.getTime() },
+    previous: { from: addDays(new Date(from), -days).getTime(), to: from }
+  };
+}
+
+/** Pedidos que cuentan como venta dentro del rango; los cancelados no suman. */
+export function ordersInRange(orders: Order[], range: DateRange): Order[] {
+  return orders.filter(
+    (order) => order.estado !== "Cancelado" && order.createdAt >= range.from && order.createdAt < range.to
+  );
+}
+
+export type SalesMetrics = {
+  /** Ventas netas de reembolsos. */
+  ingresos: number;
+  pedidos: number;
+  ticketPromedio: number;
+  descuentos: number;
+};
+
+export function salesMetrics(orders: Order[]): SalesMetrics {
+  const ingresos = orders.reduce((acc, order) => acc + order.total - refundedAmount(order), 0);
+  return {
+    ingresos,
+    pedidos: orders.length,
+    ticketPromedio: orders.length ? Math.round(ingresos / orders.length) : 0,
+    descuentos: orders.reduce((acc, order) => acc + order.discountTotal, 0)
+  };
+}
+
+/** Variación porcentual contra el período anterior; `null` si antes no hubo movimiento. */
+export function percentChange(current: number, previous: number): number | null {
+  if (!previous) return null;
+  return ((current - previous) / Math.abs(previous)) * 100;
+}
+
+export type SeriesPoint = { label: string; from: number; ingresos: number; pedidos: number };
+
+/**
+ * Ventas agrupadas por día (hasta 31 días), semana (hasta 120) o mes, con los
+ * intervalos vacíos incluidos para que el gráfico no salte fechas.
+ */
+export function salesSeries(orders: Order[], range: DateRange): SeriesPoint[] {
+  const days = Math.round((range.to - range.from) / DAY_MS);
+  const step = days <= 31 ? 1 : days <= 120 ? 7 : 0;
+  const points: SeriesPoint[] = [];
+  let cursor = new Date(range.from);
+  while (cursor.getTime() < range.to) {
+    const next = step ? addDays(cursor, step) : new Date(cursor.getFullYear(), cursor.getMonth() + 1, 1);
+    const from = cursor.getTime();
+    const { ingresos, pedidos } = salesMetrics(ordersInRange(orders, { from, to: Math.min(next.getTime(), range.to) }));
+    const label = step
+      ? toIsoDate(cursor).slice(5)
+      : cursor.toLocaleDateString("es-CL", { month: "short", year: "2-digit" });
+    points.push({ label, from, ingresos, pedidos });
+    cursor = next;
+  }
+  return points;
+}
+
+export type RankingRow = { key: string; label: string; unidades: number; ingresos: number };
+
+const rank = (rows: Map<string, RankingRow>, limit: number) =>
+  Array.from(rows.values())
+    .sort((a, b) => b.ingresos - a.ingresos || b.unidades - a.unidades)
+    .slice(0, limit);
+
+export function topProducts(orders: Order[], limit = 5): RankingRow[] {
+  const rows = new Map<string, RankingRow>();
+  orders.forEach((order) =>
+    order.items.forEach((item) => {
+      const row = rows.get(item.codigo) ?? { key: item.codigo, label: item.nombre, unidades: 0, ingresos: 0 };
+      row.unidades += item.qty;
+      row.ingresos += item.subtotal;
+      rows.set(item.codigo, row);
+    })
+  );
+  return rank(rows, limit);
+}
+
+export function topCategories(orders: Order[], products: Product[], limit = 5): RankingRow[] {
+  const rows = new Map<string, RankingRow>();
+  orders.forEach((order) =>
+    order.items.forEach((item) => {
+      const categoria = products.find((product) => product.id === item.codigo)?.categoria || "Sin categoría";
+      const row = rows.get(categoria) ?? { key: categoria, label: categoria, unidades: 0, ingresos: 0 };
+      row.unidades += item.qty;
+      row.ingresos += item.subtotal;
+      rows.set(categoria, row);
+    })
+  );
+  return rank(rows, limit);
+}
+
+/** Producto más vendido en unidades; sirve para el resumen del panel. */
+export function bestSeller(orders: Order[]): RankingRow | undefined {
+  const vigentes = orders.filter((order) => order.estado !== "Cancelado");
+  return topProducts(vigentes, Infinity).sort((a, b) => b.unidades - a.unidades)[0];
+}
+
+export type BenefitRow = { label: string; pedidos: number; ingresos: number; descuentos: number };
+
+/**
+ * Pedidos, ventas y descuentos por beneficio aplicado (y cupón). Un pedido con varios
+ * beneficios suma en cada uno, así que las filas no se suman entre sí.
+ */
+export function benefitBreakdown(orders: Order[]): BenefitRow[] {
+  const rows = new Map<string, BenefitRow>();
+  orders.forEach((order) => {
+    const labels = new Set(
+      (order.benefitsApplied ?? []).map((label) => describeBenefitLabel(label).title).filter(Boolean)
+    );
+    if (order.couponCode) labels.add(`Cupón ${order.couponCode}`);
+    if (!labels.size) labels.add("Sin beneficios");
+    labels.forEach((label) => {
+      const row = rows.get(label) ?? { label, pedidos: 0, ingresos: 0, descuentos: 0 };
+      row.pedidos += 1;
+      row.ingresos += order.total - refundedAmount(order);
+      row.descuentos += order.discountTotal;
+      rows.set(label, row);
+    });
+  });
+  return Array.from(rows.values()).sort((a, b) => b.descuentos - a.descuentos || b.pedidos - a.pedidos);
+}
@@ -0,0 +1,69 @@
+import type { ShippingZone } from "../types";
+
+export type ShippingQuote = {
+  deliverable: boolean;
+  cost: number;
+  zone?: ShippingZone;
+  /** Envío gratis por superar el umbral de la zona. */
+  freeByThreshold: boolean;
+  /** Monto que falta para el envío gratis, si la zona lo ofrece. */
+  missingForFree?: number;
+  reason?: string;
+};
+
+const normalize = (value: string) =>
+  value
+    .normalize("NFD")
+    .replace(/[̀-ͯ]/g, "")
+    .trim()
+    .toLowerCase();
+
+/**
+ * Busca la zona de una dirección: una zona que nombra la comuna gana sobre
+ * la que cubre toda la región.
+ */
+export function resolveShippingZone(
+  zones: ShippingZone[],
+  region: string | undefined,
+  comuna: string | undefined
+): ShippingZone | undefined {
+  if (!region) return undefined;
+  const regionKey = normalize(region);
+  const comunaKey = normalize(comuna ?? "");
+  const inRegion = zones.filter((zone) => normalize(zone.region) === regionKey);
+  const byComuna = comunaKey
+    ? inRegion.find((zone) => zone.comunas.some((entry) => normalize(entry) === comunaKey))
+    : undefined;
+  return byComuna ?? inRegion.find((zone) => zone.comunas.length === 0);
+}
+
+export function quoteShipping(
+  zones: ShippingZone[],
+  address: { region?: string; comuna?: string } | null | undefined,
+  subTotal: number
+): ShippingQuote {
+  if (!address?.region || !address.comuna) {
+    return { deliverable: false, cost: 0, freeByThreshold: false, reason: "Selecciona una dirección de entrega." };
+  }
+  const zone = resolveShippingZone(zones, address.region, address.comuna);
+  if (!zone || zone.sinCobertura) {
+    return {
+      deliverable: false,
+      cost: 0,
+      zone,
+      freeByThreshold: false,
+      reason: `Por ahora no despachamos a ${address.comuna}, ${address.region}.`
+    };
+  }
+  const threshold = zone.envioGratisDesde;
+  if (typeof threshold === "number" && subTotal >= threshold) {
+    return { deliverable: true, cost: 0, zone, freeByThreshold: true };
+  }
+  return {
+    deliverable: true,
+    cost: Math.max(0, zone.costo),
+    zone,
+    freeByThreshold: false,
+    missingForFree: typeof threshold === "number" ? threshold - subTotal : undefined
+  };
+}
@@ -0,0 +1,137 @@
+import type { Product, StockLevel, StockLot, StockMovementType } from "../types";
+import { toIsoDate } from "./delivery";
+
+/** Aplica un nivel de stock informado por el backend sin recargar el catálogo. */
+export function applyStockLevel(products: Product[], level: StockLevel): Product[] {
+  return products.map((product) => {
+    if (product.id !== level.productId) return product;
+    const variants = product.variants?.map((variant) => {
+      const match = level.variants?.find((entry) => entry.id === variant.id);
+      return match ? { ...variant, stock: match.stock } : variant;
+    });
+    return { ...product, stock: level.stock, variants };
+  });
+}
+
+export const STOCK_MOVEMENT_LABEL: Record<StockMovementType, string> = {
+  produccion: "Producción",
+  venta: "Venta",
+  merma: "Merma",
+  ajuste: "Ajuste",
+  devolucion: "Devolución"
+};
+
+/** Tipos que el equipo registra a mano; ventas y devoluciones las genera el backend con los pedidos. */
+export const MANUAL_MOVEMENT_TYPES: StockMovementType[] = ["produccion", "merma", "ajuste"];
+
+export type StockMovementDraft = {
+  tipo: StockMovementType;
+  /** Unidades ingresadas; solo el ajuste admite negativos. */
+  cantidad: number;
+  motivo: string;
+  /** Vencimiento del lote que crea una producción (YYYY-MM-DD). */
+  venceEl?: string;
+  /** Lote que se da de baja en una merma; sin lote se descuenta por FEFO. */
+  lotId?: string;
+};
+
+/** Variación con signo que produce el movimiento sobre el stock. */
+export function movementDelta(tipo: StockMovementType, cantidad: number): number {
+  if (tipo === "ajuste") return cantidad;
+  return tipo === "venta" || tipo === "merma" ? -Math.abs(cantidad) : Math.abs(cantidad);
+}
+
+export function validateStockMovement(
+  draft: StockMovementDraft,
+  currentStock: number,
+  options: { lot?: StockLot; today?: string } = {}
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  if (!Number.isInteger(draft.cantidad) || draft.cantidad === 0) {
+    errors.cantidad = "Ingresa una cantidad entera distinta de cero";
+  } else if (draft.tipo !== "ajuste" && draft.cantidad < 0) {
+    errors.cantidad = "La cantidad debe ser positiva";
+  } else if (currentStock + movementDelta(draft.tipo, draft.cantidad) < 0) {
+    errors.cantidad = `El stock no puede quedar negativo (disponible: ${currentStock})`;
+  }
+  if ((draft.tipo === "merma" || draft.tipo === "ajuste") && !draft.motivo.trim()) {
+    errors.motivo = "Indica el motivo";
+  }
+  if (draft.tipo === "produccion" && draft.venceEl && draft.venceEl < (options.today ?? toIsoDate(new Date()))) {
+    errors.venceEl = "La fecha de vencimiento ya pasó";
+  }
+  if (options.lot && !errors.cantidad && Math.abs(draft.cantidad) > options.lot.disponible) {
+    errors.cantidad = `El lote ${options.lot.codigo} solo tiene ${options.lot.disponible} unidades`;
+  }
+  return errors;
+}
+
+/** Roles que pueden corregir stock y stock crítico directamente desde la tabla de inventario. */
+export const STOCK_EDITOR_ROLES = ["Inventario"];
+
+/** Corrección directa desde la tabla; cada una lleva su motivo. */
+export type StockAdjustment = {
+  productId: string;
+  stock?: number;
+  stockCritico?: number;
+  motivo: string;
+};
+
+export function validateStockAdjustment(adjustment: StockAdjustment, product: Product): Record<string, string> {
+  const errors: Record<string, string> = {};
+  if (adjustment.stock !== undefined) {
+    if (product.variants?.length) {
+      errors.stock = "Ajusta el stock de cada versión con un movimiento";
+    } else if (!Number.isInteger(adjustment.stock) || adjustment.stock < 0) {
+      errors.stock = "Stock inválido";
+    }
+  }
+  if (
+    adjustment.stockCritico !== undefined &&
+    (!Number.isInteger(adjustment.stockCritico) || adjustment.stockCritico < 0)
+  ) {
+    errors.stockCritico = "Stock crítico inválido";
+  }
+  if (adjustment.stock === undefined && adjustment.stockCritico === undefined) {
+    errors.form = "No hay cambios";
+  }
+  if (!adjustment.motivo.trim()) {
+    errors.motivo = "Indica el motivo";
+  }
+  return errors;
+}
+
+/** Estado optimista del catálogo mientras se guardan los ajustes. */
+export function applyStockAdjustments(products: Product[], adjustments: StockAdjustment[]): Product[] {
+  return products.map((product) => {
+    const adjustment = adjustments.find((entry) => entry.productId === product.id);
+    if (!adjustment) return product;
+    return {
+      ...product,
+      stock: adjustment.stock ?? product.stock,
+      stockCritico: adjustment.stockCritico ?? product.stockCritico
+    };
+  });
+}
+
+export type BulkAdjustmentDraft = {
+  /** "sumar" acepta negativos para descontar; "fijar" deja el valor indicado. */
+  modo: "sumar" | "fijar";
+  stock: string;
+  stockCritico: string;
+  motivo: string;
+};
+
+/** Traduce el ajuste masivo a un ajuste por producto, omitiendo los campos vacíos. */
+export function buildBulkAdjustments(products: Product[], draft: BulkAdjustmentDraft): StockAdjustment[] {
+  return products.map((product) => {
+    const stockValue = draft.stock.trim() === "" ? undefined : Number(draft.stock);
+    const criticoValue = draft.stockCritico.trim() === "" ? undefined : Number(draft.stockCritico);
+    return {
+      productId: product.id,
+      stock: stockValue === undefined ? undefined : draft.modo === "sumar" ? product.stock + stockValue : stockValue,
+      stockCritico: criticoValue,
+      motivo: draft.motivo
+    };
+  });
+}
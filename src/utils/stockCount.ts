@@ -0,0 +1,129 @@
+import type { Product, ProductVariant, StockCount, StockCountLine } from "../types";
+import { findVariant, stockFor, unitPriceFor } from "./variants";
+
+/** Lo que se cuenta: cada producto, o cada versión si el producto tiene versiones. */
+export type CountTarget = {
+  key: string;
+  product: Product;
+  variant?: ProductVariant;
+  /** Código que se escanea o escribe: `CODIGO` o `CODIGO-VERSION`. */
+  codigo: string;
+};
+
+export const countKey = (productId: string, variantId?: string) => `${productId}|${variantId ?? ""}`;
+
+export function countTargets(products: Product[]): CountTarget[] {
+  return products.flatMap((product) =>
+    product.variants?.length
+      ? product.variants.map((variant) => ({
+          key: countKey(product.id, variant.id),
+          product,
+          variant,
+          codigo: `${product.id}-${variant.id}`
+        }))
+      : [{ key: countKey(product.id), product, codigo: product.id }]
+  );
+}
+
+export type ScanResult =
+  | { ok: true; target: CountTarget; qty: number }
+  | { ok: false; message: string };
+
+/**
+ * Interpreta lo que entra por teclado o lector de código de barras: `TC001` suma una
+ * unidad y `TC001*6` (o `TC001 x6`) suma seis.
+ */
+export function resolveScan(input: string, products: Product[]): ScanResult {
+  const match = input.trim().match(/^(\S+?)(?:\s*\*\s*(-?\d+)|\s+x\s*(-?\d+))?$/i);
+  if (!match) return { ok: false, message: "Ingresa un código" };
+  const codigo = match[1].toUpperCase();
+  const amount = match[2] ?? match[3];
+  const qty = amount === undefined ? 1 : Number(amount);
+  if (!Number.isInteger(qty) || qty === 0) {
+    return { ok: false, message: "Cantidad inválida" };
+  }
+  const target = countTargets(products).find((entry) => entry.codigo.toUpperCase() === codigo);
+  if (target) return { ok: true, target, qty };
+  const product = products.find((entry) => entry.id.toUpperCase() === codigo);
+  if (product?.variants?.length) {
+    const codes = product.variants.map((variant) => `${product.id}-${variant.id}`);
+    return { ok: false, message: `Indica la versión: ${codes.join(", ")}` };
+  }
+  return { ok: false, message: `No existe el código ${codigo}` };
+}
+
+/** Suma unidades contadas; el total nunca queda bajo cero. */
+export function addCount(lines: StockCountLine[], productId: string, variantId: string | undefined, qty: number) {
+  const current = lines.find((line) => countKey(line.productId, line.variantId) === countKey(productId, variantId));
+  return setCount(lines, productId, variantId, Math.max(0, (current?.contado ?? 0) + qty));
+}
+
+/** Fija lo contado de un producto; `null` lo deja como no contado. */
+export function setCount(
+  lines: StockCountLine[],
+  productId: string,
+  variantId: string | undefined,
+  contado: number | null
+): StockCountLine[] {
+  const key = countKey(productId, variantId);
+  const others = lines.filter((line) => countKey(line.productId, line.variantId) !== key);
+  return contado === null ? others : [...others, { productId, variantId, contado }];
+}
+
+export type CountDiscrepancy = {
+  key: string;
+  product: Product;
+  variant?: ProductVariant;
+  esperado: number;
+  contado: number;
+  diferencia: number;
+  /** Diferencia valorizada a precio de venta. */
+  valor: number;
+};
+
+export type CountSummary = {
+  contados: number;
+  conDiferencia: number;
+  faltantes: number;
+  sobrantes: number;
+  valorNeto: number;
+};
+
+/**
+ * Compara lo contado con el stock: el esperado que fijó la aprobación o, si el conteo
+ * sigue abierto, el stock actual. Las diferencias más caras primero.
+ */
+export function countDiscrepancies(
+  count: Pick<StockCount, "lineas">,
+  products: Product[]
+): { rows: CountDiscrepancy[]; summary: CountSummary } {
+  const rows: CountDiscrepancy[] = [];
+  for (const line of count.lineas) {
+    const product = products.find((entry) => entry.id === line.productId);
+    if (!product) continue;
+    const variant = findVariant(product, line.variantId);
+    const esperado = line.esperado ?? stockFor(product, variant);
+    const diferencia = line.contado - esperado;
+    rows.push({
+      key: countKey(line.productId, line.variantId),
+      product,
+      variant,
+      esperado,
+      contado: line.contado,
+      diferencia,
+      valor: diferencia * unitPriceFor(product, variant)
+    });
+  }
+  rows.sort((a, b) => Math.abs(b.valor) - Math.abs(a.valor) || a.product.nombre.localeCompare(b.product.nombre, "es"));
+  const summary = rows.reduce<CountSummary>(
+    (acc, row) => ({
+      contados: acc.contados + 1,
+      conDiferencia: acc.conDiferencia + (row.diferencia !== 0 ? 1 : 0),
+      faltantes: acc.faltantes + Math.max(0, -row.diferencia),
+      sobrantes: acc.sobrantes + Math.max(0, row.diferencia),
+      valorNeto: acc.valorNeto + row.valor
+    }),
+    { contados: 0, conDiferencia: 0, faltantes: 0, sobrantes: 0, valorNeto: 0 }
+  );
+  return { rows, summary };
+}
@@ -0,0 +1,36 @@
+import type { Product, ProductVariant } from "../types";
+
+export function findVariant(product: Product, variantId?: string | null): ProductVariant | undefined {
+  if (!variantId || !product.variants?.length) return undefined;
+  return product.variants.find((variant) => variant.id === variantId);
+}
+
+export function defaultVariant(product: Product): ProductVariant | undefined {
+  if (!product.variants?.length) return undefined;
+  return product.variants.find((variant) => variant.stock > 0) ?? product.variants[0];
+}
+
+export function unitPriceFor(product: Product, variant?: ProductVariant): number {
+  return variant ? variant.precio : product.precio;
+}
+
+export function stockFor(product: Product, variant?: ProductVariant): number {
+  return variant ? variant.stock : product.stock;
+}
+
+export function describeVariant(product: Product, variant?: ProductVariant): string {
+  return variant?.label || product.attr;
+}
+
+export type CartLineVariant = { variant?: ProductVariant; stock: number; precio: number };
+
+/**
+ * Variante con que se vende una línea del carrito: la elegida o, si la línea no
+ * trae una, la variante por defecto. Stock y precio salen siempre de la misma
+ * variante; `null` si la variante elegida ya no existe.
+ */
+export function resolveCartLine(product: Product, variantId?: string | null): CartLineVariant | null {
+  const variant = variantId ? findVariant(product, variantId) : defaultVariant(product);
+  if (product.variants?.length && !variant) return null;
+  return { variant, stock: stockFor(product, variant), precio: unitPriceFor(product, variant) };
+}
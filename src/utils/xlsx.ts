@@ -0,0 +1,328 @@
+/**
+ * Generador mínimo de planillas XLSX en el navegador: un ZIP sin compresión con
+ * el SpreadsheetML justo para varias hojas, textos en línea, montos CLP y fechas.
+ * También lee la primera hoja de un XLSX como filas de texto para importar.
+ */
+
+export type CellType = "text" | "money" | "number" | "date";
+
+export type SheetColumn = {
+  header: string;
+  type: CellType;
+  width?: number;
+};
+
+export type CellValue = string | number | null | undefined;
+
+export type Sheet = {
+  name: string;
+  columns: SheetColumn[];
+  rows: CellValue[][];
+};
+
+export const XLSX_MIME = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+// Índices de cellXfs definidos en STYLES_XML.
+const STYLE_HEADER = 1;
+const STYLE_MONEY = 2;
+const STYLE_DATE = 3;
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="2"><numFmt numFmtId="164" formatCode="&quot;$&quot;#,##0"/><numFmt numFmtId="165" formatCode="dd-mm-yyyy hh:mm"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="4">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+</cellXfs>
+</styleSheet>`;
+
+// Caracteres de control no permitidos en XML 1.0 (se conservan tab, salto de línea y retorno).
+const isXmlAllowed = (char: string) => {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+};
+
+const escapeXml = (value: string) =>
+  Array.from(value)
+    .filter(isXmlAllowed)
+    .join("")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+export function columnName(index: number): string {
+  let name = "";
+  let current = index + 1;
+  while (current > 0) {
+    const remainder = (current - 1) % 26;
+    name = String.fromCharCode(65 + remainder) + name;
+    current = Math.floor((current - 1) / 26);
+  }
+  return name;
+}
+
+/** Serial de fecha de Excel en hora local a partir de un timestamp en ms. */
+export function toExcelDate(timestamp: number): number {
+  const offset = new Date(timestamp).getTimezoneOffset() * 60_000;
+  return (timestamp - offset) / 86_400_000 + 25_569;
+}
+
+function cellXml(ref: string, value: CellValue, type: CellType): string {
+  if (value === null || value === undefined || value === "") return "";
+  if (type !== "text" && typeof value === "number" && Number.isFinite(value)) {
+    const style = type === "money" ? STYLE_MONEY : type === "date" ? STYLE_DATE : 0;
+    const number = type === "date" ? toExcelDate(value) : value;
+    return `<c r="${ref}"${style ? ` s="${style}"` : ""}><v>${number}</v></c>`;
+  }
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+}
+
+function sheetXml(sheet: Sheet): string {
+  const cols = sheet.columns
+    .map((column, index) => `<col min="${index + 1}" max="${index + 1}" width="${column.width ?? 16}" customWidth="1"/>`)
+    .join("");
+  const header = sheet.columns
+    .map((column, index) => `<c r="${columnName(index)}1" t="inlineStr" s="${STYLE_HEADER}"><is><t>${escapeXml(column.header)}</t></is></c>`)
+    .join("");
+  const rows = sheet.rows
+    .map((row, rowIndex) => {
+      const ref = rowIndex + 2;
+      const cells = sheet.columns
+        .map((column, index) => cellXml(`${columnName(index)}${ref}`, row[index], column.type))
+        .join("");
+      return `<row r="${ref}">${cells}</row>`;
+    })
+    .join("");
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><cols>${cols}</cols><sheetData><row r="1">${header}</row>${rows}</sheetData></worksheet>`;
+}
+
+const sheetName = (name: string) => escapeXml(name.replace(/[\\/?*[\]:]/g, " ").slice(0, 31));
+
+function workbookFiles(sheets: Sheet[]): Array<[string, string]> {
+  const overrides = sheets
+    .map(
+      (_, index) =>
+        `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+    )
+    .join("");
+  const sheetEntries = sheets
+    .map((sheet, index) => `<sheet name="${sheetName(sheet.name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`)
+    .join("");
+  const sheetRels = sheets
+    .map(
+      (_, index) =>
+        `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+    )
+    .join("");
+  const stylesId = sheets.length + 1;
+  return [
+    [
+      "[Content_Types].xml",
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>${overrides}</Types>`
+    ],
+    [
+      "_rels/.rels",
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`
+    ],
+    [
+      "xl/workbook.xml",
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${sheetEntries}</sheets></workbook>`
+    ],
+    [
+      "xl/_rels/workbook.xml.rels",
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${sheetRels}<Relationship Id="rId${stylesId}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`
+    ],
+    ["xl/styles.xml", STYLES_XML],
+    ...sheets.map((sheet, index): [string, string] => [`xl/worksheets/sheet${index + 1}.xml`, sheetXml(sheet)])
+  ];
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** Empaqueta los archivos en un ZIP "stored" (sin compresión), suficiente para Excel. */
+export function zipStore(files: Array<[string, string]>): Uint8Array {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(([name, content]) => {
+    const nameBytes = encoder.encode(name);
+    const data = encoder.encode(content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // nombres en UTF-8
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, nameBytes.length, true);
+    chunks.push(new Uint8Array(local.buffer), nameBytes, data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint16(8, 0x0800, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, nameBytes.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), nameBytes);
+
+    offset += 30 + nameBytes.length + data.length;
+  });
+
+  const centralSize = central.reduce((acc, chunk) => acc + chunk.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...chunks, ...central, new Uint8Array(end.buffer)];
+  const output = new Uint8Array(parts.reduce((acc, part) => acc + part.length, 0));
+  let position = 0;
+  parts.forEach((part) => {
+    output.set(part, position);
+    position += part.length;
+  });
+  return output;
+}
+
+export function buildXlsx(sheets: Sheet[]): Uint8Array {
+  return zipStore(workbookFiles(sheets));
+}
+
+const ZIP_END_SIGNATURE = 0x06054b50;
+const ZIP_ENTRY_SIGNATURE = 0x02014b50;
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const source = new ReadableStream<BufferSource>({
+    start(controller) {
+      controller.enqueue(data as BufferSource);
+      controller.close();
+    }
+  });
+  const reader = source.pipeThrough(new DecompressionStream("deflate-raw")).getReader();
+  const chunks: Uint8Array[] = [];
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+  }
+  const output = new Uint8Array(chunks.reduce((acc, chunk) => acc + chunk.length, 0));
+  let position = 0;
+  chunks.forEach((chunk) => {
+    output.set(chunk, position);
+    position += chunk.length;
+  });
+  return output;
+}
+
+/** Extrae los archivos de un ZIP ("stored" o "deflate") leyendo su directorio central. */
+export async function unzip(bytes: Uint8Array): Promise<Record<string, Uint8Array>> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let end = bytes.length - 22;
+  while (end >= 0 && view.getUint32(end, true) !== ZIP_END_SIGNATURE) end--;
+  if (end < 0) throw new Error("El archivo no es un XLSX válido");
+
+  const decoder = new TextDecoder();
+  const files: Record<string, Uint8Array> = {};
+  const count = view.getUint16(end + 10, true);
+  let pointer = view.getUint32(end + 16, true);
+  for (let index = 0; index < count; index++) {
+    if (view.getUint32(pointer, true) !== ZIP_ENTRY_SIGNATURE) throw new Error("El archivo XLSX está dañado");
+    const method = view.getUint16(pointer + 10, true);
+    const size = view.getUint32(pointer + 20, true);
+    const nameLength = view.getUint16(pointer + 28, true);
+    const extraLength = view.getUint16(pointer + 30, true);
+    const commentLength = view.getUint16(pointer + 32, true);
+    const localOffset = view.getUint32(pointer + 42, true);
+    const name = decoder.decode(bytes.subarray(pointer + 46, pointer + 46 + nameLength));
+    const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(start, start + size);
+    if (method === 0) files[name] = data;
+    else if (method === 8) files[name] = await inflateRaw(data);
+    else throw new Error("Compresión de XLSX no soportada");
+    pointer += 46 + nameLength + extraLength + commentLength;
+  }
+  return files;
+}
+
+export function columnIndex(name: string): number {
+  return name.split("").reduce((acc, letter) => acc * 26 + (letter.charCodeAt(0) - 64), 0) - 1;
+}
+
+const byTag = (root: Document | Element, tag: string) => Array.from(root.getElementsByTagNameNS("*", tag));
+
+/** Lee la primera hoja del libro como filas de texto, sin la información de formato. */
+export async function readXlsxRows(bytes: Uint8Array): Promise<string[][]> {
+  const files = await unzip(bytes);
+  const decoder = new TextDecoder();
+  const parse = (name: string) => new DOMParser().parseFromString(decoder.decode(files[name]), "application/xml");
+  const sheetFile =
+    files["xl/worksheets/sheet1.xml"] !== undefined
+      ? "xl/worksheets/sheet1.xml"
+      : Object.keys(files)
+          .filter((name) => /^xl\/worksheets\/sheet\d+\.xml$/.test(name))
+          .sort()[0];
+  if (!sheetFile) throw new Error("El XLSX no tiene hojas");
+
+  const shared = files["xl/sharedStrings.xml"]
+    ? byTag(parse("xl/sharedStrings.xml"), "si").map((item) =>
+        byTag(item, "t")
+          .map((text) => text.textContent ?? "")
+          .join("")
+      )
+    : [];
+
+  return byTag(parse(sheetFile), "row").map((row) => {
+    const values: string[] = [];
+    byTag(row, "c").forEach((cell, position) => {
+      const ref = /^[A-Z]+/.exec(cell.getAttribute("r") ?? "")?.[0];
+      const column = ref ? columnIndex(ref) : position;
+      const type = cell.getAttribute("t");
+      const raw = byTag(cell, "v")[0]?.textContent ?? "";
+      values[column] =
+        type === "s"
+          ? shared[Number(raw)] ?? ""
+          : type === "inlineStr"
+            ? byTag(cell, "t")
+                .map((text) => text.textContent ?? "")
+                .join("")
+            : raw;
+    });
+    return Array.from(values, (value) => value ?? "");
+  });
+}
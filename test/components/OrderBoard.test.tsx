@@ -0,0 +1,37 @@
+import React from "react";
+import { render, screen, fireEvent, within } from "@testing-library/react";
+import { describe, it, expect, vi } from "vitest";
+import { OrderBoard } from "../../src/components/orders/OrderBoard";
+import { orderFixture } from "../fixtures/orders";
+
+const baseOrder = orderFixture({
+  cliente: "Ana",
+  subtotal: 15000,
+  deliveryDate: "2025-06-10",
+  deliverySlot: "10:00 - 13:00"
+});
+
+// Verifica que el tablero agrupa por estado y mueve pedidos con botones o arrastrando
+describe("OrderBoard", () => {
+  it("moves an order to the next status with the keyboard-accessible action", () => {
+    const onMove = vi.fn();
+    render(<OrderBoard orders={[baseOrder]} rol="Vendedor" busy={{}} onMove={onMove} now={new Date(2025, 5, 11)} />);
+    const column = screen.getByRole("region", { name: /Pendiente \(1\)/ });
+    expect(within(column).getByText(/Atrasado/)).toBeTruthy();
+    fireEvent.click(within(column).getByRole("button", { name: "Mover ORD1 a Preparando" }));
+    expect(onMove).toHaveBeenCalledWith("ORD1", "Preparando");
+  });
+
+  it("only accepts drops on columns allowed by the transition table", () => {
+    const onMove = vi.fn();
+    render(<OrderBoard orders={[baseOrder]} rol="Vendedor" busy={{}} onMove={onMove} />);
+    const card = screen.getByText("ORD1").closest("article")!;
+    const dataTransfer = { setData: vi.fn(), getData: () => "ORD1", effectAllowed: "" };
+    fireEvent.dragStart(card, { dataTransfer });
+    fireEvent.drop(screen.getByRole("region", { name: /Entregado/ }), { dataTransfer });
+    expect(onMove).not.toHaveBeenCalled();
+    fireEvent.dragStart(card, { dataTransfer });
+    fireEvent.drop(screen.getByRole("region", { name: /Preparando/ }), { dataTransfer });
+    expect(onMove).toHaveBeenCalledWith("ORD1", "Preparando");
+  });
+});
@@ -0,0 +1,37 @@
+import type { Order, OrderItem } from "../../src/types";
+
+/** Línea de pedido a precio de lista, sin descuentos; `extra` agrega nombre, nota o variante. */
+export const itemFixture = (codigo: string, qty: number, price = 1000, extra: Partial<OrderItem> = {}): OrderItem => ({
+  codigo,
+  nombre: codigo,
+  qty,
+  unitPrice: price,
+  originalUnitPrice: price,
+  discountPerUnit: 0,
+  subtotal: price * qty,
+  originalSubtotal: price * qty,
+  ...extra
+});
+
+/**
+ * Pedido completo para las pruebas: cada una indica solo lo que le importa. Los montos
+ * salen de los ítems salvo que se indiquen.
+ */
+export function orderFixture(partial: Partial<Order> = {}): Order {
+  const items = partial.items ?? [];
+  const subtotal = partial.subtotal ?? items.reduce((acc, item) => acc + item.subtotal, 0);
+  const discountTotal = partial.discountTotal ?? 0;
+  const shippingCost = partial.shippingCost ?? 0;
+  return {
+    id: "ORD1",
+    cliente: "A",
+    estado: "Pendiente",
+    createdAt: 0,
+    ...partial,
+    items,
+    subtotal,
+    discountTotal,
+    shippingCost,
+    total: partial.total ?? subtotal - discountTotal + shippingCost
+  };
+}
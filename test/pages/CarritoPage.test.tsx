@@ -1,12 +1,15 @@
 import React from "react";
-import { render, screen, fireEvent } from "@testing-library/react";
+import { render, screen, fireEvent, waitFor, within } from "@testing-library/react";
 import { describe, it, expect, vi } from "vitest";
 
 // Simular `useAppContext` para proporcionar el estado del carrito y espiar acciones
 const mockOpenReceipt = vi.fn();
 const mockUpdateCustomer = vi.fn();
 const mockClearCart = vi.fn();
-const mockUpsertProduct = vi.fn();
+const mockPlaceOrder = vi.fn(async () => ({
+  ok: true,
+  order: { id: "ORD1", cliente: "A", total: 1000, estado: "Pendiente", items: [], subtotal: 1000, discountTotal: 0, shippingCost: 0, createdAt: 0 }
+}));
 vi.mock("../../src/context/AppContext", () => ({
   useAppContext: () => ({
     cartTotals: {
@@ -34,8 +37,8 @@ vi.mock("../../src/context/AppContext", () => ({
     removeFromCart: vi.fn(),
     setCartQty: vi.fn(),
     clearCart: mockClearCart,
-    shippingCost: 0,
-    setShippingCost: vi.fn(),
+    shippingZones: [{ id: "Z1", nombre: "Santiago", region: "Metropolitana", comunas: [], costo: 3000 }],
+    pickupLocations: [{ id: "T1", nombre: "Tienda Providencia", direccion: "Av. Providencia 100", comuna: "Providencia" }],
     coupon: '',
     setCoupon: vi.fn(),
     evaluateCoupon: () => ({ valid: false, discount: 0, shipAfter: 0 }),
@@ -50,30 +53,76 @@ vi.mock("../../src/context/AppContext", () => ({
       shippingLabel: ''
     }),
     customerSession: { email: 'a@a.com', nombre: 'A' },
+    currentCustomer: {
+      run: '11111111-1',
+      nombre: 'A',
+      apellidos: 'B',
+      email: 'a@a.com',
+      fnac: '',
+      region: 'Metropolitana',
+      comuna: 'Santiago',
+      direccion: 'Calle 1',
+      createdAt: 0
+    },
+    showNotification: vi.fn(),
+    placeOrder: mockPlaceOrder,
     updateCustomer: mockUpdateCustomer,
     openReceiptWindow: mockOpenReceipt,
     products: [{ id: 'P1', nombre: 'T1', precio: 1000, categoria: 'C', attr: '', img: '', stock: 5, stockCritico: 0 }],
-    upsertProduct: mockUpsertProduct,
-    orders: [],
-    updateOrders: vi.fn()
+    orders: []
+  })
+}));
+
+vi.mock("../../src/hooks/useDeliverySchedule", () => ({
+  useDeliverySchedule: () => ({
+    schedule: {
+      slots: [{ id: "AM", label: "10:00 - 13:00", inicio: "10:00", fin: "13:00", capacidad: 5 }],
+      holidays: [],
+      booked: {}
+    },
+    loading: false,
+    error: null
   })
 }));
 
 import { MemoryRouter } from "react-router-dom";
 import { CarritoPage } from "../../src/pages/CarritoPage";
 
-// Verifica que el checkout dispara `openReceiptWindow`, actualiza stock del producto y limpia el carrito
+// Verifica que el checkout registra el pedido, dispara `openReceiptWindow` y limpia el carrito
 describe("CarritoPage checkout flow", () => {
-  it("opens receipt, updates product stock and clears cart on checkout", () => {
+  it("places the order, opens receipt and clears cart on checkout", async () => {
     render(
       <MemoryRouter>
         <CarritoPage />
       </MemoryRouter>
     );
+    const days = within(screen.getByRole("listbox", { name: /Fecha de entrega/i })).getAllByRole("option");
+    const day = days.find((option) => !(option as HTMLButtonElement).disabled)!;
+    fireEvent.click(day);
+    fireEvent.click(screen.getByRole("radio", { name: /10:00 - 13:00/ }));
     const btn = screen.getByRole("button", { name: /Finalizar compra/i });
     fireEvent.click(btn);
-    expect(mockOpenReceipt).toHaveBeenCalled();
-    expect(mockUpsertProduct).toHaveBeenCalled();
+    await waitFor(() => expect(mockOpenReceipt).toHaveBeenCalled());
+    expect(mockPlaceOrder).toHaveBeenCalledWith(expect.objectContaining({ deliverySlotId: "AM" }));
     expect(mockClearCart).toHaveBeenCalled();
   });
+
+  it("sends pickup orders without shipping cost", async () => {
+    render(
+      <MemoryRouter>
+        <CarritoPage />
+      </MemoryRouter>
+    );
+    fireEvent.click(screen.getByRole("radio", { name: /Retiro en tienda/i }));
+    fireEvent.change(screen.getByRole("combobox", { name: /Tienda de retiro/i }), { target: { value: "T1" } });
+    const days = within(screen.getByRole("listbox", { name: /Fecha de retiro/i })).getAllByRole("option");
+    fireEvent.click(days.find((option) => !(option as HTMLButtonElement).disabled)!);
+    fireEvent.click(screen.getByRole("radio", { name: /10:00 - 13:00/ }));
+    fireEvent.click(screen.getByRole("button", { name: /Finalizar compra/i }));
+    await waitFor(() =>
+      expect(mockPlaceOrder).toHaveBeenLastCalledWith(
+        expect.objectContaining({ fulfillment: "PICKUP", pickupLocationId: "T1", shippingCost: 0, shippingAddressId: null })
+      )
+    );
+  });
 });
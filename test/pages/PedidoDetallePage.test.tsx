@@ -0,0 +1,49 @@
+import React from "react";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { describe, it, expect, vi } from "vitest";
+import { itemFixture, orderFixture } from "../fixtures/orders";
+
+const item = (codigo: string, qty: number) => itemFixture(codigo, qty, 10000, { nombre: `Torta ${codigo}` });
+
+const product = (id: string) => ({
+  id,
+  nombre: `Torta ${id}`,
+  precio: 10000,
+  categoria: "Tortas",
+  attr: "",
+  img: "",
+  stock: 10,
+  stockCritico: 0
+});
+
+// `addToCart` informa cuántas unidades agregó de verdad; la segunda línea no entra
+const mockAddToCart = vi.fn((id: string, qty: number) => (id === "TC001" ? qty : 0));
+vi.mock("../../src/context/AppContext", () => ({
+  useAppContext: () => ({
+    orders: [orderFixture({ estado: "Entregado", items: [item("TC001", 2), item("TT001", 3)] })],
+    products: [product("TC001"), product("TT001")],
+    cart: [],
+    cakeOptions: [],
+    addToCart: mockAddToCart,
+    openReceiptWindow: vi.fn()
+  })
+}));
+
+import { MemoryRouter, Route, Routes } from "react-router-dom";
+import { PedidoDetallePage } from "../../src/pages/PedidoDetallePage";
+
+// Verifica que "Volver a comprar" informa lo que realmente quedó en el carrito
+describe("PedidoDetallePage reorder", () => {
+  it("reports the units addToCart actually added", () => {
+    render(
+      <MemoryRouter initialEntries={["/pedidos/ORD1"]}>
+        <Routes>
+          <Route path="/pedidos/:orderId" element={<PedidoDetallePage />} />
+        </Routes>
+      </MemoryRouter>
+    );
+    fireEvent.click(screen.getByRole("button", { name: /Volver a comprar/i }));
+    expect(mockAddToCart).toHaveBeenCalledTimes(2);
+    expect(screen.getByRole("status").textContent).toContain("Agregamos 2 unidad(es)");
+  });
+});
@@ -8,6 +8,15 @@ vi.mock("../../src/context/AppContext", () => ({
   useAppContext: () => ({ registerCustomer: mockRegister })
 }));
 
+// Simular `useRegions` para no depender del backend de regiones
+vi.mock("../../src/hooks/useRegions", () => ({
+  useRegions: () => ({
+    regions: { Metropolitana: ["Santiago", "Providencia"] },
+    loading: false,
+    error: null
+  })
+}));
+
 import { MemoryRouter } from "react-router-dom";
 import { RegistroPage } from "../../src/pages/RegistroPage";
 
@@ -20,7 +29,7 @@ describe("RegistroPage", () => {
       </MemoryRouter>
     );
     const region = screen.getByLabelText(/Región/i);
-    // Choose a known region that exists in REGIONS
+    // Choose a known region that exists in the mocked regions
     fireEvent.change(region, { target: { value: "Metropolitana" } });
     const comuna = screen.getByLabelText(/Comuna/i);
     // After selecting region, comuna should be enabled
@@ -0,0 +1,36 @@
+// @vitest-environment node
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { searchAllOrders } from "../../src/services/orders";
+
+describe("orders service", () => {
+  let server: Server | null = null;
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    if (server) await new Promise((resolve) => server?.close(resolve));
+    server = null;
+  });
+
+  it("recorre todas las páginas de la búsqueda con los mismos filtros", async () => {
+    const requested: URLSearchParams[] = [];
+    server = createServer((req, res) => {
+      const params = new URL(req.url ?? "", "http://localhost").searchParams;
+      requested.push(params);
+      const page = Number(params.get("page"));
+      res.setHeader("Content-Type", "application/json");
+      res.end(
+        JSON.stringify({ content: [{ id: `P${page}` }], page, size: 100, totalElements: 3, totalPages: 3 })
+      );
+    });
+    await new Promise<void>((resolve) => server?.listen(0, "127.0.0.1", resolve));
+    vi.stubEnv("VITE_API_BASE_URL", `http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+
+    const orders = await searchAllOrders({ status: "PENDIENTE", sort: "createdAt", direction: "desc" }, "token");
+
+    expect(orders.map((order) => order.id)).toEqual(["P0", "P1", "P2"]);
+    expect(requested.map((params) => params.get("page"))).toEqual(["0", "1", "2"]);
+    expect(requested.every((params) => params.get("status") === "PENDIENTE")).toBe(true);
+  });
+});
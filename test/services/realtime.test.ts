@@ -0,0 +1,93 @@
+// @vitest-environment node
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { openRealtimeChannel, parseSseMessages } from "../../src/services/realtime";
+import type { RealtimeEventDto, RealtimeMode } from "../../src/services/realtime";
+
+const stockEvent = (id: string, stock: number): RealtimeEventDto => ({
+  id,
+  type: "STOCK_CHANGED",
+  stock: { productId: "TC001", stock, variants: null }
+});
+
+// Servidor local que reemplaza al backend en las pruebas del canal de eventos
+async function startServer(handler: (req: IncomingMessage, res: ServerResponse) => void): Promise<Server> {
+  const server = createServer(handler);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  vi.stubEnv("VITE_API_BASE_URL", `http://127.0.0.1:${port}`);
+  return server;
+}
+
+describe("realtime", () => {
+  let server: Server | null = null;
+  let close: (() => void) | null = null;
+
+  afterEach(async () => {
+    close?.();
+    vi.unstubAllEnvs();
+    if (server) {
+      server.closeAllConnections();
+      await new Promise((resolve) => server?.close(resolve));
+    }
+    server = null;
+    close = null;
+  });
+
+  it("separa mensajes SSE completos y conserva el resto", () => {
+    const parsed = parseSseMessages(': ping\n\nid: 7\ndata: {"a":1}\n\ndata: {"b"');
+    expect(parsed.messages).toEqual([{ id: "7", data: '{"a":1}' }]);
+    expect(parsed.rest).toBe('data: {"b"');
+  });
+
+  it("entrega los eventos del stream SSE", async () => {
+    let authorization: string | undefined;
+    server = await startServer((req, res) => {
+      authorization = req.headers.authorization;
+      res.writeHead(200, { "Content-Type": "text/event-stream" });
+      res.write(`id: 1\ndata: ${JSON.stringify(stockEvent("1", 4))}\n\n`);
+      res.write(`id: 2\ndata: ${JSON.stringify(stockEvent("2", 3))}\n\n`);
+    });
+    const events: RealtimeEventDto[] = [];
+    const modes: RealtimeMode[] = [];
+    close = openRealtimeChannel({
+      token: "token-1",
+      onEvent: (event) => events.push(event),
+      onModeChange: (mode) => modes.push(mode)
+    });
+
+    await vi.waitFor(() => expect(events).toHaveLength(2));
+    expect(authorization).toBe("Bearer token-1");
+    expect(events.map((event) => event.id)).toEqual(["1", "2"]);
+    expect(modes).toEqual(["stream"]);
+  });
+
+  it("consulta periódicamente desde el último evento si no hay stream", async () => {
+    const queries: string[] = [];
+    server = await startServer((req, res) => {
+      const url = new URL(req.url ?? "/", "http://localhost");
+      if (url.pathname === "/api/v1/events/stream") {
+        res.writeHead(404).end();
+        return;
+      }
+      queries.push(url.searchParams.get("after") ?? "");
+      const events = queries.length === 1 ? [stockEvent("5", 1)] : [];
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ events, cursor: queries.length === 1 ? "5" : null }));
+    });
+    const events: RealtimeEventDto[] = [];
+    const modes: RealtimeMode[] = [];
+    close = openRealtimeChannel({
+      token: "token-1",
+      pollIntervalMs: 10,
+      onEvent: (event) => events.push(event),
+      onModeChange: (mode) => modes.push(mode)
+    });
+
+    await vi.waitFor(() => expect(queries.length).toBeGreaterThanOrEqual(2));
+    expect(modes).toEqual(["polling"]);
+    expect(events).toEqual([stockEvent("5", 1)]);
+    expect(queries.slice(0, 2)).toEqual(["", "5"]);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildItemNote,
+  customizationKey,
+  customizationPrice,
+  defaultCustomization,
+  describeCustomization,
+  parseItemNote
+} from "../../src/utils/cakeBuilder";
+import type { CakeOption } from "../../src/types";
+
+const options: CakeOption[] = [
+  { id: "b1", group: "base", label: "Vainilla", precio: 0 },
+  { id: "b2", group: "base", label: "Chocolate", precio: 1500 },
+  { id: "r1", group: "relleno", label: "Manjar", precio: 1000 },
+  { id: "c1", group: "cobertura", label: "Merengue", precio: 500 },
+  { id: "d1", group: "decoracion", label: "Frutillas", precio: 2000 },
+  { id: "d2", group: "decoracion", label: "Chocolate blanco", precio: 1200 }
+];
+
+// Pruebas del armador de tortas personalizadas
+describe("cakeBuilder", () => {
+  it("parte con la primera opción de cada grupo y sin decoraciones", () => {
+    expect(defaultCustomization(options)).toEqual({ base: "b1", relleno: "r1", cobertura: "c1", decoraciones: [] });
+  });
+
+  it("suma el precio de las opciones elegidas e ignora las que ya no existen", () => {
+    expect(customizationPrice({ base: "b2", relleno: "r1", decoraciones: ["d1", "d2"] }, options)).toBe(5700);
+    expect(customizationPrice({ base: "zz", decoraciones: ["d9"] }, options)).toBe(0);
+    expect(customizationPrice(undefined, options)).toBe(0);
+  });
+
+  it("describe la personalización agrupada", () => {
+    expect(describeCustomization({ base: "b2", relleno: "r1", decoraciones: ["d1", "d2"] }, options)).toBe(
+      "Bizcocho: Chocolate · Relleno: Manjar · Decoración: Frutillas, Chocolate blanco"
+    );
+    expect(describeCustomization(undefined, options)).toBe("");
+  });
+
+  it("genera la misma clave sin importar el orden de las decoraciones", () => {
+    expect(customizationKey({ base: "b1", decoraciones: ["d2", "d1"] })).toBe(
+      customizationKey({ base: "b1", decoraciones: ["d1", "d2"] })
+    );
+    expect(customizationKey({ base: "b1", decoraciones: [] })).not.toBe(customizationKey({ base: "b2", decoraciones: [] }));
+    expect(customizationKey(undefined)).toBe("");
+  });
+
+  it("arma la nota del ítem con personalización y mensaje", () => {
+    expect(buildItemNote("Bizcocho: Vainilla", "  Feliz día ")).toBe("Bizcocho: Vainilla · Mensaje: Feliz día");
+    expect(buildItemNote("Bizcocho: Vainilla", "")).toBe("Bizcocho: Vainilla");
+    expect(buildItemNote(undefined, "Feliz día")).toBe("Feliz día");
+    expect(buildItemNote(undefined, "  ")).toBeNull();
+  });
+
+  it("recupera la personalización desde la nota y avisa opciones faltantes", () => {
+    const custom = { base: "b2", relleno: "r1", decoraciones: ["d1"] };
+    const note = buildItemNote(describeCustomization(custom, options), "Feliz día");
+    expect(parseItemNote(note ?? undefined, options)).toEqual({ custom, msg: "Feliz día", missing: [] });
+    expect(parseItemNote("Bizcocho: Red velvet", options)).toEqual({
+      custom: { decoraciones: [] },
+      msg: undefined,
+      missing: ["Red velvet"]
+    });
+    expect(parseItemNote("Feliz cumpleaños: Ana", options)).toEqual({ msg: "Feliz cumpleaños: Ana", missing: [] });
+  });
+});
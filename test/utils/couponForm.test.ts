@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { EMPTY_COUPON_FORM, couponFromForm, couponToForm, validateCouponForm } from "../../src/utils/couponForm";
+import type { CouponInfo } from "../../src/types";
+
+const coupon: CouponInfo = {
+  code: "TORTAS15",
+  label: "15% en tortas",
+  type: "percent",
+  value: 0.15,
+  active: true,
+  minSubtotal: 20000,
+  validFrom: "2025-06-01",
+  validUntil: "2025-06-30T23:59:59",
+  maxUses: 100,
+  usedCount: 12,
+  maxUsesPerCustomer: 1,
+  categories: ["Tortas Cuadradas"],
+  productIds: ["TC001", "TT001"]
+};
+
+// Pruebas del formulario de cupones del panel
+describe("couponForm", () => {
+  it("convierte un cupón al formulario y de vuelta", () => {
+    const form = couponToForm(coupon);
+    expect(form).toMatchObject({ value: "15", validUntil: "2025-06-30", productIds: "TC001, TT001", maxUses: "100" });
+    expect(couponFromForm(form, coupon.usedCount)).toEqual({ ...coupon, validUntil: "2025-06-30" });
+  });
+
+  it("normaliza código y productos y omite límites vacíos", () => {
+    const draft = couponFromForm({
+      ...EMPTY_COUPON_FORM,
+      code: " envio ",
+      label: "Envío",
+      type: "ship",
+      value: "999",
+      productIds: "tc001, ,"
+    });
+    expect(draft).toMatchObject({ code: "ENVIO", value: 0, productIds: ["TC001"], categories: undefined });
+    expect(draft.maxUses).toBeUndefined();
+    expect(draft.minSubtotal).toBeUndefined();
+  });
+
+  it("valida código, valor, límites y fechas", () => {
+    const errors = validateCouponForm(
+      {
+        ...EMPTY_COUPON_FORM,
+        code: "TORTAS15",
+        type: "percent",
+        value: "120",
+        maxUses: "-1",
+        validFrom: "2025-07-01",
+        validUntil: "2025-06-01"
+      },
+      true,
+      [coupon]
+    );
+    expect(Object.keys(errors).sort()).toEqual(["code", "label", "maxUses", "validUntil", "value"]);
+    expect(errors.code).toMatch(/Ya existe/);
+    expect(validateCouponForm(couponToForm(coupon), false, [coupon])).toEqual({});
+  });
+});
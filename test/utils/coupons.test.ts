@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { checkCoupon, couponUses, describeCouponLimits, describeCouponWindow } from "../../src/utils/coupons";
+import type { CartTotals, CouponInfo, Product } from "../../src/types";
+import { orderFixture } from "../fixtures/orders";
+
+function line(id: string, categoria: string, total: number): CartTotals["items"][number] {
+  const product = { id, nombre: id, precio: total, stock: 5, categoria } as Product;
+  const pricing = {
+    originalUnitPrice: total,
+    unitPrice: total,
+    discountPercent: 0,
+    discountPerUnit: 0,
+    originalTotal: total,
+    discountTotal: 0,
+    total
+  };
+  return { product, qty: 1, subtotal: total, pricing };
+}
+
+const base: CouponInfo = { code: "TORTAS15", type: "percent", value: 0.15, label: "15% en tortas" };
+
+// Pruebas de reglas de cupones
+describe("coupons.checkCoupon", () => {
+  it("aplica porcentaje solo sobre productos de la categoría", () => {
+    const coupon = { ...base, categories: ["Tortas Cuadradas"] };
+    const items = [line("TC001", "Tortas Cuadradas", 20000), line("PI001", "Postres Individuales", 5000)];
+    const result = checkCoupon(coupon, { subTotal: 25000, shipCost: 3000, items });
+    expect(result.valid).toBe(true);
+    expect(result.discount).toBe(3000);
+  });
+
+  it("explica por qué no aplica", () => {
+    const now = new Date(2025, 5, 10);
+    expect(checkCoupon({ ...base, minSubtotal: 30000 }, { subTotal: 20000, shipCost: 0, now }).reason).toMatch(/compra mínima/);
+    expect(checkCoupon({ ...base, validUntil: "2025-06-09" }, { subTotal: 20000, shipCost: 0, now }).reason).toMatch(/venció/);
+    expect(checkCoupon({ ...base, validFrom: "2025-06-11" }, { subTotal: 20000, shipCost: 0, now }).reason).toMatch(/válido desde/);
+    expect(checkCoupon({ ...base, maxUses: 10, usedCount: 10 }, { subTotal: 20000, shipCost: 0, now }).reason).toMatch(/límite/);
+    expect(
+      checkCoupon({ ...base, maxUsesPerCustomer: 1 }, { subTotal: 20000, shipCost: 0, customerUses: 1, now }).reason
+    ).toMatch(/Ya usaste/);
+    expect(
+      checkCoupon({ ...base, productIds: ["TC001"] }, { subTotal: 5000, shipCost: 0, items: [line("PI001", "Postres", 5000)], now })
+        .valid
+    ).toBe(false);
+  });
+
+  it("cuenta usos por cupón sin pedidos cancelados", () => {
+    const order = (couponCode: string | undefined, estado: string, customerEmail?: string) =>
+      orderFixture({ couponCode, estado, customerEmail });
+    const orders = [
+      order("tortas15", "Entregado", "a@a.com"),
+      order("TORTAS15", "Pendiente", "b@b.com"),
+      order("TORTAS15", "Cancelado", "a@a.com"),
+      order(undefined, "Entregado", "a@a.com"),
+      order("ENVIO", "Despachado", "A@a.com")
+    ];
+    expect(couponUses(orders)).toEqual({ TORTAS15: 2, ENVIO: 1 });
+    expect(couponUses(orders, "a@A.com")).toEqual({ TORTAS15: 1, ENVIO: 1 });
+  });
+
+  it("resume límites y vigencia para la tabla de cupones", () => {
+    expect(describeCouponLimits(base)).toBe("Sin restricciones");
+    expect(describeCouponLimits({ ...base, minSubtotal: 20000, maxUses: 10, usedCount: 3, categories: ["Tortas"] })).toBe(
+      "Mín. $20.000 · 3/10 usos · Tortas"
+    );
+    expect(describeCouponWindow({})).toBe("Siempre");
+    expect(describeCouponWindow({ validFrom: "2025-06-01T00:00:00" })).toBe("2025-06-01 → …");
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { isSlotAvailable, requiredLeadTime } from "../../src/utils/delivery";
+import type { DeliverySchedule, Product } from "../../src/types";
+
+const slot = { id: "AM", label: "10:00 - 13:00", inicio: "10:00", fin: "13:00", capacidad: 2 };
+const schedule: DeliverySchedule = { slots: [slot], holidays: ["2025-09-18"], booked: { "2025-06-12|AM": 2 } };
+const now = new Date(2025, 5, 10, 9, 0);
+
+// Pruebas de agenda de entregas
+describe("delivery", () => {
+  it("usa la anticipación del producto más exigente", () => {
+    const items = [
+      { product: { id: "A", leadTimeHours: 72 } as Product },
+      { product: { id: "B" } as Product }
+    ];
+    expect(requiredLeadTime(items)).toBe(72);
+  });
+
+  it("bloquea franjas por anticipación, capacidad y feriados", () => {
+    expect(isSlotAvailable(schedule, "2025-06-11", slot, 24, now)).toBe(true);
+    expect(isSlotAvailable(schedule, "2025-06-11", slot, 72, now)).toBe(false);
+    expect(isSlotAvailable(schedule, "2025-06-12", slot, 24, now)).toBe(false);
+    expect(isSlotAvailable(schedule, "2025-09-18", slot, 24, now)).toBe(false);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import {
+  EXPIRED_WASTE_REASON,
+  allocateFefo,
+  buildExpiredWasteReport,
+  consumeFefo,
+  lotStatus,
+  lotsNeedingAttention,
+  reservedByLot
+} from "../../src/utils/lots";
+import type { Product, StockLot, StockMovement } from "../../src/types";
+import { itemFixture, orderFixture } from "../fixtures/orders";
+
+const TODAY = "2025-06-15";
+
+const lot = (id: string, disponible: number, venceEl?: string, producidoEn = 0): StockLot => ({
+  id,
+  productId: "TC001",
+  codigo: id,
+  cantidadInicial: disponible,
+  disponible,
+  producidoEn,
+  venceEl
+});
+
+// Pruebas de lotes y consumo FEFO
+describe("lots", () => {
+  it("clasifica los lotes según su vencimiento", () => {
+    expect(lotStatus(lot("A", 1, "2025-06-14"), TODAY)).toBe("vencido");
+    expect(lotStatus(lot("A", 1, TODAY), TODAY)).toBe("venceHoy");
+    expect(lotStatus(lot("A", 1, "2025-06-16"), TODAY)).toBe("vigente");
+    expect(lotStatus(lot("A", 1), TODAY)).toBe("vigente");
+  });
+
+  it("asigna primero lo que vence antes y omite lo vencido", () => {
+    const lots = [
+      lot("sin-fecha", 10),
+      lot("tarde", 3, "2025-06-17"),
+      lot("hoy", 2, TODAY),
+      lot("vencido", 5, "2025-06-10")
+    ];
+    const result = allocateFefo(lots, "TC001", undefined, 6, TODAY);
+    expect(result.asignaciones.map((entry) => [entry.lot.id, entry.cantidad])).toEqual([
+      ["hoy", 2],
+      ["tarde", 3],
+      ["sin-fecha", 1]
+    ]);
+    expect(result.faltante).toBe(0);
+    expect(allocateFefo(lots, "TC001", undefined, 20, TODAY).faltante).toBe(5);
+  });
+
+  it("descuenta los ítems de un pedido y quita los lotes agotados", () => {
+    const lots = [lot("B", 4, "2025-06-16", 2), lot("A", 4, "2025-06-16", 1), { ...lot("C", 3), productId: "PN001" }];
+    const next = consumeFefo(lots, [{ codigo: "TC001", qty: 5 }], TODAY);
+    expect(next.map((entry) => [entry.id, entry.disponible])).toEqual([
+      ["B", 3],
+      ["C", 3]
+    ]);
+  });
+
+  it("avisa los lotes vencidos y los que vencen hoy", () => {
+    const lots = [
+      lot("hoy", 1, TODAY),
+      lot("ok", 1, "2025-06-20"),
+      lot("vencido", 2, "2025-06-13"),
+      lot("vacio", 0, "2025-06-01")
+    ];
+    expect(lotsNeedingAttention(lots, [], TODAY).map((entry) => entry.lot.id)).toEqual(["vencido", "hoy"]);
+  });
+
+  it("no da de baja unidades de un lote vencido vendidas en pedidos abiertos", () => {
+    const order = (estado: string, qty: number) => orderFixture({ estado, items: [itemFixture("TC001", qty)] });
+    const lots = [lot("vencido", 5, "2025-06-13"), lot("vigente", 2, "2025-06-20")];
+    // 4 unidades vendidas aún sin despachar: 2 salen del lote vigente y 2 quedan en el vencido.
+    const orders = [order("Pendiente", 3), order("Preparando", 1), order("Entregado", 5), order("Cancelado", 9)];
+    expect(reservedByLot(lots, orders, TODAY)).toEqual({ vigente: 2, vencido: 2 });
+    expect(lotsNeedingAttention(lots, orders, TODAY)).toEqual([{ lot: lots[0], reservado: 2, libre: 3 }]);
+  });
+
+  it("resume las mermas por vencimiento por producto", () => {
+    const products: Product[] = [
+      { id: "TC001", nombre: "Torta", precio: 10000, categoria: "Tortas", attr: "", img: "", stock: 0, stockCritico: 0 }
+    ];
+    const movement = (id: string, cantidad: number, motivo: string): StockMovement => ({
+      id,
+      productId: "TC001",
+      tipo: "merma",
+      cantidad,
+      stockResultante: 0,
+      motivo,
+      createdAt: 0
+    });
+    const rows = buildExpiredWasteReport(
+      [movement("1", -2, EXPIRED_WASTE_REASON), movement("2", -1, EXPIRED_WASTE_REASON), movement("3", -4, "Se cayó")],
+      products
+    );
+    expect(rows).toEqual([{ product: { id: "TC001", nombre: "Torta" }, unidades: 3, valor: 30000, registros: 2 }]);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { orderItemsSheet, ordersSheet, sheetToCsv } from "../../src/utils/orderExport";
+import { buildXlsx, columnName, unzip } from "../../src/utils/xlsx";
+import { itemFixture, orderFixture } from "../fixtures/orders";
+
+const order = orderFixture({
+  cliente: "José Muñoz",
+  customerEmail: "jose@gmail.com",
+  estado: "Entregado",
+  subtotal: 15990,
+  discountTotal: 3000,
+  createdAt: new Date(2025, 0, 5, 14, 30).getTime(),
+  couponCode: "5000OFF",
+  benefitsApplied: ["Envío gratis", "Cumpleaños; DUOC"],
+  items: [
+    itemFixture("TC001", 1, 15990, { nombre: 'Torta "Tres leches"', unitPrice: 12990, discountPerUnit: 3000, subtotal: 12990 })
+  ]
+});
+
+// Pruebas de exportación de pedidos a CSV y XLSX
+describe("orderExport", () => {
+  it("genera CSV con BOM, separador ; y montos enteros", () => {
+    const csv = sheetToCsv(ordersSheet([order]));
+    expect(csv.charCodeAt(0)).toBe(0xfeff);
+    const [, row] = csv.slice(1).split("\r\n");
+    expect(row).toContain("José Muñoz;jose@gmail.com;Entregado");
+    expect(row).toContain("05-01-2025 14:30");
+    expect(row).toContain(";15990;3000;0;12990;5000OFF;");
+    expect(row.endsWith('"Envío gratis | Cumpleaños; DUOC"')).toBe(true);
+  });
+
+  it("escapa comillas en la hoja de ítems", () => {
+    const csv = sheetToCsv(orderItemsSheet([order]));
+    expect(csv).toContain('"Torta ""Tres leches"""');
+  });
+
+  it("arma un ZIP XLSX válido", () => {
+    const bytes = buildXlsx([ordersSheet([order]), orderItemsSheet([order])]);
+    expect(Array.from(bytes.slice(0, 4))).toEqual([0x50, 0x4b, 0x03, 0x04]);
+    const text = new TextDecoder().decode(bytes);
+    expect(text).toContain("xl/worksheets/sheet2.xml");
+    expect(text).toContain("José Muñoz");
+    expect(columnName(27)).toBe("AB");
+  });
+
+  it("quita caracteres de control que XML no admite", async () => {
+    const sheet = { name: "Notas", columns: [{ header: "Nota", type: "text" as const }], rows: [["A\u0001B\u001FC\tD"]] };
+    const files = await unzip(buildXlsx([sheet]));
+    const xml = new TextDecoder().decode(files["xl/worksheets/sheet1.xml"]);
+    expect(xml).toContain("ABC\tD");
+    expect(xml).not.toContain("\u0001");
+    expect(xml).not.toContain("\u001F");
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_ORDER_FILTERS, orderFiltersToParams, parseOrderFilters } from "../../src/utils/orderFilters";
+
+// Pruebas de filtros de pedidos reflejados en la URL
+describe("orderFilters", () => {
+  it("serializa solo los filtros activos y los vuelve a leer", () => {
+    const filters = { ...DEFAULT_ORDER_FILTERS, estado: "Preparando", cupon: "ENVIOGRATIS", dir: "asc" as const, pagina: 3 };
+    const params = orderFiltersToParams(filters);
+    expect(params.toString()).toBe("estado=Preparando&cupon=ENVIOGRATIS&dir=asc&pagina=3");
+    expect(parseOrderFilters(params)).toEqual(filters);
+  });
+
+  it("ignora valores inválidos en la URL", () => {
+    const filters = parseOrderFilters(new URLSearchParams("orden=rut&pagina=-2&porPagina=7&min=abc&max=20000"));
+    expect(filters.orden).toBe("fecha");
+    expect(filters.min).toBe("");
+    expect(filters.max).toBe("20000");
+    expect(filters.pagina).toBe(1);
+    expect(filters.porPagina).toBe(DEFAULT_ORDER_FILTERS.porPagina);
+  });
+});
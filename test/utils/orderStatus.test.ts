@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import {
+  allowedTransitions,
+  canCustomerCancel,
+  findTransition,
+  isFinalStatus,
+  nextFlowStatus,
+  refundableAmount,
+  returnableQty
+} from "../../src/utils/orderStatus";
+import type { Order } from "../../src/types";
+
+// Pruebas de la tabla de transiciones de estados de pedidos
+describe("orderStatus", () => {
+  it("solo permite avanzar al siguiente estado según el rol", () => {
+    expect(nextFlowStatus("Pendiente", "Vendedor")).toBe("Preparando");
+    expect(nextFlowStatus("Preparando", "Inventario")).toBeUndefined();
+    expect(findTransition("Pendiente", "Entregado", "Administrador")).toBeUndefined();
+    expect(allowedTransitions("Despachado", null)).toEqual([]);
+  });
+
+  it("exige nota al cancelar y bloquea estados finales", () => {
+    expect(findTransition("Pendiente", "Cancelado", "ventas")).toMatchObject({ requiresNote: true });
+    expect(findTransition("Preparando", "Cancelado", "Ventas")).toBeUndefined();
+    expect(isFinalStatus("Cancelado")).toBe(true);
+    expect(allowedTransitions("Entregado", "Administrador")).toEqual([]);
+  });
+
+  it("permite al cliente cancelar solo pendientes dentro de la ventana", () => {
+    const createdAt = Date.UTC(2025, 0, 10, 12);
+    expect(canCustomerCancel({ estado: "Pendiente", createdAt }, createdAt + 60 * 60 * 1000, 2)).toBe(true);
+    expect(canCustomerCancel({ estado: "Pendiente", createdAt }, createdAt + 3 * 60 * 60 * 1000, 2)).toBe(false);
+    expect(canCustomerCancel({ estado: "Preparando", createdAt }, createdAt, 2)).toBe(false);
+  });
+
+  it("descuenta reembolsos previos del monto y las unidades disponibles", () => {
+    const order = {
+      total: 30000,
+      items: [{ codigo: "TC001", qty: 3 }, { codigo: "TC001", variantId: "L", qty: 1 }],
+      refunds: [{ id: "r1", monto: 10000, motivo: "Torta dañada", items: [{ codigo: "TC001", qty: 1 }], repuesto: true, createdAt: 0 }]
+    } as unknown as Order;
+    expect(refundableAmount(order)).toBe(20000);
+    expect(returnableQty(order, "TC001")).toBe(2);
+    expect(returnableQty(order, "TC001", "L")).toBe(1);
+  });
+});
@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { buildStatusTimeline } from "../../src/utils/orderTracking";
+
+// Pruebas de la línea de tiempo del seguimiento de pedidos
+describe("buildStatusTimeline", () => {
+  it("marca las etapas cumplidas y la actual", () => {
+    const steps = buildStatusTimeline({
+      estado: "Despachado",
+      createdAt: 100,
+      statusHistory: [{ estado: "Despachado", at: 300 }]
+    });
+    expect(steps.map((step) => step.done)).toEqual([true, true, true, false]);
+    expect(steps.find((step) => step.current)?.estado).toBe("Despachado");
+    expect(steps[0].at).toBe(100);
+    expect(steps[2].at).toBe(300);
+  });
+
+  it("corta la línea en la etapa alcanzada cuando el pedido se cancela", () => {
+    const steps = buildStatusTimeline({
+      estado: "Cancelado",
+      createdAt: 100,
+      statusHistory: [
+        { estado: "Preparando", at: 200 },
+        { estado: "Cancelado", at: 250 }
+      ]
+    });
+    expect(steps.map((step) => step.estado)).toEqual(["Pendiente", "Preparando", "Cancelado"]);
+    expect(steps[2]).toMatchObject({ current: true, at: 250 });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { parseCsv, planProductImport, productsSheet } from "../../src/utils/productImport";
+import { sheetToCsv } from "../../src/utils/orderExport";
+import { BIRTHDAY_CAKE_ID } from "../../src/utils/promotions";
+import type { Product } from "../../src/types";
+
+const base: Product = {
+  id: "TC001",
+  nombre: "Torta Cuadrada de Chocolate",
+  precio: 45000,
+  categoria: "Tortas Cuadradas",
+  attr: "20 porciones",
+  img: "/img/tc001.jpg",
+  stock: 5,
+  stockCritico: 2
+};
+
+// Pruebas de la importación masiva del catálogo
+describe("productImport", () => {
+  it("lee CSV con separador ; o , y campos entre comillas", () => {
+    expect(parseCsv('\uFEFFCódigo;Nombre\r\nA1;"Torta ""especial""; grande"\r\n')).toEqual([
+      ["Código", "Nombre"],
+      ["A1", 'Torta "especial"; grande']
+    ]);
+    expect(parseCsv("a,b\n1,2")).toEqual([
+      ["a", "b"],
+      ["1", "2"]
+    ]);
+  });
+
+  it("la exportación se vuelve a leer sin cambios", () => {
+    const rows = parseCsv(sheetToCsv(productsSheet([base])));
+    const plan = planProductImport(rows, [base]);
+    expect(plan.sinCambios).toBe(1);
+    expect(plan.actualizados).toEqual([]);
+    expect(plan.nuevos).toEqual([]);
+  });
+
+  it("la torta de cumpleaños (precio 0) vuelve a importarse sin errores", () => {
+    const birthday: Product = { ...base, id: BIRTHDAY_CAKE_ID, nombre: "Torta de cumpleaños", precio: 0 };
+    const products = [base, birthday];
+    const plan = planProductImport(parseCsv(sheetToCsv(productsSheet(products))), products);
+    expect(plan.invalidos).toEqual([]);
+    expect(plan.sinCambios).toBe(2);
+
+    const rows = parseCsv(sheetToCsv(productsSheet([birthday])));
+    rows[1][4] = "15000";
+    expect(planProductImport(rows, products).sinCambios).toBe(1);
+  });
+
+  it("clasifica filas nuevas, actualizadas e inválidas", () => {
+    const rows = [
+      ["codigo", "NOMBRE", "categoria", "precio", "stock"],
+      ["TC001", "Torta Cuadrada de Chocolate", "Tortas Cuadradas", "48000", "99"],
+      ["PN001", "Pan nuevo", "Panes", "2500", "10"],
+      ["", "", "", "", ""],
+      ["PN002", "", "Panes", "500", "-1"],
+      ["PN001", "Otro", "Panes", "3000", "1"]
+    ];
+    const plan = planProductImport(rows, [base]);
+    expect(plan.actualizados).toHaveLength(1);
+    expect(plan.actualizados[0].cambios).toEqual(["Precio"]);
+    // El stock de un producto existente no se modifica desde la importación.
+    expect(plan.actualizados[0].after).toMatchObject({ precio: 48000, stock: 5, img: "/img/tc001.jpg" });
+    expect(plan.nuevos).toEqual([expect.objectContaining({ id: "PN001", stock: 10, precio: 2500 })]);
+    expect(plan.invalidos.map((entry) => entry.line)).toEqual([5, 6]);
+    expect(Object.keys(plan.invalidos[0].errors).sort()).toEqual(["nombre", "precio", "stock"]);
+    expect(plan.invalidos[1].errors.id).toBe("Código repetido en el archivo");
+  });
+
+  it("informa columnas obligatorias faltantes", () => {
+    expect(planProductImport([["Código", "Nombre"]], []).columnasFaltantes).toEqual(["Categoría", "Precio"]);
+  });
+});
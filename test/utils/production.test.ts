@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { buildPrepSheetHTML, buildProductionPlan } from "../../src/utils/production";
+import type { OrderItem } from "../../src/types";
+import { itemFixture, orderFixture } from "../fixtures/orders";
+
+const item = (codigo: string, qty: number, note?: string) =>
+  itemFixture(codigo, qty, 1000, { nombre: codigo === "TC001" ? "Torta Chocolate" : "Kuchen", note });
+
+const order = (id: string, estado: string, deliveryDate: string, items: OrderItem[]) =>
+  orderFixture({ id, estado, deliveryDate, items });
+
+// Pruebas del plan de producción por día de entrega
+describe("buildProductionPlan", () => {
+  it("suma por producto y día, conserva mensajes y omite cancelados", () => {
+    const plan = buildProductionPlan([
+      order("A1", "Pendiente", "2025-06-11", [item("TC001", 2, "Mensaje: Feliz día"), item("KU01", 1)]),
+      order("A2", "Preparando", "2025-06-11", [item("TC001", 1)]),
+      order("A3", "Cancelado", "2025-06-11", [item("TC001", 5)]),
+      order("A4", "Pendiente", "2025-06-10", [item("KU01", 3)])
+    ]);
+    expect(plan.map((day) => day.date)).toEqual(["2025-06-10", "2025-06-11"]);
+    const [torta, kuchen] = plan[1].lines;
+    expect(torta).toMatchObject({ qty: 3, orderIds: ["A1", "A2"] });
+    expect(torta.notes).toEqual([{ orderId: "A1", qty: 2, note: "Mensaje: Feliz día" }]);
+    expect(kuchen.qty).toBe(1);
+    expect(plan[1].totalQty).toBe(4);
+  });
+
+  it("marca las líneas listas en la hoja imprimible", () => {
+    const [day] = buildProductionPlan([order("A1", "Pendiente", "2025-06-11", [item("TC001", 2, "<b>Hola</b>")])]);
+    const html = buildPrepSheetHTML(day, { "TC001|": true });
+    expect(html).toContain("☑");
+    expect(html).toContain("&lt;b&gt;Hola&lt;/b&gt;");
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_PROMOTION_RULES,
+  computeBenefits,
+  evaluateCouponCode,
+  priceItem,
+  resolvePromotions,
+  summarizeCheckout,
+  type PromotionRule
+} from "../../src/utils/promotions";
+import type { CartTotals, CouponInfo, CustomerSession, Product } from "../../src/types";
+
+const TODAY = new Date();
+const pad = (value: number) => String(value).padStart(2, "0");
+const birthdayIso = `2000-${pad(TODAY.getMonth() + 1)}-${pad(TODAY.getDate())}`;
+
+const senior: CustomerSession = { email: "ana@mail.cl", fnac: "1950-01-15", felices50: true };
+const felices: CustomerSession = { email: "beto@mail.cl", fnac: "1995-06-01", promoCode: "felices50" };
+const duoc: CustomerSession = { email: "caro@duoc.cl", fnac: birthdayIso };
+
+function line(id: string, precio: number, qty: number, customer: CustomerSession): CartTotals["items"][number] {
+  const product = { id, nombre: id, precio, stock: 10 } as Product;
+  const pricing = priceItem(id, precio, qty, DEFAULT_PROMOTION_RULES, { customer });
+  return { product, qty, subtotal: pricing.originalTotal, pricing };
+}
+
+// Pruebas del motor de promociones
+describe("promotions", () => {
+  it("aplica solo la primera regla de un grupo excluyente", () => {
+    const pricing = priceItem("TC001", 10000, 2, DEFAULT_PROMOTION_RULES, { customer: senior });
+    expect(pricing.unitPrice).toBe(5000);
+    expect(pricing.labels).toEqual(["Beneficio Adulto Mayor (50% OFF)"]);
+  });
+
+  it("acumula descuentos porcentuales de grupos distintos", () => {
+    const rules: PromotionRule[] = [
+      { id: "a", kind: "customerPercent", label: "A", percent: 0.5, conditions: [] },
+      { id: "b", kind: "customerPercent", label: "B", percent: 0.1, conditions: [] }
+    ];
+    const pricing = priceItem("TC001", 10000, 1, rules, { customer: felices });
+    expect(pricing.unitPrice).toBe(4500);
+  });
+
+  it("detiene la evaluación en una regla no acumulable", () => {
+    const rules: PromotionRule[] = [
+      { id: "a", kind: "customerPercent", label: "A", percent: 0.2, conditions: [], stackable: false },
+      { id: "b", kind: "customerPercent", label: "B", percent: 0.1, conditions: [] }
+    ];
+    expect(resolvePromotions(rules, { customer: felices }).map((rule) => rule.id)).toEqual(["a"]);
+  });
+
+  it("regala la torta de cumpleaños y el envío cuando es el único producto", () => {
+    const items = [line("BDAY001", 15000, 1, duoc)];
+    const benefits = computeBenefits(items, 15000, DEFAULT_PROMOTION_RULES, { customer: duoc });
+    expect(benefits.bdayDisc).toBe(15000);
+    expect(benefits.freeShipping).toBe(true);
+    expect(benefits.userDisc).toBe(0);
+  });
+
+  it("no cuenta dos veces el descuento de la torta de cumpleaños", () => {
+    const customer = { ...duoc, felices50: true };
+    const items = [line("BDAY001", 15000, 1, customer), line("TC001", 10000, 1, customer)];
+    const benefits = computeBenefits(items, 25000, DEFAULT_PROMOTION_RULES, { customer });
+    expect(benefits.bdayDisc).toBe(15000);
+    expect(benefits.userDisc).toBe(1000);
+    expect(benefits.freeShipping).toBe(false);
+  });
+
+  it("rechaza FELICES50 como cupón y combina cupón con beneficios", () => {
+    const coupons: Record<string, CouponInfo> = {
+      "5000OFF": { code: "5000OFF", type: "amount", value: 5000, label: "$5.000 OFF" }
+    };
+    const ctx = { customer: felices };
+    expect(evaluateCouponCode("FELICES50", coupons, { subTotal: 20000, shipCost: 3000 }, DEFAULT_PROMOTION_RULES, ctx).valid).toBe(false);
+
+    const items = [line("TC001", 20000, 1, felices)];
+    const benefits = computeBenefits(items, 20000, DEFAULT_PROMOTION_RULES, ctx);
+    const summary = summarizeCheckout(20000, 3000, benefits, (sub, ship) =>
+      evaluateCouponCode("5000off", coupons, { subTotal: sub, shipCost: ship }, DEFAULT_PROMOTION_RULES, ctx)
+    );
+    expect(summary.total).toBe(20000 - 2000 - 5000 + 3000);
+    expect(summary.benefitLabels).toEqual(["Beneficio FELICES50 (10% OFF)", "$5.000 OFF"]);
+  });
+});
@@ -44,4 +44,24 @@ describe("buildReceiptHTML", () => {
     expect(html).toContain("Total");
     expect(html).toContain("13"); // rough check for 13000
   });
+
+  it("escapes the customer's personalisation and message", () => {
+    const product = { id: "P1", nombre: "Torta", precio: 1000, categoria: "Test", attr: "", img: "", stock: 1, stockCritico: 0 };
+    const html = buildReceiptHTML({
+      effectiveSubtotal: 2000,
+      items: [
+        { product, qty: 1, subtotal: 1000, note: 'Bizcocho: Vainilla · Mensaje: <img src=x onerror="alert(1)">' },
+        { product, qty: 1, subtotal: 1000, msg: "<script>alert(2)</script>" }
+      ],
+      subTotal: 2000,
+      shipCost: 0,
+      total: 2000,
+      benefits: { userDisc: 0, userLabel: "", bdayDisc: 0, bdayLabel: "", bdayEligible: false, bdayApplied: false },
+      coupon: { valid: false, discount: 0, shipAfter: 0 }
+    });
+    expect(html).not.toContain("<img src=x");
+    expect(html).not.toContain("<script>alert(2)");
+    expect(html).toContain("&lt;img src=x onerror=&quot;alert(1)&quot;&gt;");
+    expect(html).toContain("&lt;script&gt;alert(2)&lt;/script&gt;");
+  });
 });
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { buildShortageReport, findShortages, ingredientRequirements, validateRecipe } from "../../src/utils/recipes";
+import type { Ingredient, Recipe } from "../../src/types";
+import { itemFixture, orderFixture } from "../fixtures/orders";
+
+const ingredient = (id: string, disponible: number, minimo = 0): Ingredient => ({
+  id,
+  nombre: id,
+  unidad: "g",
+  disponible,
+  minimo
+});
+
+const order = (id: string, estado: string, items: Array<[string, number]>) =>
+  orderFixture({ id, estado, items: items.map(([codigo, qty]) => itemFixture(codigo, qty)) });
+
+const recipes: Recipe[] = [
+  { productId: "TC001", lineas: [{ ingredientId: "manjar", cantidad: 300 }, { ingredientId: "harina", cantidad: 200 }] },
+  { productId: "TT001", lineas: [{ ingredientId: "chocolate", cantidad: 150 }] }
+];
+
+// Pruebas de recetas y consumo de ingredientes
+describe("recipes", () => {
+  it("suma los ingredientes de los ítems según su receta", () => {
+    const items = [
+      { codigo: "TC001", qty: 2 },
+      { codigo: "TT001", qty: 1 },
+      { codigo: "X", qty: 5 }
+    ];
+    expect(ingredientRequirements(items, recipes)).toEqual({ manjar: 600, harina: 400, chocolate: 150 });
+  });
+
+  it("detecta ingredientes insuficientes para un pedido", () => {
+    const shortages = findShortages({ manjar: 600, harina: 400 }, [ingredient("manjar", 500), ingredient("harina", 1000)]);
+    expect(shortages).toEqual([{ ingredient: ingredient("manjar", 500), requerido: 600, faltante: 100 }]);
+  });
+
+  it("proyecta faltantes solo con pedidos pendientes", () => {
+    const orders = [
+      order("1", "Pendiente", [["TC001", 3], ["Y", 1]]),
+      order("2", "Preparando", [["TC001", 10]]),
+      order("3", "Pendiente", [["TT001", 1]])
+    ];
+    const report = buildShortageReport(orders, recipes, [
+      ingredient("manjar", 500),
+      ingredient("harina", 1000, 500),
+      ingredient("chocolate", 1000, 100)
+    ]);
+    expect(report.pedidos).toBe(2);
+    expect(report.sinReceta).toEqual(["Y"]);
+    expect(report.rows.map((row) => [row.ingredient.id, row.faltante, row.restante])).toEqual([
+      ["manjar", 400, -400],
+      ["harina", 0, 400]
+    ]);
+    expect(report.rows[0].productos).toEqual(["TC001"]);
+  });
+
+  it("valida las líneas de la receta", () => {
+    expect(
+      validateRecipe([
+        { ingredientId: "manjar", cantidad: "100" },
+        { ingredientId: "manjar", cantidad: "50" },
+        { ingredientId: "", cantidad: "1" },
+        { ingredientId: "harina", cantidad: "0" }
+      ])
+    ).toEqual({ 1: "Ingrediente repetido", 2: "Selecciona un ingrediente", 3: "Cantidad inválida" });
+  });
+});
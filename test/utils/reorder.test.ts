@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { planReorder } from "../../src/utils/reorder";
+import type { CakeOption, Product } from "../../src/types";
+import { itemFixture } from "../fixtures/orders";
+
+const item = (codigo: string, qty: number, price: number, note?: string) => itemFixture(codigo, qty, price, { note });
+
+const product = (id: string, precio: number, stock: number): Product => ({
+  id,
+  nombre: id,
+  precio,
+  categoria: "Tortas",
+  attr: "",
+  img: "",
+  stock,
+  stockCritico: 0
+});
+
+const options: CakeOption[] = [
+  { id: "b1", group: "base", label: "Vainilla", precio: 0 },
+  { id: "d1", group: "decoracion", label: "Frutillas", precio: 2000 }
+];
+
+// Pruebas de la planificación de "Volver a comprar"
+describe("planReorder", () => {
+  it("limita por stock restante e informa faltantes y cambios de precio", () => {
+    const plan = planReorder(
+      { items: [item("TC001", 3, 10000), item("KU002", 1, 5000), item("XX999", 1, 1000)] },
+      [product("TC001", 12000, 4), product("KU002", 5000, 0)],
+      [{ id: "TC001", qty: 2 }],
+      []
+    );
+    expect(plan.lines.map((line) => [line.productId, line.qty])).toEqual([["TC001", 2]]);
+    expect(plan.issues.map((issue) => [issue.item.codigo, issue.kind])).toEqual([
+      ["TC001", "partial"],
+      ["TC001", "priceChanged"],
+      ["KU002", "outOfStock"],
+      ["XX999", "unavailable"]
+    ]);
+  });
+
+  it("recupera la personalización y el mensaje desde la nota", () => {
+    const plan = planReorder(
+      { items: [item("TE001", 1, 22000, "Bizcocho: Vainilla · Decoración: Frutillas, Chispas · Mensaje: Feliz día")] },
+      [product("TE001", 20000, 5)],
+      [],
+      options
+    );
+    expect(plan.lines[0]).toMatchObject({ msg: "Feliz día", custom: { base: "b1", decoraciones: ["d1"] } });
+    expect(plan.issues).toEqual([expect.objectContaining({ kind: "customChanged", detail: expect.stringContaining("Chispas") })]);
+  });
+});
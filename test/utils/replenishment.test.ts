@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { buildReplenishmentPlan, crossedCriticalStock, dailyDemand } from "../../src/utils/replenishment";
+import type { Product } from "../../src/types";
+import { itemFixture, orderFixture } from "../fixtures/orders";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 5, 15, 12);
+
+const product = (id: string, stock: number, stockCritico: number): Product => ({
+  id,
+  nombre: id,
+  precio: 1000,
+  categoria: "Tortas",
+  attr: "",
+  img: "",
+  stock,
+  stockCritico
+});
+
+const order = (daysAgo: number, codigo: string, qty: number, estado = "Entregado") =>
+  orderFixture({ id: `${codigo}-${daysAgo}`, estado, items: [itemFixture(codigo, qty)], createdAt: NOW - daysAgo * DAY });
+
+// Pruebas de la reposición según la demanda reciente
+describe("replenishment", () => {
+  const orders = [order(1, "A", 14), order(3, "B", 7), order(2, "B", 5, "Cancelado"), order(30, "C", 100)];
+
+  it("promedia la venta diaria de la ventana sin pedidos cancelados", () => {
+    expect(dailyDemand(orders, NOW, 7)).toEqual({ A: 2, B: 1 });
+  });
+
+  it("ordena por días de cobertura y sugiere cuánto producir", () => {
+    const rows = buildReplenishmentPlan([product("A", 4, 2), product("B", 10, 2), product("C", 1, 3)], orders, {
+      now: NOW,
+      windowDays: 7,
+      targetDays: 7
+    });
+    expect(rows.map((row) => [row.product.id, row.diasCobertura, row.sugerido])).toEqual([
+      ["A", 2, 12],
+      ["C", null, 3]
+    ]);
+    expect(rows[1].critico).toBe(true);
+  });
+
+  it("detecta productos que cruzan su stock crítico", () => {
+    const before = [product("A", 5, 2), product("B", 1, 2)];
+    const after = [product("A", 2, 2), product("B", 0, 2)];
+    expect(crossedCriticalStock(before, after).map((entry) => entry.id)).toEqual(["A"]);
+  });
+});
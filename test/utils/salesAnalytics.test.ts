@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import {
+  benefitBreakdown,
+  bestSeller,
+  ordersInRange,
+  percentChange,
+  periodRanges,
+  salesMetrics,
+  salesSeries,
+  topCategories,
+  topProducts
+} from "../../src/utils/salesAnalytics";
+import type { Order, Product } from "../../src/types";
+import { itemFixture, orderFixture } from "../fixtures/orders";
+
+const NOW = new Date(2024, 5, 30, 15).getTime();
+const daysAgo = (days: number) => new Date(2024, 5, 30 - days, 12).getTime();
+
+const order = (id: string, createdAt: number, items: Array<[string, number, number]>, extra: Partial<Order> = {}) =>
+  orderFixture({
+    id,
+    createdAt,
+    estado: "Entregado",
+    items: items.map(([codigo, qty, price]) => itemFixture(codigo, qty, price)),
+    ...extra
+  });
+
+const products = [
+  { id: "TC001", categoria: "Tortas Cuadradas" },
+  { id: "TT001", categoria: "Tortas Circulares" }
+] as Product[];
+
+// Pruebas de la analítica de ventas
+describe("salesAnalytics", () => {
+  it("arma el período actual y el anterior del mismo largo", () => {
+    const { current, previous } = periodRanges(7, NOW);
+    expect(current.to).toBe(new Date(2024, 6, 1).getTime());
+    expect(current.from).toBe(new Date(2024, 5, 24).getTime());
+    expect(previous).toEqual({ from: new Date(2024, 5, 17).getTime(), to: current.from });
+  });
+
+  it("calcula métricas sin cancelados y con reembolsos descontados", () => {
+    const orders = [
+      order("1", daysAgo(1), [["TC001", 2, 10000]], { discountTotal: 2000 }),
+      order("2", daysAgo(2), [["TT001", 1, 6000]], {
+        refunds: [{ id: "r1", monto: 1000, motivo: "Atraso", items: [], repuesto: false, createdAt: daysAgo(1) }]
+      }),
+      order("3", daysAgo(3), [["TC001", 5, 10000]], { estado: "Cancelado" }),
+      order("4", daysAgo(20), [["TC001", 1, 10000]])
+    ];
+    const { current } = periodRanges(7, NOW);
+    const metrics = salesMetrics(ordersInRange(orders, current));
+    expect(metrics).toEqual({ ingresos: 18000 + 5000, pedidos: 2, ticketPromedio: 11500, descuentos: 2000 });
+  });
+
+  it("compara contra el período anterior", () => {
+    expect(percentChange(150, 100)).toBe(50);
+    expect(percentChange(50, 100)).toBe(-50);
+    expect(percentChange(10, 0)).toBeNull();
+  });
+
+  it("agrupa la serie por día incluyendo días sin ventas", () => {
+    const orders = [order("1", daysAgo(0), [["TC001", 1, 1000]]), order("2", daysAgo(0), [["TC001", 1, 500]])];
+    const series = salesSeries(orders, periodRanges(7, NOW).current);
+    expect(series).toHaveLength(7);
+    expect(series[0]).toMatchObject({ label: "06-24", ingresos: 0, pedidos: 0 });
+    expect(series[6]).toMatchObject({ label: "06-30", ingresos: 1500, pedidos: 2 });
+  });
+
+  it("agrupa por semana o mes en períodos largos", () => {
+    expect(salesSeries([], periodRanges(90, NOW).current)).toHaveLength(13);
+    expect(salesSeries([], periodRanges(365, NOW).current).length).toBeGreaterThanOrEqual(12);
+  });
+
+  it("ordena productos y categorías por ventas", () => {
+    const orders = [
+      order("1", daysAgo(1), [["TC001", 1, 10000], ["TT001", 3, 2000]]),
+      order("2", daysAgo(1), [["TT001", 2, 2000], ["X", 1, 500]])
+    ];
+    expect(topProducts(orders).map((row) => [row.key, row.unidades, row.ingresos])).toEqual([
+      ["TT001", 5, 10000],
+      ["TC001", 1, 10000],
+      ["X", 1, 500]
+    ]);
+    expect(topCategories(orders, products, 2).map((row) => row.label)).toEqual(["Tortas Circulares", "Tortas Cuadradas"]);
+  });
+
+  it("elige el más vendido por unidades e ignora cancelados", () => {
+    const orders = [
+      order("1", daysAgo(1), [["TC001", 2, 10000]]),
+      order("2", daysAgo(1), [["TT001", 9, 1000]], { estado: "Cancelado" }),
+      order("3", daysAgo(1), [["TT001", 3, 1000]])
+    ];
+    expect(bestSeller(orders)).toMatchObject({ key: "TT001", unidades: 3 });
+    expect(bestSeller([])).toBeUndefined();
+  });
+
+  it("desglosa ventas y descuentos por beneficio aplicado", () => {
+    const orders = [
+      order("1", daysAgo(1), [["TC001", 1, 10000]], {
+        discountTotal: 2000,
+        benefitsApplied: ["Descuento 20% (mayores de 50)"],
+        couponCode: "FELICES50"
+      }),
+      order("2", daysAgo(1), [["TC001", 1, 10000]], { discountTotal: 1000, benefitsApplied: ["Descuento 20% (mayores de 50)"] }),
+      order("3", daysAgo(1), [["TT001", 1, 5000]])
+    ];
+    expect(benefitBreakdown(orders)).toEqual([
+      { label: "Descuento 20%", pedidos: 2, ingresos: 17000, descuentos: 3000 },
+      { label: "Cupón FELICES50", pedidos: 1, ingresos: 8000, descuentos: 2000 },
+      { label: "Sin beneficios", pedidos: 1, ingresos: 5000, descuentos: 0 }
+    ]);
+  });
+});
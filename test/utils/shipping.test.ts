@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { quoteShipping } from "../../src/utils/shipping";
+import type { ShippingZone } from "../../src/types";
+
+const zones: ShippingZone[] = [
+  { id: "RM", nombre: "Región Metropolitana", region: "Metropolitana", comunas: [], costo: 4000 },
+  { id: "STGO", nombre: "Santiago centro", region: "Metropolitana", comunas: ["Santiago", "Providencia"], costo: 3000, envioGratisDesde: 40000 },
+  { id: "TIL", nombre: "Tiltil", region: "Metropolitana", comunas: ["Tiltil"], costo: 0, sinCobertura: true }
+];
+
+// Pruebas de cálculo de envío por zona
+describe("shipping.quoteShipping", () => {
+  it("prefiere la zona de la comuna sobre la de la región", () => {
+    expect(quoteShipping(zones, { region: "Metropolitana", comuna: "Providencia" }, 10000).cost).toBe(3000);
+    expect(quoteShipping(zones, { region: "Metropolitana", comuna: "Maipú" }, 10000).cost).toBe(4000);
+  });
+
+  it("aplica el umbral de envío gratis", () => {
+    const quote = quoteShipping(zones, { region: "Metropolitana", comuna: "Santiago" }, 45000);
+    expect(quote.cost).toBe(0);
+    expect(quote.freeByThreshold).toBe(true);
+  });
+
+  it("rechaza comunas sin cobertura o sin zona", () => {
+    expect(quoteShipping(zones, { region: "Metropolitana", comuna: "Tiltil" }, 10000).deliverable).toBe(false);
+    expect(quoteShipping(zones, { region: "Aysén", comuna: "Coyhaique" }, 10000).deliverable).toBe(false);
+  });
+});
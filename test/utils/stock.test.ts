@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyStockAdjustments,
+  applyStockLevel,
+  buildBulkAdjustments,
+  movementDelta,
+  validateStockAdjustment,
+  validateStockMovement
+} from "../../src/utils/stock";
+import type { Product } from "../../src/types";
+
+// Pruebas de los movimientos de stock del inventario
+describe("stock", () => {
+  it("aplica el signo según el tipo de movimiento", () => {
+    expect(movementDelta("produccion", 5)).toBe(5);
+    expect(movementDelta("merma", 2)).toBe(-2);
+    expect(movementDelta("venta", 1)).toBe(-1);
+    expect(movementDelta("ajuste", -3)).toBe(-3);
+  });
+
+  it("valida cantidad, stock resultante y motivo", () => {
+    expect(validateStockMovement({ tipo: "produccion", cantidad: 4, motivo: "" }, 0)).toEqual({});
+    expect(validateStockMovement({ tipo: "merma", cantidad: 3, motivo: "" }, 2)).toEqual({
+      cantidad: "El stock no puede quedar negativo (disponible: 2)",
+      motivo: "Indica el motivo"
+    });
+    expect(validateStockMovement({ tipo: "produccion", cantidad: 1.5, motivo: "" }, 0).cantidad).toBeDefined();
+    expect(validateStockMovement({ tipo: "ajuste", cantidad: -1, motivo: "Conteo" }, 3)).toEqual({});
+    expect(
+      validateStockMovement({ tipo: "produccion", cantidad: 2, motivo: "", venceEl: "2025-06-14" }, 0, { today: "2025-06-15" })
+    ).toEqual({ venceEl: "La fecha de vencimiento ya pasó" });
+  });
+
+  it("actualiza el stock del producto y de sus versiones", () => {
+    const product: Product = {
+      id: "TC001",
+      nombre: "Torta",
+      precio: 1000,
+      categoria: "Tortas",
+      attr: "",
+      img: "",
+      stock: 5,
+      stockCritico: 1,
+      variants: [{ id: "S", label: "Chica", precio: 1000, stock: 5 }]
+    };
+    const [updated] = applyStockLevel([product], { productId: "TC001", stock: 3, variants: [{ id: "S", stock: 3 }] });
+    expect(updated.stock).toBe(3);
+    expect(updated.variants?.[0].stock).toBe(3);
+  });
+
+  describe("ajustes directos", () => {
+    const plain = (id: string, stock: number, stockCritico = 2): Product => ({
+      id,
+      nombre: id,
+      precio: 1000,
+      categoria: "Tortas",
+      attr: "",
+      img: "",
+      stock,
+      stockCritico
+    });
+
+    it("exige motivo, valores enteros y algún cambio", () => {
+      expect(validateStockAdjustment({ productId: "A", stock: 4, motivo: "Conteo" }, plain("A", 5))).toEqual({});
+      expect(validateStockAdjustment({ productId: "A", stock: -1, stockCritico: 1.5, motivo: " " }, plain("A", 5))).toEqual({
+        stock: "Stock inválido",
+        stockCritico: "Stock crítico inválido",
+        motivo: "Indica el motivo"
+      });
+      expect(validateStockAdjustment({ productId: "A", motivo: "x" }, plain("A", 5)).form).toBe("No hay cambios");
+      const withVariants = { ...plain("B", 5), variants: [{ id: "S", label: "Chica", precio: 1000, stock: 5 }] };
+      expect(validateStockAdjustment({ productId: "B", stock: 2, motivo: "x" }, withVariants).stock).toBeDefined();
+    });
+
+    it("arma el ajuste masivo sumando o fijando el stock", () => {
+      const products = [plain("A", 5), plain("B", 1)];
+      expect(buildBulkAdjustments(products, { modo: "sumar", stock: "-1", stockCritico: "", motivo: "Conteo" })).toEqual([
+        { productId: "A", stock: 4, stockCritico: undefined, motivo: "Conteo" },
+        { productId: "B", stock: 0, stockCritico: undefined, motivo: "Conteo" }
+      ]);
+      expect(
+        buildBulkAdjustments(products, { modo: "fijar", stock: "", stockCritico: "3", motivo: "Temporada" }).map(
+          (adjustment) => [adjustment.stock, adjustment.stockCritico]
+        )
+      ).toEqual([
+        [undefined, 3],
+        [undefined, 3]
+      ]);
+    });
+
+    it("aplica los ajustes de forma optimista solo a los productos indicados", () => {
+      const next = applyStockAdjustments([plain("A", 5), plain("B", 1)], [{ productId: "B", stockCritico: 0, motivo: "x" }]);
+      expect(next.map((product) => [product.stock, product.stockCritico])).toEqual([
+        [5, 2],
+        [1, 0]
+      ]);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { addCount, countDiscrepancies, countTargets, resolveScan, setCount } from "../../src/utils/stockCount";
+import type { Product } from "../../src/types";
+
+const products: Product[] = [
+  { id: "TC001", nombre: "Torta", precio: 10000, categoria: "Tortas", attr: "", img: "", stock: 5, stockCritico: 1 },
+  {
+    id: "TX002",
+    nombre: "Tartaleta",
+    precio: 2000,
+    categoria: "Tartas",
+    attr: "",
+    img: "",
+    stock: 8,
+    stockCritico: 1,
+    variants: [
+      { id: "S", label: "Chica", precio: 2000, stock: 3 },
+      { id: "L", label: "Grande", precio: 4000, stock: 5 }
+    ]
+  }
+];
+
+// Pruebas del conteo físico de inventario
+describe("stockCount", () => {
+  it("cuenta cada versión por separado", () => {
+    expect(countTargets(products).map((target) => target.codigo)).toEqual(["TC001", "TX002-S", "TX002-L"]);
+  });
+
+  it("interpreta lecturas simples y con cantidad", () => {
+    const single = resolveScan(" tc001 ", products);
+    expect(single.ok && [single.target.codigo, single.qty]).toEqual(["TC001", 1]);
+    const multi = resolveScan("TX002-L*6", products);
+    expect(multi.ok && [multi.target.codigo, multi.qty]).toEqual(["TX002-L", 6]);
+    const spaced = resolveScan("TC001 x -2", products);
+    expect(spaced.ok && spaced.qty).toBe(-2);
+    expect(resolveScan("TX002", products)).toEqual({ ok: false, message: "Indica la versión: TX002-S, TX002-L" });
+    expect(resolveScan("ZZZ", products)).toEqual({ ok: false, message: "No existe el código ZZZ" });
+    expect(resolveScan("TC001*0", products).ok).toBe(false);
+  });
+
+  it("acumula lecturas sin bajar de cero", () => {
+    let lines = addCount([], "TC001", undefined, 1);
+    lines = addCount(lines, "TC001", undefined, 3);
+    expect(lines).toEqual([{ productId: "TC001", variantId: undefined, contado: 4 }]);
+    expect(addCount(lines, "TC001", undefined, -10)[0].contado).toBe(0);
+    expect(setCount(lines, "TC001", undefined, null)).toEqual([]);
+  });
+
+  it("valoriza las diferencias contra el stock o el esperado aprobado", () => {
+    const { rows, summary } = countDiscrepancies(
+      {
+        lineas: [
+          { productId: "TC001", contado: 4 },
+          { productId: "TX002", variantId: "L", contado: 7, esperado: 6 },
+          { productId: "TX002", variantId: "S", contado: 3 }
+        ]
+      },
+      products
+    );
+    expect(rows.map((row) => [row.key, row.esperado, row.diferencia, row.valor])).toEqual([
+      ["TC001|", 5, -1, -10000],
+      ["TX002|L", 6, 1, 4000],
+      ["TX002|S", 3, 0, 0]
+    ]);
+    expect(summary).toEqual({ contados: 3, conDiferencia: 2, faltantes: 1, sobrantes: 1, valorNeto: -6000 });
+  });
+});
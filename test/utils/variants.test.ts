@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import {
+  defaultVariant,
+  describeVariant,
+  findVariant,
+  resolveCartLine,
+  stockFor,
+  unitPriceFor
+} from "../../src/utils/variants";
+import { isSameCartLine } from "../../src/utils/cart";
+import type { Product, ProductVariant } from "../../src/types";
+
+const variants: ProductVariant[] = [
+  { id: "S", label: "12 porciones", precio: 30000, stock: 0, porciones: 12 },
+  { id: "M", label: "20 porciones", precio: 45000, stock: 4, porciones: 20 },
+  { id: "L", label: "30 porciones", precio: 60000, stock: 2, porciones: 30 }
+];
+
+const product = (extra: Partial<Product> = {}): Product => ({
+  id: "TC001",
+  nombre: "Torta",
+  precio: 40000,
+  categoria: "Tortas",
+  attr: "Mediana",
+  img: "",
+  stock: 10,
+  stockCritico: 0,
+  ...extra
+});
+
+// Pruebas de variantes de producto y líneas del carrito
+describe("variants", () => {
+  it("busca variantes por id solo si el producto las tiene", () => {
+    expect(findVariant(product({ variants }), "L")?.label).toBe("30 porciones");
+    expect(findVariant(product({ variants }), "XL")).toBeUndefined();
+    expect(findVariant(product({ variants }), undefined)).toBeUndefined();
+    expect(findVariant(product(), "L")).toBeUndefined();
+  });
+
+  it("usa como variante por defecto la primera con stock", () => {
+    expect(defaultVariant(product({ variants }))?.id).toBe("M");
+    expect(defaultVariant(product({ variants: variants.map((variant) => ({ ...variant, stock: 0 })) }))?.id).toBe("S");
+    expect(defaultVariant(product())).toBeUndefined();
+  });
+
+  it("toma precio, stock y descripción de la variante o del producto", () => {
+    const item = product({ variants });
+    expect(unitPriceFor(item, variants[2])).toBe(60000);
+    expect(unitPriceFor(item)).toBe(40000);
+    expect(stockFor(item, variants[2])).toBe(2);
+    expect(stockFor(item)).toBe(10);
+    expect(describeVariant(item, variants[1])).toBe("20 porciones");
+    expect(describeVariant(item)).toBe("Mediana");
+  });
+
+  it("resuelve stock y precio de una línea sin variante con la variante por defecto", () => {
+    expect(resolveCartLine(product({ variants }))).toEqual({ variant: variants[1], stock: 4, precio: 45000 });
+    expect(resolveCartLine(product({ variants }), "L")).toEqual({ variant: variants[2], stock: 2, precio: 60000 });
+  });
+
+  it("descarta líneas cuya variante ya no existe", () => {
+    expect(resolveCartLine(product({ variants }), "XL")).toBeNull();
+    expect(resolveCartLine(product(), "XL")).toEqual({ variant: undefined, stock: 10, precio: 40000 });
+  });
+
+  it("separa líneas del carrito por variante, mensaje y personalización", () => {
+    const line = { id: "TC001", qty: 1, msg: "Feliz día", variantId: "M", custom: { base: "b1", decoraciones: ["d2", "d1"] } };
+    expect(isSameCartLine(line, "TC001", "Feliz día", "M", { base: "b1", decoraciones: ["d1", "d2"] })).toBe(true);
+    expect(isSameCartLine(line, "TC001", "Feliz día", "L", line.custom)).toBe(false);
+    expect(isSameCartLine(line, "TC001", "", "M", line.custom)).toBe(false);
+    expect(isSameCartLine(line, "TC001", "Feliz día", "M", { base: "b2", decoraciones: [] })).toBe(false);
+    expect(isSameCartLine({ id: "TC001", qty: 1 }, "TC001", "", "")).toBe(true);
+  });
+});